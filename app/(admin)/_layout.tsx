@@ -1,7 +1,50 @@
-import { Tabs } from 'expo-router';
+import { Redirect, Tabs, useSegments } from 'expo-router';
 import { ChartBar as BarChart3, Users, Settings, Building, GraduationCap, Chrome as Home } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRoleGuard } from '@/hooks/useRoleGuard';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AdminPermission } from '@/lib/permissions';
+
+// Permission needed to open each tab, tabs not listed are open to every admin
+const TAB_PERMISSIONS: Record<string, AdminPermission> = {
+  students: 'view_students',
+  placements: 'view_placements',
+  companies: 'view_placements',
+  calendar: 'view_placements',
+  internships: 'view_internships',
+  analytics: 'view_analytics',
+  admins: 'manage_admins',
+  audit: 'view_audit',
+  lockouts: 'manage_admins',
+};
 
 export default function AdminLayout() {
+  const { user } = useAuth();
+  const segments = useSegments();
+  const guard = useRoleGuard('admin');
+  const { can } = usePermissions();
+
+  if (!guard.ready) {
+    return null;
+  }
+
+  if (guard.redirect) {
+    return <Redirect href={guard.redirect} />;
+  }
+
+  // Admins signed in with a temporary password must replace it before doing anything else
+  if (user?.mustChangePassword && segments[segments.length - 1] !== 'change-password') {
+    return <Redirect href="/(admin)/change-password" />;
+  }
+
+  const tabPermission = TAB_PERMISSIONS[(segments as string[])[1] ?? ''];
+  if (tabPermission && !can(tabPermission)) {
+    return <Redirect href="/not-authorized" />;
+  }
+
+  // Hide tabs the admin's role can't open
+  const tabHref = (name: string) => (can(TAB_PERMISSIONS[name]) ? undefined : null);
+
   return (
     <Tabs
       screenOptions={{
@@ -30,6 +73,7 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="students"
         options={{
+          href: tabHref('students'),
           title: 'Student',
           tabBarIcon: ({ size, color }) => (
             <Users size={size} color={color} />
@@ -39,6 +83,7 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="placements"
         options={{
+          href: tabHref('placements'),
           title: 'Placements',
           tabBarIcon: ({ size, color }) => (
             <Building size={size} color={color} />
@@ -48,6 +93,7 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="internships"
         options={{
+          href: tabHref('internships'),
           title: 'Internships',
           tabBarIcon: ({ size, color }) => (
             <GraduationCap size={size} color={color} />
@@ -57,13 +103,53 @@ export default function AdminLayout() {
       <Tabs.Screen
         name="analytics"
         options={{
+          href: tabHref('analytics'),
           title: 'Analytics',
           tabBarIcon: ({ size, color }) => (
             <BarChart3 size={size} color={color} />
           ),
         }}
       />
-      
+      <Tabs.Screen
+        name="admins"
+        options={{
+          href: tabHref('admins'),
+          title: 'Admins',
+          tabBarIcon: ({ size, color }) => (
+            <Settings size={size} color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="audit"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="companies"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="lockouts"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="change-password"
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -0,0 +1,637 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Modal } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useRouter } from 'expo-router';
+import { Plus, X, UserCog, Pencil, KeyRound, UserX, UserCheck, ShieldAlert } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { CLASS_NAMES } from '@/lib/constants';
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, AdminRole } from '@/lib/permissions';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+
+interface AdminAccount {
+  id: string;
+  admin_code: string;
+  name: string;
+  email: string;
+  role: AdminRole;
+  assigned_classes: string[];
+  is_active: boolean;
+  must_change_password: boolean;
+  created_at: string;
+}
+
+const emptyForm = {
+  name: '',
+  email: '',
+  admin_code: '',
+  role: 'auditor' as AdminRole,
+  assigned_classes: [] as string[],
+};
+
+export default function AdminUsersScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingAdmin, setEditingAdmin] = useState<AdminAccount | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAdmins();
+  }, []);
+
+  const loadAdmins = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('id, admin_code, name, email, role, assigned_classes, is_active, must_change_password, created_at')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAdmins(data || []);
+    } catch (error) {
+      console.error('Error loading admins:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Calls the admin-users function, which holds the service role key for auth changes
+  const invokeAdminUsers = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('admin-users', { body });
+
+    if (error) {
+      let message: string | undefined;
+      if (error instanceof FunctionsHttpError) {
+        message = (await error.context.json().catch(() => null))?.error;
+      }
+      return { success: false, error: message || 'Request failed. Please try again.' };
+    }
+
+    return { success: true, data };
+  };
+
+  const showTemporaryPassword = (admin: { name: string; admin_code: string }, password: string) => {
+    Alert.alert(
+      'Temporary Password',
+      `Share these details with ${admin.name}:\n\nAdmin code: ${admin.admin_code}\nPassword: ${password}\n\nThey will be asked to choose a new password when they log in. This password is not shown again.`
+    );
+  };
+
+  const openInvite = () => {
+    setEditingAdmin(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEdit = (admin: AdminAccount) => {
+    setEditingAdmin(admin);
+    setForm({
+      name: admin.name,
+      email: admin.email,
+      admin_code: admin.admin_code,
+      role: admin.role,
+      assigned_classes: admin.assigned_classes || [],
+    });
+    setShowModal(true);
+  };
+
+  const toggleClass = (className: string) => {
+    setForm(prev => ({
+      ...prev,
+      assigned_classes: prev.assigned_classes.includes(className)
+        ? prev.assigned_classes.filter(c => c !== className)
+        : [...prev.assigned_classes, className],
+    }));
+  };
+
+  const saveAdmin = async () => {
+    if (!form.name.trim() || !form.email.trim() || !form.admin_code.trim()) {
+      Alert.alert('Error', 'Please fill in name, email and admin code');
+      return;
+    }
+
+    if (form.role === 'class_teacher' && form.assigned_classes.length === 0) {
+      Alert.alert('Error', 'Please assign at least one class to the class teacher');
+      return;
+    }
+
+    const assignedClasses = form.role === 'class_teacher' ? form.assigned_classes : [];
+
+    try {
+      setSaving(true);
+
+      if (!editingAdmin) {
+        const result = await invokeAdminUsers({
+          action: 'invite',
+          name: form.name.trim(),
+          email: form.email.trim(),
+          adminCode: form.admin_code.trim(),
+          role: form.role,
+          assignedClasses,
+        });
+
+        if (!result.success) {
+          Alert.alert('Error', result.error);
+          return;
+        }
+
+        setShowModal(false);
+        showTemporaryPassword({ name: form.name.trim(), admin_code: form.admin_code.trim() }, result.data.temporaryPassword);
+      } else {
+        const { error } = await supabase
+          .from('admin_users')
+          .update({
+            name: form.name.trim(),
+            email: form.email.trim().toLowerCase(),
+            admin_code: form.admin_code.trim(),
+            role: form.role,
+            assigned_classes: assignedClasses,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', editingAdmin.id)
+          .setHeader(AUDIT_ACTION_HEADER, 'update_admin');
+
+        if (error) throw error;
+
+        setShowModal(false);
+        Alert.alert('Success', 'Admin updated successfully!');
+      }
+
+      loadAdmins();
+    } catch (error: any) {
+      console.error('Error saving admin:', error);
+      Alert.alert('Error', error?.message || 'Failed to save admin. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetPassword = (admin: AdminAccount) => {
+    Alert.alert(
+      'Reset Password',
+      `Generate a new temporary password for ${admin.name}? Their current password will stop working.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(admin.id);
+            const result = await invokeAdminUsers({ action: 'reset_password', adminId: admin.id });
+            setBusyId(null);
+
+            if (!result.success) {
+              Alert.alert('Error', result.error);
+              return;
+            }
+
+            showTemporaryPassword(admin, result.data.temporaryPassword);
+            loadAdmins();
+          },
+        },
+      ]
+    );
+  };
+
+  const setActive = (admin: AdminAccount, active: boolean) => {
+    Alert.alert(
+      active ? 'Reactivate Admin' : 'Deactivate Admin',
+      active
+        ? `Allow ${admin.name} to log in again?`
+        : `${admin.name} will be signed out and unable to log in until reactivated.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: active ? 'Reactivate' : 'Deactivate',
+          style: active ? 'default' : 'destructive',
+          onPress: async () => {
+            setBusyId(admin.id);
+            const result = await invokeAdminUsers({ action: 'set_active', adminId: admin.id, active });
+            setBusyId(null);
+
+            if (!result.success) {
+              Alert.alert('Error', result.error);
+              return;
+            }
+
+            loadAdmins();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading admins...</Text>
+        </View>
+      </LinearGradient>
+    );
+  }
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Admin Users</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.createButton} onPress={() => router.push('/(admin)/lockouts')}>
+            <ShieldAlert size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.createButton} onPress={openInvite}>
+            <Plus size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.adminsList}>
+          {admins.map((admin) => (
+            <View key={admin.id} style={[styles.adminCard, !admin.is_active && styles.adminCardInactive]}>
+              <View style={styles.adminHeader}>
+                <UserCog size={24} color={admin.is_active ? '#007AFF' : '#6B6B6B'} />
+                <View style={styles.adminInfo}>
+                  <Text style={styles.adminName}>
+                    {admin.name}{admin.id === user?.id ? ' (You)' : ''}
+                  </Text>
+                  <Text style={styles.adminMeta}>{admin.admin_code} • {admin.email}</Text>
+                </View>
+                <View style={[styles.statusBadge, { backgroundColor: admin.is_active ? '#34C759' : '#FF3B30' }]}>
+                  <Text style={styles.statusBadgeText}>{admin.is_active ? 'ACTIVE' : 'DEACTIVATED'}</Text>
+                </View>
+              </View>
+
+              <View style={styles.roleRow}>
+                <View style={styles.roleChip}>
+                  <Text style={styles.roleChipText}>{ADMIN_ROLE_LABELS[admin.role] || admin.role}</Text>
+                </View>
+                {admin.role === 'class_teacher' && admin.assigned_classes?.map((className) => (
+                  <View key={className} style={styles.classChip}>
+                    <Text style={styles.classChipText}>{className}</Text>
+                  </View>
+                ))}
+              </View>
+
+              {admin.must_change_password && admin.is_active && (
+                <Text style={styles.pendingText}>Waiting for first login with temporary password</Text>
+              )}
+
+              <View style={styles.actionsRow}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => openEdit(admin)}>
+                  <Pencil size={16} color="#007AFF" />
+                  <Text style={styles.actionButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => resetPassword(admin)}
+                  disabled={busyId === admin.id}
+                >
+                  <KeyRound size={16} color="#FF9500" />
+                  <Text style={[styles.actionButtonText, { color: '#FF9500' }]}>Reset</Text>
+                </TouchableOpacity>
+                {admin.id !== user?.id && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => setActive(admin, !admin.is_active)}
+                    disabled={busyId === admin.id}
+                  >
+                    {admin.is_active ? <UserX size={16} color="#FF3B30" /> : <UserCheck size={16} color="#34C759" />}
+                    <Text style={[styles.actionButtonText, { color: admin.is_active ? '#FF3B30' : '#34C759' }]}>
+                      {admin.is_active ? 'Deactivate' : 'Reactivate'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {/* Invite / Edit Admin Modal */}
+      <Modal visible={showModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{editingAdmin ? 'Edit Admin' : 'Invite Admin'}</Text>
+            <TouchableOpacity onPress={() => setShowModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., Priya Sharma"
+                value={form.name}
+                onChangeText={(text) => setForm(prev => ({ ...prev, name: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Email *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="name@college.edu"
+                value={form.email}
+                onChangeText={(text) => setForm(prev => ({ ...prev, email: text }))}
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Admin Code *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Used to log in, e.g., TPO01"
+                value={form.admin_code}
+                onChangeText={(text) => setForm(prev => ({ ...prev, admin_code: text }))}
+                autoCapitalize="characters"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Role *</Text>
+              <View style={styles.optionsContainer}>
+                {ADMIN_ROLES.map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[styles.option, form.role === role && styles.optionSelected]}
+                    onPress={() => setForm(prev => ({ ...prev, role }))}
+                  >
+                    <Text style={[styles.optionText, form.role === role && styles.optionTextSelected]}>
+                      {ADMIN_ROLE_LABELS[role]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {form.role === 'class_teacher' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Assigned Classes *</Text>
+                <Text style={styles.sublabel}>Class teachers only see and manage these classes</Text>
+                <View style={styles.optionsContainer}>
+                  {CLASS_NAMES.map((className) => (
+                    <TouchableOpacity
+                      key={className}
+                      style={[styles.option, form.assigned_classes.includes(className) && styles.optionSelected]}
+                      onPress={() => toggleClass(className)}
+                    >
+                      <Text style={[styles.optionText, form.assigned_classes.includes(className) && styles.optionTextSelected]}>
+                        {className}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.disabledButton]}
+              onPress={saveAdmin}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>
+                {saving ? 'Saving...' : editingAdmin ? 'Save Changes' : 'Invite Admin'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  createButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 12,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  adminsList: {
+    gap: 16,
+    paddingBottom: 40,
+  },
+  adminCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  adminCardInactive: {
+    opacity: 0.7,
+  },
+  adminHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  adminInfo: {
+    flex: 1,
+  },
+  adminName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  adminMeta: {
+    fontSize: 14,
+    color: '#6B6B6B',
+  },
+  statusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  roleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  roleChip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  roleChipText: {
+    fontSize: 12,
+    color: '#1C1C1E',
+    fontWeight: '600',
+  },
+  classChip: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  classChipText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  pendingText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  actionButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  sublabel: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabledButton: {
+    backgroundColor: '#C7C7CC',
+  },
+});
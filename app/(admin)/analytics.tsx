@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import { ChartBar as BarChart3, Users, Building, TrendingUp, Award, Download, ChartPie as PieChart } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
-import { formatDate } from '@/lib/utils';
+import { formatDate, formatCtc } from '@/lib/utils';
 import * as XLSX from 'xlsx';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
@@ -15,9 +16,78 @@ interface PlacementStats {
   acceptanceRate: number;
   companiesData: CompanyData[];
   classWiseStats: ClassStats[];
+  packageStats: PackageStats;
 }
 
+// Packages are worked out from accepted offers, in lakhs per annum
+interface PackageStats {
+  offersMade: number;
+  offersAccepted: number;
+  offersDeclined: number;
+  highestCtc: number;
+  averageCtc: number;
+  medianCtc: number;
+  companies: CompanyPackage[];
+}
+
+interface CompanyPackage {
+  company_id: string;
+  company_name: string;
+  offers: number;
+  highest_ctc: number;
+  average_ctc: number;
+}
+
+const emptyPackageStats: PackageStats = {
+  offersMade: 0,
+  offersAccepted: 0,
+  offersDeclined: 0,
+  highestCtc: 0,
+  averageCtc: 0,
+  medianCtc: 0,
+  companies: [],
+};
+
+const getMedian = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const getPackageStats = (
+  offers: { status: string; ctc_lpa: number; company_id: string; company_name: string }[]
+): PackageStats => {
+  const accepted = offers.filter(offer => offer.status === 'accepted');
+  const ctcs = accepted.map(offer => Number(offer.ctc_lpa));
+
+  const byCompany: { [companyId: string]: { company_name: string; values: number[] } } = {};
+  accepted.forEach(offer => {
+    const company = byCompany[offer.company_id] ||= { company_name: offer.company_name, values: [] };
+    company.values.push(Number(offer.ctc_lpa));
+  });
+
+  return {
+    offersMade: offers.filter(offer => offer.status !== 'revoked').length,
+    offersAccepted: accepted.length,
+    offersDeclined: offers.filter(offer => offer.status === 'declined').length,
+    highestCtc: ctcs.length > 0 ? Math.max(...ctcs) : 0,
+    averageCtc: ctcs.length > 0 ? ctcs.reduce((sum, ctc) => sum + ctc, 0) / ctcs.length : 0,
+    medianCtc: getMedian(ctcs),
+    companies: Object.entries(byCompany)
+      .map(([company_id, { company_name, values }]) => ({
+        company_id,
+        company_name,
+        offers: values.length,
+        highest_ctc: Math.max(...values),
+        average_ctc: values.reduce((sum, ctc) => sum + ctc, 0) / values.length,
+      }))
+      .sort((a, b) => b.highest_ctc - a.highest_ctc),
+  };
+};
+
 interface CompanyData {
+  company_id: string;
   company_name: string;
   total_applications: number;
   accepted_applications: number;
@@ -32,13 +102,15 @@ interface ClassStats {
 }
 
 export default function AnalyticsScreen() {
+  const router = useRouter();
   const [stats, setStats] = useState<PlacementStats>({
     totalCompanies: 0,
     totalApplications: 0,
     totalAccepted: 0,
     acceptanceRate: 0,
     companiesData: [],
-    classWiseStats: []
+    classWiseStats: [],
+    packageStats: emptyPackageStats,
   });
   const [loading, setLoading] = useState(true);
 
@@ -98,21 +170,27 @@ export default function AnalyticsScreen() {
           totalAccepted: 42,
           acceptanceRate: 26.9,
           companiesData: [
-            { company_name: 'Google', total_applications: 25, accepted_applications: 8, acceptance_rate: 32.0 },
-            { company_name: 'Microsoft', total_applications: 22, accepted_applications: 6, acceptance_rate: 27.3 },
-            { company_name: 'Amazon', total_applications: 28, accepted_applications: 7, acceptance_rate: 25.0 },
-            { company_name: 'Meta', total_applications: 18, accepted_applications: 5, acceptance_rate: 27.8 },
-            { company_name: 'Apple', total_applications: 15, accepted_applications: 4, acceptance_rate: 26.7 },
-            { company_name: 'Netflix', total_applications: 12, accepted_applications: 3, acceptance_rate: 25.0 },
-            { company_name: 'Tesla', total_applications: 20, accepted_applications: 5, acceptance_rate: 25.0 },
-            { company_name: 'Spotify', total_applications: 16, accepted_applications: 4, acceptance_rate: 25.0 }
+            { company_id: 'google', company_name: 'Google', total_applications: 25, accepted_applications: 8, acceptance_rate: 32.0 },
+            { company_id: 'microsoft', company_name: 'Microsoft', total_applications: 22, accepted_applications: 6, acceptance_rate: 27.3 },
+            { company_id: 'amazon', company_name: 'Amazon', total_applications: 28, accepted_applications: 7, acceptance_rate: 25.0 },
+            { company_id: 'meta', company_name: 'Meta', total_applications: 18, accepted_applications: 5, acceptance_rate: 27.8 },
+            { company_id: 'apple', company_name: 'Apple', total_applications: 15, accepted_applications: 4, acceptance_rate: 26.7 },
+            { company_id: 'netflix', company_name: 'Netflix', total_applications: 12, accepted_applications: 3, acceptance_rate: 25.0 },
+            { company_id: 'tesla', company_name: 'Tesla', total_applications: 20, accepted_applications: 5, acceptance_rate: 25.0 },
+            { company_id: 'spotify', company_name: 'Spotify', total_applications: 16, accepted_applications: 4, acceptance_rate: 25.0 }
           ],
           classWiseStats: [
             { class: 'TYIT', total_students: 25, applied_students: 23, accepted_students: 18 },
             { class: 'TYSD', total_students: 22, applied_students: 20, accepted_students: 15 },
             { class: 'SYIT', total_students: 28, applied_students: 0, accepted_students: 0 },
             { class: 'SYSD', total_students: 24, applied_students: 0, accepted_students: 0 }
-          ]
+          ],
+          packageStats: getPackageStats([
+            { status: 'accepted', ctc_lpa: 12, company_id: 'google', company_name: 'Google' },
+            { status: 'accepted', ctc_lpa: 10.5, company_id: 'microsoft', company_name: 'Microsoft' },
+            { status: 'accepted', ctc_lpa: 6, company_id: 'amazon', company_name: 'Amazon' },
+            { status: 'declined', ctc_lpa: 5, company_id: 'tesla', company_name: 'Tesla' },
+          ]),
         };
         setStats(mockStats);
         setLoading(false);
@@ -120,39 +198,53 @@ export default function AnalyticsScreen() {
       }
 
       // Real data queries
-      const [companiesResult, applicationsResult, classStatsResult] = await Promise.all([
+      const [companiesResult, applicationsResult, classStatsResult, offersResult] = await Promise.all([
         // Get total companies
-        supabase.from('placement_events').select('company_name').eq('is_active', true),
+        supabase.from('placement_events').select('company_id').eq('is_active', true),
         
         // Get applications with company data
         supabase.from('placement_applications').select(`
           *,
-          placement_events!inner(company_name)
+          placement_events!inner(company_id, company_name)
         `),
         
         // Get class-wise stats
-        supabase.from('student_profiles').select('class, student_id')
+        supabase.from('student_profiles').select('class, student_id'),
+
+        // Get offers with their company for package statistics
+        supabase.from('placement_offers').select(`
+          status,
+          ctc_lpa,
+          placement_applications!inner(placement_events!inner(company_id, company_name))
+        `)
       ]);
 
       const companies = companiesResult.data || [];
       const applications = applicationsResult.data || [];
       const classProfiles = classStatsResult.data || [];
+      const offers = (offersResult.data || []).map((offer: any) => ({
+        status: offer.status,
+        ctc_lpa: offer.ctc_lpa,
+        company_id: offer.placement_applications?.placement_events?.company_id,
+        company_name: offer.placement_applications?.placement_events?.company_name || 'Unknown',
+      }));
 
-      // Calculate company-wise stats
-      const companyStats: { [key: string]: { total: number; accepted: number } } = {};
+      // Calculate company-wise stats, keyed by company so renamed or differently spelled drives add up
+      const companyStats: { [companyId: string]: { name: string; total: number; accepted: number } } = {};
       applications.forEach(app => {
-        const companyName = app.placement_events.company_name;
-        if (!companyStats[companyName]) {
-          companyStats[companyName] = { total: 0, accepted: 0 };
+        const companyId = app.placement_events.company_id;
+        if (!companyStats[companyId]) {
+          companyStats[companyId] = { name: app.placement_events.company_name, total: 0, accepted: 0 };
         }
-        companyStats[companyName].total++;
+        companyStats[companyId].total++;
         if (app.application_status === 'accepted') {
-          companyStats[companyName].accepted++;
+          companyStats[companyId].accepted++;
         }
       });
 
-      const companiesData: CompanyData[] = Object.entries(companyStats).map(([company, data]) => ({
-        company_name: company,
+      const companiesData: CompanyData[] = Object.entries(companyStats).map(([companyId, data]) => ({
+        company_id: companyId,
+        company_name: data.name,
         total_applications: data.total,
         accepted_applications: data.accepted,
         acceptance_rate: data.total > 0 ? (data.accepted / data.total) * 100 : 0
@@ -236,12 +328,13 @@ export default function AnalyticsScreen() {
       const acceptanceRate = totalApplications > 0 ? (acceptedCount / totalApplications) * 100 : 0;
 
       setStats({
-        totalCompanies: new Set(companies.map(c => c.company_name)).size,
+        totalCompanies: new Set(companies.map(c => c.company_id)).size,
         totalApplications,
         totalAccepted,
         acceptanceRate,
         companiesData,
-        classWiseStats
+        classWiseStats,
+        packageStats: getPackageStats(offers),
       });
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -390,7 +483,39 @@ export default function AnalyticsScreen() {
       
       XLSX.utils.book_append_sheet(workbook, classSheet, 'Class Performance');
       
-      // 4. Detailed Statistics Sheet
+      // 4. Package Statistics Sheet
+      const packageData = [
+        ['PACKAGE STATISTICS (LPA)'],
+        [''],
+        ['Metric', 'Value'],
+        ['Offers Made', stats.packageStats.offersMade],
+        ['Offers Accepted', stats.packageStats.offersAccepted],
+        ['Offers Declined', stats.packageStats.offersDeclined],
+        ['Highest Package', stats.packageStats.highestCtc],
+        ['Average Package', Number(stats.packageStats.averageCtc.toFixed(2))],
+        ['Median Package', stats.packageStats.medianCtc],
+        [''],
+        ['Company Name', 'Accepted Offers', 'Highest Package', 'Average Package'],
+        ...stats.packageStats.companies.map(company => [
+          company.company_name,
+          company.offers,
+          company.highest_ctc,
+          Number(company.average_ctc.toFixed(2))
+        ])
+      ];
+
+      const packageSheet = XLSX.utils.aoa_to_sheet(packageData);
+
+      packageSheet['!cols'] = [
+        { wch: 25 }, // Metric/Company Name
+        { wch: 16 }, // Value/Accepted Offers
+        { wch: 16 }, // Highest Package
+        { wch: 16 }  // Average Package
+      ];
+
+      XLSX.utils.book_append_sheet(workbook, packageSheet, 'Package Statistics');
+
+      // 5. Detailed Statistics Sheet
       const detailedData = [
         ['DETAILED STATISTICS'],
         [''],
@@ -549,17 +674,68 @@ export default function AnalyticsScreen() {
               <Text style={[styles.tableHeaderText, { flex: 1 }]}>Accepted</Text>
               <Text style={[styles.tableHeaderText, { flex: 1 }]}>Rate</Text>
             </View>
-            {stats.companiesData.map((company, index) => (
-              <View key={index} style={styles.tableRow}>
-                <Text style={[styles.tableCell, { flex: 2 }]}>{company.company_name}</Text>
+            {stats.companiesData.map((company) => (
+              <TouchableOpacity
+                key={company.company_id}
+                style={styles.tableRow}
+                onPress={() => router.push(`/(admin)/companies/${company.company_id}`)}
+              >
+                <Text style={[styles.tableCell, styles.companyLink, { flex: 2 }]}>{company.company_name}</Text>
                 <Text style={[styles.tableCell, { flex: 1 }]}>{company.total_applications}</Text>
                 <Text style={[styles.tableCell, { flex: 1 }]}>{company.accepted_applications}</Text>
                 <Text style={[styles.tableCell, { flex: 1 }]}>{company.acceptance_rate.toFixed(1)}%</Text>
-              </View>
+              </TouchableOpacity>
             ))}
           </View>
         </View>
 
+        {/* Package Statistics */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Package Statistics</Text>
+          <View style={styles.overviewCards}>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>{formatCtc(stats.packageStats.highestCtc)}</Text>
+              <Text style={styles.statLabel}>Highest</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>{formatCtc(stats.packageStats.averageCtc)}</Text>
+              <Text style={styles.statLabel}>Average</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>{formatCtc(stats.packageStats.medianCtc)}</Text>
+              <Text style={styles.statLabel}>Median</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>
+                {stats.packageStats.offersAccepted}/{stats.packageStats.offersMade}
+              </Text>
+              <Text style={styles.statLabel}>Offers Accepted</Text>
+            </View>
+          </View>
+          {stats.packageStats.companies.length > 0 && (
+            <View style={styles.tableContainer}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderText, { flex: 2 }]}>Company</Text>
+                <Text style={[styles.tableHeaderText, { flex: 1 }]}>Offers</Text>
+                <Text style={[styles.tableHeaderText, { flex: 1 }]}>Highest</Text>
+                <Text style={[styles.tableHeaderText, { flex: 1 }]}>Average</Text>
+              </View>
+              {stats.packageStats.companies.map((company) => (
+                <TouchableOpacity
+                  key={company.company_id}
+                  style={styles.tableRow}
+                  onPress={() => router.push(`/(admin)/companies/${company.company_id}`)}
+                >
+                  <Text style={[styles.tableCell, styles.companyLink, { flex: 2 }]}>{company.company_name}</Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>{company.offers}</Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>{company.highest_ctc}</Text>
+                  <Text style={[styles.tableCell, { flex: 1 }]}>{company.average_ctc.toFixed(1)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
         {/* Class-wise Statistics */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Class Performance</Text>
@@ -787,6 +963,9 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     textAlign: 'center',
   },
+  companyLink: {
+    color: '#007AFF',
+  },
   chartContainer: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
@@ -0,0 +1,649 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Download, ShieldCheck, Search, History } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { AUDIT_ENTITY_LABELS, getAuditActionLabel, getChangedFields } from '@/lib/audit';
+import { ADMIN_ROLE_LABELS, AdminRole } from '@/lib/permissions';
+import * as XLSX from 'xlsx';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+interface AuditEvent {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_role: string | null;
+  action: string;
+  entity: string;
+  entity_id: string | null;
+  student_id: string | null;
+  before_data: Record<string, any> | null;
+  after_data: Record<string, any> | null;
+  hash: string;
+}
+
+interface AdminOption {
+  id: string;
+  name: string;
+}
+
+// Newest events first; narrow the filters to look further back
+const MAX_EVENTS = 200;
+
+const isValidDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLogScreen() {
+  const router = useRouter();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [admins, setAdmins] = useState<AdminOption[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const [filters, setFilters] = useState({
+    actorId: '',
+    entity: '',
+    student: '',
+    from: '',
+    to: '',
+  });
+
+  useEffect(() => {
+    loadAdmins();
+    loadEvents();
+  }, []);
+
+  const loadAdmins = async () => {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('id, name')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error loading admins:', error);
+      return;
+    }
+    setAdmins(data || []);
+  };
+
+  const loadEvents = async () => {
+    if ((filters.from && !isValidDate(filters.from)) || (filters.to && !isValidDate(filters.to))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('audit_events')
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(MAX_EVENTS);
+
+      if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+      if (filters.entity) query = query.eq('entity', filters.entity);
+      if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) query = query.lte('occurred_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      // Match the student search against name, UID or roll number
+      const studentSearch = filters.student.trim().replace(/[,()]/g, '');
+      if (studentSearch) {
+        const { data: matches, error: studentError } = await supabase
+          .from('students')
+          .select('id')
+          .or(`name.ilike.%${studentSearch}%,uid.ilike.%${studentSearch}%,roll_no.ilike.%${studentSearch}%`);
+
+        if (studentError) throw studentError;
+
+        const ids = (matches || []).map(s => s.id);
+        if (ids.length === 0) {
+          setEvents([]);
+          return;
+        }
+        query = query.in('student_id', ids);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEvents(data || []);
+      await loadStudentNames(data || []);
+    } catch (error) {
+      console.error('Error loading audit events:', error);
+      Alert.alert('Error', 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadStudentNames = async (auditEvents: AuditEvent[]) => {
+    const ids = Array.from(new Set(auditEvents.map(e => e.student_id).filter(Boolean))) as string[];
+    if (ids.length === 0) return;
+
+    const { data } = await supabase
+      .from('students')
+      .select('id, name, uid')
+      .in('id', ids);
+
+    const names: Record<string, string> = {};
+    (data || []).forEach((s: any) => {
+      names[s.id] = `${s.name} (${s.uid})`;
+    });
+    setStudentNames(names);
+  };
+
+  const clearFilters = () => {
+    setFilters({ actorId: '', entity: '', student: '', from: '', to: '' });
+  };
+
+  const verifyChain = async () => {
+    try {
+      setVerifying(true);
+      const { data, error } = await supabase.rpc('verify_audit_chain');
+      if (error) throw error;
+
+      const result = Array.isArray(data) ? data[0] : data;
+      if (result?.valid) {
+        Alert.alert('Audit Log Verified', `All ${result.checked_count} events are intact.`);
+      } else {
+        Alert.alert(
+          'Audit Log Tampered',
+          `Event #${result?.first_invalid_id} does not match its recorded hash. Events from this point on may have been altered or removed.`
+        );
+      }
+    } catch (error) {
+      console.error('Verify audit chain error:', error);
+      Alert.alert('Error', 'Could not verify the audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const describeChanges = (event: AuditEvent) => {
+    if (!event.before_data && !event.after_data) return '';
+    if (!event.before_data) return 'Created';
+    if (!event.after_data) return 'Deleted';
+    return getChangedFields(event.before_data, event.after_data)
+      .map(change => `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`)
+      .join('; ');
+  };
+
+  const exportToExcel = async () => {
+    if (events.length === 0) {
+      Alert.alert('No Data', 'No audit events to export');
+      return;
+    }
+
+    try {
+      const exportData = events.map((event) => ({
+        'Event ID': event.id,
+        'Date & Time': new Date(event.occurred_at).toISOString(),
+        'Actor': event.actor_name || event.actor_id || 'System',
+        'Actor Role': event.actor_role ? ADMIN_ROLE_LABELS[event.actor_role as AdminRole] || event.actor_role : 'N/A',
+        'Action': getAuditActionLabel(event.action),
+        'Entity': AUDIT_ENTITY_LABELS[event.entity] || event.entity,
+        'Entity ID': event.entity_id || 'N/A',
+        'Student': event.student_id ? studentNames[event.student_id] || event.student_id : 'N/A',
+        'Changes': describeChanges(event),
+        'Before': event.before_data ? JSON.stringify(event.before_data) : '',
+        'After': event.after_data ? JSON.stringify(event.after_data) : '',
+        'Hash': event.hash,
+      }));
+
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(exportData);
+
+      ws['!cols'] = [
+        { wch: 10 },  // Event ID
+        { wch: 24 },  // Date & Time
+        { wch: 20 },  // Actor
+        { wch: 18 },  // Actor Role
+        { wch: 22 },  // Action
+        { wch: 22 },  // Entity
+        { wch: 38 },  // Entity ID
+        { wch: 28 },  // Student
+        { wch: 40 },  // Changes
+        { wch: 40 },  // Before
+        { wch: 40 },  // After
+        { wch: 66 },  // Hash
+      ];
+
+      XLSX.utils.book_append_sheet(wb, ws, 'Audit Log');
+
+      const timestamp = new Date().toISOString().split('T')[0];
+      const filename = `Audit_Log_${timestamp}.xlsx`;
+
+      if (Platform.OS === 'web') {
+        const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+        const blob = new Blob([wbout], {
+          type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        });
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      } else {
+        const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'base64' });
+        const fileUri = (FileSystem.documentDirectory || '/tmp/') + filename;
+
+        await FileSystem.writeAsStringAsync(fileUri, wbout, {
+          encoding: FileSystem.EncodingType?.Base64 || 'base64' as any,
+        });
+
+        const isAvailable = await Sharing.isAvailableAsync();
+        if (isAvailable) {
+          await Sharing.shareAsync(fileUri, {
+            mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            dialogTitle: 'Save Audit Log',
+            UTI: 'com.microsoft.excel.xlsx'
+          });
+        } else {
+          Alert.alert('File Saved', `Excel file saved to: ${fileUri}`);
+        }
+      }
+
+      Alert.alert('Success', 'Audit log exported successfully!');
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Could not export the audit log');
+    }
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ChevronLeft size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Audit Log</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity onPress={verifyChain} style={styles.headerButton} disabled={verifying}>
+            <ShieldCheck size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={exportToExcel} style={styles.headerButton}>
+            <Download size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.filtersCard}>
+          <Text style={styles.filterLabel}>Actor</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !filters.actorId && styles.chipSelected]}
+              onPress={() => setFilters(prev => ({ ...prev, actorId: '' }))}
+            >
+              <Text style={[styles.chipText, !filters.actorId && styles.chipTextSelected]}>All</Text>
+            </TouchableOpacity>
+            {admins.map((admin) => (
+              <TouchableOpacity
+                key={admin.id}
+                style={[styles.chip, filters.actorId === admin.id && styles.chipSelected]}
+                onPress={() => setFilters(prev => ({ ...prev, actorId: admin.id }))}
+              >
+                <Text style={[styles.chipText, filters.actorId === admin.id && styles.chipTextSelected]}>
+                  {admin.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.filterLabel}>Entity</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !filters.entity && styles.chipSelected]}
+              onPress={() => setFilters(prev => ({ ...prev, entity: '' }))}
+            >
+              <Text style={[styles.chipText, !filters.entity && styles.chipTextSelected]}>All</Text>
+            </TouchableOpacity>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([entity, label]) => (
+              <TouchableOpacity
+                key={entity}
+                style={[styles.chip, filters.entity === entity && styles.chipSelected]}
+                onPress={() => setFilters(prev => ({ ...prev, entity }))}
+              >
+                <Text style={[styles.chipText, filters.entity === entity && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.filterLabel}>Student</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Name, UID or roll number"
+            value={filters.student}
+            onChangeText={(text) => setFilters(prev => ({ ...prev, student: text }))}
+            autoCapitalize="none"
+          />
+
+          <View style={styles.dateRow}>
+            <View style={styles.dateField}>
+              <Text style={styles.filterLabel}>From</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={filters.from}
+                onChangeText={(text) => setFilters(prev => ({ ...prev, from: text.trim() }))}
+              />
+            </View>
+            <View style={styles.dateField}>
+              <Text style={styles.filterLabel}>To</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={filters.to}
+                onChangeText={(text) => setFilters(prev => ({ ...prev, to: text.trim() }))}
+              />
+            </View>
+          </View>
+
+          <View style={styles.filterActions}>
+            <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={loadEvents}>
+              <Search size={16} color="#FFFFFF" />
+              <Text style={styles.applyButtonText}>Apply Filters</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <Text style={styles.loadingText}>Loading audit events...</Text>
+        ) : events.length === 0 ? (
+          <View style={styles.emptyState}>
+            <History size={48} color="#FFFFFF" />
+            <Text style={styles.emptyText}>No audit events match these filters</Text>
+          </View>
+        ) : (
+          <View style={styles.eventsList}>
+            <Text style={styles.resultCount}>
+              {events.length === MAX_EVENTS ? `Latest ${MAX_EVENTS} events` : `${events.length} events`}
+            </Text>
+            {events.map((event) => {
+              const changes = event.before_data && event.after_data
+                ? getChangedFields(event.before_data, event.after_data)
+                : [];
+
+              return (
+                <TouchableOpacity
+                  key={event.id}
+                  style={styles.eventCard}
+                  onPress={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.eventHeader}>
+                    <Text style={styles.eventAction}>{getAuditActionLabel(event.action)}</Text>
+                    <Text style={styles.eventId}>#{event.id}</Text>
+                  </View>
+                  <Text style={styles.eventMeta}>
+                    {AUDIT_ENTITY_LABELS[event.entity] || event.entity} • {formatDateTime(event.occurred_at)}
+                  </Text>
+                  <Text style={styles.eventActor}>
+                    By {event.actor_name || 'System'}
+                    {event.actor_role ? ` (${ADMIN_ROLE_LABELS[event.actor_role as AdminRole] || event.actor_role})` : ''}
+                  </Text>
+                  {event.student_id && (
+                    <Text style={styles.eventStudent}>
+                      Student: {studentNames[event.student_id] || event.student_id}
+                    </Text>
+                  )}
+
+                  {expandedId === event.id && (
+                    <View style={styles.changesBox}>
+                      {changes.length > 0 ? (
+                        changes.map((change) => (
+                          <Text key={change.field} style={styles.changeText}>
+                            <Text style={styles.changeField}>{change.field}: </Text>
+                            {formatValue(change.before)} → {formatValue(change.after)}
+                          </Text>
+                        ))
+                      ) : (
+                        <Text style={styles.changeText}>
+                          {event.after_data
+                            ? JSON.stringify(event.after_data, null, 2)
+                            : event.before_data
+                            ? JSON.stringify(event.before_data, null, 2)
+                            : 'No row data recorded'}
+                        </Text>
+                      )}
+                      <Text style={styles.hashText}>Hash: {event.hash}</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerRight: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  filtersCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1C1C1E',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  filterActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  clearButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  clearButtonText: {
+    color: '#6B6B6B',
+    fontWeight: '600',
+  },
+  applyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  resultCount: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  eventsList: {
+    gap: 12,
+    paddingBottom: 40,
+  },
+  eventCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  eventAction: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  eventId: {
+    fontSize: 12,
+    color: '#6B6B6B',
+  },
+  eventMeta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginBottom: 4,
+  },
+  eventActor: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  eventStudent: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    marginTop: 2,
+  },
+  changesBox: {
+    marginTop: 12,
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  changeText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  changeField: {
+    fontWeight: '600',
+  },
+  hashText: {
+    fontSize: 11,
+    color: '#6B6B6B',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Lock, KeyRound } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function ChangePasswordScreen() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const { user, changeAdminPassword } = useAuth();
+
+  const forced = !!user?.mustChangePassword;
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setError('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    const result = await changeAdminPassword(currentPassword, newPassword);
+
+    setSaving(false);
+
+    if (result.success) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('Success', 'Your password has been changed.');
+      router.replace('/(admin)');
+    } else {
+      setError(result.error || 'Failed to change password');
+    }
+  };
+
+  const isFormValid = currentPassword && newPassword && confirmPassword;
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        {!forced && (
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        )}
+        <Text style={styles.headerTitle}>Change Password</Text>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <View style={styles.iconContainer}>
+            <KeyRound size={32} color="#007AFF" />
+          </View>
+          <Text style={styles.title}>
+            {forced ? 'Set a New Password' : 'Update Your Password'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {forced
+              ? 'You signed in with a temporary password. Choose a new one to continue.'
+              : 'Enter your current password and choose a new one.'}
+          </Text>
+
+          <View style={styles.inputContainer}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <View style={styles.inputWrapper}>
+              <Lock size={20} color="#6B6B6B" style={styles.inputIcon} />
+              <TextInput
+                style={styles.input}
+                placeholder="Current Password"
+                value={currentPassword}
+                onChangeText={setCurrentPassword}
+                secureTextEntry
+                placeholderTextColor="#6B6B6B"
+              />
+            </View>
+
+            <View style={styles.inputWrapper}>
+              <Lock size={20} color="#6B6B6B" style={styles.inputIcon} />
+              <TextInput
+                style={styles.input}
+                placeholder="New Password (min. 8 characters)"
+                value={newPassword}
+                onChangeText={setNewPassword}
+                secureTextEntry
+                placeholderTextColor="#6B6B6B"
+              />
+            </View>
+
+            <View style={styles.inputWrapper}>
+              <Lock size={20} color="#6B6B6B" style={styles.inputIcon} />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirm New Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                placeholderTextColor="#6B6B6B"
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, (!isFormValid || saving) && styles.disabledButton]}
+            onPress={handleChangePassword}
+            disabled={!isFormValid || saving}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : 'Change Password'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 32,
+    marginBottom: 40,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.1,
+    shadowRadius: 16,
+    elevation: 16,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B6B6B',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  inputContainer: {
+    gap: 16,
+    marginBottom: 24,
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  errorContainer: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 8,
+    padding: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#D32F2F',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,929 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Modal, Image } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ChevronLeft, Pencil, X, Building2, Globe, ImagePlus, UserPlus, Trash2, Mail, Phone, Star } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as WebBrowser from 'expo-web-browser';
+import { supabase, getSignedUrl, uploadFile } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+import { formatCtc, formatDate, getPlacementEventStatus, getStatusColor } from '@/lib/utils';
+
+interface Company {
+  id: string;
+  name: string;
+  sector: string | null;
+  website: string | null;
+  logo_url: string | null;
+  notes: string | null;
+}
+
+interface CompanyContact {
+  id: string;
+  name: string;
+  designation: string | null;
+  email: string | null;
+  phone: string | null;
+  is_primary: boolean;
+}
+
+interface CompanyDrive {
+  id: string;
+  title: string;
+  event_date: string;
+  application_deadline: string;
+  status: string;
+  archived_at: string | null;
+  academic_year: string;
+  placement_applications: {
+    id: string;
+    placement_offers: { status: string; ctc_lpa: number } | null;
+  }[];
+}
+
+const emptyContactForm = { name: '', designation: '', email: '', phone: '', is_primary: false };
+
+// Average CTC only counts accepted offers, the same as the analytics package statistics
+const getDriveStats = (applications: CompanyDrive['placement_applications']) => {
+  const offers = applications
+    .map(application => application.placement_offers)
+    .filter((offer): offer is { status: string; ctc_lpa: number } => !!offer && offer.status !== 'revoked');
+  const accepted = offers.filter(offer => offer.status === 'accepted').map(offer => Number(offer.ctc_lpa));
+
+  return {
+    applications: applications.length,
+    offers: offers.length,
+    accepted,
+  };
+};
+
+const getAverage = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export default function CompanyProfileScreen() {
+  const router = useRouter();
+  const { companyId } = useLocalSearchParams<{ companyId: string }>();
+  const { can } = usePermissions();
+
+  const [company, setCompany] = useState<Company | null>(null);
+  const [logo, setLogo] = useState<string | null>(null);
+  const [contacts, setContacts] = useState<CompanyContact[]>([]);
+  const [drives, setDrives] = useState<CompanyDrive[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [companyForm, setCompanyForm] = useState({ name: '', sector: '', website: '', notes: '' });
+  const [showContactModal, setShowContactModal] = useState(false);
+  const [contactForm, setContactForm] = useState(emptyContactForm);
+  const [saving, setSaving] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+
+  useEffect(() => {
+    loadCompany();
+  }, [companyId]);
+
+  const loadCompany = async () => {
+    if (!companyId) return;
+    try {
+      setLoading(true);
+      const [companyResult, contactsResult, drivesResult] = await Promise.all([
+        supabase.from('companies').select('*').eq('id', companyId).single(),
+        supabase
+          .from('company_contacts')
+          .select('*')
+          .eq('company_id', companyId)
+          .order('is_primary', { ascending: false })
+          .order('name'),
+        supabase
+          .from('placement_events')
+          .select(`
+            *,
+            placement_applications (
+              id,
+              placement_offers (status, ctc_lpa)
+            )
+          `)
+          .eq('company_id', companyId)
+          .order('event_date', { ascending: false }),
+      ]);
+
+      if (companyResult.error) throw companyResult.error;
+      if (contactsResult.error) throw contactsResult.error;
+      if (drivesResult.error) throw drivesResult.error;
+
+      setCompany(companyResult.data);
+      setContacts(contactsResult.data || []);
+      setDrives(drivesResult.data || []);
+      setLogo(companyResult.data.logo_url ? await getSignedUrl(companyResult.data.logo_url) : null);
+    } catch (error) {
+      console.error('Error loading company:', error);
+      Alert.alert('Error', 'Failed to load the company');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditModal = () => {
+    if (!company) return;
+    setCompanyForm({
+      name: company.name,
+      sector: company.sector || '',
+      website: company.website || '',
+      notes: company.notes || '',
+    });
+    setShowEditModal(true);
+  };
+
+  const saveCompany = async () => {
+    if (!company) return;
+    if (!companyForm.name.trim()) {
+      Alert.alert('Error', 'Please enter the company name');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('companies')
+      .update({
+        name: companyForm.name.trim(),
+        sector: companyForm.sector.trim() || null,
+        website: companyForm.website.trim() || null,
+        notes: companyForm.notes.trim() || null,
+      })
+      .eq('id', company.id)
+      .select('*')
+      .single()
+      .setHeader(AUDIT_ACTION_HEADER, 'update_company');
+    setSaving(false);
+
+    if (error) {
+      console.error('Error updating company:', error);
+      Alert.alert('Error', error.code === '23505'
+        ? 'Another company already has this name'
+        : 'Failed to update the company');
+      return;
+    }
+
+    setCompany(data);
+    setShowEditModal(false);
+  };
+
+  const uploadLogo = async () => {
+    if (!company) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'image/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) return;
+
+      setUploadingLogo(true);
+      const file = result.assets[0];
+      const extension = file.name.split('.').pop() || 'png';
+      const response = await fetch(file.uri);
+      const blob = await response.blob();
+
+      const { fileUrl } = await uploadFile('company-logos', `${company.id}/logo_${Date.now()}.${extension}`, blob, {
+        contentType: file.mimeType || 'image/png',
+      });
+
+      const { error } = await supabase
+        .from('companies')
+        .update({ logo_url: fileUrl })
+        .eq('id', company.id)
+        .setHeader(AUDIT_ACTION_HEADER, 'update_company');
+
+      if (error) throw error;
+
+      setCompany(prev => prev ? { ...prev, logo_url: fileUrl } : prev);
+      setLogo(await getSignedUrl(fileUrl));
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      Alert.alert('Error', 'Failed to upload the logo');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const addContact = async () => {
+    if (!company) return;
+    if (!contactForm.name.trim()) {
+      Alert.alert('Error', 'Please enter the contact\'s name');
+      return;
+    }
+    if (!contactForm.email.trim() && !contactForm.phone.trim()) {
+      Alert.alert('Error', 'Please enter an email or phone number');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('company_contacts')
+      .insert({
+        company_id: company.id,
+        name: contactForm.name.trim(),
+        designation: contactForm.designation.trim() || null,
+        email: contactForm.email.trim() || null,
+        phone: contactForm.phone.trim() || null,
+        is_primary: contactForm.is_primary,
+      })
+      .select('*')
+      .single()
+      .setHeader(AUDIT_ACTION_HEADER, 'add_company_contact');
+    setSaving(false);
+
+    if (error) {
+      console.error('Error adding contact:', error);
+      Alert.alert('Error', 'Failed to add the contact');
+      return;
+    }
+
+    setContacts(prev => [...prev, data].sort((a, b) =>
+      Number(b.is_primary) - Number(a.is_primary) || a.name.localeCompare(b.name)
+    ));
+    setContactForm(emptyContactForm);
+    setShowContactModal(false);
+  };
+
+  const removeContact = (contact: CompanyContact) => {
+    Alert.alert(
+      'Remove Contact',
+      `Remove ${contact.name} from ${company?.name}'s contacts?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('company_contacts')
+              .delete()
+              .eq('id', contact.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'remove_company_contact');
+
+            if (error) {
+              console.error('Error removing contact:', error);
+              Alert.alert('Error', 'Failed to remove the contact');
+              return;
+            }
+
+            setContacts(prev => prev.filter(c => c.id !== contact.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const deleteCompany = () => {
+    if (!company) return;
+    Alert.alert(
+      'Delete Company',
+      `Delete ${company.name} and its contacts? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('companies')
+              .delete()
+              .eq('id', company.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'delete_company');
+
+            if (error) {
+              console.error('Error deleting company:', error);
+              Alert.alert('Error', 'Failed to delete the company');
+              return;
+            }
+
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const driveStats = drives.map(drive => getDriveStats(drive.placement_applications || []));
+  const acceptedCtcs = driveStats.flatMap(stats => stats.accepted);
+  const totals = {
+    applications: driveStats.reduce((sum, stats) => sum + stats.applications, 0),
+    offers: driveStats.reduce((sum, stats) => sum + stats.offers, 0),
+    averageCtc: getAverage(acceptedCtcs),
+  };
+
+  if (loading || !company) {
+    return (
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+            <ChevronLeft size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.loadingText}>{loading ? 'Loading company...' : 'Company not found'}</Text>
+      </LinearGradient>
+    );
+  }
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ChevronLeft size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{company.name}</Text>
+        {can('manage_placements') ? (
+          <TouchableOpacity onPress={openEditModal} style={styles.headerButton}>
+            <Pencil size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <View style={styles.profileRow}>
+            {logo ? (
+              <Image source={{ uri: logo }} style={styles.logo} />
+            ) : (
+              <View style={[styles.logo, styles.logoPlaceholder]}>
+                <Building2 size={32} color="#667eea" />
+              </View>
+            )}
+            <View style={styles.profileInfo}>
+              <Text style={styles.companyName}>{company.name}</Text>
+              <Text style={styles.meta}>{company.sector || 'No sector'}</Text>
+              {company.website && (
+                <TouchableOpacity
+                  style={styles.linkRow}
+                  onPress={() => WebBrowser.openBrowserAsync(
+                    /^https?:\/\//i.test(company.website!) ? company.website! : `https://${company.website}`
+                  )}
+                >
+                  <Globe size={14} color="#007AFF" />
+                  <Text style={styles.linkText} numberOfLines={1}>{company.website}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {company.notes && <Text style={styles.notes}>{company.notes}</Text>}
+
+          {can('manage_placements') && (
+            <TouchableOpacity
+              style={[styles.secondaryButton, uploadingLogo && styles.disabledButton]}
+              onPress={uploadLogo}
+              disabled={uploadingLogo}
+            >
+              <ImagePlus size={16} color="#007AFF" />
+              <Text style={styles.secondaryButtonText}>
+                {uploadingLogo ? 'Uploading...' : company.logo_url ? 'Change Logo' : 'Upload Logo'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{drives.length}</Text>
+            <Text style={styles.statLabel}>Drives</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{totals.applications}</Text>
+            <Text style={styles.statLabel}>Applications</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{totals.offers}</Text>
+            <Text style={styles.statLabel}>Offers</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{acceptedCtcs.length > 0 ? formatCtc(totals.averageCtc) : '—'}</Text>
+            <Text style={styles.statLabel}>Avg CTC</Text>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>HR Contacts</Text>
+            {can('manage_placements') && (
+              <TouchableOpacity onPress={() => setShowContactModal(true)}>
+                <UserPlus size={20} color="#007AFF" />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {contacts.length === 0 ? (
+            <Text style={styles.emptyText}>No contacts yet</Text>
+          ) : (
+            contacts.map((contact) => (
+              <View key={contact.id} style={styles.contactRow}>
+                <View style={styles.contactInfo}>
+                  <View style={styles.contactNameRow}>
+                    <Text style={styles.contactName}>{contact.name}</Text>
+                    {contact.is_primary && <Star size={14} color="#FF9500" fill="#FF9500" />}
+                  </View>
+                  {contact.designation && <Text style={styles.meta}>{contact.designation}</Text>}
+                  {contact.email && (
+                    <View style={styles.linkRow}>
+                      <Mail size={13} color="#6B6B6B" />
+                      <Text style={styles.meta}>{contact.email}</Text>
+                    </View>
+                  )}
+                  {contact.phone && (
+                    <View style={styles.linkRow}>
+                      <Phone size={13} color="#6B6B6B" />
+                      <Text style={styles.meta}>{contact.phone}</Text>
+                    </View>
+                  )}
+                </View>
+                {can('manage_placements') && (
+                  <TouchableOpacity onPress={() => removeContact(contact)}>
+                    <Trash2 size={18} color="#FF3B30" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Placement Drives</Text>
+
+          {drives.length === 0 ? (
+            <Text style={styles.emptyText}>No drives yet</Text>
+          ) : (
+            drives.map((drive, index) => {
+              const stats = driveStats[index];
+              const status = getPlacementEventStatus(drive);
+              return (
+                <View key={drive.id} style={styles.driveRow}>
+                  <View style={styles.driveHeader}>
+                    <Text style={styles.driveTitle} numberOfLines={1}>{drive.title}</Text>
+                    <View style={[
+                      styles.statusBadge,
+                      { backgroundColor: drive.archived_at ? '#8E8E93' : getStatusColor(status) },
+                    ]}>
+                      <Text style={styles.statusBadgeText}>
+                        {drive.archived_at ? 'ARCHIVED' : status.toUpperCase()}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text style={styles.meta}>{formatDate(drive.event_date)} • {drive.academic_year}</Text>
+                  <Text style={styles.meta}>
+                    {stats.applications} application{stats.applications === 1 ? '' : 's'} • {stats.offers} offer{stats.offers === 1 ? '' : 's'}
+                    {stats.accepted.length > 0 ? ` • avg ${formatCtc(getAverage(stats.accepted))}` : ''}
+                  </Text>
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        {can('manage_placements') && drives.length === 0 && (
+          <TouchableOpacity style={styles.deleteButton} onPress={deleteCompany}>
+            <Trash2 size={16} color="#FFFFFF" />
+            <Text style={styles.deleteButtonText}>Delete Company</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal visible={showEditModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Edit Company</Text>
+            <TouchableOpacity onPress={() => setShowEditModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Company Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={companyForm.name}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, name: text }))}
+              />
+              <Text style={styles.hint}>Renaming also updates the name on this company's drives</Text>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Sector</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. IT Services"
+                value={companyForm.sector}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, sector: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Website</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="https://"
+                autoCapitalize="none"
+                keyboardType="url"
+                value={companyForm.website}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, website: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                multiline
+                value={companyForm.notes}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, notes: text }))}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.disabledButton]}
+              onPress={saveCompany}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Changes'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      <Modal visible={showContactModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Add Contact</Text>
+            <TouchableOpacity onPress={() => setShowContactModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={contactForm.name}
+                onChangeText={(text) => setContactForm(prev => ({ ...prev, name: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Designation</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. HR Manager"
+                value={contactForm.designation}
+                onChangeText={(text) => setContactForm(prev => ({ ...prev, designation: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Email</Text>
+              <TextInput
+                style={styles.input}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                value={contactForm.email}
+                onChangeText={(text) => setContactForm(prev => ({ ...prev, email: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Phone</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="phone-pad"
+                value={contactForm.phone}
+                onChangeText={(text) => setContactForm(prev => ({ ...prev, phone: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <TouchableOpacity
+                style={[styles.classOption, contactForm.is_primary && styles.classOptionSelected]}
+                onPress={() => setContactForm(prev => ({ ...prev, is_primary: !prev.is_primary }))}
+              >
+                <Text style={[styles.classOptionText, contactForm.is_primary && styles.classOptionTextSelected]}>
+                  Primary Contact
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.disabledButton]}
+              onPress={addContact}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Add Contact'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+  },
+  logoPlaceholder: {
+    backgroundColor: '#F2F2F7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  profileInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  companyName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 2,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  notes: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    lineHeight: 20,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  contactInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  contactNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  contactName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  driveRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+    gap: 2,
+  },
+  driveHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  driveTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  statusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginBottom: 40,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 6,
+  },
+  classOption: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  classOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  classOptionText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    fontWeight: '500',
+  },
+  classOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,10 @@
+import { Stack } from 'expo-router';
+
+export default function CompaniesLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="[companyId]" />
+    </Stack>
+  );
+}
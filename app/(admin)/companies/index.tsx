@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, Modal, Image } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Plus, X, Building2, Search } from 'lucide-react-native';
+import { supabase, getSignedUrls } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+
+interface CompanySummary {
+  id: string;
+  name: string;
+  sector: string | null;
+  logo_url: string | null;
+  placement_events: { count: number }[];
+}
+
+const emptyCompanyForm = { name: '', sector: '', website: '', notes: '' };
+
+export default function CompaniesScreen() {
+  const router = useRouter();
+  const { can } = usePermissions();
+  const [companies, setCompanies] = useState<CompanySummary[]>([]);
+  const [logos, setLogos] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [companyForm, setCompanyForm] = useState(emptyCompanyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCompanies();
+  }, []);
+
+  const loadCompanies = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('companies')
+        .select('id, name, sector, logo_url, placement_events(count)')
+        .order('name');
+
+      if (error) throw error;
+      const rows = (data || []) as CompanySummary[];
+      setCompanies(rows);
+
+      const withLogos = rows.filter(company => company.logo_url);
+      const signed = await getSignedUrls(withLogos.map(company => company.logo_url!));
+      setLogos(Object.fromEntries(withLogos.map((company, index) => [company.id, signed[index]])));
+    } catch (error) {
+      console.error('Error loading companies:', error);
+      Alert.alert('Error', 'Failed to load companies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createCompany = async () => {
+    if (!companyForm.name.trim()) {
+      Alert.alert('Error', 'Please enter the company name');
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({
+        name: companyForm.name.trim(),
+        sector: companyForm.sector.trim() || null,
+        website: companyForm.website.trim() || null,
+        notes: companyForm.notes.trim() || null,
+      })
+      .select('id')
+      .single()
+      .setHeader(AUDIT_ACTION_HEADER, 'create_company');
+    setSaving(false);
+
+    if (error) {
+      console.error('Error creating company:', error);
+      Alert.alert('Error', error.code === '23505'
+        ? 'A company with this name already exists'
+        : 'Failed to create the company');
+      return;
+    }
+
+    setShowCreateModal(false);
+    setCompanyForm(emptyCompanyForm);
+    router.push(`/(admin)/companies/${data.id}`);
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredCompanies = companies.filter(company =>
+    !query
+    || company.name.toLowerCase().includes(query)
+    || (company.sector || '').toLowerCase().includes(query)
+  );
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ChevronLeft size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Companies</Text>
+        {can('manage_placements') ? (
+          <TouchableOpacity onPress={() => setShowCreateModal(true)} style={styles.headerButton}>
+            <Plus size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      <View style={styles.searchBar}>
+        <Search size={18} color="#6B6B6B" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by name or sector"
+          value={search}
+          onChangeText={setSearch}
+        />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <Text style={styles.loadingText}>Loading companies...</Text>
+        ) : filteredCompanies.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Building2 size={48} color="#FFFFFF" />
+            <Text style={styles.emptyText}>{query ? 'No companies match your search' : 'No companies yet'}</Text>
+          </View>
+        ) : (
+          <View style={styles.companiesList}>
+            {filteredCompanies.map((company) => {
+              const drives = company.placement_events?.[0]?.count || 0;
+              return (
+                <TouchableOpacity
+                  key={company.id}
+                  style={styles.companyCard}
+                  onPress={() => router.push(`/(admin)/companies/${company.id}`)}
+                >
+                  {logos[company.id] ? (
+                    <Image source={{ uri: logos[company.id] }} style={styles.logo} />
+                  ) : (
+                    <View style={[styles.logo, styles.logoPlaceholder]}>
+                      <Building2 size={22} color="#667eea" />
+                    </View>
+                  )}
+                  <View style={styles.companyInfo}>
+                    <Text style={styles.companyName} numberOfLines={1}>{company.name}</Text>
+                    <Text style={styles.companyMeta}>
+                      {company.sector || 'No sector'} • {drives} drive{drives === 1 ? '' : 's'}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <Modal visible={showCreateModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Add Company</Text>
+            <TouchableOpacity onPress={() => setShowCreateModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Company Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Google"
+                value={companyForm.name}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, name: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Sector</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. IT Services"
+                value={companyForm.sector}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, sector: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Website</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="https://"
+                autoCapitalize="none"
+                keyboardType="url"
+                value={companyForm.website}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, website: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder="Anything the placement cell should remember"
+                multiline
+                value={companyForm.notes}
+                onChangeText={(text) => setCompanyForm(prev => ({ ...prev, notes: text }))}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.disabledButton]}
+              onPress={createCompany}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Add Company'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  companiesList: {
+    gap: 12,
+    paddingBottom: 40,
+  },
+  companyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+  },
+  logoPlaceholder: {
+    backgroundColor: '#F2F2F7',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  companyInfo: {
+    flex: 1,
+  },
+  companyName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  companyMeta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
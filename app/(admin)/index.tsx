@@ -1,12 +1,15 @@
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import { LogOut, Users, BookOpen, Calendar, ChartBar as BarChart3 } from 'lucide-react-native';
+import { LogOut, Users, BookOpen, Calendar, ChartBar as BarChart3, KeyRound, Settings, History } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { ADMIN_ROLE_LABELS } from '@/lib/permissions';
 
 export default function AdminDashboard() {
   const router = useRouter();
   const { user, signOut } = useAuth();
+  const { can } = usePermissions();
 
   const handleLogout = async () => {
     await signOut();
@@ -19,10 +22,21 @@ export default function AdminDashboard() {
         <View>
           <Text style={styles.welcomeText}>Welcome Back</Text>
           <Text style={styles.adminText}>{user?.name || 'Administrator'}</Text>
+          {user?.adminRole && (
+            <Text style={styles.roleText}>
+              {ADMIN_ROLE_LABELS[user.adminRole]}
+              {user.adminRole === 'class_teacher' && user.assignedClasses?.length ? ` • ${user.assignedClasses.join(', ')}` : ''}
+            </Text>
+          )}
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => router.push('/(admin)/change-password')} style={styles.logoutButton}>
+            <KeyRound size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
+            <LogOut size={20} color="#FFFFFF" />
+          </TouchableOpacity>
         </View>
-        <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
-          <LogOut size={20} color="#FFFFFF" />
-        </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -30,34 +44,60 @@ export default function AdminDashboard() {
         <View style={styles.quickActions}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
           <View style={styles.actionGrid}>
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => router.push('/students')}
-            >
-              <Users size={32} color="#007AFF" />
-              <Text style={styles.actionText}>Students</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => router.push('/placements')}
-            >
-              <BookOpen size={32} color="#34C759" />
-              <Text style={styles.actionText}>Placements</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => router.push('/internships')}
-            >
-              <Calendar size={32} color="#FF9500" />
-              <Text style={styles.actionText}>Internships</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => router.push('/analytics')}
-            >
-              <BarChart3 size={32} color="#AF52DE" />
-              <Text style={styles.actionText}>Analytics</Text>
-            </TouchableOpacity>
+            {can('view_students') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/students')}
+              >
+                <Users size={32} color="#007AFF" />
+                <Text style={styles.actionText}>Students</Text>
+              </TouchableOpacity>
+            )}
+            {can('view_placements') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/placements')}
+              >
+                <BookOpen size={32} color="#34C759" />
+                <Text style={styles.actionText}>Placements</Text>
+              </TouchableOpacity>
+            )}
+            {can('view_internships') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/internships')}
+              >
+                <Calendar size={32} color="#FF9500" />
+                <Text style={styles.actionText}>Internships</Text>
+              </TouchableOpacity>
+            )}
+            {can('view_analytics') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/analytics')}
+              >
+                <BarChart3 size={32} color="#AF52DE" />
+                <Text style={styles.actionText}>Analytics</Text>
+              </TouchableOpacity>
+            )}
+            {can('manage_admins') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/admins')}
+              >
+                <Settings size={32} color="#FF3B30" />
+                <Text style={styles.actionText}>Admins</Text>
+              </TouchableOpacity>
+            )}
+            {can('view_audit') && (
+              <TouchableOpacity
+                style={styles.actionCard}
+                onPress={() => router.push('/audit')}
+              >
+                <History size={32} color="#5856D6" />
+                <Text style={styles.actionText}>Audit Log</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -109,6 +149,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
+  roleText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    opacity: 0.8,
+    marginTop: 2,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   logoutButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     borderRadius: 8,
@@ -4,6 +4,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { GraduationCap, ChevronRight } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { supabase } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface ClassStats {
   className: string;
@@ -15,6 +16,7 @@ interface ClassStats {
 
 export default function AdminInternshipsScreen() {
   const router = useRouter();
+  const { canAccessClass } = usePermissions();
   const [classStats, setClassStats] = useState<ClassStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalStudents, setTotalStudents] = useState(0);
@@ -161,7 +163,7 @@ export default function AdminInternshipsScreen() {
           </Text>
 
           <View style={styles.classesList}>
-            {classStats.map((classItem) => (
+            {classStats.filter((classItem) => canAccessClass(classItem.className)).map((classItem) => (
               <TouchableOpacity
                 key={classItem.className}
                 style={styles.classCard}
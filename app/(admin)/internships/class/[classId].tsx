@@ -2,11 +2,13 @@ import { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Linking, Alert } from 'react-native';
 import { Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
 import { ChevronLeft, FileText, Award, CircleCheck as CheckCircle, Download } from 'lucide-react-native';
-import { supabase } from '@/lib/supabase';
+import { supabase, getSignedUrl, getSignedUrls, EXPORT_LINK_EXPIRY_SECONDS } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
 import { STATIC_ASSIGNMENTS } from '@/lib/constants';
 import { formatDate } from '@/lib/utils';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
 import * as XLSX from 'xlsx';
 import JSZip from 'jszip';
 import * as FileSystem from 'expo-file-system';
@@ -39,6 +41,7 @@ interface StudentApproval {
 export default function ClassView() {
   const router = useRouter();
   const { classId } = useLocalSearchParams<{ classId: string }>();
+  const { can, canAccessClass } = usePermissions();
 
   const [profiles, setProfiles] = useState<StudentProfile[]>([]);
   const [submissions, setSubmissions] = useState<{ [studentId: string]: StudentSubmission[] }>({});
@@ -181,6 +184,11 @@ export default function ClassView() {
 
   const exportToExcel = async () => {
     try {
+      // Documents are private, so the sheet links to signed URLs that expire
+      const documentUrls = Object.values(submissions).flat().map(sub => sub.file_url || '');
+      const signedUrls = await getSignedUrls(documentUrls, EXPORT_LINK_EXPIRY_SECONDS);
+      const signedUrlFor = (url: string) => signedUrls[documentUrls.indexOf(url)];
+
       const data = profiles.map((profile, index) => {
         const studentSubmissions = submissions[profile.student_id] || [];
         const approval = approvals[profile.student_id];
@@ -196,8 +204,10 @@ export default function ClassView() {
         // Add document columns
         STATIC_ASSIGNMENTS.forEach(assignment => {
           const submission = studentSubmissions.find(sub => sub.assignment_type === assignment.type);
-          if (submission?.file_url) {
-            row[assignment.title] = `=HYPERLINK("${submission.file_url}","View ${assignment.title}")`;
+          if (submission?.file_url && signedUrlFor(submission.file_url)) {
+            row[assignment.title] = `=HYPERLINK("${signedUrlFor(submission.file_url)}","View ${assignment.title}")`;
+          } else if (submission?.file_url) {
+            row[assignment.title] = 'Link unavailable';
           } else {
             row[assignment.title] = 'Not Submitted';
           }
@@ -277,7 +287,7 @@ export default function ClassView() {
         }
       }
       
-      Alert.alert('Success', `Excel report for ${classId} downloaded successfully!`);
+      Alert.alert('Success', `Excel report for ${classId} downloaded successfully! Document links expire in 7 days.`);
     } catch (error) {
       console.error('Excel generation error:', error);
       Alert.alert('Error', 'Failed to generate Excel report');
@@ -316,7 +326,7 @@ export default function ClassView() {
       // Download each file and add to zip
       for (const fileData of fileUrls) {
         try {
-          const response = await fetch(fileData.url);
+          const response = await fetch(await getSignedUrl(fileData.url));
           if (response.ok) {
             const blob = await response.blob();
             const fileExtension = fileData.url.split('.').pop() || 'pdf';
@@ -397,10 +407,11 @@ export default function ClassView() {
       return;
     }
     try {
+      const url = await getSignedUrl(submission.file_url);
       if (Platform.OS === 'web') {
-        window.open(submission.file_url, '_blank');
+        window.open(url, '_blank');
       } else {
-        await WebBrowser.openBrowserAsync(submission.file_url, {
+        await WebBrowser.openBrowserAsync(url, {
           presentationStyle: WebBrowser.WebBrowserPresentationStyle.FULL_SCREEN,
           controlsColor: '#007AFF',
         });
@@ -431,7 +442,8 @@ export default function ClassView() {
           student_id: studentId,
           offer_letter_approved: true,
           approved_at: new Date().toISOString(),
-        }, { onConflict: 'student_id' });
+        }, { onConflict: 'student_id' })
+        .setHeader(AUDIT_ACTION_HEADER, 'approve_offer_letter');
 
       if (approvalError) throw approvalError;
 
@@ -442,7 +454,8 @@ export default function ClassView() {
           admin_feedback: 'Offer letter approved - you can now submit other documents'
         })
         .eq('student_id', studentId)
-        .eq('assignment_type', 'offer_letter');
+        .eq('assignment_type', 'offer_letter')
+        .setHeader(AUDIT_ACTION_HEADER, 'approve_offer_letter');
 
       if (submissionError) console.error('Submission update error:', submissionError);
 
@@ -514,7 +527,8 @@ export default function ClassView() {
       const { error: creditsError } = await supabase
         .from('students')
         .update({ total_credits: newCredits })
-        .eq('id', profile.student_id);
+        .eq('id', profile.student_id)
+        .setHeader(AUDIT_ACTION_HEADER, 'award_credits');
 
       if (creditsError) {
         console.error('Error updating credits:', creditsError);
@@ -532,7 +546,8 @@ export default function ClassView() {
           offer_letter_approved: approvals[profile.student_id]?.offer_letter_approved || false,
         }, { 
           onConflict: 'student_id'
-        });
+        })
+        .setHeader(AUDIT_ACTION_HEADER, 'award_credits');
 
       if (approvalError) throw approvalError;
 
@@ -544,7 +559,8 @@ export default function ClassView() {
           admin_feedback: '2 credits awarded for internship completion'
         })
         .eq('student_id', profile.student_id)
-        .eq('assignment_type', 'completion_letter');
+        .eq('assignment_type', 'completion_letter')
+        .setHeader(AUDIT_ACTION_HEADER, 'award_credits');
 
       if (submissionError) {
         console.error('Error updating submission status:', submissionError);
@@ -584,6 +600,10 @@ export default function ClassView() {
     }
   };
 
+  if (!canAccessClass(String(classId))) {
+    return <Redirect href="/not-authorized" />;
+  }
+
   if (loading) {
     return (
       <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
@@ -697,40 +717,42 @@ export default function ClassView() {
                 </View>
 
                 {/* Action Buttons */}
-                <View style={styles.actionsRow}>
-                  <TouchableOpacity
-                    style={[
-                      styles.actionButton, 
-                      styles.approveButton,
-                      isApproved && styles.approvedButton
-                    ]}
-                    onPress={() => approveOfferLetter(profile.student_id)}
-                  >
-                    <Text style={styles.actionButtonText}>
-                      {isApproved ? 'Approved ✓' : 'Approve Offer Letter'}
-                    </Text>
-                  </TouchableOpacity>
-
-                  <TouchableOpacity
-                    style={[
-                      styles.actionButton, 
-                      styles.creditsButton,
-                      (creditsAwarded || !getStudentSubmission(profile.student_id, 'completion_letter')) && styles.awardedButton
-                    ]}
-                    onPress={() => awardCredits(profile)}
-                    disabled={creditsAwarded || !getStudentSubmission(profile.student_id, 'completion_letter')}
-                  >
-                    <Award size={16} color="#FFFFFF" />
-                    <Text style={styles.actionButtonText}>
-                      {creditsAwarded 
-                        ? 'Credits Awarded ✓' 
-                        : !getStudentSubmission(profile.student_id, 'completion_letter')
-                        ? 'Need Completion Letter'
-                        : 'Award 2 Credits'
-                      }
-                    </Text>
-                  </TouchableOpacity>
-                </View>
+                {can('manage_internships') && (
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton, 
+                        styles.approveButton,
+                        isApproved && styles.approvedButton
+                      ]}
+                      onPress={() => approveOfferLetter(profile.student_id)}
+                    >
+                      <Text style={styles.actionButtonText}>
+                        {isApproved ? 'Approved ✓' : 'Approve Offer Letter'}
+                      </Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton, 
+                        styles.creditsButton,
+                        (creditsAwarded || !getStudentSubmission(profile.student_id, 'completion_letter')) && styles.awardedButton
+                      ]}
+                      onPress={() => awardCredits(profile)}
+                      disabled={creditsAwarded || !getStudentSubmission(profile.student_id, 'completion_letter')}
+                    >
+                      <Award size={16} color="#FFFFFF" />
+                      <Text style={styles.actionButtonText}>
+                        {creditsAwarded 
+                          ? 'Credits Awarded ✓' 
+                          : !getStudentSubmission(profile.student_id, 'completion_letter')
+                          ? 'Need Completion Letter'
+                          : 'Award 2 Credits'
+                        }
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </View>
             );
           })}
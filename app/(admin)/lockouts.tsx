@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, RefreshCw, ShieldAlert, Unlock } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+
+interface LoginThrottle {
+  id: string;
+  kind: 'admin' | 'student';
+  scope: 'identifier' | 'device';
+  key: string;
+  failed_count: number;
+  first_failed_at: string;
+  last_failed_at: string;
+  locked_until: string | null;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const getRemainingMinutes = (throttle: LoginThrottle) => {
+  if (!throttle.locked_until) return 0;
+  return Math.max(0, Math.ceil((new Date(throttle.locked_until).getTime() - Date.now()) / 60000));
+};
+
+export default function LoginLockoutsScreen() {
+  const router = useRouter();
+  const [throttles, setThrottles] = useState<LoginThrottle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadThrottles();
+  }, []);
+
+  const loadThrottles = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('login_throttles')
+        .select('*')
+        .order('last_failed_at', { ascending: false });
+
+      if (error) throw error;
+      setThrottles(data || []);
+    } catch (error) {
+      console.error('Error loading login lockouts:', error);
+      Alert.alert('Error', 'Failed to load login lockouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearThrottle = (throttle: LoginThrottle) => {
+    Alert.alert(
+      'Clear Lockout',
+      `Reset failed login attempts for ${throttle.key}? They will be able to try again immediately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(throttle.id);
+            const { error } = await supabase
+              .from('login_throttles')
+              .delete()
+              .eq('id', throttle.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'clear_login_lockout');
+            setBusyId(null);
+
+            if (error) {
+              console.error('Error clearing lockout:', error);
+              Alert.alert('Error', 'Failed to clear the lockout');
+              return;
+            }
+
+            setThrottles(prev => prev.filter(t => t.id !== throttle.id));
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ChevronLeft size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Login Lockouts</Text>
+        <TouchableOpacity onPress={loadThrottles} style={styles.headerButton}>
+          <RefreshCw size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <Text style={styles.loadingText}>Loading lockouts...</Text>
+        ) : throttles.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ShieldAlert size={48} color="#FFFFFF" />
+            <Text style={styles.emptyText}>No recent failed logins</Text>
+          </View>
+        ) : (
+          <View style={styles.throttlesList}>
+            {throttles.map((throttle) => {
+              const remaining = getRemainingMinutes(throttle);
+              return (
+                <View key={throttle.id} style={styles.throttleCard}>
+                  <View style={styles.throttleHeader}>
+                    <Text style={styles.throttleKey} numberOfLines={1}>{throttle.key}</Text>
+                    <View style={[styles.statusBadge, { backgroundColor: remaining > 0 ? '#FF3B30' : '#FF9500' }]}>
+                      <Text style={styles.statusBadgeText}>
+                        {remaining > 0 ? `LOCKED ${remaining} MIN` : 'WATCHING'}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text style={styles.throttleMeta}>
+                    {throttle.kind === 'admin' ? 'Admin' : 'Student'} • {throttle.scope === 'identifier' ? 'Account' : 'Device'}
+                  </Text>
+                  <Text style={styles.throttleMeta}>
+                    {throttle.failed_count} failed attempt{throttle.failed_count === 1 ? '' : 's'} • last {formatDateTime(throttle.last_failed_at)}
+                  </Text>
+
+                  <TouchableOpacity
+                    style={[styles.clearButton, busyId === throttle.id && styles.disabledButton]}
+                    onPress={() => clearThrottle(throttle)}
+                    disabled={busyId === throttle.id}
+                  >
+                    <Unlock size={16} color="#FFFFFF" />
+                    <Text style={styles.clearButtonText}>Clear</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  throttlesList: {
+    gap: 12,
+    paddingBottom: 40,
+  },
+  throttleCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  throttleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  throttleKey: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  statusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  throttleMeta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginBottom: 2,
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
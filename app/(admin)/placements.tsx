@@ -2,49 +2,327 @@ import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Modal } from 'react-native';
 import { Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Plus, Briefcase, Eye, X, User, Download, FileText } from 'lucide-react-native';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import {
+  Plus,
+  Briefcase,
+  Eye,
+  X,
+  User,
+  Download,
+  FileText,
+  Layers,
+  ChevronUp,
+  ChevronDown,
+  Square,
+  CheckSquare,
+  Pencil,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  ShieldCheck,
+  Scale,
+  CalendarClock,
+  Building2,
+  Upload,
+  BookOpen,
+  CalendarDays,
+} from 'lucide-react-native';
+import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, debugSupabaseConfig } from '@/lib/supabase';
-import { formatDate, getStatusColor } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useNow } from '@/hooks/useNow';
+import { supabase, debugSupabaseConfig, getSignedUrl, getSignedUrls, EXPORT_LINK_EXPIRY_SECONDS } from '@/lib/supabase';
+import {
+  formatDate,
+  formatDateTime,
+  formatTimeRemaining,
+  getPlacementEventStatus,
+  getStatusColor,
+  parseDateTimeInput,
+  toDateTimeInput,
+  describeEligibilityCriteria,
+  EligibilityCriteria,
+  formatCtc,
+  getAcademicYear,
+  PlacementTierRules,
+  RequirementType,
+  getRequirementLabel,
+  describeRequirementType,
+  ApplicationQuestion,
+  ApplicationAnswer,
+  formatApplicationAnswer,
+} from '@/lib/utils';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+import { buildIcsCalendar } from '@/lib/calendar';
+import {
+  PLACEMENT_ROUND_PRESETS,
+  PLACEMENT_TIER_LABELS,
+  REQUIREMENT_FILE_KINDS,
+  ROUND_RESULT_LABELS,
+  STREAMS_12TH,
+  SUBMISSION_STATUS_LABELS,
+  APPLICATION_QUESTION_KIND_LABELS,
+} from '@/lib/constants';
 import * as XLSX from 'xlsx';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import JSZip from 'jszip';
 import * as WebBrowser from 'expo-web-browser';
+import * as DocumentPicker from 'expo-document-picker';
 
 interface PlacementEvent {
   id: string;
   title: string;
   description: string;
   company_name: string;
+  company_id?: string;
   requirements: string;
   eligible_classes: string[];
+  eligibility_criteria?: EligibilityCriteria;
+  tier?: PlacementTier;
+  academic_year?: string;
   additional_requirements?: { type: string; required: boolean }[];
+  application_questions?: ApplicationQuestion[];
   bucket_name?: string;
   event_date?: string;
   application_deadline?: string;
+  status: PlacementEventStatus;
   is_active: boolean;
+  archived_at?: string | null;
+  students_pick_slots?: boolean;
   created_at: string;
+  placement_rounds?: PlacementRound[];
+  placement_requirements?: { id: string; type: string; is_required: boolean }[];
 }
 
+// Eligibility criteria as typed into the event form, empty fields don't apply
+interface EligibilityInputs {
+  min_percentage_10th: string;
+  min_percentage_12th: string;
+  min_degree_percentage: string;
+  max_active_backlogs: string;
+  streams_12th: string[];
+  graduation_years: string;
+}
+
+const PERCENTAGE_CRITERIA: { key: 'min_percentage_10th' | 'min_percentage_12th' | 'min_degree_percentage'; label: string }[] = [
+  { key: 'min_percentage_10th', label: 'Min 10th %' },
+  { key: 'min_percentage_12th', label: 'Min 12th %' },
+  { key: 'min_degree_percentage', label: 'Min Degree %' },
+];
+
+const toEligibilityInputs = (criteria?: EligibilityCriteria | null): EligibilityInputs => ({
+  min_percentage_10th: criteria?.min_percentage_10th != null ? String(criteria.min_percentage_10th) : '',
+  min_percentage_12th: criteria?.min_percentage_12th != null ? String(criteria.min_percentage_12th) : '',
+  min_degree_percentage: criteria?.min_degree_percentage != null ? String(criteria.min_degree_percentage) : '',
+  max_active_backlogs: criteria?.max_active_backlogs != null ? String(criteria.max_active_backlogs) : '',
+  streams_12th: criteria?.streams_12th || [],
+  graduation_years: (criteria?.graduation_years || []).join(', '),
+});
+
+type PlacementTier = 'regular' | 'dream' | 'super_dream';
+
+const DREAM_TIERS = ['dream', 'super_dream'] as const;
+
+// Placement policy for one academic year as typed into the policy form
+const emptyPolicyForm = (academicYear = getAcademicYear()) => ({
+  academic_year: academicYear,
+  one_offer_enabled: true,
+  tiers: {
+    dream: { max_offer_ctc_lpa: '', max_applications: '' },
+    super_dream: { max_offer_ctc_lpa: '', max_applications: '' },
+  },
+});
+
+type PolicyForm = ReturnType<typeof emptyPolicyForm>;
+
+const isAcademicYear = (value: string) => {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  return !!match && (Number(match[1]) + 1) % 100 === Number(match[2]);
+};
+
+interface InterviewSlot {
+  id: string;
+  event_id: string;
+  starts_at: string;
+  ends_at: string;
+  panel: string | null;
+  location: string | null;
+  capacity: number;
+  interview_bookings: {
+    id: string;
+    application_id: string;
+    students: { name: string; uid: string; email: string } | null;
+  }[];
+}
+
+const emptySlotForm = () => ({
+  starts_at: '',
+  duration_minutes: '30',
+  count: '1',
+  capacity: '1',
+  panel: '',
+  location: '',
+});
+
+interface EligibilityOverride {
+  id: string;
+  student_id: string;
+  justification: string;
+  created_at: string;
+  students: {
+    name: string;
+    uid: string;
+    roll_no: string;
+  };
+}
+
+// A saved requirement while the event is being edited; ones with submissions can't be removed
+interface EditingRequirement {
+  id: string;
+  type: string;
+  submissions: number;
+}
+
+type PlacementEventStatus = 'draft' | 'open' | 'closed' | 'completed';
+
+// Lifecycle moves offered on an event card, keyed by the event's current status
+const EVENT_TRANSITIONS: Record<PlacementEventStatus, { status: PlacementEventStatus; label: string; action: string }[]> = {
+  draft: [{ status: 'open', label: 'Publish', action: 'publish_placement_event' }],
+  open: [{ status: 'closed', label: 'Close Applications', action: 'close_placement_event' }],
+  closed: [
+    { status: 'open', label: 'Reopen', action: 'reopen_placement_event' },
+    { status: 'completed', label: 'Mark Completed', action: 'complete_placement_event' },
+  ],
+  completed: [],
+};
+
+interface PlacementRound {
+  id: string;
+  event_id: string;
+  name: string;
+  sequence: number;
+}
+
+// A round being edited, rounds that are already saved keep their id
+interface RoundDraft {
+  id?: string;
+  name: string;
+}
+
+// An application question as typed into the event form, options are comma separated
+interface QuestionDraft {
+  id: string;
+  label: string;
+  kind: ApplicationQuestion['kind'];
+  options: string;
+  required: boolean;
+}
+
+const newQuestionDraft = (): QuestionDraft => ({
+  id: `q_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  label: '',
+  kind: 'text',
+  options: '',
+  required: true,
+});
+
+const toQuestionDrafts = (questions?: ApplicationQuestion[]): QuestionDraft[] =>
+  (questions || []).map(question => ({ ...question, options: question.options.join(', ') }));
+
+const isChoiceQuestion = (kind: ApplicationQuestion['kind']) => kind === 'single_choice' || kind === 'multi_choice';
+
+type RoundResult = 'pending' | 'cleared' | 'not_cleared' | 'absent';
+
+type ApplicationStatus =
+  | 'pending'
+  | 'applied'
+  | 'shortlisted'
+  | 'waitlisted'
+  | 'accepted'
+  | 'rejected'
+  | 'withdrawn';
+
+// Decisions an admin can apply to selected applications; the database requires a reason to reject
+const APPLICATION_DECISIONS: { status: ApplicationStatus; label: string; action: string }[] = [
+  { status: 'shortlisted', label: 'Shortlist', action: 'shortlist_application' },
+  { status: 'waitlisted', label: 'Waitlist', action: 'waitlist_application' },
+  { status: 'accepted', label: 'Accept', action: 'accept_application' },
+  { status: 'rejected', label: 'Reject', action: 'reject_application' },
+];
+
+// Applications a resume book can be compiled from, withdrawn ones never go to recruiters
+const RESUME_BOOK_STATUSES: { status: ApplicationStatus; label: string }[] = [
+  { status: 'applied', label: 'Applied' },
+  { status: 'shortlisted', label: 'Shortlisted' },
+  { status: 'waitlisted', label: 'Waitlisted' },
+  { status: 'accepted', label: 'Selected' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+type OfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
+
+type SubmissionStatus = 'pending' | 'approved' | 'changes_requested';
+
+interface RequirementSubmission {
+  id: string;
+  requirement_id: string;
+  file_url: string | null;
+  file_urls: string[];
+  answer: string | null;
+  submission_status: SubmissionStatus;
+  admin_feedback?: string | null;
+  reviewed_at?: string | null;
+  placement_requirements: {
+    type: string;
+    description: string;
+  };
+}
+
+interface PlacementOffer {
+  id: string;
+  application_id: string;
+  role: string;
+  ctc_lpa: number;
+  location?: string | null;
+  joining_date?: string | null;
+  expires_at: string;
+  status: OfferStatus;
+  decline_reason?: string | null;
+  responded_at?: string | null;
+}
+
+const emptyOfferForm = () => ({
+  role: '',
+  ctc_lpa: '',
+  location: '',
+  joining_date: '',
+  expires_at: '',
+});
+
 interface PlacementApplication {
   id: string;
   placement_event_id: string;
   student_id: string;
-  application_status: 'pending' | 'applied' | 'accepted' | 'rejected';
+  application_status: ApplicationStatus;
   applied_at: string;
   admin_notes?: string;
-  student_requirement_submissions?: {
+  status_reason?: string | null;
+  status_changed_at?: string | null;
+  current_round_id?: string | null;
+  answers?: Record<string, ApplicationAnswer>;
+  placement_round_results?: {
     id: string;
-    requirement_id: string;
-    file_url: string;
-    submission_status: string;
-    placement_requirements: {
-      type: string;
-      description: string;
-    };
+    round_id: string;
+    result: RoundResult;
+    remarks?: string;
+    recorded_at: string;
   }[];
+  student_requirement_submissions?: RequirementSubmission[];
   offer_letter_url?: string;
+  placement_offers?: PlacementOffer | null;
   students: {
     name: string;
     email: string;
@@ -58,8 +336,143 @@ interface PlacementApplication {
   };
 }
 
+const sortRounds = (rounds?: PlacementRound[]) =>
+  [...(rounds || [])].sort((a, b) => a.sequence - b.sequence);
+
+// Applications still in the running are grouped by their round, the rest by status
+const getStageKey = (application: PlacementApplication) => {
+  const { application_status: status, current_round_id: roundId } = application;
+  if (roundId && (status === 'applied' || status === 'shortlisted')) return roundId;
+  return status === 'pending' ? 'applied' : status;
+};
+
+const getStageLabel = (application: PlacementApplication, rounds: PlacementRound[]) => {
+  const index = rounds.findIndex(round => round.id === application.current_round_id);
+  if (application.application_status === 'accepted') return 'Selected';
+  if (application.application_status === 'withdrawn') return 'Withdrawn';
+  if (application.application_status === 'waitlisted') return 'Waitlisted';
+  if (application.application_status === 'rejected') {
+    return index >= 0 ? `Not selected (${rounds[index].name})` : 'Not selected';
+  }
+  if (index < 0) return application.application_status === 'shortlisted' ? 'Shortlisted' : 'Not started';
+  return `${rounds[index].name} (Round ${index + 1} of ${rounds.length})`;
+};
+
+const getSubmissionFileUrls = (submission: RequirementSubmission) =>
+  submission.file_urls?.length ? submission.file_urls : submission.file_url ? [submission.file_url] : [];
+
+// Required items without an approved submission keep an application from being shortlisted
+const getUnapprovedRequirements = (
+  application: PlacementApplication,
+  requirements: { id: string; type: string; is_required: boolean }[]
+) =>
+  requirements.filter(req => req.is_required && !application.student_requirement_submissions?.some(
+    sub => sub.requirement_id === req.id && sub.submission_status === 'approved'
+  ));
+
+const needsReview = (application: PlacementApplication) =>
+  !!application.student_requirement_submissions?.some(sub => sub.submission_status === 'pending');
+
+interface ResultSheetPreview {
+  fileName: string;
+  matched: PlacementApplication[];
+  unmatched: { row: number; text: string; reason: string }[];
+}
+
+const normalizeSheetCell = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Header text for each column applicants can be matched on. Other columns (S.No, marks, rank)
+// are never read, since their numbers would look like roll numbers
+const SHEET_COLUMN_PATTERNS = {
+  uid: /\buid\b/,
+  roll: /\broll\b/,
+  email: /e-?mail/,
+  className: /\bclass\b/,
+};
+
+type SheetColumns = Record<keyof typeof SHEET_COLUMN_PATTERNS, number>;
+
+// The header is the first row with a UID, roll number or email column; companies often put a
+// title or the drive details above it
+const findSheetColumns = (rows: unknown[][]) => {
+  for (let index = 0; index < Math.min(rows.length, 10); index++) {
+    const cells = (rows[index] || []).map(normalizeSheetCell);
+    const columns = Object.fromEntries(
+      Object.entries(SHEET_COLUMN_PATTERNS).map(([key, pattern]) => [key, cells.findIndex(cell => pattern.test(cell))])
+    ) as SheetColumns;
+    if (columns.uid >= 0 || columns.roll >= 0 || columns.email >= 0) return { headerRow: index, columns };
+  }
+  return null;
+};
+
+// Applicants are matched on the UID, email, or class and roll number columns, since roll numbers
+// repeat across classes. Rows that match no applicant, or more than one, are reported instead
+// of guessed at. Returns an error when the sheet has no column to match on.
+const matchResultSheetRows = (
+  rows: unknown[][],
+  applications: PlacementApplication[]
+): Omit<ResultSheetPreview, 'fileName'> | { error: string } => {
+  const header = findSheetColumns(rows);
+  if (!header) {
+    return { error: 'The sheet needs a UID, Email, or Class and Roll Number column header.' };
+  }
+  const { headerRow, columns } = header;
+  const useRoll = columns.roll >= 0 && columns.className >= 0;
+  if (columns.uid < 0 && columns.email < 0 && !useRoll) {
+    return { error: 'Roll numbers repeat across classes. Add a Class column, or match on UID or Email.' };
+  }
+
+  const cellAt = (row: unknown[], column: number) => (column >= 0 ? normalizeSheetCell(row[column]) : '');
+  const rollKey = (className: string, rollNo: string) => (className && rollNo ? `${className}|${rollNo}` : '');
+
+  const matched = new Map<string, PlacementApplication>();
+  const unmatched: ResultSheetPreview['unmatched'] = [];
+  rows.slice(headerRow + 1).forEach((row, offset) => {
+    const uid = cellAt(row || [], columns.uid);
+    const email = cellAt(row || [], columns.email);
+    const roll = useRoll ? rollKey(cellAt(row || [], columns.className), cellAt(row || [], columns.roll)) : '';
+    if (!uid && !email && !roll) return;
+
+    const candidates = applications.filter(application =>
+      (uid && normalizeSheetCell(application.students?.uid) === uid)
+      || (email && normalizeSheetCell(application.students?.email) === email)
+      || (roll && rollKey(
+        normalizeSheetCell(application.students?.student_profiles?.class),
+        normalizeSheetCell(application.students?.roll_no)
+      ) === roll)
+    );
+    const text = (row || []).map(cell => String(cell ?? '').trim()).filter(Boolean).join(', ');
+    const rowNumber = headerRow + offset + 2;
+
+    if (candidates.length === 1) {
+      matched.set(candidates[0].id, candidates[0]);
+    } else if (candidates.length > 1) {
+      unmatched.push({ row: rowNumber, text, reason: 'Matches more than one applicant' });
+    } else {
+      unmatched.push({ row: rowNumber, text, reason: 'No applicant with this UID, email, or class and roll number' });
+    }
+  });
+
+  return { matched: Array.from(matched.values()), unmatched };
+};
+
+const emptyRequirementTypeForm = () => ({
+  label: '',
+  description: '',
+  answer_kind: 'file' as RequirementType['answer_kind'],
+  allowed_mime_types: ['application/pdf'],
+  max_size_mb: '10',
+  allow_multiple: false,
+});
+
+// Requirement type keys are stored on each event's requirements, so they're made once from the label
+const toRequirementTypeKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
 export default function AdminPlacementsScreen() {
+  const router = useRouter();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [events, setEvents] = useState<PlacementEvent[]>([]);
   const [applications, setApplications] = useState<PlacementApplication[]>([]);
   const [loading, setLoading] = useState(true);
@@ -68,26 +481,85 @@ export default function AdminPlacementsScreen() {
   const [selectedEvent, setSelectedEvent] = useState<PlacementEvent | null>(null);
   const [creating, setCreating] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [stageFilter, setStageFilter] = useState('all');
+  const [selectedApplicationIds, setSelectedApplicationIds] = useState<string[]>([]);
+  const [actionReason, setActionReason] = useState('');
+  const [updatingApplications, setUpdatingApplications] = useState(false);
+  const [showRoundsModal, setShowRoundsModal] = useState(false);
+  const [roundsEvent, setRoundsEvent] = useState<PlacementEvent | null>(null);
+  const [roundDrafts, setRoundDrafts] = useState<RoundDraft[]>([]);
+  const [customRoundName, setCustomRoundName] = useState('');
+  const [savingRounds, setSavingRounds] = useState(false);
+  const [updatingEventId, setUpdatingEventId] = useState<string | null>(null);
+  const [editingEvent, setEditingEvent] = useState<PlacementEvent | null>(null);
+  const [editingRequirements, setEditingRequirements] = useState<EditingRequirement[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [overridesEvent, setOverridesEvent] = useState<PlacementEvent | null>(null);
+  const [overrides, setOverrides] = useState<EligibilityOverride[]>([]);
+  const [overrideStudentQuery, setOverrideStudentQuery] = useState('');
+  const [overrideStudent, setOverrideStudent] = useState<{ id: string; name: string; uid: string; reasons: string[] } | null>(null);
+  const [overrideJustification, setOverrideJustification] = useState('');
+  const [savingOverride, setSavingOverride] = useState(false);
+  const [offerApplicationId, setOfferApplicationId] = useState<string | null>(null);
+  const [offerForm, setOfferForm] = useState(emptyOfferForm());
+  const [savingOffer, setSavingOffer] = useState(false);
+  const [showPolicyModal, setShowPolicyModal] = useState(false);
+  const [policyForm, setPolicyForm] = useState<PolicyForm>(emptyPolicyForm());
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [interviewsEvent, setInterviewsEvent] = useState<PlacementEvent | null>(null);
+  const [interviewSlots, setInterviewSlots] = useState<InterviewSlot[]>([]);
+  const [unscheduledApplicants, setUnscheduledApplicants] = useState<{ id: string; name: string }[]>([]);
+  const [slotForm, setSlotForm] = useState(emptySlotForm());
+  const [savingSlots, setSavingSlots] = useState(false);
+  const [assigningSlots, setAssigningSlots] = useState(false);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [addingCompany, setAddingCompany] = useState(false);
+  const [requirementTypes, setRequirementTypes] = useState<RequirementType[]>([]);
+  const [showRequirementTypesModal, setShowRequirementTypesModal] = useState(false);
+  const [requirementTypeForm, setRequirementTypeForm] = useState(emptyRequirementTypeForm());
+  const [editingRequirementTypeId, setEditingRequirementTypeId] = useState<string | null>(null);
+  const [savingRequirementType, setSavingRequirementType] = useState(false);
+  const [reviewFeedback, setReviewFeedback] = useState<Record<string, string>>({});
+  const [reviewingSubmissionId, setReviewingSubmissionId] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importDecision, setImportDecision] = useState<ApplicationStatus>('shortlisted');
+  const [importReason, setImportReason] = useState('');
+  const [importPreview, setImportPreview] = useState<ResultSheetPreview | null>(null);
+  const [applyingImport, setApplyingImport] = useState(false);
+  const [showResumeBookModal, setShowResumeBookModal] = useState(false);
+  const [resumeBookStatuses, setResumeBookStatuses] = useState<ApplicationStatus[]>([]);
+  const [generatingResumeBook, setGeneratingResumeBook] = useState(false);
+  const [resumeBookMissing, setResumeBookMissing] = useState<{ name: string; reason: string }[] | null>(null);
+  const now = useNow();
 
   const [newEvent, setNewEvent] = useState({
     title: '',
     description: '',
     company_name: '',
+    company_id: '',
     requirements: '',
     eligible_classes: [] as string[],
     additional_requirements: [] as { type: string; required: boolean }[],
+    rounds: [] as RoundDraft[],
+    questions: [] as QuestionDraft[],
+    application_deadline: '',
+    event_date: '',
+    eligibility: toEligibilityInputs(),
+    tier: 'regular' as PlacementTier,
+    academic_year: getAcademicYear(),
   });
 
   useEffect(() => {
     debugSupabaseConfig();
     loadPlacementEvents();
+    loadRequirementTypes();
   }, []);
 
   const loadPlacementEvents = async () => {
     try {
       const { data, error } = await supabase
         .from('placement_events')
-        .select('*')
+        .select('*, placement_rounds (id, event_id, name, sequence), placement_requirements (id, type, is_required)')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -120,11 +592,34 @@ export default function AdminPlacementsScreen() {
             id,
             requirement_id,
             file_url,
+            file_urls,
+            answer,
             submission_status,
+            admin_feedback,
+            reviewed_at,
             placement_requirements (
               type,
               description
             )
+          ),
+          placement_round_results (
+            id,
+            round_id,
+            result,
+            remarks,
+            recorded_at
+          ),
+          placement_offers (
+            id,
+            application_id,
+            role,
+            ctc_lpa,
+            location,
+            joining_date,
+            expires_at,
+            status,
+            decline_reason,
+            responded_at
           )
         `)
         .eq('placement_event_id', eventId)
@@ -183,7 +678,7 @@ export default function AdminPlacementsScreen() {
       // Download each offer letter and add to zip
       for (const application of acceptedWithOfferLetters) {
         try {
-          const response = await fetch(application.offer_letter_url!);
+          const response = await fetch(await getSignedUrl(application.offer_letter_url!));
           if (response.ok) {
             const blob = await response.blob();
             const fileExtension = application.offer_letter_url!.split('.').pop() || 'pdf';
@@ -244,85 +739,236 @@ export default function AdminPlacementsScreen() {
     }
   };
 
-  const createPlacementEvent = async () => {
-    if (!newEvent.title || !newEvent.company_name) {
-      Alert.alert('Error', 'Please fill in title and company name');
+  const openResumeBookModal = () => {
+    setResumeBookStatuses(['applied', 'shortlisted', 'waitlisted', 'accepted']);
+    setResumeBookMissing(null);
+    setShowResumeBookModal(true);
+  };
+
+  const toggleResumeBookStatus = (status: ApplicationStatus) => {
+    setResumeBookStatuses(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
+  };
+
+  // The book is compiled by the resume-book function, which can read every applicant's resume
+  const generateResumeBook = async () => {
+    if (!selectedEvent) return;
+    if (resumeBookStatuses.length === 0) {
+      Alert.alert('Select Applications', 'Choose which applications to include in the resume book.');
       return;
     }
 
     try {
-      setCreating(true);
+      setGeneratingResumeBook(true);
+      setResumeBookMissing(null);
+      const { data, error } = await supabase.functions.invoke('resume-book', {
+        body: {
+          eventId: selectedEvent.id,
+          // Older applications are still `pending`, they are shown as applied
+          statuses: resumeBookStatuses.flatMap(status => status === 'applied' ? ['applied', 'pending'] : [status]),
+        },
+      });
 
-      // Create storage bucket for the company
-      const bucketName = `${newEvent.company_name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${Date.now()}`;
-      
-      const { error: bucketError } = await supabase.storage.createBucket(bucketName, {
-        public: true,
-        allowedMimeTypes: ['application/pdf', 'video/*', 'image/*', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
-        fileSizeLimit: 52428800, // 50MB
+      if (error) {
+        let message: string | undefined;
+        if (error instanceof FunctionsHttpError) {
+          message = (await error.context.json().catch(() => null))?.error;
+        }
+        Alert.alert('Error', message || 'Failed to compile the resume book');
+        return;
+      }
+
+      setResumeBookMissing(data.missing || []);
+      if (Platform.OS === 'web') {
+        window.open(data.url, '_blank');
+      } else {
+        await WebBrowser.openBrowserAsync(data.url, {
+          presentationStyle: WebBrowser.WebBrowserPresentationStyle.FULL_SCREEN,
+          controlsColor: '#007AFF',
+        });
+      }
+    } catch (error) {
+      console.error('Resume book error:', error);
+      Alert.alert('Error', 'Failed to compile the resume book');
+    } finally {
+      setGeneratingResumeBook(false);
+    }
+  };
+
+  const notifyNewPlacement = async (event: { title: string; company_name: string; eligible_classes: string[] }) => {
+    await supabase
+      .from('notifications')
+      .insert({
+        title: 'New Placement Opportunity',
+        message: `A new placement opportunity at ${event.company_name} for "${event.title}" has been posted. Apply now!`,
+        type: 'placement',
+        target_audience: event.eligible_classes.length > 0 ? 'specific_class' : 'all',
+        target_classes: event.eligible_classes,
+        created_by: user?.id,
       });
+  };
+
+  // Checks the form shared by creating and editing, returning the parsed dates when it is valid
+  const validateEventForm = (status: PlacementEventStatus) => {
+    if (!newEvent.title || !newEvent.company_id) {
+      Alert.alert('Error', 'Please fill in the title and pick a company');
+      return null;
+    }
+
+    const applicationDeadline = parseDateTimeInput(newEvent.application_deadline);
+    const eventDate = parseDateTimeInput(newEvent.event_date);
+    if (!applicationDeadline || !eventDate) {
+      Alert.alert('Error', 'Enter the application deadline and event date as YYYY-MM-DD HH:MM');
+      return null;
+    }
+    if (eventDate < applicationDeadline) {
+      Alert.alert('Error', 'The event date can\'t be before the application deadline');
+      return null;
+    }
+    if (status === 'open' && applicationDeadline.getTime() <= Date.now()) {
+      Alert.alert('Error', 'The application deadline must be in the future while the event is open');
+      return null;
+    }
+    if (!isAcademicYear(newEvent.academic_year.trim())) {
+      Alert.alert('Error', 'Enter the academic year like 2025-26');
+      return null;
+    }
 
-      if (bucketError) {
-        console.warn('Bucket creation warning:', bucketError);
-        // Continue even if bucket creation fails
+    const { eligibility } = newEvent;
+    const eligibilityCriteria: EligibilityCriteria = {};
+    for (const { key, label } of PERCENTAGE_CRITERIA) {
+      if (!eligibility[key].trim()) continue;
+      const value = Number(eligibility[key]);
+      if (isNaN(value) || value < 0 || value > 100) {
+        Alert.alert('Error', `${label} must be a percentage between 0 and 100`);
+        return null;
       }
+      eligibilityCriteria[key] = value;
+    }
+    if (eligibility.max_active_backlogs.trim()) {
+      const value = Number(eligibility.max_active_backlogs);
+      if (!Number.isInteger(value) || value < 0) {
+        Alert.alert('Error', 'Max active backlogs must be a whole number');
+        return null;
+      }
+      eligibilityCriteria.max_active_backlogs = value;
+    }
+    if (eligibility.streams_12th.length > 0) {
+      eligibilityCriteria.streams_12th = eligibility.streams_12th;
+    }
+    const graduationYears = eligibility.graduation_years.split(',').map(year => year.trim()).filter(Boolean);
+    if (graduationYears.some(year => !/^\d{4}$/.test(year))) {
+      Alert.alert('Error', 'Enter graduation years as four digit years separated by commas');
+      return null;
+    }
+    if (graduationYears.length > 0) {
+      eligibilityCriteria.graduation_years = graduationYears.map(Number);
+    }
 
-      const { data: eventData, error } = await supabase
-        .from('placement_events')
-        .insert({
-          title: newEvent.title,
-          description: newEvent.description,
-          company_name: newEvent.company_name,
-          requirements: newEvent.requirements,
-          eligible_classes: newEvent.eligible_classes,
-          additional_requirements: newEvent.additional_requirements,
-          bucket_name: bucketName,
-          event_date: new Date().toISOString(),
-          application_deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-          is_active: true,
-        })
-        .select()
-        .single();
+    const applicationQuestions: ApplicationQuestion[] = [];
+    for (const draft of newEvent.questions) {
+      const label = draft.label.trim();
+      if (!label) {
+        Alert.alert('Error', 'Every application question needs a label');
+        return null;
+      }
+      const options = isChoiceQuestion(draft.kind)
+        ? [...new Set(draft.options.split(',').map(option => option.trim()).filter(Boolean))]
+        : [];
+      if (isChoiceQuestion(draft.kind) && options.length < 2) {
+        Alert.alert('Error', `Give "${label}" at least two options, separated by commas`);
+        return null;
+      }
+      applicationQuestions.push({ id: draft.id, label, kind: draft.kind, options, required: draft.required });
+    }
 
-      if (error) throw error;
+    return { applicationDeadline, eventDate, eligibilityCriteria, applicationQuestions };
+  };
+
+  const createPlacementEvent = async (status: 'draft' | 'open') => {
+    const dates = validateEventForm(status);
+    if (!dates) return;
+    const { applicationDeadline, eventDate, eligibilityCriteria, applicationQuestions } = dates;
+
+    try {
+      setCreating(true);
+
+      // The function inserts the event and creates its storage bucket, which only the server may name.
+      // If the bucket can't be set up the event is removed again and an error comes back
+      const { data: created, error } = await supabase.functions.invoke('placement-events', {
+        body: {
+          action: 'create',
+          event: {
+            title: newEvent.title,
+            description: newEvent.description,
+            company_id: newEvent.company_id,
+            company_name: newEvent.company_name,
+            requirements: newEvent.requirements,
+            eligible_classes: newEvent.eligible_classes,
+            eligibility_criteria: eligibilityCriteria,
+            application_questions: applicationQuestions,
+            tier: newEvent.tier,
+            academic_year: newEvent.academic_year.trim(),
+            additional_requirements: newEvent.additional_requirements,
+            event_date: eventDate.toISOString(),
+            application_deadline: applicationDeadline.toISOString(),
+            status,
+          },
+        },
+      });
+
+      if (error) {
+        let message: string | undefined;
+        if (error instanceof FunctionsHttpError) {
+          message = (await error.context.json().catch(() => null))?.error;
+        }
+        Alert.alert('Error', message || 'Failed to create placement event');
+        return;
+      }
+
+      const eventData: PlacementEvent | undefined = created?.event;
 
       // Create placement requirements for each additional requirement
       if (newEvent.additional_requirements.length > 0 && eventData) {
         const requirementInserts = newEvent.additional_requirements.map(req => ({
           event_id: eventData.id,
           type: req.type,
-          description: `${req.type.replace('_', ' ')} submission`,
+          description: `${getRequirementLabel(req.type, requirementTypes)} submission`,
           is_required: req.required,
         }));
 
         const { error: reqError } = await supabase
           .from('placement_requirements')
-          .insert(requirementInserts);
+          .insert(requirementInserts)
+          .setHeader(AUDIT_ACTION_HEADER, 'create_placement_event');
 
         if (reqError) {
           console.warn('Requirements creation warning:', reqError);
         }
       }
 
-      Alert.alert('Success', 'Placement event created successfully!');
+      if (newEvent.rounds.length > 0 && eventData) {
+        const { error: roundsError } = await supabase
+          .from('placement_rounds')
+          .insert(newEvent.rounds.map((round, index) => ({
+            event_id: eventData.id,
+            name: round.name,
+            sequence: index + 1,
+          })))
+          .setHeader(AUDIT_ACTION_HEADER, 'create_placement_event');
+
+        if (roundsError) {
+          console.warn('Rounds creation warning:', roundsError);
+        }
+      }
+
+      Alert.alert('Success', status === 'draft' ? 'Placement event saved as a draft' : 'Placement event published successfully!');
       setShowCreateModal(false);
       resetForm();
       
-      // Create notification for students
-      await supabase
-        .from('notifications')
-        .insert({
-          title: 'New Placement Opportunity',
-          message: `A new placement opportunity at ${newEvent.company_name} for "${newEvent.title}" has been posted. Apply now!`,
-          type: 'placement',
-          target_audience: newEvent.eligible_classes.length > 0 ? 'specific_class' : 'all',
-          target_classes: newEvent.eligible_classes,
-          created_by: user?.id,
-          cacheControl: '3600',
-          metadata: {
-            'Content-Disposition': 'inline'
-          }
-        });
+      // Students only hear about events once they are published
+      if (status === 'open') {
+        await notifyNewPlacement(newEvent);
+      }
       
       loadPlacementEvents();
     } catch (error) {
@@ -332,103 +978,1385 @@ export default function AdminPlacementsScreen() {
     }
   };
 
-  
-  const resetForm = () => {
+  const loadCompanies = async () => {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name')
+      .order('name');
+
+    if (error) {
+      console.error('Error loading companies:', error);
+      return;
+    }
+    setCompanies(data || []);
+  };
+
+  // Adds the typed name as a new company record and picks it for the event
+  const addCompanyFromForm = async () => {
+    const name = newEvent.company_name.trim();
+    if (!name) return;
+
+    setAddingCompany(true);
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({ name })
+      .select('id, name')
+      .single()
+      .setHeader(AUDIT_ACTION_HEADER, 'create_company');
+    setAddingCompany(false);
+
+    if (error) {
+      console.error('Error creating company:', error);
+      Alert.alert('Error', error.code === '23505'
+        ? 'A company with a matching name already exists, pick it from the list'
+        : 'Failed to add the company');
+      loadCompanies();
+      return;
+    }
+
+    setCompanies(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewEvent(prev => ({ ...prev, company_id: data.id, company_name: data.name }));
+  };
+
+  const openCreateModal = () => {
+    loadCompanies();
+    resetForm();
+    setEditingEvent(null);
+    setEditingRequirements([]);
+    setShowCreateModal(true);
+  };
+
+  const openEditModal = async (event: PlacementEvent) => {
+    loadCompanies();
+    try {
+      const { data, error } = await supabase
+        .from('placement_requirements')
+        .select('id, type, is_required, student_requirement_submissions (count)')
+        .eq('event_id', event.id);
+
+      if (error) throw error;
+
+      setEditingRequirements((data || []).map((req: any) => ({
+        id: req.id,
+        type: req.type,
+        submissions: req.student_requirement_submissions?.[0]?.count ?? 0,
+      })));
+      setNewEvent({
+        title: event.title,
+        description: event.description || '',
+        company_name: event.company_name,
+        company_id: event.company_id || '',
+        requirements: event.requirements || '',
+        eligible_classes: event.eligible_classes || [],
+        additional_requirements: (data || []).map((req: any) => ({ type: req.type, required: req.is_required })),
+        rounds: [],
+        questions: toQuestionDrafts(event.application_questions),
+        application_deadline: event.application_deadline ? toDateTimeInput(event.application_deadline) : '',
+        event_date: event.event_date ? toDateTimeInput(event.event_date) : '',
+        eligibility: toEligibilityInputs(event.eligibility_criteria),
+        tier: event.tier || 'regular',
+        academic_year: event.academic_year || getAcademicYear(),
+      });
+      setCustomRoundName('');
+      setEditingEvent(event);
+      setShowCreateModal(true);
+    } catch (error) {
+      console.error('Error loading event for editing:', error);
+      Alert.alert('Error', 'Failed to load the event');
+    }
+  };
+
+  // Copies an event into the create form for a recruiter's next drive; dates are picked afresh
+  const openDuplicateModal = (event: PlacementEvent) => {
+    loadCompanies();
     setNewEvent({
-      title: '',
-      description: '',
-      company_name: '',
-      requirements: '',
-      eligible_classes: [],
-      additional_requirements: [],
+      title: event.title,
+      description: event.description || '',
+      company_name: event.company_name,
+      company_id: event.company_id || '',
+      requirements: event.requirements || '',
+      eligible_classes: event.eligible_classes || [],
+      additional_requirements: (event.placement_requirements || []).map(req => ({ type: req.type, required: req.is_required })),
+      rounds: sortRounds(event.placement_rounds).map(round => ({ name: round.name })),
+      questions: toQuestionDrafts(event.application_questions),
+      application_deadline: '',
+      event_date: '',
+      eligibility: toEligibilityInputs(event.eligibility_criteria),
+      tier: event.tier || 'regular',
+      academic_year: getAcademicYear(),
     });
+    setCustomRoundName('');
+    setEditingEvent(null);
+    setEditingRequirements([]);
+    setShowCreateModal(true);
   };
 
-  const viewApplications = async (event: PlacementEvent) => {
-    setSelectedEvent(event);
-    await loadEventApplications(event.id);
-    setShowApplicationsModal(true);
-  };
+  const saveEventChanges = async () => {
+    if (!editingEvent) return;
+
+    const dates = validateEventForm(getPlacementEventStatus(editingEvent) as PlacementEventStatus);
+    if (!dates) return;
+
+    const removedRequirements = editingRequirements.filter(
+      req => !newEvent.additional_requirements.some(draft => draft.type === req.type)
+    );
+    const addedRequirements = newEvent.additional_requirements.filter(
+      draft => !editingRequirements.some(req => req.type === draft.type)
+    );
 
-  const acceptApplication = async (applicationId: string) => {
     try {
+      setCreating(true);
+
       const { error } = await supabase
-        .from('placement_applications')
-        .update({ application_status: 'accepted' })
-        .eq('id', applicationId);
+        .from('placement_events')
+        .update({
+          title: newEvent.title,
+          description: newEvent.description,
+          company_id: newEvent.company_id,
+          company_name: newEvent.company_name,
+          requirements: newEvent.requirements,
+          eligible_classes: newEvent.eligible_classes,
+          eligibility_criteria: dates.eligibilityCriteria,
+          application_questions: dates.applicationQuestions,
+          tier: newEvent.tier,
+          academic_year: newEvent.academic_year.trim(),
+          additional_requirements: newEvent.additional_requirements,
+          event_date: dates.eventDate.toISOString(),
+          application_deadline: dates.applicationDeadline.toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', editingEvent.id)
+        .setHeader(AUDIT_ACTION_HEADER, 'update_placement_event');
 
       if (error) throw error;
 
-      Alert.alert('Success', 'Application marked as accepted');
-      if (selectedEvent?.id) {
-        await loadEventApplications(selectedEvent.id);
-        
-        // Create notification for the student
-        const application = applications.find(app => app.id === applicationId);
-        if (application) {
-          await supabase
-            .from('notifications')
-            .insert({
-              title: `Application Accepted`,
-              message: `Your application for ${selectedEvent.title} at ${selectedEvent.company_name} has been accepted.`,
-              type: 'placement',
-              target_audience: 'all', // Will be filtered by student
-              created_by: user?.id,
-              is_active: true,
-            });
-        }
+      if (removedRequirements.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('placement_requirements')
+          .delete()
+          .in('id', removedRequirements.map(req => req.id))
+          .setHeader(AUDIT_ACTION_HEADER, 'update_placement_event');
+        if (deleteError) throw deleteError;
+      }
+
+      for (const req of editingRequirements) {
+        const draft = newEvent.additional_requirements.find(d => d.type === req.type);
+        const saved = editingEvent.placement_requirements?.find(r => r.id === req.id);
+        if (!draft || draft.required === saved?.is_required) continue;
+
+        const { error: updateError } = await supabase
+          .from('placement_requirements')
+          .update({ is_required: draft.required })
+          .eq('id', req.id)
+          .setHeader(AUDIT_ACTION_HEADER, 'update_placement_event');
+        if (updateError) throw updateError;
+      }
+
+      if (addedRequirements.length > 0) {
+        const { error: insertError } = await supabase
+          .from('placement_requirements')
+          .insert(addedRequirements.map(req => ({
+            event_id: editingEvent.id,
+            type: req.type,
+            description: `${getRequirementLabel(req.type, requirementTypes)} submission`,
+            is_required: req.required,
+          })))
+          .setHeader(AUDIT_ACTION_HEADER, 'update_placement_event');
+        if (insertError) throw insertError;
       }
-    } catch (err) {
-      console.error('Accept application error:', err);
-      Alert.alert('Error', 'Failed to update application status');
+
+      Alert.alert('Success', 'Placement event updated');
+      setShowCreateModal(false);
+      setEditingEvent(null);
+      resetForm();
+      loadPlacementEvents();
+    } catch (error: any) {
+      console.error('Error updating placement event:', error);
+      Alert.alert('Error', error?.message || 'Failed to update placement event');
+    } finally {
+      setCreating(false);
     }
   };
 
-  const exportApplicationsToExcel = async () => {
-    if (!selectedEvent || applications.length === 0) {
-      Alert.alert('No Data', 'No applications to export');
+  const setEventArchived = (event: PlacementEvent, archived: boolean) => {
+    const update = async () => {
+      try {
+        setUpdatingEventId(event.id);
+        const { error } = await supabase
+          .from('placement_events')
+          .update({
+            archived_at: archived ? new Date().toISOString() : null,
+            archived_by: archived ? user?.id : null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', event.id)
+          .setHeader(AUDIT_ACTION_HEADER, archived ? 'archive_placement_event' : 'restore_placement_event');
+
+        if (error) throw error;
+        loadPlacementEvents();
+      } catch (error) {
+        console.error('Error archiving event:', error);
+        Alert.alert('Error', archived ? 'Failed to archive the event' : 'Failed to restore the event');
+      } finally {
+        setUpdatingEventId(null);
+      }
+    };
+
+    if (!archived) {
+      update();
       return;
     }
 
-    try {
-      // Get all additional requirement types from the selected event
-      const additionalRequirementTypes = (selectedEvent.additional_requirements || []).map((r: { type: string }) => r.type);
+    Alert.alert(
+      'Archive Event',
+      `${event.title} will be hidden from students and closed to new applications. Applications and documents are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Archive', style: 'destructive', onPress: update },
+      ]
+    );
+  };
 
-      const exportData = applications.map((application, index) => ({
-        'S.No': index + 1,
-        'Full Name': application.students?.student_profiles?.full_name || application.students?.name || 'N/A',
-        'UID': application.students?.uid || 'N/A',
-        'Roll Number': application.students?.roll_no || 'N/A',
-        'Email': application.students?.email || 'N/A',
-        'Class': application.students?.student_profiles?.class || 'N/A',
-        'Application Status': application.application_status.toUpperCase(),
-        'Applied Date': formatDate(application.applied_at),
-        'Admin Notes': application.admin_notes || 'No notes',
-        'Resume Link': application.students?.student_profiles?.resume_url 
-          ? application.students.student_profiles.resume_url
-          : 'Not uploaded',
-        'Offer Letter Link': application.offer_letter_url 
-          ? application.offer_letter_url
-          : (application.application_status === 'accepted' ? 'Not uploaded' : 'Not accepted'),
-        // Add additional requirement submission links
-        ...additionalRequirementTypes.reduce((acc, type) => {
-          const reqLabel = type.replace('_', ' ').split(' ').map(word => 
-            word.charAt(0).toUpperCase() + word.slice(1)
-          ).join(' ');
-          const reqKey = `${reqLabel} Link`;
-          
-          // Find the submission for this additional requirement type
-          const submission = application.student_requirement_submissions?.find(sub => 
-            sub.placement_requirements.type === type
-          );
-          
-          if (submission?.file_url) {
-            acc[reqKey] = submission.file_url;
-          } else {
-            acc[reqKey] = 'Not submitted';
+  // Deleting goes through the edge function, only it can remove the event's storage bucket
+  const deletePlacementEvent = (event: PlacementEvent) => {
+    const remove = async () => {
+      try {
+        setDeleting(event.id);
+        const { data, error } = await supabase.functions.invoke('placement-events', {
+          body: { action: 'delete', eventId: event.id },
+        });
+
+        if (error) {
+          let message: string | undefined;
+          if (error instanceof FunctionsHttpError) {
+            message = (await error.context.json().catch(() => null))?.error;
           }
-          return acc;
-        }, {} as Record<string, string>),
+          Alert.alert('Error', message || 'Failed to delete the event');
+          return;
+        }
+
+        Alert.alert(data?.warning ? 'Event Deleted' : 'Success', data?.warning || 'Placement event deleted');
+        loadPlacementEvents();
+      } catch (error) {
+        console.error('Error deleting event:', error);
+        Alert.alert('Error', 'Failed to delete the event');
+      } finally {
+        setDeleting(null);
+      }
+    };
+
+    Alert.alert(
+      'Delete Event',
+      `Delete ${event.title} along with its requirements, rounds and uploaded files? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: remove },
+      ]
+    );
+  };
+
+  const loadOverrides = async (eventId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('placement_eligibility_overrides')
+        .select(`
+          *,
+          students!inner (
+            name,
+            uid,
+            roll_no
+          )
+        `)
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setOverrides(data || []);
+    } catch (error) {
+      console.error('Error loading eligibility overrides:', error);
+      setOverrides([]);
+    }
+  };
+
+  const openOverridesModal = (event: PlacementEvent) => {
+    setOverridesEvent(event);
+    setOverrideStudentQuery('');
+    setOverrideStudent(null);
+    setOverrideJustification('');
+    loadOverrides(event.id);
+  };
+
+  // Finds the student by UID or roll number and asks the database which criteria they fail
+  const findOverrideStudent = async () => {
+    // Commas and parentheses would split the filter below into other conditions
+    const query = overrideStudentQuery.trim().replace(/[,()]/g, '');
+    if (!overridesEvent || !query) return;
+
+    try {
+      const { data: student, error } = await supabase
+        .from('students')
+        .select('id, name, uid')
+        .or(`uid.eq.${query},roll_no.eq.${query}`)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!student) {
+        Alert.alert('Not Found', `No student with UID or roll number ${query}`);
+        setOverrideStudent(null);
+        return;
+      }
+
+      const { data: eligibilityRows, error: eligibilityError } = await supabase
+        .rpc('get_placement_eligibility', { p_student_id: student.id });
+
+      if (eligibilityError) throw eligibilityError;
+
+      const row = (eligibilityRows || []).find((r: any) => r.event_id === overridesEvent.id);
+      setOverrideStudent({ ...student, reasons: row?.reasons || [] });
+    } catch (error) {
+      console.error('Error looking up student:', error);
+      Alert.alert('Error', 'Failed to look up the student');
+    }
+  };
+
+  const grantOverride = async () => {
+    if (!overridesEvent || !overrideStudent) return;
+
+    if (!overrideJustification.trim()) {
+      Alert.alert('Justification Required', 'Explain why this student may apply despite the criteria.');
+      return;
+    }
+
+    try {
+      setSavingOverride(true);
+      const { error } = await supabase
+        .from('placement_eligibility_overrides')
+        .insert({
+          event_id: overridesEvent.id,
+          student_id: overrideStudent.id,
+          justification: overrideJustification.trim(),
+          granted_by: user?.id,
+        })
+        .setHeader(AUDIT_ACTION_HEADER, 'grant_eligibility_override');
+
+      if (error) {
+        if (error.code === '23505') {
+          Alert.alert('Already Allowed', `${overrideStudent.name} already has an override for this event.`);
+          return;
+        }
+        throw error;
+      }
+
+      setOverrideStudentQuery('');
+      setOverrideStudent(null);
+      setOverrideJustification('');
+      loadOverrides(overridesEvent.id);
+    } catch (error) {
+      console.error('Error granting override:', error);
+      Alert.alert('Error', 'Failed to grant the override');
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const revokeOverride = (override: EligibilityOverride) => {
+    Alert.alert(
+      'Revoke Override',
+      `${override.students.name} will no longer be able to apply unless they meet the criteria. Existing applications are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('placement_eligibility_overrides')
+              .delete()
+              .eq('id', override.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'revoke_eligibility_override');
+
+            if (error) {
+              console.error('Error revoking override:', error);
+              Alert.alert('Error', 'Failed to revoke the override');
+              return;
+            }
+            if (overridesEvent) loadOverrides(overridesEvent.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const loadInterviewSlots = async (eventId: string) => {
+    try {
+      const [slotsResult, shortlistedResult] = await Promise.all([
+        supabase
+          .from('interview_slots')
+          .select(`
+            *,
+            interview_bookings (
+              id,
+              application_id,
+              students (name, uid, email)
+            )
+          `)
+          .eq('event_id', eventId)
+          .order('starts_at', { ascending: true }),
+        supabase
+          .from('placement_applications')
+          .select('*, students (name)')
+          .eq('placement_event_id', eventId)
+          .eq('application_status', 'shortlisted'),
+      ]);
+
+      if (slotsResult.error) throw slotsResult.error;
+      if (shortlistedResult.error) throw shortlistedResult.error;
+
+      const slots: InterviewSlot[] = slotsResult.data || [];
+      const bookedApplicationIds = new Set(slots.flatMap(slot => slot.interview_bookings.map(b => b.application_id)));
+      setInterviewSlots(slots);
+      setUnscheduledApplicants((shortlistedResult.data || [])
+        .filter((app: any) => !bookedApplicationIds.has(app.id))
+        .map((app: any) => ({ id: app.id, name: app.students?.name || 'Unknown' })));
+    } catch (error) {
+      console.error('Error loading interview slots:', error);
+      setInterviewSlots([]);
+      setUnscheduledApplicants([]);
+    }
+  };
+
+  const openInterviewsModal = (event: PlacementEvent) => {
+    setInterviewsEvent(event);
+    setSlotForm(emptySlotForm());
+    loadInterviewSlots(event.id);
+  };
+
+  // Adds back-to-back slots starting at the given time, e.g. six 20 minute slots from 10:00
+  const addInterviewSlots = async () => {
+    if (!interviewsEvent) return;
+
+    const startsAt = parseDateTimeInput(slotForm.starts_at);
+    const duration = Number(slotForm.duration_minutes);
+    const count = Number(slotForm.count);
+    const capacity = Number(slotForm.capacity);
+
+    if (!startsAt || !/\d{1,2}:\d{2}/.test(slotForm.starts_at)) {
+      Alert.alert('Error', 'Enter the first slot\'s start as YYYY-MM-DD HH:MM');
+      return;
+    }
+    if (startsAt.getTime() <= Date.now()) {
+      Alert.alert('Error', 'Interview slots must be in the future');
+      return;
+    }
+    if (![duration, count, capacity].every(value => Number.isInteger(value) && value > 0) || count > 50) {
+      Alert.alert('Error', 'Duration, number of slots (up to 50) and candidates per slot must be whole numbers');
+      return;
+    }
+
+    try {
+      setSavingSlots(true);
+      const { error } = await supabase
+        .from('interview_slots')
+        .insert(Array.from({ length: count }, (_, index) => ({
+          event_id: interviewsEvent.id,
+          starts_at: new Date(startsAt.getTime() + index * duration * 60000).toISOString(),
+          ends_at: new Date(startsAt.getTime() + (index + 1) * duration * 60000).toISOString(),
+          panel: slotForm.panel.trim() || null,
+          location: slotForm.location.trim() || null,
+          capacity,
+        })))
+        .setHeader(AUDIT_ACTION_HEADER, 'create_interview_slots');
+
+      if (error) throw error;
+
+      setSlotForm(prev => ({ ...emptySlotForm(), panel: prev.panel, location: prev.location }));
+      loadInterviewSlots(interviewsEvent.id);
+    } catch (error) {
+      console.error('Error adding interview slots:', error);
+      Alert.alert('Error', 'Failed to add interview slots');
+    } finally {
+      setSavingSlots(false);
+    }
+  };
+
+  const deleteInterviewSlot = (slot: InterviewSlot) => {
+    Alert.alert(
+      'Delete Slot',
+      `Delete the ${formatDateTime(slot.starts_at)} slot?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            // The database refuses while candidates are booked into the slot
+            const { error } = await supabase
+              .from('interview_slots')
+              .delete()
+              .eq('id', slot.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'delete_interview_slot');
+
+            if (error) {
+              Alert.alert('Cannot Delete', error.message || 'Failed to delete the slot');
+              return;
+            }
+            if (interviewsEvent) loadInterviewSlots(interviewsEvent.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const cancelInterviewBooking = (booking: InterviewSlot['interview_bookings'][number]) => {
+    Alert.alert(
+      'Remove from Slot',
+      `${booking.students?.name || 'The student'} will need a new slot.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('interview_bookings')
+              .delete()
+              .eq('id', booking.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'cancel_interview_booking');
+
+            if (error) {
+              console.error('Error cancelling interview booking:', error);
+              Alert.alert('Error', 'Failed to remove the student from the slot');
+              return;
+            }
+            if (interviewsEvent) loadInterviewSlots(interviewsEvent.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const setStudentsPickSlots = async (studentsPickSlots: boolean) => {
+    if (!interviewsEvent) return;
+
+    const { error } = await supabase
+      .from('placement_events')
+      .update({ students_pick_slots: studentsPickSlots })
+      .eq('id', interviewsEvent.id)
+      .setHeader(AUDIT_ACTION_HEADER, 'update_placement_event');
+
+    if (error) {
+      console.error('Error updating slot selection:', error);
+      Alert.alert('Error', 'Failed to update how slots are given out');
+      return;
+    }
+
+    setInterviewsEvent({ ...interviewsEvent, students_pick_slots: studentsPickSlots });
+    loadPlacementEvents();
+  };
+
+  const autoAssignInterviewSlots = async () => {
+    if (!interviewsEvent) return;
+
+    try {
+      setAssigningSlots(true);
+      const { data, error } = await supabase
+        .rpc('auto_assign_interview_slots', { p_event_id: interviewsEvent.id })
+        .setHeader(AUDIT_ACTION_HEADER, 'assign_interview_slots');
+
+      if (error) throw error;
+
+      const result = data?.[0] || { assigned: 0, unassigned: 0 };
+      Alert.alert(
+        'Slots Assigned',
+        `Assigned ${result.assigned} applicant${result.assigned === 1 ? '' : 's'}.` +
+          (result.unassigned > 0
+            ? ` ${result.unassigned} could not be fitted into a free slot without a clash, add more slots for them.`
+            : '')
+      );
+      loadInterviewSlots(interviewsEvent.id);
+    } catch (error) {
+      console.error('Error assigning interview slots:', error);
+      Alert.alert('Error', 'Failed to assign interview slots');
+    } finally {
+      setAssigningSlots(false);
+    }
+  };
+
+  const saveExportFile = async (filename: string, contents: string, mimeType: string, base64: boolean) => {
+    if (Platform.OS === 'web') {
+      const blob = base64
+        ? new Blob([Uint8Array.from(atob(contents), c => c.charCodeAt(0))], { type: mimeType })
+        : new Blob([contents], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const fileUri = (FileSystem.documentDirectory || '/tmp/') + filename;
+    await FileSystem.writeAsStringAsync(fileUri, contents, {
+      encoding: base64 ? FileSystem.EncodingType.Base64 : FileSystem.EncodingType.UTF8,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: 'Save Interview Schedule' });
+    } else {
+      Alert.alert('File Saved', `Schedule saved to: ${fileUri}`);
+    }
+  };
+
+  const exportInterviewSchedule = async (format: 'xlsx' | 'ics') => {
+    if (!interviewsEvent) return;
+    if (interviewSlots.length === 0) {
+      Alert.alert('No Data', 'Add interview slots before exporting the schedule');
+      return;
+    }
+
+    const baseName = `${interviewsEvent.company_name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20)}_Interviews`;
+
+    try {
+      if (format === 'ics') {
+        const calendar = buildIcsCalendar(
+          `${interviewsEvent.company_name} Interviews`,
+          interviewSlots.map(slot => ({
+            uid: slot.id,
+            title: `${interviewsEvent.company_name} Interview${slot.panel ? ` - ${slot.panel}` : ''}`,
+            startsAt: slot.starts_at,
+            endsAt: slot.ends_at,
+            location: slot.location,
+            description: slot.interview_bookings.length > 0
+              ? `Candidates: ${slot.interview_bookings.map(b => `${b.students?.name} (${b.students?.uid})`).join(', ')}`
+              : 'No candidates booked',
+          }))
+        );
+        await saveExportFile(`${baseName}.ics`, calendar, 'text/calendar', false);
+        return;
+      }
+
+      const rows = interviewSlots.flatMap(slot => {
+        const slotColumns = {
+          'Date': formatDate(slot.starts_at),
+          'Start': new Date(slot.starts_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+          'End': new Date(slot.ends_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+          'Panel': slot.panel || '',
+          'Room / Link': slot.location || '',
+        };
+        return slot.interview_bookings.length > 0
+          ? slot.interview_bookings.map(booking => ({
+              ...slotColumns,
+              'Student Name': booking.students?.name || '',
+              'UID': booking.students?.uid || '',
+              'Email': booking.students?.email || '',
+            }))
+          : [{ ...slotColumns, 'Student Name': 'Open', 'UID': '', 'Email': '' }];
+      });
+
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(rows);
+      ws['!cols'] = [
+        { wch: 14 }, // Date
+        { wch: 8 },  // Start
+        { wch: 8 },  // End
+        { wch: 20 }, // Panel
+        { wch: 30 }, // Room / Link
+        { wch: 25 }, // Student Name
+        { wch: 15 }, // UID
+        { wch: 30 }, // Email
+      ];
+      XLSX.utils.book_append_sheet(wb, ws, 'Interview Schedule');
+
+      const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'base64' });
+      await saveExportFile(
+        `${baseName}.xlsx`,
+        wbout,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        true
+      );
+    } catch (error) {
+      console.error('Interview export error:', error);
+      Alert.alert('Export Failed', 'Could not export the interview schedule');
+    }
+  };
+
+  const loadPolicy = async (academicYear: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('placement_policies')
+        .select('*')
+        .eq('academic_year', academicYear)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const form = emptyPolicyForm(academicYear);
+      if (data) {
+        const rules: PlacementTierRules = data.tier_rules || {};
+        form.one_offer_enabled = data.one_offer_enabled;
+        for (const tier of DREAM_TIERS) {
+          form.tiers[tier] = {
+            max_offer_ctc_lpa: rules[tier] ? String(rules[tier]!.max_offer_ctc_lpa) : '',
+            max_applications: rules[tier] ? String(rules[tier]!.max_applications) : '',
+          };
+        }
+      }
+      setPolicyForm(form);
+    } catch (error) {
+      console.error('Error loading placement policy:', error);
+      Alert.alert('Error', 'Failed to load the placement policy');
+    }
+  };
+
+  const openPolicyModal = () => {
+    setShowPolicyModal(true);
+    loadPolicy(getAcademicYear());
+  };
+
+  const savePolicy = async () => {
+    const academicYear = policyForm.academic_year.trim();
+    if (!isAcademicYear(academicYear)) {
+      Alert.alert('Error', 'Enter the academic year like 2025-26');
+      return;
+    }
+
+    // A dream tier left empty stays closed to students who are already placed
+    const tierRules: PlacementTierRules = {};
+    for (const tier of DREAM_TIERS) {
+      const { max_offer_ctc_lpa, max_applications } = policyForm.tiers[tier];
+      if (!max_offer_ctc_lpa.trim() && !max_applications.trim()) continue;
+
+      const ctc = Number(max_offer_ctc_lpa);
+      const cap = Number(max_applications);
+      if (isNaN(ctc) || ctc <= 0 || !Number.isInteger(cap) || cap <= 0) {
+        Alert.alert('Error', `${PLACEMENT_TIER_LABELS[tier]} needs an offer limit in LPA and a whole number of applications`);
+        return;
+      }
+      tierRules[tier] = { max_offer_ctc_lpa: ctc, max_applications: cap };
+    }
+
+    try {
+      setSavingPolicy(true);
+      const { error } = await supabase
+        .from('placement_policies')
+        .upsert({
+          academic_year: academicYear,
+          one_offer_enabled: policyForm.one_offer_enabled,
+          tier_rules: tierRules,
+        }, { onConflict: 'academic_year' })
+        .setHeader(AUDIT_ACTION_HEADER, 'update_placement_policy');
+
+      if (error) throw error;
+
+      Alert.alert('Success', `Placement policy for ${academicYear} saved`);
+      setShowPolicyModal(false);
+    } catch (error: any) {
+      console.error('Error saving placement policy:', error);
+      Alert.alert('Error', error?.message || 'Failed to save the placement policy');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const resetForm = () => {
+    setNewEvent({
+      title: '',
+      description: '',
+      company_name: '',
+      company_id: '',
+      requirements: '',
+      eligible_classes: [],
+      additional_requirements: [],
+      rounds: [],
+      questions: [],
+      application_deadline: '',
+      event_date: '',
+      eligibility: toEligibilityInputs(),
+      tier: 'regular',
+      academic_year: getAcademicYear(),
+    });
+    setCustomRoundName('');
+  };
+
+  const updateEventStatus = async (event: PlacementEvent, transition: { status: PlacementEventStatus; action: string }) => {
+    if (transition.status === 'open' && event.application_deadline && new Date(event.application_deadline).getTime() <= Date.now()) {
+      Alert.alert('Deadline Passed', 'Edit the event and move its application deadline into the future before opening it.');
+      return;
+    }
+
+    try {
+      setUpdatingEventId(event.id);
+      const { error } = await supabase
+        .from('placement_events')
+        .update({ status: transition.status, updated_at: new Date().toISOString() })
+        .eq('id', event.id)
+        .setHeader(AUDIT_ACTION_HEADER, transition.action);
+
+      if (error) throw error;
+
+      if (event.status === 'draft' && transition.status === 'open') {
+        await notifyNewPlacement(event);
+      }
+      loadPlacementEvents();
+    } catch (error: any) {
+      console.error('Error updating event status:', error);
+      Alert.alert('Error', error?.message || 'Failed to update the event');
+    } finally {
+      setUpdatingEventId(null);
+    }
+  };
+
+  const viewApplications = async (event: PlacementEvent) => {
+    setSelectedEvent(event);
+    setStageFilter('all');
+    setSelectedApplicationIds([]);
+    setActionReason('');
+    setReviewFeedback({});
+    await loadEventApplications(event.id);
+    setShowApplicationsModal(true);
+  };
+
+  const updateApplicationStatus = async (applicationIds: string[], status: ApplicationStatus) => {
+    const decision = APPLICATION_DECISIONS.find(d => d.status === status);
+    if (!selectedEvent || !decision || applicationIds.length === 0) return;
+
+    if (status === 'rejected' && !actionReason.trim()) {
+      Alert.alert('Reason Required', 'Enter the reason for rejecting the selected applications.');
+      return;
+    }
+
+    // Withdrawn applications are final, the database refuses to change them
+    const ids = applications
+      .filter(app => applicationIds.includes(app.id) && app.application_status !== 'withdrawn' && app.application_status !== status)
+      .map(app => app.id);
+    if (ids.length === 0) {
+      Alert.alert('Nothing to Update', `The selected applications are already ${status} or withdrawn.`);
+      return;
+    }
+
+    if (status === 'shortlisted') {
+      const blocked = applications.filter(app =>
+        ids.includes(app.id) && getUnapprovedRequirements(app, selectedEvent.placement_requirements || []).length > 0
+      );
+      if (blocked.length > 0) {
+        Alert.alert(
+          'Requirements Not Approved',
+          `Approve the required items before shortlisting ${blocked
+            .map(app => app.students?.student_profiles?.full_name || app.students?.name || 'Unknown')
+            .join(', ')}.`
+        );
+        return;
+      }
+    }
+
+    try {
+      setUpdatingApplications(true);
+      const { error } = await supabase
+        .from('placement_applications')
+        .update({ application_status: status, status_reason: actionReason.trim() || null })
+        .in('id', ids)
+        .setHeader(AUDIT_ACTION_HEADER, decision.action);
+
+      if (error) throw error;
+
+      Alert.alert('Success', `${ids.length} application${ids.length === 1 ? '' : 's'} marked as ${status}`);
+      setSelectedApplicationIds([]);
+      setActionReason('');
+      await loadEventApplications(selectedEvent.id);
+    } catch (err: any) {
+      console.error('Update application status error:', err);
+      Alert.alert('Error', err?.message || 'Failed to update application status');
+    } finally {
+      setUpdatingApplications(false);
+    }
+  };
+
+  const addRoundDraft = (rounds: RoundDraft[], name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || rounds.some(round => round.name.toLowerCase() === trimmed.toLowerCase())) {
+      return rounds;
+    }
+    return [...rounds, { name: trimmed }];
+  };
+
+  const moveRoundDraft = (rounds: RoundDraft[], index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rounds.length) return rounds;
+    const reordered = [...rounds];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  };
+
+  const openRoundsModal = (event: PlacementEvent) => {
+    setRoundsEvent(event);
+    setRoundDrafts(sortRounds(event.placement_rounds).map(round => ({ id: round.id, name: round.name })));
+    setCustomRoundName('');
+    setShowRoundsModal(true);
+  };
+
+  const saveEventRounds = async () => {
+    if (!roundsEvent) return;
+
+    const removedRounds = sortRounds(roundsEvent.placement_rounds).filter(
+      round => !roundDrafts.some(draft => draft.id === round.id)
+    );
+
+    const save = async () => {
+      try {
+        setSavingRounds(true);
+
+        if (removedRounds.length > 0) {
+          const { error } = await supabase
+            .from('placement_rounds')
+            .delete()
+            .in('id', removedRounds.map(round => round.id))
+            .setHeader(AUDIT_ACTION_HEADER, 'update_placement_rounds');
+          if (error) throw error;
+        }
+
+        for (const [index, draft] of roundDrafts.entries()) {
+          const { error } = draft.id
+            ? await supabase
+                .from('placement_rounds')
+                .update({ name: draft.name, sequence: index + 1 })
+                .eq('id', draft.id)
+                .setHeader(AUDIT_ACTION_HEADER, 'update_placement_rounds')
+            : await supabase
+                .from('placement_rounds')
+                .insert({ event_id: roundsEvent.id, name: draft.name, sequence: index + 1 })
+                .setHeader(AUDIT_ACTION_HEADER, 'update_placement_rounds');
+          if (error) throw error;
+        }
+
+        Alert.alert('Success', 'Recruitment rounds saved');
+        setShowRoundsModal(false);
+        loadPlacementEvents();
+      } catch (error) {
+        console.error('Error saving rounds:', error);
+        Alert.alert('Error', 'Failed to save recruitment rounds');
+      } finally {
+        setSavingRounds(false);
+      }
+    };
+
+    if (removedRounds.length === 0) {
+      save();
+      return;
+    }
+
+    Alert.alert(
+      'Remove Rounds',
+      `Removing ${removedRounds.map(round => round.name).join(', ')} also deletes the results recorded for ${removedRounds.length === 1 ? 'it' : 'them'}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: save },
+      ]
+    );
+  };
+
+  const openOfferForm = (application: PlacementApplication) => {
+    const offer = application.placement_offers;
+    setOfferForm(offer ? {
+      role: offer.role,
+      ctc_lpa: String(offer.ctc_lpa),
+      location: offer.location || '',
+      joining_date: offer.joining_date || '',
+      expires_at: toDateTimeInput(offer.expires_at),
+    } : { ...emptyOfferForm(), role: selectedEvent?.title || '' });
+    setOfferApplicationId(application.id);
+  };
+
+  const saveOffer = async (application: PlacementApplication) => {
+    if (!selectedEvent) return;
+
+    const ctc = Number(offerForm.ctc_lpa);
+    if (!offerForm.role.trim() || !offerForm.ctc_lpa.trim() || isNaN(ctc) || ctc <= 0) {
+      Alert.alert('Error', 'Enter the role and the CTC in lakhs per annum');
+      return;
+    }
+    const expiresAt = parseDateTimeInput(offerForm.expires_at);
+    if (!expiresAt || expiresAt.getTime() <= Date.now()) {
+      Alert.alert('Error', 'Enter when the offer expires as YYYY-MM-DD HH:MM, in the future');
+      return;
+    }
+    const joiningDate = offerForm.joining_date.trim();
+    if (joiningDate && !parseDateTimeInput(joiningDate)) {
+      Alert.alert('Error', 'Enter the joining date as YYYY-MM-DD');
+      return;
+    }
+
+    const offer = {
+      role: offerForm.role.trim(),
+      ctc_lpa: ctc,
+      location: offerForm.location.trim() || null,
+      joining_date: joiningDate || null,
+      expires_at: expiresAt.toISOString(),
+    };
+
+    try {
+      setSavingOffer(true);
+      const { error } = application.placement_offers
+        ? await supabase
+            .from('placement_offers')
+            .update(offer)
+            .eq('id', application.placement_offers.id)
+            .setHeader(AUDIT_ACTION_HEADER, 'update_offer')
+        : await supabase
+            .from('placement_offers')
+            .insert({ ...offer, application_id: application.id, created_by: user?.id })
+            .setHeader(AUDIT_ACTION_HEADER, 'create_offer');
+
+      if (error) throw error;
+
+      setOfferApplicationId(null);
+      await loadEventApplications(selectedEvent.id);
+    } catch (error: any) {
+      console.error('Error saving offer:', error);
+      Alert.alert('Error', error?.message || 'Failed to save the offer');
+    } finally {
+      setSavingOffer(false);
+    }
+  };
+
+  const revokeOffer = (offer: PlacementOffer) => {
+    Alert.alert(
+      'Revoke Offer',
+      'The student will be told the offer has been withdrawn by the company.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('placement_offers')
+              .update({ status: 'revoked' })
+              .eq('id', offer.id)
+              .setHeader(AUDIT_ACTION_HEADER, 'revoke_offer');
+
+            if (error) {
+              console.error('Error revoking offer:', error);
+              Alert.alert('Error', 'Failed to revoke the offer');
+              return;
+            }
+            if (selectedEvent) loadEventApplications(selectedEvent.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const openSubmissionFile = async (fileUrl: string) => {
+    try {
+      const url = await getSignedUrl(fileUrl);
+      if (Platform.OS === 'web') {
+        window.open(url, '_blank');
+      } else {
+        await WebBrowser.openBrowserAsync(url, {
+          presentationStyle: WebBrowser.WebBrowserPresentationStyle.FULL_SCREEN,
+          controlsColor: '#007AFF',
+        });
+      }
+    } catch (error) {
+      console.error('Error opening submission:', error);
+      Alert.alert('Error', 'Failed to open the file.');
+    }
+  };
+
+  const reviewSubmission = async (submission: RequirementSubmission, status: Exclude<SubmissionStatus, 'pending'>) => {
+    if (!selectedEvent) return;
+
+    const feedback = (reviewFeedback[submission.id] ?? submission.admin_feedback ?? '').trim();
+    if (status === 'changes_requested' && !feedback) {
+      Alert.alert('Feedback Required', 'Tell the student what needs to change.');
+      return;
+    }
+
+    setReviewingSubmissionId(submission.id);
+    const { error } = await supabase
+      .from('student_requirement_submissions')
+      .update({ submission_status: status, admin_feedback: feedback || null })
+      .eq('id', submission.id)
+      .setHeader(AUDIT_ACTION_HEADER, status === 'approved' ? 'approve_requirement_submission' : 'request_requirement_changes');
+    setReviewingSubmissionId(null);
+
+    if (error) {
+      console.error('Error reviewing submission:', error);
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to save the review');
+      return;
+    }
+
+    setReviewFeedback(prev => {
+      const next = { ...prev };
+      delete next[submission.id];
+      return next;
+    });
+    await loadEventApplications(selectedEvent.id);
+  };
+
+  const toggleApplicationSelected = (applicationId: string) => {
+    setSelectedApplicationIds(prev =>
+      prev.includes(applicationId) ? prev.filter(id => id !== applicationId) : [...prev, applicationId]
+    );
+  };
+
+  const moveSelectedToRound = async (round: PlacementRound) => {
+    if (!selectedEvent || selectedApplicationIds.length === 0) return;
+
+    try {
+      setUpdatingApplications(true);
+      const { data, error } = await supabase
+        .rpc('move_applications_to_round', {
+          p_application_ids: selectedApplicationIds,
+          p_round_id: round.id,
+        })
+        .setHeader(AUDIT_ACTION_HEADER, 'move_to_round');
+
+      if (error) throw error;
+
+      Alert.alert('Success', `Moved ${data ?? 0} applicant${data === 1 ? '' : 's'} to ${round.name}`);
+      setSelectedApplicationIds([]);
+      await loadEventApplications(selectedEvent.id);
+    } catch (error: any) {
+      console.error('Error moving applications:', error);
+      Alert.alert('Error', error?.code === 'P0001' ? error.message : 'Failed to move applicants to the round');
+    } finally {
+      setUpdatingApplications(false);
+    }
+  };
+
+  const recordSelectedResult = (result: Exclude<RoundResult, 'pending'>) => {
+    if (!selectedEvent || selectedApplicationIds.length === 0) return;
+
+    const inRound = applications.filter(
+      app => selectedApplicationIds.includes(app.id) && app.current_round_id
+    );
+    if (inRound.length === 0) {
+      Alert.alert('No Round', 'Move the selected applicants into a round before recording results.');
+      return;
+    }
+
+    const record = async () => {
+      try {
+        setUpdatingApplications(true);
+        const { data, error } = await supabase
+          .rpc('record_round_result', {
+            p_application_ids: inRound.map(app => app.id),
+            p_result: result,
+            p_remarks: actionReason,
+          })
+          .setHeader(AUDIT_ACTION_HEADER, 'record_round_result');
+
+        if (error) throw error;
+
+        Alert.alert('Success', `Marked ${data ?? 0} applicant${data === 1 ? '' : 's'} as ${ROUND_RESULT_LABELS[result]}`);
+        setSelectedApplicationIds([]);
+        setActionReason('');
+        await loadEventApplications(selectedEvent.id);
+      } catch (error) {
+        console.error('Error recording round result:', error);
+        Alert.alert('Error', 'Failed to record the round result');
+      } finally {
+        setUpdatingApplications(false);
+      }
+    };
+
+    if (result === 'cleared') {
+      record();
+      return;
+    }
+
+    Alert.alert(
+      `Mark as ${ROUND_RESULT_LABELS[result]}`,
+      `${inRound.length} applicant${inRound.length === 1 ? '' : 's'} will be rejected from this placement.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: ROUND_RESULT_LABELS[result], style: 'destructive', onPress: record },
+      ]
+    );
+  };
+
+  const openImportModal = () => {
+    setImportDecision('shortlisted');
+    setImportReason('');
+    setImportPreview(null);
+    setShowImportModal(true);
+  };
+
+  const pickResultSheet = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'application/vnd.ms-excel',
+          'text/csv',
+          'text/comma-separated-values',
+        ],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const file = result.assets[0];
+      const response = await fetch(file.uri);
+      const arrayBuffer = await response.arrayBuffer();
+      const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false });
+
+      const matches = matchResultSheetRows(rows, applications);
+      if ('error' in matches) {
+        Alert.alert('Columns Not Found', matches.error);
+        return;
+      }
+      setImportPreview({ fileName: file.name, ...matches });
+    } catch (error) {
+      console.error('Result sheet error:', error);
+      Alert.alert('Error', 'Failed to read the sheet. Please check it is an Excel or CSV file.');
+    }
+  };
+
+  // Why a matched applicant won't be changed by the import, if they won't be
+  const getImportSkipReason = (application: PlacementApplication) => {
+    if (application.application_status === 'withdrawn') return 'Withdrawn';
+    if (application.application_status === importDecision) return `Already ${importDecision}`;
+    // A shortlist or waitlist sheet lists everyone still in the running, including those selected since
+    if (application.application_status === 'accepted' && importDecision !== 'rejected') return 'Already selected';
+    if (importDecision === 'shortlisted') {
+      const unapproved = getUnapprovedRequirements(application, selectedEvent?.placement_requirements || []);
+      if (unapproved.length > 0) {
+        return `Not approved yet: ${unapproved.map(req => getRequirementLabel(req.type, requirementTypes)).join(', ')}`;
+      }
+    }
+    return null;
+  };
+
+  const applyResultSheet = () => {
+    if (!selectedEvent || !importPreview) return;
+
+    const ids = importToUpdate.map(app => app.id);
+    if (ids.length === 0) {
+      Alert.alert('Nothing to Update', 'None of the matched applicants can be updated.');
+      return;
+    }
+    if (importDecision === 'rejected' && !importReason.trim()) {
+      Alert.alert('Reason Required', 'Enter the reason for rejecting these applications.');
+      return;
+    }
+
+    const apply = async () => {
+      try {
+        setApplyingImport(true);
+        // A single update, so either every matched application changes or none do
+        const { error } = await supabase
+          .from('placement_applications')
+          .update({ application_status: importDecision, status_reason: importReason.trim() || null })
+          .in('id', ids)
+          .setHeader(AUDIT_ACTION_HEADER, 'import_application_results');
+
+        if (error) throw error;
+
+        Alert.alert('Success', `${ids.length} application${ids.length === 1 ? '' : 's'} marked as ${importDecision}`);
+        setShowImportModal(false);
+        await loadEventApplications(selectedEvent.id);
+      } catch (err: any) {
+        console.error('Import results error:', err);
+        Alert.alert('Error', err?.message || 'Failed to apply the results');
+      } finally {
+        setApplyingImport(false);
+      }
+    };
+
+    Alert.alert(
+      'Apply Results',
+      `Mark ${ids.length} application${ids.length === 1 ? '' : 's'} as ${importDecision}? The students will be notified.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Apply', onPress: apply },
+      ]
+    );
+  };
+
+  const exportApplicationsToExcel = async () => {
+    if (!selectedEvent || applications.length === 0) {
+      Alert.alert('No Data', 'No applications to export');
+      return;
+    }
+
+    try {
+      // Get all additional requirement types from the selected event
+      const additionalRequirementTypes = (selectedEvent.additional_requirements || []).map((r: { type: string }) => r.type);
+      const rounds = sortRounds(selectedEvent.placement_rounds);
+      const questions = selectedEvent.application_questions || [];
+
+      // Documents are private, so the sheet gets signed links that expire instead of the stored ones
+      const documentUrls = applications.flatMap(application => [
+        application.students?.student_profiles?.resume_url || '',
+        application.offer_letter_url || '',
+        ...(application.student_requirement_submissions || []).flatMap(sub =>
+          sub.file_urls?.length ? sub.file_urls : [sub.file_url || '']
+        ),
+      ]);
+      const signedUrls = await getSignedUrls(documentUrls, EXPORT_LINK_EXPIRY_SECONDS);
+      const signedUrlFor = (url: string) => signedUrls[documentUrls.indexOf(url)] || 'Link unavailable';
+
+      const exportData = applications.map((application, index) => ({
+        'S.No': index + 1,
+        'Full Name': application.students?.student_profiles?.full_name || application.students?.name || 'N/A',
+        'UID': application.students?.uid || 'N/A',
+        'Roll Number': application.students?.roll_no || 'N/A',
+        'Email': application.students?.email || 'N/A',
+        'Class': application.students?.student_profiles?.class || 'N/A',
+        'Application Status': application.application_status.toUpperCase(),
+        'Current Stage': getStageLabel(application, rounds),
+        'Applied Date': formatDate(application.applied_at),
+        'Admin Notes': application.admin_notes || 'No notes',
+        'Resume Link': application.students?.student_profiles?.resume_url 
+          ? signedUrlFor(application.students.student_profiles.resume_url)
+          : 'Not uploaded',
+        'Offer Letter Link': application.offer_letter_url 
+          ? signedUrlFor(application.offer_letter_url)
+          : (application.application_status === 'accepted' ? 'Not uploaded' : 'Not accepted'),
+        'Offer Role': application.placement_offers?.role || '-',
+        'CTC (LPA)': application.placement_offers?.ctc_lpa ?? '-',
+        'Offer Status': application.placement_offers?.status.toUpperCase() || '-',
+        // Add additional requirement submissions, file links or the student's answer
+        ...additionalRequirementTypes.reduce((acc, type) => {
+          const requirementType = requirementTypes.find(rt => rt.key === type);
+          const reqLabel = getRequirementLabel(type, requirementTypes);
+          const reqKey = requirementType?.answer_kind === 'file' || !requirementType ? `${reqLabel} Link` : reqLabel;
+          
+          // Find the submission for this additional requirement type
+          const submission = application.student_requirement_submissions?.find(sub => 
+            sub.placement_requirements.type === type
+          );
+          const fileUrls = submission?.file_urls?.length ? submission.file_urls : submission?.file_url ? [submission.file_url] : [];
+          
+          if (submission?.answer) {
+            acc[reqKey] = submission.answer;
+          } else if (fileUrls.length > 0) {
+            acc[reqKey] = fileUrls.map(signedUrlFor).join('\n');
+          } else {
+            acc[reqKey] = 'Not submitted';
+          }
+          return acc;
+        }, {} as Record<string, string>),
+        // One column per application question
+        ...questions.reduce((acc, question) => {
+          acc[question.label] = formatApplicationAnswer(application.answers?.[question.id]);
+          return acc;
+        }, {} as Record<string, string>),
+        // One result column per recruitment round
+        ...rounds.reduce((acc, round) => {
+          const roundResult = application.placement_round_results?.find(r => r.round_id === round.id);
+          acc[`${round.name} Result`] = roundResult
+            ? `${ROUND_RESULT_LABELS[roundResult.result]}${roundResult.remarks ? ` - ${roundResult.remarks}` : ''}`
+            : '-';
+          return acc;
+        }, {} as Record<string, string>),
       }));
 
       const wb = XLSX.utils.book_new();
@@ -442,12 +2370,18 @@ export default function AdminPlacementsScreen() {
         { wch: 25 },  // Email
         { wch: 8 },   // Class
         { wch: 15 },  // Application Status
+        { wch: 28 },  // Current Stage
         { wch: 12 },  // Applied Date
         { wch: 15 },  // Admin Notes
         { wch: 15 },  // Resume Link
         { wch: 18 },  // Offer Letter Link
+        { wch: 20 },  // Offer Role
+        { wch: 10 },  // CTC (LPA)
+        { wch: 12 },  // Offer Status
         // Add column widths for additional requirement links
         ...Array(additionalRequirementTypes.length).fill({ wch: 18 }),
+        ...Array(questions.length).fill({ wch: 20 }),
+        ...Array(rounds.length).fill({ wch: 20 }),
       ];
       ws['!cols'] = colWidths;
 
@@ -498,13 +2432,118 @@ export default function AdminPlacementsScreen() {
         }
       }
 
-      Alert.alert('Success', `Excel file downloaded successfully!`);
+      Alert.alert('Success', 'Excel file downloaded successfully! Document links in the sheet expire in 7 days.');
     } catch (error) {
       console.error('Export error:', error);
       Alert.alert('Export Failed', 'Could not export applications to Excel');
     }
   };
 
+  const loadRequirementTypes = async () => {
+    const { data, error } = await supabase
+      .from('requirement_types')
+      .select('*')
+      .order('label');
+
+    if (error) {
+      console.error('Error loading requirement types:', error);
+      return;
+    }
+    setRequirementTypes(data || []);
+  };
+
+  const openRequirementTypeForm = (requirementType?: RequirementType) => {
+    setEditingRequirementTypeId(requirementType?.id ?? null);
+    setRequirementTypeForm(requirementType ? {
+      label: requirementType.label,
+      description: requirementType.description || '',
+      answer_kind: requirementType.answer_kind,
+      allowed_mime_types: requirementType.allowed_mime_types,
+      max_size_mb: String(requirementType.max_size_mb),
+      allow_multiple: requirementType.allow_multiple,
+    } : emptyRequirementTypeForm());
+  };
+
+  const toggleRequirementFileKind = (mimeTypes: string[]) => {
+    setRequirementTypeForm(prev => {
+      const selected = mimeTypes.every(mimeType => prev.allowed_mime_types.includes(mimeType));
+      return {
+        ...prev,
+        allowed_mime_types: selected
+          ? prev.allowed_mime_types.filter(mimeType => !mimeTypes.includes(mimeType))
+          : [...prev.allowed_mime_types, ...mimeTypes.filter(mimeType => !prev.allowed_mime_types.includes(mimeType))],
+      };
+    });
+  };
+
+  const saveRequirementType = async () => {
+    const label = requirementTypeForm.label.trim();
+    const key = toRequirementTypeKey(label);
+    const maxSize = Number(requirementTypeForm.max_size_mb);
+
+    if (!label || !key) {
+      Alert.alert('Error', 'Enter a label with at least one letter or number');
+      return;
+    }
+    if (requirementTypeForm.answer_kind === 'text' && !requirementTypeForm.description.trim()) {
+      Alert.alert('Error', 'Enter the question students should answer');
+      return;
+    }
+    if (requirementTypeForm.answer_kind === 'file' && (!(maxSize > 0) || maxSize > 50)) {
+      Alert.alert('Error', 'The maximum file size must be between 0 and 50 MB');
+      return;
+    }
+
+    const values = {
+      label,
+      description: requirementTypeForm.description.trim() || null,
+      answer_kind: requirementTypeForm.answer_kind,
+      allowed_mime_types: requirementTypeForm.answer_kind === 'file' ? requirementTypeForm.allowed_mime_types : [],
+      max_size_mb: requirementTypeForm.answer_kind === 'file' ? maxSize : 10,
+      allow_multiple: requirementTypeForm.answer_kind === 'file' && requirementTypeForm.allow_multiple,
+    };
+
+    setSavingRequirementType(true);
+    const { error } = editingRequirementTypeId
+      ? await supabase
+          .from('requirement_types')
+          .update(values)
+          .eq('id', editingRequirementTypeId)
+          .setHeader(AUDIT_ACTION_HEADER, 'update_requirement_type')
+      : await supabase
+          .from('requirement_types')
+          .insert({ ...values, key })
+          .setHeader(AUDIT_ACTION_HEADER, 'create_requirement_type');
+    setSavingRequirementType(false);
+
+    if (error) {
+      console.error('Error saving requirement type:', error);
+      Alert.alert('Error', error.code === '23505'
+        ? 'A requirement type with this label already exists'
+        : 'Failed to save the requirement type');
+      return;
+    }
+
+    openRequirementTypeForm();
+    loadRequirementTypes();
+  };
+
+  // Archived types stay on the events that already use them but can't be picked for new ones
+  const toggleRequirementTypeArchived = async (requirementType: RequirementType) => {
+    const { error } = await supabase
+      .from('requirement_types')
+      .update({ archived_at: requirementType.archived_at ? null : new Date().toISOString() })
+      .eq('id', requirementType.id)
+      .setHeader(AUDIT_ACTION_HEADER, requirementType.archived_at ? 'restore_requirement_type' : 'archive_requirement_type');
+
+    if (error) {
+      console.error('Error archiving requirement type:', error);
+      Alert.alert('Error', 'Failed to update the requirement type');
+      return;
+    }
+    loadRequirementTypes();
+  };
+
   const addAdditionalRequirement = (type: string) => {
     if (newEvent.additional_requirements.some((req: any) => req.type === type)) {
       return; // Already added
@@ -516,6 +2555,14 @@ export default function AdminPlacementsScreen() {
   };
 
   const removeAdditionalRequirement = (type: string) => {
+    const submitted = editingRequirements.find(req => req.type === type && req.submissions > 0);
+    if (submitted) {
+      Alert.alert(
+        'Requirement In Use',
+        `${submitted.submissions} student${submitted.submissions === 1 ? ' has' : 's have'} already submitted this. It can be made optional instead.`
+      );
+      return;
+    }
     setNewEvent((prev: any) => ({
       ...prev,
       additional_requirements: prev.additional_requirements.filter((req: any) => req.type !== type)
@@ -531,41 +2578,220 @@ export default function AdminPlacementsScreen() {
     }));
   };
 
-  const requirementTypes = [
-    { type: 'video_introduction', label: 'Video Introduction' },
-    { type: 'portfolio', label: 'Portfolio' },
-    { type: 'cover_letter', label: 'Cover Letter' },
-    { type: 'certificates', label: 'Certificates' },
-    { type: 'project_demo', label: 'Project Demo' },
-    { type: 'coding_sample', label: 'Coding Sample' },
+  const updateQuestionDraft = (id: string, changes: Partial<QuestionDraft>) => {
+    setNewEvent(prev => ({
+      ...prev,
+      questions: prev.questions.map(question => question.id === id ? { ...question, ...changes } : question),
+    }));
+  };
+
+  const removeQuestionDraft = (id: string) => {
+    setNewEvent(prev => ({ ...prev, questions: prev.questions.filter(question => question.id !== id) }));
+  };
+
+  // Archived types are only shown on events that already ask for them
+  const pickableRequirementTypes = requirementTypes.filter(requirementType =>
+    !requirementType.archived_at || newEvent.additional_requirements.some(req => req.type === requirementType.key)
+  );
+
+  const renderRoundsEditor = (rounds: RoundDraft[], onChange: (rounds: RoundDraft[]) => void) => (
+    <View>
+      <View style={styles.requirementTypesContainer}>
+        {PLACEMENT_ROUND_PRESETS.map((preset) => {
+          const added = rounds.some(round => round.name === preset);
+          return (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.requirementTypeOption, added && styles.requirementTypeSelected]}
+              onPress={() => onChange(added ? rounds.filter(round => round.name !== preset) : addRoundDraft(rounds, preset))}
+            >
+              <Text style={[styles.requirementTypeText, added && styles.requirementTypeTextSelected]}>
+                {preset}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.customRoundRow}>
+        <TextInput
+          style={[styles.input, styles.customRoundInput]}
+          placeholder="Custom round, e.g. Coding Test"
+          value={customRoundName}
+          onChangeText={setCustomRoundName}
+        />
+        <TouchableOpacity
+          style={styles.addRoundButton}
+          onPress={() => {
+            onChange(addRoundDraft(rounds, customRoundName));
+            setCustomRoundName('');
+          }}
+        >
+          <Plus size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {rounds.length > 0 && (
+        <View style={styles.selectedRequirements}>
+          <Text style={styles.selectedRequirementsTitle}>Round Order:</Text>
+          {rounds.map((round, index) => (
+            <View key={round.id || round.name} style={styles.selectedRequirement}>
+              <Text style={styles.selectedRequirementText}>
+                {index + 1}. {round.name}
+              </Text>
+              <TouchableOpacity
+                style={styles.removeRequirement}
+                onPress={() => onChange(moveRoundDraft(rounds, index, -1))}
+                disabled={index === 0}
+              >
+                <ChevronUp size={16} color={index === 0 ? '#C7C7CC' : '#007AFF'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.removeRequirement}
+                onPress={() => onChange(moveRoundDraft(rounds, index, 1))}
+                disabled={index === rounds.length - 1}
+              >
+                <ChevronDown size={16} color={index === rounds.length - 1 ? '#C7C7CC' : '#007AFF'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.removeRequirement}
+                onPress={() => onChange(rounds.filter((_, i) => i !== index))}
+              >
+                <X size={16} color="#FF3B30" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  const eventRounds = sortRounds(selectedEvent?.placement_rounds);
+  const eventRequirements = selectedEvent?.placement_requirements || [];
+  const eventQuestions = selectedEvent?.application_questions || [];
+  const stageFilters = [
+    { key: 'all', label: 'All' },
+    ...(eventRequirements.length > 0 ? [{ key: 'review', label: 'Needs Review' }] : []),
+    { key: 'applied', label: 'Applied' },
+    { key: 'shortlisted', label: 'Shortlisted' },
+    ...eventRounds.map(round => ({ key: round.id, label: round.name })),
+    { key: 'waitlisted', label: 'Waitlisted' },
+    { key: 'accepted', label: 'Selected' },
+    { key: 'rejected', label: 'Rejected' },
+    { key: 'withdrawn', label: 'Withdrawn' },
   ];
+  const matchesStageFilter = (application: PlacementApplication, key: string) =>
+    key === 'all' || (key === 'review' ? needsReview(application) : getStageKey(application) === key);
+  const filteredApplications = applications.filter(app => matchesStageFilter(app, stageFilter));
+  const allFilteredSelected = filteredApplications.length > 0 &&
+    filteredApplications.every(app => selectedApplicationIds.includes(app.id));
+  const canSelectApplications = can('manage_placements');
+  const importToUpdate = (importPreview?.matched || []).filter(app => !getImportSkipReason(app));
+  const importSkipped = (importPreview?.matched || []).filter(app => getImportSkipReason(app));
+  const currentEvents = events.filter(event => !event.archived_at);
+  const companyQuery = newEvent.company_name.trim().toLowerCase();
+  const matchingCompanies = companies
+    .filter(company => company.name.toLowerCase().includes(companyQuery))
+    .slice(0, 8);
+  const hasExactCompanyMatch = companies.some(company => company.name.toLowerCase() === companyQuery);
+  const visibleEvents = showArchived ? events.filter(event => event.archived_at) : currentEvents;
+
   return (
     <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Placement Management</Text>
-        <TouchableOpacity style={styles.createButton} onPress={() => setShowCreateModal(true)}>
-          <Plus size={20} color="#FFFFFF" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.createButton} onPress={() => router.push('/(admin)/calendar')}>
+            <CalendarDays size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.createButton} onPress={() => router.push('/(admin)/companies')}>
+            <Building2 size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          {can('manage_placements') && (
+            <>
+              <TouchableOpacity style={styles.createButton} onPress={openPolicyModal}>
+                <Scale size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.createButton} onPress={openCreateModal}>
+                <Plus size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.statsContainer}>
           <View style={styles.statCard}>
             <Briefcase size={24} color="#007AFF" />
-            <Text style={styles.statNumber}>{events.length}</Text>
-            <Text style={styles.statLabel}>Active Events</Text>
+            <Text style={styles.statNumber}>
+              {currentEvents.filter(event => getPlacementEventStatus(event) === 'open').length}
+            </Text>
+            <Text style={styles.statLabel}>Open Events</Text>
           </View>
         </View>
 
+        <View style={styles.archiveFilters}>
+          {[
+            { archived: false, label: `Current (${currentEvents.length})` },
+            { archived: true, label: `Archived (${events.length - currentEvents.length})` },
+          ].map((filter) => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.archiveFilter, showArchived === filter.archived && styles.archiveFilterSelected]}
+              onPress={() => setShowArchived(filter.archived)}
+            >
+              <Text style={[styles.archiveFilterText, showArchived === filter.archived && styles.archiveFilterTextSelected]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         <View style={styles.eventsList}>
-          {events.map((event) => (
+          {visibleEvents.map((event) => (
             <View key={event.id} style={styles.eventCard}>
               <View style={styles.eventHeader}>
                 <View style={styles.eventInfo}>
                   <Text style={styles.eventTitle}>{event.title}</Text>
                   <Text style={styles.companyName}>{event.company_name}</Text>
                 </View>
+                <View style={[
+                  styles.eventStatusBadge,
+                  { backgroundColor: event.archived_at ? '#8E8E93' : getStatusColor(getPlacementEventStatus(event)) },
+                ]}>
+                  <Text style={styles.eventStatusText}>
+                    {event.archived_at ? 'ARCHIVED' : getPlacementEventStatus(event).toUpperCase()}
+                  </Text>
+                </View>
               </View>
+
+              {can('manage_placements') && (
+                <View style={styles.eventToolbar}>
+                  <TouchableOpacity style={styles.toolbarButton} onPress={() => openEditModal(event)}>
+                    <Pencil size={16} color="#007AFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.toolbarButton} onPress={() => openDuplicateModal(event)}>
+                    <Copy size={16} color="#007AFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.toolbarButton}
+                    onPress={() => setEventArchived(event, !event.archived_at)}
+                    disabled={updatingEventId === event.id}
+                  >
+                    {event.archived_at
+                      ? <ArchiveRestore size={16} color="#34C759" />
+                      : <Archive size={16} color="#FF9500" />}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.toolbarButton, deleting === event.id && styles.disabledButton]}
+                    onPress={() => deletePlacementEvent(event)}
+                    disabled={deleting === event.id}
+                  >
+                    <Trash2 size={16} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              )}
               
               <Text style={styles.eventDescription}>{event.description}</Text>
               <Text style={styles.eventRequirements}>{event.requirements}</Text>
@@ -581,12 +2807,65 @@ export default function AdminPlacementsScreen() {
                 </View>
               </View>
 
+              <Text style={styles.eventRounds}>
+                {PLACEMENT_TIER_LABELS[event.tier || 'regular']} • {event.academic_year}
+              </Text>
+
+              {describeEligibilityCriteria(event.eligibility_criteria).length > 0 && (
+                <Text style={styles.eventRounds}>
+                  Eligibility: {describeEligibilityCriteria(event.eligibility_criteria).join(' • ')}
+                </Text>
+              )}
+
+              {event.placement_rounds && event.placement_rounds.length > 0 && (
+                <Text style={styles.eventRounds}>
+                  Rounds: {sortRounds(event.placement_rounds).map(round => round.name).join(' → ')}
+                </Text>
+              )}
+
+              {event.application_deadline && (
+                <Text style={styles.eventSchedule}>
+                  Deadline: {formatDateTime(event.application_deadline)}
+                  {getPlacementEventStatus(event) === 'open' ? ` • ${formatTimeRemaining(event.application_deadline, now)}` : ''}
+                </Text>
+              )}
+              {event.event_date && (
+                <Text style={styles.eventSchedule}>Event: {formatDateTime(event.event_date)}</Text>
+              )}
               <Text style={styles.eventDate}>Created: {formatDate(event.created_at)}</Text>
               
-              <TouchableOpacity style={styles.viewButton} onPress={() => viewApplications(event)}>
-                <Eye size={16} color="#007AFF" />
-                <Text style={styles.viewButtonText}>View Applications</Text>
-              </TouchableOpacity>
+              <View style={styles.eventActions}>
+                <TouchableOpacity style={styles.viewButton} onPress={() => viewApplications(event)}>
+                  <Eye size={16} color="#007AFF" />
+                  <Text style={styles.viewButtonText}>View Applications</Text>
+                </TouchableOpacity>
+                {can('manage_placements') && (
+                  <TouchableOpacity style={styles.viewButton} onPress={() => openRoundsModal(event)}>
+                    <Layers size={16} color="#007AFF" />
+                    <Text style={styles.viewButtonText}>Manage Rounds</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.viewButton} onPress={() => openInterviewsModal(event)}>
+                  <CalendarClock size={16} color="#007AFF" />
+                  <Text style={styles.viewButtonText}>Interviews</Text>
+                </TouchableOpacity>
+                {can('manage_placements') && (
+                  <TouchableOpacity style={styles.viewButton} onPress={() => openOverridesModal(event)}>
+                    <ShieldCheck size={16} color="#007AFF" />
+                    <Text style={styles.viewButtonText}>Overrides</Text>
+                  </TouchableOpacity>
+                )}
+                {can('manage_placements') && !event.archived_at && EVENT_TRANSITIONS[getPlacementEventStatus(event) as PlacementEventStatus]?.map((transition) => (
+                  <TouchableOpacity
+                    key={transition.status}
+                    style={[styles.viewButton, updatingEventId === event.id && styles.disabledButton]}
+                    onPress={() => updateEventStatus(event, transition)}
+                    disabled={updatingEventId === event.id}
+                  >
+                    <Text style={styles.viewButtonText}>{transition.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
           ))}
         </View>
@@ -596,7 +2875,7 @@ export default function AdminPlacementsScreen() {
       <Modal visible={showCreateModal} animationType="slide" presentationStyle="pageSheet">
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Create Placement Event</Text>
+            <Text style={styles.modalTitle}>{editingEvent ? 'Edit Placement Event' : 'Create Placement Event'}</Text>
             <TouchableOpacity onPress={() => setShowCreateModal(false)}>
               <X size={24} color="#1C1C1E" />
             </TouchableOpacity>
@@ -614,13 +2893,61 @@ export default function AdminPlacementsScreen() {
             </View>
 
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Company Name *</Text>
+              <Text style={styles.label}>Company *</Text>
               <TextInput
                 style={styles.input}
-                placeholder="e.g., NIQ, Google, Microsoft"
+                placeholder="Search companies, e.g. NIQ, Google"
                 value={newEvent.company_name}
-                onChangeText={(text) => setNewEvent(prev => ({ ...prev, company_name: text }))}
+                onChangeText={(text) => setNewEvent(prev => ({ ...prev, company_name: text, company_id: '' }))}
+              />
+              {!newEvent.company_id && (
+                <View style={[styles.classSelectionContainer, styles.companyMatches]}>
+                  {matchingCompanies.map((company) => (
+                    <TouchableOpacity
+                      key={company.id}
+                      style={styles.classOption}
+                      onPress={() => setNewEvent(prev => ({ ...prev, company_id: company.id, company_name: company.name }))}
+                    >
+                      <Text style={styles.classOptionText}>{company.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  {newEvent.company_name.trim() !== '' && !hasExactCompanyMatch && (
+                    <TouchableOpacity
+                      style={[styles.classOption, addingCompany && styles.disabledButton]}
+                      onPress={addCompanyFromForm}
+                      disabled={addingCompany}
+                    >
+                      <Text style={styles.classOptionText}>
+                        {addingCompany ? 'Adding...' : `+ Add "${newEvent.company_name.trim()}"`}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+              <Text style={styles.hint}>
+                {newEvent.company_id ? 'Company picked, edit the name to pick another' : 'Pick the company running this drive'}
+              </Text>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Application Deadline *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD HH:MM"
+                value={newEvent.application_deadline}
+                onChangeText={(text) => setNewEvent(prev => ({ ...prev, application_deadline: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Event Date *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD HH:MM"
+                value={newEvent.event_date}
+                onChangeText={(text) => setNewEvent(prev => ({ ...prev, event_date: text }))}
               />
+              <Text style={styles.hint}>A date without a time means the end of that day</Text>
             </View>
 
             <View style={styles.formGroup}>
@@ -675,34 +3002,135 @@ export default function AdminPlacementsScreen() {
               </View>
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Placement Tier</Text>
+              <Text style={styles.sublabel}>Placed students can only apply to dream tiers the placement policy allows</Text>
+              <View style={styles.classSelectionContainer}>
+                {(Object.keys(PLACEMENT_TIER_LABELS) as PlacementTier[]).map((tier) => (
+                  <TouchableOpacity
+                    key={tier}
+                    style={[styles.classOption, newEvent.tier === tier && styles.classOptionSelected]}
+                    onPress={() => setNewEvent(prev => ({ ...prev, tier }))}
+                  >
+                    <Text style={[styles.classOptionText, newEvent.tier === tier && styles.classOptionTextSelected]}>
+                      {PLACEMENT_TIER_LABELS[tier]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.criteriaLabel}>Academic Year</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. 2025-26"
+                value={newEvent.academic_year}
+                onChangeText={(text) => setNewEvent(prev => ({ ...prev, academic_year: text }))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Eligibility Criteria</Text>
+              <Text style={styles.sublabel}>Leave a field empty if the recruiter has no cutoff for it</Text>
+              <View style={styles.criteriaRow}>
+                {PERCENTAGE_CRITERIA.map(({ key, label }) => (
+                  <View key={key} style={styles.criteriaField}>
+                    <Text style={styles.criteriaLabel}>{label}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g. 60"
+                      keyboardType="decimal-pad"
+                      value={newEvent.eligibility[key]}
+                      onChangeText={(text) => setNewEvent(prev => ({ ...prev, eligibility: { ...prev.eligibility, [key]: text } }))}
+                    />
+                  </View>
+                ))}
+              </View>
+              <View style={styles.criteriaRow}>
+                <View style={styles.criteriaField}>
+                  <Text style={styles.criteriaLabel}>Max Active Backlogs</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="e.g. 0"
+                    keyboardType="number-pad"
+                    value={newEvent.eligibility.max_active_backlogs}
+                    onChangeText={(text) => setNewEvent(prev => ({ ...prev, eligibility: { ...prev.eligibility, max_active_backlogs: text } }))}
+                  />
+                </View>
+                <View style={[styles.criteriaField, styles.criteriaFieldWide]}>
+                  <Text style={styles.criteriaLabel}>Graduation Years</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="e.g. 2025, 2026"
+                    value={newEvent.eligibility.graduation_years}
+                    onChangeText={(text) => setNewEvent(prev => ({ ...prev, eligibility: { ...prev.eligibility, graduation_years: text } }))}
+                  />
+                </View>
+              </View>
+              <Text style={styles.criteriaLabel}>12th Stream</Text>
+              <View style={styles.classSelectionContainer}>
+                {STREAMS_12TH.map((stream) => {
+                  const selected = newEvent.eligibility.streams_12th.includes(stream);
+                  return (
+                    <TouchableOpacity
+                      key={stream}
+                      style={[styles.classOption, selected && styles.classOptionSelected]}
+                      onPress={() => setNewEvent(prev => ({
+                        ...prev,
+                        eligibility: {
+                          ...prev.eligibility,
+                          streams_12th: selected
+                            ? prev.eligibility.streams_12th.filter(s => s !== stream)
+                            : [...prev.eligibility.streams_12th, stream],
+                        },
+                      }))}
+                    >
+                      <Text style={[styles.classOptionText, selected && styles.classOptionTextSelected]}>{stream}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
             <View style={styles.formGroup}>
               <Text style={styles.label}>Additional Requirements</Text>
-              <Text style={styles.sublabel}>Select documents students need to submit</Text>
+              <Text style={styles.sublabel}>
+                {editingEvent
+                  ? 'Requirements students have already submitted can only be made optional'
+                  : 'Select documents and answers students need to submit'}
+              </Text>
               
               <View style={styles.requirementTypesContainer}>
-                {requirementTypes.map((reqType) => (
+                {pickableRequirementTypes.map((reqType) => (
                   <TouchableOpacity
-                    key={reqType.type}
+                    key={reqType.key}
                     style={[
                       styles.requirementTypeOption,
-                      newEvent.additional_requirements.some(req => req.type === reqType.type) && styles.requirementTypeSelected
+                      newEvent.additional_requirements.some(req => req.type === reqType.key) && styles.requirementTypeSelected
                     ]}
                     onPress={() => {
-                      if (newEvent.additional_requirements.some(req => req.type === reqType.type)) {
-                        removeAdditionalRequirement(reqType.type);
+                      if (newEvent.additional_requirements.some(req => req.type === reqType.key)) {
+                        removeAdditionalRequirement(reqType.key);
                       } else {
-                        addAdditionalRequirement(reqType.type);
+                        addAdditionalRequirement(reqType.key);
                       }
                     }}
                   >
                     <Text style={[
                       styles.requirementTypeText,
-                      newEvent.additional_requirements.some(req => req.type === reqType.type) && styles.requirementTypeTextSelected
+                      newEvent.additional_requirements.some(req => req.type === reqType.key) && styles.requirementTypeTextSelected
                     ]}>
                       {reqType.label}
                     </Text>
                   </TouchableOpacity>
                 ))}
+                <TouchableOpacity
+                  style={styles.requirementTypeOption}
+                  onPress={() => {
+                    openRequirementTypeForm();
+                    setShowRequirementTypesModal(true);
+                  }}
+                >
+                  <Text style={styles.requirementTypeText}>Manage Types</Text>
+                </TouchableOpacity>
               </View>
 
               {newEvent.additional_requirements.length > 0 && (
@@ -711,7 +3139,7 @@ export default function AdminPlacementsScreen() {
                   {newEvent.additional_requirements.map((req) => (
                     <View key={req.type} style={styles.selectedRequirement}>
                       <Text style={styles.selectedRequirementText}>
-                        {requirementTypes.find(rt => rt.type === req.type)?.label || req.type}
+                        {getRequirementLabel(req.type, requirementTypes)}
                       </Text>
                       <TouchableOpacity
                         style={[styles.requiredToggle, req.required && styles.requiredToggleActive]}
@@ -728,22 +3156,276 @@ export default function AdminPlacementsScreen() {
                         <X size={16} color="#FF3B30" />
                       </TouchableOpacity>
                     </View>
-                  ))}
-                </View>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Application Questions</Text>
+              <Text style={styles.sublabel}>
+                Students answer these when they apply, e.g. preferred location or expected CTC
+              </Text>
+
+              {newEvent.questions.map((question, index) => (
+                <View key={question.id} style={styles.questionCard}>
+                  <View style={styles.questionHeader}>
+                    <Text style={styles.questionTitle}>Question {index + 1}</Text>
+                    <TouchableOpacity
+                      style={[styles.requiredToggle, question.required && styles.requiredToggleActive]}
+                      onPress={() => updateQuestionDraft(question.id, { required: !question.required })}
+                    >
+                      <Text style={[styles.requiredToggleText, question.required && styles.requiredToggleTextActive]}>
+                        {question.required ? 'Required' : 'Optional'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.removeRequirement} onPress={() => removeQuestionDraft(question.id)}>
+                      <X size={16} color="#FF3B30" />
+                    </TouchableOpacity>
+                  </View>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="e.g. Are you willing to relocate?"
+                    value={question.label}
+                    onChangeText={(text) => updateQuestionDraft(question.id, { label: text })}
+                  />
+                  <View style={[styles.requirementTypesContainer, styles.questionKinds]}>
+                    {(Object.keys(APPLICATION_QUESTION_KIND_LABELS) as ApplicationQuestion['kind'][]).map(kind => (
+                      <TouchableOpacity
+                        key={kind}
+                        style={[styles.classOption, question.kind === kind && styles.classOptionSelected]}
+                        onPress={() => updateQuestionDraft(question.id, { kind })}
+                      >
+                        <Text style={[styles.classOptionText, question.kind === kind && styles.classOptionTextSelected]}>
+                          {APPLICATION_QUESTION_KIND_LABELS[kind]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {isChoiceQuestion(question.kind) && (
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Options separated by commas, e.g. Mumbai, Pune, Bengaluru"
+                      value={question.options}
+                      onChangeText={(text) => updateQuestionDraft(question.id, { options: text })}
+                    />
+                  )}
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={styles.requirementTypeOption}
+                onPress={() => setNewEvent(prev => ({ ...prev, questions: [...prev.questions, newQuestionDraft()] }))}
+              >
+                <Text style={styles.requirementTypeText}>+ Add Question</Text>
+              </TouchableOpacity>
+            </View>
+
+            {!editingEvent && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Recruitment Rounds</Text>
+                <Text style={styles.sublabel}>Add the rounds applicants go through, in order</Text>
+                {renderRoundsEditor(newEvent.rounds, (rounds) => setNewEvent(prev => ({ ...prev, rounds })))}
+              </View>
+            )}
+
+            {editingEvent ? (
+              <TouchableOpacity
+                style={[styles.createEventButton, creating && styles.disabledButton]}
+                onPress={saveEventChanges}
+                disabled={creating}
+              >
+                <Text style={styles.createEventButtonText}>{creating ? 'Saving...' : 'Save Changes'}</Text>
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.createActions}>
+                <TouchableOpacity
+                  style={[styles.createEventButton, styles.draftButton, creating && styles.disabledButton]}
+                  onPress={() => createPlacementEvent('draft')}
+                  disabled={creating}
+                >
+                  <Text style={[styles.createEventButtonText, styles.draftButtonText]}>Save as Draft</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.createEventButton, styles.publishButton, creating && styles.disabledButton]}
+                  onPress={() => createPlacementEvent('open')}
+                  disabled={creating}
+                >
+                  <Text style={styles.createEventButtonText}>
+                    {creating ? 'Creating...' : 'Publish Event'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+
+        {/* Requirement Types Modal, opened from the event form */}
+        <Modal visible={showRequirementTypesModal} animationType="slide" presentationStyle="pageSheet">
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Requirement Types</Text>
+              <TouchableOpacity onPress={() => setShowRequirementTypesModal(false)}>
+                <X size={24} color="#1C1C1E" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>
+                  {editingRequirementTypeId ? 'Edit Requirement Type' : 'New Requirement Type'}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Label, e.g. GitHub Profile"
+                  value={requirementTypeForm.label}
+                  onChangeText={(text) => setRequirementTypeForm(prev => ({ ...prev, label: text }))}
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Students Submit</Text>
+                <View style={styles.classSelectionContainer}>
+                  {[
+                    { kind: 'file' as const, label: 'Files' },
+                    { kind: 'text' as const, label: 'Written Answer' },
+                    { kind: 'url' as const, label: 'Link' },
+                  ].map((option) => (
+                    <TouchableOpacity
+                      key={option.kind}
+                      style={[styles.classOption, requirementTypeForm.answer_kind === option.kind && styles.classOptionSelected]}
+                      onPress={() => setRequirementTypeForm(prev => ({ ...prev, answer_kind: option.kind }))}
+                    >
+                      <Text style={[
+                        styles.classOptionText,
+                        requirementTypeForm.answer_kind === option.kind && styles.classOptionTextSelected,
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>
+                  {requirementTypeForm.answer_kind === 'text' ? 'Question *' : 'Instructions'}
+                </Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder={requirementTypeForm.answer_kind === 'text'
+                    ? 'e.g. Why do you want to join?'
+                    : 'Shown to students next to the requirement'}
+                  multiline
+                  value={requirementTypeForm.description}
+                  onChangeText={(text) => setRequirementTypeForm(prev => ({ ...prev, description: text }))}
+                />
+              </View>
+
+              {requirementTypeForm.answer_kind === 'file' && (
+                <>
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Allowed Files</Text>
+                    <Text style={styles.sublabel}>Select none to accept any file</Text>
+                    <View style={styles.classSelectionContainer}>
+                      {REQUIREMENT_FILE_KINDS.map((kind) => {
+                        const selected = kind.mimeTypes.every(mimeType => requirementTypeForm.allowed_mime_types.includes(mimeType));
+                        return (
+                          <TouchableOpacity
+                            key={kind.label}
+                            style={[styles.classOption, selected && styles.classOptionSelected]}
+                            onPress={() => toggleRequirementFileKind(kind.mimeTypes)}
+                          >
+                            <Text style={[styles.classOptionText, selected && styles.classOptionTextSelected]}>
+                              {kind.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+
+                  <View style={styles.criteriaRow}>
+                    <View style={styles.criteriaField}>
+                      <Text style={styles.criteriaLabel}>Max Size (MB)</Text>
+                      <TextInput
+                        style={styles.input}
+                        keyboardType="decimal-pad"
+                        value={requirementTypeForm.max_size_mb}
+                        onChangeText={(text) => setRequirementTypeForm(prev => ({ ...prev, max_size_mb: text }))}
+                      />
+                    </View>
+                    <View style={styles.criteriaField}>
+                      <Text style={styles.criteriaLabel}>Files</Text>
+                      <View style={styles.classSelectionContainer}>
+                        {[
+                          { multiple: false, label: 'One' },
+                          { multiple: true, label: 'Several' },
+                        ].map((option) => (
+                          <TouchableOpacity
+                            key={option.label}
+                            style={[styles.classOption, requirementTypeForm.allow_multiple === option.multiple && styles.classOptionSelected]}
+                            onPress={() => setRequirementTypeForm(prev => ({ ...prev, allow_multiple: option.multiple }))}
+                          >
+                            <Text style={[
+                              styles.classOptionText,
+                              requirementTypeForm.allow_multiple === option.multiple && styles.classOptionTextSelected,
+                            ]}>
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </View>
+                  </View>
+                </>
               )}
-            </View>
 
-            <TouchableOpacity
-              style={[styles.createEventButton, creating && styles.disabledButton]}
-              onPress={createPlacementEvent}
-              disabled={creating}
-            >
-              <Text style={styles.createEventButtonText}>
-                {creating ? 'Creating...' : 'Create Event'}
-              </Text>
-            </TouchableOpacity>
-          </ScrollView>
-        </View>
+              <View style={styles.createActions}>
+                {editingRequirementTypeId && (
+                  <TouchableOpacity
+                    style={[styles.createEventButton, styles.draftButton]}
+                    onPress={() => openRequirementTypeForm()}
+                  >
+                    <Text style={[styles.createEventButtonText, styles.draftButtonText]}>Cancel</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.createEventButton, styles.publishButton, savingRequirementType && styles.disabledButton]}
+                  onPress={saveRequirementType}
+                  disabled={savingRequirementType}
+                >
+                  <Text style={styles.createEventButtonText}>
+                    {savingRequirementType ? 'Saving...' : editingRequirementTypeId ? 'Save Type' : 'Add Type'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {requirementTypes.map((requirementType) => (
+                <View key={requirementType.id} style={styles.overrideCard}>
+                  <View style={styles.overrideHeader}>
+                    <Text style={styles.overrideName}>
+                      {requirementType.label}{requirementType.archived_at ? ' (Archived)' : ''}
+                    </Text>
+                    <TouchableOpacity onPress={() => openRequirementTypeForm(requirementType)}>
+                      <Pencil size={16} color="#007AFF" />
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.overrideReason}>{describeRequirementType(requirementType)}</Text>
+                  {requirementType.description && (
+                    <Text style={styles.overrideMeta}>{requirementType.description}</Text>
+                  )}
+                  <TouchableOpacity onPress={() => toggleRequirementTypeArchived(requirementType)}>
+                    <Text style={[styles.revokeText, styles.archiveTypeText]}>
+                      {requirementType.archived_at ? 'Restore' : 'Archive'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <View style={styles.modalBottomSpacer} />
+            </ScrollView>
+          </View>
+        </Modal>
       </Modal>
 
       {/* Applications Modal */}
@@ -769,6 +3451,13 @@ export default function AdminPlacementsScreen() {
                   <Download size={16} color="#34C759" />
                   <Text style={styles.exportButtonText}>Export to Excel</Text>
                 </TouchableOpacity>
+
+                {can('manage_placements') && (
+                  <TouchableOpacity style={[styles.exportButton, styles.importButton]} onPress={openImportModal}>
+                    <Upload size={16} color="#007AFF" />
+                    <Text style={[styles.exportButtonText, styles.importButtonText]}>Import Company Results</Text>
+                  </TouchableOpacity>
+                )}
                 
                 <TouchableOpacity
                   style={styles.bulkDownloadButton}
@@ -778,11 +3467,131 @@ export default function AdminPlacementsScreen() {
                   <Text style={styles.bulkDownloadButtonText}>Download Offer Letters</Text>
                 </TouchableOpacity>
 
-                {applications.map((application) => (
+                <TouchableOpacity style={[styles.bulkDownloadButton, styles.resumeBookButton]} onPress={openResumeBookModal}>
+                  <BookOpen size={16} color="#FFFFFF" />
+                  <Text style={styles.bulkDownloadButtonText}>Resume Book</Text>
+                </TouchableOpacity>
+
+                {eventRounds.length === 0 && can('manage_placements') && (
+                  <Text style={styles.noRoundsText}>
+                    No recruitment rounds for this event yet. Add them with Manage Rounds on the event.
+                  </Text>
+                )}
+
+                <View style={styles.pipelineSection}>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.stageFilters}>
+                    {stageFilters.map((filter) => {
+                      const count = applications.filter(app => matchesStageFilter(app, filter.key)).length;
+                      return (
+                        <TouchableOpacity
+                          key={filter.key}
+                          style={[styles.classOption, stageFilter === filter.key && styles.classOptionSelected]}
+                          onPress={() => {
+                            setStageFilter(filter.key);
+                            setSelectedApplicationIds([]);
+                          }}
+                        >
+                          <Text style={[styles.classOptionText, stageFilter === filter.key && styles.classOptionTextSelected]}>
+                            {filter.label} ({count})
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+
+                  {canSelectApplications && (
+                    <View style={styles.bulkActions}>
+                      <TouchableOpacity
+                        style={styles.selectAllRow}
+                        onPress={() => setSelectedApplicationIds(allFilteredSelected ? [] : filteredApplications.map(app => app.id))}
+                      >
+                        {allFilteredSelected ? <CheckSquare size={20} color="#007AFF" /> : <Square size={20} color="#6B6B6B" />}
+                        <Text style={styles.selectAllText}>
+                          {selectedApplicationIds.length > 0 ? `${selectedApplicationIds.length} selected` : 'Select all'}
+                        </Text>
+                      </TouchableOpacity>
+
+                      {selectedApplicationIds.length > 0 && (
+                        <>
+                          <TextInput
+                            style={styles.input}
+                            placeholder="Reason or remarks (required to reject)"
+                            value={actionReason}
+                            onChangeText={setActionReason}
+                          />
+
+                          <Text style={styles.bulkActionsLabel}>Decision</Text>
+                          <View style={styles.resultButtons}>
+                            {APPLICATION_DECISIONS.map((decision) => (
+                              <TouchableOpacity
+                                key={decision.status}
+                                style={[
+                                  styles.resultButton,
+                                  { backgroundColor: getStatusColor(decision.status) },
+                                  updatingApplications && styles.disabledButton,
+                                ]}
+                                onPress={() => updateApplicationStatus(selectedApplicationIds, decision.status)}
+                                disabled={updatingApplications}
+                              >
+                                <Text style={styles.resultButtonText}>{decision.label}</Text>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+                        </>
+                      )}
+
+                      {selectedApplicationIds.length > 0 && eventRounds.length > 0 && (
+                        <>
+                          <Text style={styles.bulkActionsLabel}>Move to round</Text>
+                          <View style={styles.classSelectionContainer}>
+                            {eventRounds.map((round, index) => (
+                              <TouchableOpacity
+                                key={round.id}
+                                style={[styles.classOption, updatingApplications && styles.disabledButton]}
+                                onPress={() => moveSelectedToRound(round)}
+                                disabled={updatingApplications}
+                              >
+                                <Text style={styles.classOptionText}>{index + 1}. {round.name}</Text>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+
+                          <Text style={styles.bulkActionsLabel}>Result for current round</Text>
+                          <View style={styles.resultButtons}>
+                            {(['cleared', 'not_cleared', 'absent'] as const).map((result) => (
+                              <TouchableOpacity
+                                key={result}
+                                style={[
+                                  styles.resultButton,
+                                  { backgroundColor: getStatusColor(result) },
+                                  updatingApplications && styles.disabledButton,
+                                ]}
+                                onPress={() => recordSelectedResult(result)}
+                                disabled={updatingApplications}
+                              >
+                                <Text style={styles.resultButtonText}>{ROUND_RESULT_LABELS[result]}</Text>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  )}
+                </View>
+
+                {filteredApplications.map((application) => (
                   <View key={application.id} style={styles.applicationCard}>
                     <View style={styles.applicationHeader}>
                       <View style={styles.studentInfo}>
-                        <User size={20} color="#007AFF" />
+                        {canSelectApplications ? (
+                          <TouchableOpacity onPress={() => toggleApplicationSelected(application.id)}>
+                            {selectedApplicationIds.includes(application.id)
+                              ? <CheckSquare size={20} color="#007AFF" />
+                              : <Square size={20} color="#6B6B6B" />}
+                          </TouchableOpacity>
+                        ) : (
+                          <User size={20} color="#007AFF" />
+                        )}
                         <View style={styles.studentDetails}>
                           <Text style={styles.studentName}>
                             {application.students?.student_profiles?.full_name || application.students?.name || 'Unknown'}
@@ -803,18 +3612,214 @@ export default function AdminPlacementsScreen() {
                       </View>
                     </View>
                     <Text style={styles.appliedDate}>Applied: {formatDate(application.applied_at)}</Text>
+                    {application.status_changed_at && (
+                      <Text style={styles.statusReason}>
+                        {application.application_status.charAt(0).toUpperCase() + application.application_status.slice(1)} on {formatDate(application.status_changed_at)}
+                        {application.status_reason ? `: ${application.status_reason}` : ''}
+                      </Text>
+                    )}
+
+                    {eventRounds.length > 0 && (
+                      <View style={styles.roundProgress}>
+                        <Text style={styles.roundStage}>Stage: {getStageLabel(application, eventRounds)}</Text>
+                        {eventRounds.map((round) => {
+                          const roundResult = application.placement_round_results?.find(r => r.round_id === round.id);
+                          if (!roundResult) return null;
+                          return (
+                            <Text key={round.id} style={styles.roundResultText}>
+                              {round.name}:{' '}
+                              <Text style={{ color: getStatusColor(roundResult.result), fontWeight: '600' }}>
+                                {ROUND_RESULT_LABELS[roundResult.result]}
+                              </Text>
+                              {roundResult.remarks ? ` • ${roundResult.remarks}` : ''}
+                            </Text>
+                          );
+                        })}
+                      </View>
+                    )}
+
+                    {eventQuestions.length > 0 && (
+                      <View style={styles.roundProgress}>
+                        <Text style={styles.roundStage}>Answers</Text>
+                        {eventQuestions.map((question) => (
+                          <Text key={question.id} style={styles.roundResultText}>
+                            {question.label}: {formatApplicationAnswer(application.answers?.[question.id])}
+                          </Text>
+                        ))}
+                      </View>
+                    )}
+
+                    {eventRequirements.length > 0 && (
+                      <View style={styles.reviewSection}>
+                        <Text style={styles.roundStage}>Requirements</Text>
+                        {eventRequirements.map((requirement) => {
+                          const submission = application.student_requirement_submissions?.find(
+                            sub => sub.requirement_id === requirement.id
+                          );
+                          const fileUrls = submission ? getSubmissionFileUrls(submission) : [];
+                          const status = submission?.submission_status;
+                          return (
+                            <View key={requirement.id} style={styles.reviewItem}>
+                              <View style={styles.reviewHeader}>
+                                <Text style={styles.reviewLabel}>
+                                  {getRequirementLabel(requirement.type, requirementTypes)}
+                                  {requirement.is_required ? ' *' : ''}
+                                </Text>
+                                <View style={[styles.offerStatusBadge, { backgroundColor: status ? getStatusColor(status) : '#6B6B6B' }]}>
+                                  <Text style={styles.applicationStatusText}>
+                                    {(status ? SUBMISSION_STATUS_LABELS[status] : 'Not Submitted').toUpperCase()}
+                                  </Text>
+                                </View>
+                              </View>
+
+                              {fileUrls.map((url, index) => (
+                                <TouchableOpacity key={url} onPress={() => openSubmissionFile(url)}>
+                                  <Text style={styles.reviewFileLink}>
+                                    View {fileUrls.length > 1 ? `file ${index + 1}` : 'file'}
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                              {submission?.answer && (
+                                <Text style={styles.offerSummaryText} selectable>{submission.answer}</Text>
+                              )}
+                              {submission?.admin_feedback && status !== 'approved' && (
+                                <Text style={styles.statusReason}>Feedback: {submission.admin_feedback}</Text>
+                              )}
+
+                              {submission && can('manage_placements') && (
+                                <>
+                                  <TextInput
+                                    style={[styles.input, styles.offerInput]}
+                                    placeholder="Feedback for the student"
+                                    value={reviewFeedback[submission.id] ?? submission.admin_feedback ?? ''}
+                                    onChangeText={(text) => setReviewFeedback(prev => ({ ...prev, [submission.id]: text }))}
+                                  />
+                                  <View style={styles.offerActions}>
+                                    <TouchableOpacity
+                                      onPress={() => reviewSubmission(submission, 'changes_requested')}
+                                      disabled={reviewingSubmissionId === submission.id}
+                                    >
+                                      <Text style={[styles.offerActionText, styles.offerRevokeText]}>Request Changes</Text>
+                                    </TouchableOpacity>
+                                    {status !== 'approved' && (
+                                      <TouchableOpacity
+                                        onPress={() => reviewSubmission(submission, 'approved')}
+                                        disabled={reviewingSubmissionId === submission.id}
+                                      >
+                                        <Text style={styles.offerActionText}>
+                                          {reviewingSubmissionId === submission.id ? 'Saving...' : 'Approve'}
+                                        </Text>
+                                      </TouchableOpacity>
+                                    )}
+                                  </View>
+                                </>
+                              )}
+                            </View>
+                          );
+                        })}
+                      </View>
+                    )}
+
+                    {application.placement_offers && offerApplicationId !== application.id && (
+                      <View style={styles.offerSummary}>
+                        <View style={styles.offerSummaryHeader}>
+                          <Text style={styles.offerSummaryTitle}>
+                            {application.placement_offers.role} • {formatCtc(application.placement_offers.ctc_lpa)}
+                          </Text>
+                          <View style={[styles.offerStatusBadge, { backgroundColor: getStatusColor(application.placement_offers.status) }]}>
+                            <Text style={styles.applicationStatusText}>{application.placement_offers.status.toUpperCase()}</Text>
+                          </View>
+                        </View>
+                        <Text style={styles.offerSummaryText}>
+                          {[
+                            application.placement_offers.location,
+                            application.placement_offers.joining_date && `Joining ${formatDate(application.placement_offers.joining_date)}`,
+                          ].filter(Boolean).join(' • ') || 'Location and joining date not set'}
+                        </Text>
+                        <Text style={styles.offerSummaryText}>
+                          {application.placement_offers.status === 'pending'
+                            ? `Respond by ${formatDateTime(application.placement_offers.expires_at)}`
+                            : application.placement_offers.responded_at
+                            ? `${application.placement_offers.status === 'accepted' ? 'Accepted' : 'Declined'} on ${formatDate(application.placement_offers.responded_at)}`
+                            : `Expired ${formatDateTime(application.placement_offers.expires_at)}`}
+                          {application.placement_offers.decline_reason ? `: ${application.placement_offers.decline_reason}` : ''}
+                        </Text>
+                        {can('manage_placements') && ['pending', 'expired'].includes(application.placement_offers.status) && (
+                          <View style={styles.offerActions}>
+                            <TouchableOpacity onPress={() => openOfferForm(application)}>
+                              <Text style={styles.offerActionText}>Edit Offer</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => revokeOffer(application.placement_offers!)}>
+                              <Text style={[styles.offerActionText, styles.offerRevokeText]}>Revoke</Text>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    )}
+
+                    {application.application_status === 'accepted' && !application.placement_offers
+                      && offerApplicationId !== application.id && can('manage_placements') && (
+                      <TouchableOpacity style={styles.acceptButton} onPress={() => openOfferForm(application)}>
+                        <Text style={styles.acceptButtonText}>Make Offer</Text>
+                      </TouchableOpacity>
+                    )}
+
+                    {offerApplicationId === application.id && (
+                      <View style={styles.offerSummary}>
+                        <TextInput
+                          style={[styles.input, styles.offerInput]}
+                          placeholder="Role, e.g. Associate Software Engineer"
+                          value={offerForm.role}
+                          onChangeText={(text) => setOfferForm(prev => ({ ...prev, role: text }))}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.offerInput]}
+                          placeholder="CTC in lakhs per annum, e.g. 4.5"
+                          keyboardType="decimal-pad"
+                          value={offerForm.ctc_lpa}
+                          onChangeText={(text) => setOfferForm(prev => ({ ...prev, ctc_lpa: text }))}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.offerInput]}
+                          placeholder="Location"
+                          value={offerForm.location}
+                          onChangeText={(text) => setOfferForm(prev => ({ ...prev, location: text }))}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.offerInput]}
+                          placeholder="Joining date, YYYY-MM-DD"
+                          value={offerForm.joining_date}
+                          onChangeText={(text) => setOfferForm(prev => ({ ...prev, joining_date: text }))}
+                        />
+                        <TextInput
+                          style={[styles.input, styles.offerInput]}
+                          placeholder="Respond by, YYYY-MM-DD HH:MM"
+                          value={offerForm.expires_at}
+                          onChangeText={(text) => setOfferForm(prev => ({ ...prev, expires_at: text }))}
+                        />
+                        <View style={styles.offerActions}>
+                          <TouchableOpacity onPress={() => setOfferApplicationId(null)}>
+                            <Text style={[styles.offerActionText, styles.offerCancelText]}>Cancel</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => saveOffer(application)} disabled={savingOffer}>
+                            <Text style={styles.offerActionText}>{savingOffer ? 'Saving...' : 'Save Offer'}</Text>
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    )}
 
                     {/* View Offer Letter Button for Accepted Students */}
                     {application.application_status === 'accepted' && application.offer_letter_url && (
                       <TouchableOpacity
                         style={styles.viewOfferLetterButton}
-                        onPress={() => {
+                        onPress={async () => {
                           try {
-                             // Open the URL directly - it should now display inline
+                             // Sign the stored link, offer letters are not publicly readable
+                             const url = await getSignedUrl(application.offer_letter_url!);
                              if (Platform.OS === 'web') {
-                               window.open(application.offer_letter_url!, '_blank');
+                               window.open(url, '_blank');
                              } else {
-                               WebBrowser.openBrowserAsync(application.offer_letter_url!, {
+                               WebBrowser.openBrowserAsync(url, {
                                  presentationStyle: WebBrowser.WebBrowserPresentationStyle.FULL_SCREEN,
                                  controlsColor: '#007AFF',
                                });
@@ -829,18 +3834,565 @@ export default function AdminPlacementsScreen() {
                       </TouchableOpacity>
                     )}
 
-                    {application.application_status !== 'accepted' && (
-                      <TouchableOpacity
-                        style={styles.acceptButton}
-                        onPress={() => acceptApplication(application.id)}
-                      >
-                        <Text style={styles.acceptButtonText}>Mark as Accepted</Text>
-                      </TouchableOpacity>
-                    )}
+                    {!['accepted', 'withdrawn'].includes(application.application_status) && can('manage_placements') && (
+                      <TouchableOpacity
+                        style={styles.acceptButton}
+                        onPress={() => updateApplicationStatus([application.id], 'accepted')}
+                      >
+                        <Text style={styles.acceptButtonText}>Mark as Accepted</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+
+        {/* Resume Book Modal, opened from the applications list */}
+        <Modal visible={showResumeBookModal} animationType="slide" presentationStyle="pageSheet">
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Resume Book</Text>
+              <TouchableOpacity onPress={() => setShowResumeBookModal(false)}>
+                <X size={24} color="#1C1C1E" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Include Applications</Text>
+                <Text style={styles.sublabel}>
+                  One PDF with a cover page, a contents table and each applicant's resume. Image resumes get a page of their own.
+                </Text>
+                <View style={styles.classSelectionContainer}>
+                  {RESUME_BOOK_STATUSES.map((option) => (
+                    <TouchableOpacity
+                      key={option.status}
+                      style={[styles.classOption, resumeBookStatuses.includes(option.status) && styles.classOptionSelected]}
+                      onPress={() => toggleResumeBookStatus(option.status)}
+                    >
+                      <Text style={[styles.classOptionText, resumeBookStatuses.includes(option.status) && styles.classOptionTextSelected]}>
+                        {option.label} ({applications.filter(app => (app.application_status === 'pending' ? 'applied' : app.application_status) === option.status).length})
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.createEventButton, generatingResumeBook && styles.disabledButton]}
+                onPress={generateResumeBook}
+                disabled={generatingResumeBook}
+              >
+                <Text style={styles.createEventButtonText}>
+                  {generatingResumeBook ? 'Compiling...' : 'Compile Resume Book'}
+                </Text>
+              </TouchableOpacity>
+
+              {resumeBookMissing && resumeBookMissing.length > 0 && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Without a Resume ({resumeBookMissing.length})</Text>
+                  {resumeBookMissing.map((applicant, index) => (
+                    <View key={`${applicant.name}-${index}`} style={styles.overrideCard}>
+                      <Text style={styles.overrideName}>{applicant.name}</Text>
+                      <Text style={styles.overrideMeta}>{applicant.reason}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              <View style={styles.modalBottomSpacer} />
+            </ScrollView>
+          </View>
+        </Modal>
+
+        {/* Import Results Modal, opened from the applications list */}
+        <Modal visible={showImportModal} animationType="slide" presentationStyle="pageSheet">
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Import Company Results</Text>
+              <TouchableOpacity onPress={() => setShowImportModal(false)}>
+                <X size={24} color="#1C1C1E" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Mark Applicants On the Sheet As</Text>
+                <View style={styles.classSelectionContainer}>
+                  {APPLICATION_DECISIONS.map((decision) => (
+                    <TouchableOpacity
+                      key={decision.status}
+                      style={[styles.classOption, importDecision === decision.status && styles.classOptionSelected]}
+                      onPress={() => setImportDecision(decision.status)}
+                    >
+                      <Text style={[styles.classOptionText, importDecision === decision.status && styles.classOptionTextSelected]}>
+                        {decision.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Reason or Remarks</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={importDecision === 'rejected' ? 'Required to reject' : 'Optional'}
+                  value={importReason}
+                  onChangeText={setImportReason}
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Sheet</Text>
+                <Text style={styles.sublabel}>
+                  An Excel or CSV file from the company with a UID, Email, or Class and Roll Number column. Other columns are ignored.
+                </Text>
+                <TouchableOpacity style={[styles.exportButton, styles.importButton]} onPress={pickResultSheet}>
+                  <Upload size={16} color="#007AFF" />
+                  <Text style={[styles.exportButtonText, styles.importButtonText]}>
+                    {importPreview ? importPreview.fileName : 'Choose File'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {importPreview && (
+                <>
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Will Be Updated ({importToUpdate.length})</Text>
+                    {importToUpdate.map((app) => (
+                      <View key={app.id} style={styles.overrideCard}>
+                        <Text style={styles.overrideName}>{app.students?.student_profiles?.full_name || app.students?.name || 'Unknown'}</Text>
+                        <Text style={styles.overrideMeta}>
+                          {app.students?.uid || 'N/A'} • {app.students?.roll_no || 'N/A'} • {app.application_status} → {importDecision}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+
+                  {importSkipped.length > 0 && (
+                    <View style={styles.formGroup}>
+                      <Text style={styles.label}>Matched but Skipped ({importSkipped.length})</Text>
+                      {importSkipped.map((app) => (
+                        <View key={app.id} style={styles.overrideCard}>
+                          <Text style={styles.overrideName}>{app.students?.student_profiles?.full_name || app.students?.name || 'Unknown'}</Text>
+                          <Text style={styles.overrideMeta}>{getImportSkipReason(app)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {importPreview.unmatched.length > 0 && (
+                    <View style={styles.formGroup}>
+                      <Text style={styles.label}>Not Matched ({importPreview.unmatched.length})</Text>
+                      {importPreview.unmatched.map((row) => (
+                        <View key={row.row} style={styles.overrideCard}>
+                          <Text style={styles.overrideName}>Row {row.row}: {row.text}</Text>
+                          <Text style={styles.overrideMeta}>{row.reason}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  <TouchableOpacity
+                    style={[styles.createEventButton, (applyingImport || importToUpdate.length === 0) && styles.disabledButton]}
+                    onPress={applyResultSheet}
+                    disabled={applyingImport || importToUpdate.length === 0}
+                  >
+                    <Text style={styles.createEventButtonText}>
+                      {applyingImport ? 'Applying...' : `Apply to ${importToUpdate.length} Application${importToUpdate.length === 1 ? '' : 's'}`}
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              <View style={styles.modalBottomSpacer} />
+            </ScrollView>
+          </View>
+        </Modal>
+      </Modal>
+
+      {/* Recruitment Rounds Modal */}
+      <Modal visible={showRoundsModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {roundsEvent ? `${roundsEvent.company_name} - Rounds` : 'Rounds'}
+            </Text>
+            <TouchableOpacity onPress={() => setShowRoundsModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.sublabel}>
+                Applicants move through the rounds in this order. Clearing the last round accepts the application.
+              </Text>
+              {renderRoundsEditor(roundDrafts, setRoundDrafts)}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.createEventButton, savingRounds && styles.disabledButton]}
+              onPress={saveEventRounds}
+              disabled={savingRounds}
+            >
+              <Text style={styles.createEventButtonText}>
+                {savingRounds ? 'Saving...' : 'Save Rounds'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Eligibility Overrides Modal */}
+      <Modal visible={!!overridesEvent} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {overridesEvent ? `${overridesEvent.company_name} - Overrides` : 'Overrides'}
+            </Text>
+            <TouchableOpacity onPress={() => setOverridesEvent(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Allow a Student</Text>
+              <Text style={styles.sublabel}>
+                Lets a student apply even though they don't meet this event's eligibility criteria
+              </Text>
+              <View style={styles.customRoundRow}>
+                <TextInput
+                  style={[styles.input, styles.customRoundInput]}
+                  placeholder="Student UID or roll number"
+                  value={overrideStudentQuery}
+                  onChangeText={(text) => {
+                    setOverrideStudentQuery(text);
+                    setOverrideStudent(null);
+                  }}
+                  autoCapitalize="characters"
+                />
+                <TouchableOpacity style={styles.addRoundButton} onPress={findOverrideStudent}>
+                  <Eye size={20} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+
+              {overrideStudent && (
+                <View style={styles.overrideCard}>
+                  <Text style={styles.overrideName}>{overrideStudent.name} ({overrideStudent.uid})</Text>
+                  {overrideStudent.reasons.length === 0 ? (
+                    <Text style={styles.overrideMeta}>Already meets every criterion, no override needed.</Text>
+                  ) : (
+                    <>
+                      {overrideStudent.reasons.map((reason) => (
+                        <Text key={reason} style={styles.overrideReason}>• {reason}</Text>
+                      ))}
+                      <TextInput
+                        style={[styles.input, styles.textArea, styles.overrideInput]}
+                        placeholder="Justification, e.g. backlog cleared in the supplementary exam"
+                        value={overrideJustification}
+                        onChangeText={setOverrideJustification}
+                        multiline
+                        numberOfLines={3}
+                      />
+                      <TouchableOpacity
+                        style={[styles.createEventButton, savingOverride && styles.disabledButton]}
+                        onPress={grantOverride}
+                        disabled={savingOverride}
+                      >
+                        <Text style={styles.createEventButtonText}>
+                          {savingOverride ? 'Saving...' : 'Allow to Apply'}
+                        </Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Current Overrides ({overrides.length})</Text>
+              {overrides.map((override) => (
+                <View key={override.id} style={styles.overrideCard}>
+                  <View style={styles.overrideHeader}>
+                    <Text style={styles.overrideName}>
+                      {override.students?.name} ({override.students?.uid || override.students?.roll_no})
+                    </Text>
+                    <TouchableOpacity onPress={() => revokeOverride(override)}>
+                      <Text style={styles.revokeText}>Revoke</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.overrideReason}>{override.justification}</Text>
+                  <Text style={styles.overrideMeta}>Granted {formatDate(override.created_at)}</Text>
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Interview Slots Modal */}
+      <Modal visible={!!interviewsEvent} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {interviewsEvent ? `${interviewsEvent.company_name} - Interviews` : 'Interviews'}
+            </Text>
+            <TouchableOpacity onPress={() => setInterviewsEvent(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.createActions}>
+              <TouchableOpacity style={[styles.exportButton, styles.scheduleExportButton]} onPress={() => exportInterviewSchedule('xlsx')}>
+                <Download size={16} color="#34C759" />
+                <Text style={styles.exportButtonText}>Export Excel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.exportButton, styles.scheduleExportButton]} onPress={() => exportInterviewSchedule('ics')}>
+                <CalendarClock size={16} color="#34C759" />
+                <Text style={styles.exportButtonText}>Export Calendar</Text>
+              </TouchableOpacity>
+            </View>
+
+            {can('manage_placements') && (
+              <>
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Slot Selection</Text>
+                  <View style={styles.classSelectionContainer}>
+                    {[
+                      { pick: false, label: 'Placement cell assigns' },
+                      { pick: true, label: 'Students pick' },
+                    ].map((option) => {
+                      const selected = !!interviewsEvent?.students_pick_slots === option.pick;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          style={[styles.classOption, selected && styles.classOptionSelected]}
+                          onPress={() => setStudentsPickSlots(option.pick)}
+                        >
+                          <Text style={[styles.classOptionText, selected && styles.classOptionTextSelected]}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Add Slots</Text>
+                  <Text style={styles.sublabel}>Several slots are added back to back from the start time</Text>
+                  <TextInput
+                    style={[styles.input, styles.slotInput]}
+                    placeholder="First slot starts, YYYY-MM-DD HH:MM"
+                    value={slotForm.starts_at}
+                    onChangeText={(text) => setSlotForm(prev => ({ ...prev, starts_at: text }))}
+                  />
+                  <View style={styles.criteriaRow}>
+                    {[
+                      { key: 'duration_minutes', label: 'Minutes Each' },
+                      { key: 'count', label: 'Slots' },
+                      { key: 'capacity', label: 'Candidates Each' },
+                    ].map(({ key, label }) => (
+                      <View key={key} style={styles.criteriaField}>
+                        <Text style={styles.criteriaLabel}>{label}</Text>
+                        <TextInput
+                          style={styles.input}
+                          keyboardType="number-pad"
+                          value={slotForm[key as 'duration_minutes' | 'count' | 'capacity']}
+                          onChangeText={(text) => setSlotForm(prev => ({ ...prev, [key]: text }))}
+                        />
+                      </View>
+                    ))}
+                  </View>
+                  <TextInput
+                    style={[styles.input, styles.slotInput]}
+                    placeholder="Panel, e.g. Technical Panel A"
+                    value={slotForm.panel}
+                    onChangeText={(text) => setSlotForm(prev => ({ ...prev, panel: text }))}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.slotInput]}
+                    placeholder="Room or meeting link"
+                    value={slotForm.location}
+                    onChangeText={(text) => setSlotForm(prev => ({ ...prev, location: text }))}
+                    autoCapitalize="none"
+                  />
+                  <TouchableOpacity
+                    style={[styles.createEventButton, savingSlots && styles.disabledButton]}
+                    onPress={addInterviewSlots}
+                    disabled={savingSlots}
+                  >
+                    <Text style={styles.createEventButtonText}>{savingSlots ? 'Adding...' : 'Add Slots'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Waiting for a Slot ({unscheduledApplicants.length})</Text>
+              {unscheduledApplicants.length > 0 && (
+                <Text style={styles.sublabel}>{unscheduledApplicants.map(app => app.name).join(', ')}</Text>
+              )}
+              {can('manage_placements') && unscheduledApplicants.length > 0 && (
+                <TouchableOpacity
+                  style={[styles.createEventButton, assigningSlots && styles.disabledButton]}
+                  onPress={autoAssignInterviewSlots}
+                  disabled={assigningSlots}
+                >
+                  <Text style={styles.createEventButtonText}>
+                    {assigningSlots ? 'Assigning...' : 'Auto-assign Shortlisted'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Slots ({interviewSlots.length})</Text>
+              {interviewSlots.map((slot) => (
+                <View key={slot.id} style={styles.overrideCard}>
+                  <View style={styles.overrideHeader}>
+                    <Text style={styles.overrideName}>
+                      {formatDateTime(slot.starts_at)} - {new Date(slot.ends_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                    {can('manage_placements') && (
+                      <TouchableOpacity onPress={() => deleteInterviewSlot(slot)}>
+                        <Trash2 size={16} color="#FF3B30" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <Text style={styles.overrideMeta}>
+                    {[slot.panel, slot.location].filter(Boolean).join(' • ') || 'No panel or room yet'}
+                    {` • ${slot.interview_bookings.length}/${slot.capacity} booked`}
+                  </Text>
+                  {slot.interview_bookings.map((booking) => (
+                    <View key={booking.id} style={styles.overrideHeader}>
+                      <Text style={styles.overrideReason}>
+                        {booking.students?.name} ({booking.students?.uid})
+                      </Text>
+                      {can('manage_placements') && (
+                        <TouchableOpacity onPress={() => cancelInterviewBooking(booking)}>
+                          <Text style={styles.revokeText}>Remove</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Placement Policy Modal */}
+      <Modal visible={showPolicyModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Placement Policy</Text>
+            <TouchableOpacity onPress={() => setShowPolicyModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Academic Year</Text>
+              <View style={styles.customRoundRow}>
+                <TextInput
+                  style={[styles.input, styles.customRoundInput]}
+                  placeholder="e.g. 2025-26"
+                  value={policyForm.academic_year}
+                  onChangeText={(text) => setPolicyForm(prev => ({ ...prev, academic_year: text }))}
+                />
+                <TouchableOpacity
+                  style={styles.addRoundButton}
+                  onPress={() => {
+                    const academicYear = policyForm.academic_year.trim();
+                    if (!isAcademicYear(academicYear)) {
+                      Alert.alert('Error', 'Enter the academic year like 2025-26');
+                      return;
+                    }
+                    loadPolicy(academicYear);
+                  }}
+                >
+                  <Eye size={20} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>One Offer per Student</Text>
+              <Text style={styles.sublabel}>
+                Once selected for an event, a student can't apply to regular events for the rest of the year
+              </Text>
+              <View style={styles.classSelectionContainer}>
+                {[
+                  { enabled: true, label: 'On' },
+                  { enabled: false, label: 'Off' },
+                ].map((option) => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.classOption, policyForm.one_offer_enabled === option.enabled && styles.classOptionSelected]}
+                    onPress={() => setPolicyForm(prev => ({ ...prev, one_offer_enabled: option.enabled }))}
+                  >
+                    <Text style={[
+                      styles.classOptionText,
+                      policyForm.one_offer_enabled === option.enabled && styles.classOptionTextSelected,
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {policyForm.one_offer_enabled && DREAM_TIERS.map((tier) => (
+              <View key={tier} style={styles.formGroup}>
+                <Text style={styles.label}>{PLACEMENT_TIER_LABELS[tier]} Companies</Text>
+                <Text style={styles.sublabel}>
+                  Leave both empty to keep {PLACEMENT_TIER_LABELS[tier].toLowerCase()} events closed to placed students
+                </Text>
+                <View style={styles.criteriaRow}>
+                  <View style={styles.criteriaField}>
+                    <Text style={styles.criteriaLabel}>Offer Below (LPA)</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g. 6"
+                      keyboardType="decimal-pad"
+                      value={policyForm.tiers[tier].max_offer_ctc_lpa}
+                      onChangeText={(text) => setPolicyForm(prev => ({
+                        ...prev,
+                        tiers: { ...prev.tiers, [tier]: { ...prev.tiers[tier], max_offer_ctc_lpa: text } },
+                      }))}
+                    />
                   </View>
-                ))}
+                  <View style={styles.criteriaField}>
+                    <Text style={styles.criteriaLabel}>Max Applications</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g. 2"
+                      keyboardType="number-pad"
+                      value={policyForm.tiers[tier].max_applications}
+                      onChangeText={(text) => setPolicyForm(prev => ({
+                        ...prev,
+                        tiers: { ...prev.tiers, [tier]: { ...prev.tiers[tier], max_applications: text } },
+                      }))}
+                    />
+                  </View>
+                </View>
               </View>
-            )}
+            ))}
+
+            <TouchableOpacity
+              style={[styles.createEventButton, savingPolicy && styles.disabledButton]}
+              onPress={savePolicy}
+              disabled={savingPolicy}
+            >
+              <Text style={styles.createEventButtonText}>{savingPolicy ? 'Saving...' : 'Save Policy'}</Text>
+            </TouchableOpacity>
           </ScrollView>
         </View>
       </Modal>
@@ -865,6 +4417,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  companyMatches: {
+    marginTop: 8,
+  },
   createButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     borderRadius: 8,
@@ -977,6 +4536,124 @@ const styles = StyleSheet.create({
     color: '#6B6B6B',
     marginBottom: 12,
   },
+  eventStatusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  eventStatusText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  eventSchedule: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  eventRounds: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  criteriaRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  criteriaField: {
+    flex: 1,
+  },
+  criteriaFieldWide: {
+    flex: 2,
+  },
+  criteriaLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    marginBottom: 6,
+  },
+  overrideCard: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  overrideHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  overrideName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  overrideReason: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    lineHeight: 18,
+  },
+  overrideMeta: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 4,
+  },
+  overrideInput: {
+    marginTop: 12,
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  revokeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  archiveTypeText: {
+    marginTop: 8,
+  },
+  modalBottomSpacer: {
+    height: 40,
+  },
+  archiveFilters: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  archiveFilter: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  archiveFilterSelected: {
+    backgroundColor: '#FFFFFF',
+  },
+  archiveFilterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  archiveFilterTextSelected: {
+    color: '#764ba2',
+  },
+  eventToolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginBottom: 4,
+  },
+  toolbarButton: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 8,
+  },
+  eventActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   viewButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1141,6 +4818,39 @@ const styles = StyleSheet.create({
   removeRequirement: {
     padding: 4,
   },
+  questionCard: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  questionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  questionTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  questionKinds: {
+    marginBottom: 0,
+  },
+  customRoundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  customRoundInput: {
+    flex: 1,
+  },
+  addRoundButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 12,
+  },
   createEventButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
@@ -1148,6 +4858,25 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 40,
   },
+  createActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  draftButton: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  draftButtonText: {
+    color: '#007AFF',
+  },
+  publishButton: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 6,
+  },
   createEventButtonText: {
     fontSize: 16,
     fontWeight: '600',
@@ -1179,11 +4908,24 @@ const styles = StyleSheet.create({
     borderColor: '#34C759',
     gap: 8,
   },
+  scheduleExportButton: {
+    flex: 1,
+  },
+  slotInput: {
+    marginBottom: 12,
+  },
   exportButtonText: {
     fontSize: 14,
     color: '#34C759',
     fontWeight: '600',
   },
+  importButton: {
+    backgroundColor: '#F0F7FF',
+    borderColor: '#007AFF',
+  },
+  importButtonText: {
+    color: '#007AFF',
+  },
   bulkDownloadButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1194,6 +4936,9 @@ const styles = StyleSheet.create({
     gap: 8,
     marginTop: 8,
   },
+  resumeBookButton: {
+    backgroundColor: '#5856D6',
+  },
   bulkDownloadButtonText: {
     fontSize: 14,
     color: '#FFFFFF',
@@ -1202,6 +4947,72 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#C7C7CC',
   },
+  noRoundsText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    textAlign: 'center',
+  },
+  pipelineSection: {
+    gap: 12,
+  },
+  stageFilters: {
+    gap: 8,
+  },
+  bulkActions: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  selectAllRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  selectAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  bulkActionsLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    marginTop: 4,
+  },
+  resultButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  resultButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  resultButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  roundProgress: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    gap: 4,
+  },
+  roundStage: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  roundResultText: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
   applicationCard: {
     backgroundColor: '#F8F9FA',
     borderRadius: 12,
@@ -1260,6 +5071,11 @@ const styles = StyleSheet.create({
     color: '#6B6B6B',
     marginBottom: 8,
   },
+  statusReason: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
   viewOfferLetterButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1277,6 +5093,83 @@ const styles = StyleSheet.create({
     color: '#34C759',
     fontWeight: '600',
   },
+  offerSummary: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  offerSummaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  offerSummaryTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  offerStatusBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  offerSummaryText: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+  offerInput: {
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  offerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  offerActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  offerRevokeText: {
+    color: '#FF3B30',
+  },
+  offerCancelText: {
+    color: '#6B6B6B',
+  },
+  reviewSection: {
+    marginBottom: 8,
+    gap: 8,
+  },
+  reviewItem: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  reviewLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  reviewFileLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 4,
+  },
   acceptButton: {
     marginTop: 8,
     backgroundColor: '#34C759',
@@ -5,6 +5,7 @@ export default function StudentsLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="index" />
       <Stack.Screen name="bulk-import" />
+      <Stack.Screen name="registrations" />
       <Stack.Screen name="class/[classId]" />
     </Stack>
   );
@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
+import { Redirect, useRouter } from 'expo-router';
 import { ChevronLeft, Upload, FileText, Users, Download } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
 import * as DocumentPicker from 'expo-document-picker';
 import * as XLSX from 'xlsx';
 import * as FileSystem from 'expo-file-system';
@@ -21,6 +23,7 @@ interface StudentData {
 
 export default function BulkImportScreen() {
   const router = useRouter();
+  const { can } = usePermissions();
   const [importing, setImporting] = useState(false);
   const [previewData, setPreviewData] = useState<StudentData[]>([]);
 
@@ -190,7 +193,8 @@ export default function BulkImportScreen() {
               roll_no: student.roll_no,
               class: student.class || 'SYIT',
               total_credits: 0,
-            });
+            })
+            .setHeader(AUDIT_ACTION_HEADER, 'bulk_import_students');
 
           if (error) {
             errorCount++;
@@ -220,6 +224,10 @@ export default function BulkImportScreen() {
     }
   };
 
+  if (!can('manage_students')) {
+    return <Redirect href="/not-authorized" />;
+  }
+
   return (
     <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
       <View style={styles.header}>
@@ -2,9 +2,11 @@ import { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Dimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useLocalSearchParams, useRouter } from 'expo-router';
-import { ChevronLeft, User, Mail, Hash, FileText, Download } from 'lucide-react-native';
+import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
+import { ChevronLeft, User, Mail, Hash, FileText, Download, Award } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
 import * as XLSX from 'xlsx';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
@@ -22,10 +24,32 @@ interface Student {
   total_credits: number;
 }
 
+// Entered by the student on their profile, placement eligibility only uses it once verified
+interface AcademicRecord {
+  student_id: string;
+  percentage_10th: number | null;
+  percentage_12th: number | null;
+  degree_percentage: number | null;
+  active_backlogs: number | null;
+  graduation_year: number | null;
+  stream_12th: string | null;
+  academics_verified_at: string | null;
+}
+
+const describeAcademicRecord = (record: AcademicRecord) => [
+  `10th: ${record.percentage_10th ?? '-'}%`,
+  `12th: ${record.percentage_12th ?? '-'}% (${record.stream_12th || '-'})`,
+  `Degree: ${record.degree_percentage ?? '-'}%`,
+  `Backlogs: ${record.active_backlogs ?? 0}`,
+  `Batch: ${record.graduation_year ?? '-'}`,
+].join('  ·  ');
+
 export default function ClassStudentsView() {
   const router = useRouter();
   const { classId } = useLocalSearchParams<{ classId: string }>();
+  const { can, canAccessClass } = usePermissions();
   const [students, setStudents] = useState<Student[]>([]);
+  const [academicRecords, setAcademicRecords] = useState<Record<string, AcademicRecord>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -77,6 +101,7 @@ export default function ClassStudentsView() {
         (a, b) => Number(a.roll_no) - Number(b.roll_no)
       );
       setStudents(sorted);
+      await loadAcademicRecords(sorted.map((student) => student.id));
     }
     } catch (error) {
       console.error('Error loading students:', error);
@@ -86,6 +111,55 @@ export default function ClassStudentsView() {
     }
   };
 
+  const loadAcademicRecords = async (studentIds: string[]) => {
+    if (studentIds.length === 0) {
+      setAcademicRecords({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('student_profiles')
+      .select('student_id, percentage_10th, percentage_12th, degree_percentage, active_backlogs, graduation_year, stream_12th, academics_verified_at')
+      .in('student_id', studentIds);
+
+    if (error) {
+      console.error('Error loading academic records:', error);
+      return;
+    }
+
+    setAcademicRecords(Object.fromEntries((data || []).map((record: AcademicRecord) => [record.student_id, record])));
+  };
+
+  const setAcademicsVerified = async (student: Student, verified: boolean) => {
+    const { data, error } = await supabase
+      .from('student_profiles')
+      .update({ academics_verified_at: verified ? new Date().toISOString() : null })
+      .eq('student_id', student.id)
+      .setHeader(AUDIT_ACTION_HEADER, verified ? 'verify_student_academics' : 'unverify_student_academics')
+      .select('student_id, percentage_10th, percentage_12th, degree_percentage, active_backlogs, graduation_year, stream_12th, academics_verified_at')
+      .single();
+
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to update the academic record');
+      return;
+    }
+
+    setAcademicRecords((prev) => ({ ...prev, [student.id]: data as AcademicRecord }));
+  };
+
+  const confirmAcademicsVerified = (student: Student, verified: boolean) => {
+    Alert.alert(
+      verified ? 'Verify Academic Record' : 'Reopen Academic Record',
+      verified
+        ? `Confirm ${student.name}'s marks, backlogs and batch match their marksheets. They won't be able to change them afterwards.`
+        : `${student.name} will be able to edit their academic record again, and won't meet academic placement criteria until it is verified again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: verified ? 'Verify' : 'Reopen', onPress: () => setAcademicsVerified(student, verified) },
+      ]
+    );
+  };
+
   const exportToExcel = async () => {
     try {
       const data = students.map((student, index) => ({
@@ -176,6 +250,10 @@ export default function ClassStudentsView() {
     return classNames[className] || className;
   };
 
+  if (!canAccessClass(String(classId))) {
+    return <Redirect href="/not-authorized" />;
+  }
+
   if (loading) {
     return (
       <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
@@ -247,6 +325,29 @@ export default function ClassStudentsView() {
                     <Text style={styles.creditsLabel}>Credits</Text>
                   </View>
                 </View>
+                {academicRecords[student.id] ? (
+                  <View style={styles.academicsRow}>
+                    <View style={styles.detailRow}>
+                      <Award size={14} color="#6B6B6B" />
+                      <Text style={styles.detailText}>{describeAcademicRecord(academicRecords[student.id])}</Text>
+                    </View>
+                    <View style={styles.academicsFooter}>
+                      <Text style={academicRecords[student.id].academics_verified_at ? styles.verifiedText : styles.unverifiedText}>
+                        {academicRecords[student.id].academics_verified_at ? '✓ Verified' : 'Not verified'}
+                      </Text>
+                      {can('manage_students') && (
+                        <TouchableOpacity
+                          style={styles.verifyButton}
+                          onPress={() => confirmAcademicsVerified(student, !academicRecords[student.id].academics_verified_at)}
+                        >
+                          <Text style={styles.verifyButtonText}>
+                            {academicRecords[student.id].academics_verified_at ? 'Reopen' : 'Verify Academics'}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                ) : null}
               </View>
             ))}
           </View>
@@ -411,4 +512,37 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: '#6B6B6B',
   },
+  academicsRow: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    gap: 8,
+  },
+  academicsFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  verifiedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  unverifiedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
+  verifyButton: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  verifyButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
 });
@@ -2,8 +2,9 @@ import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import { Users, GraduationCap, ChevronRight } from 'lucide-react-native';
+import { Users, GraduationCap, ChevronRight, UserPlus } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface ClassStats {
   className: string;
@@ -15,14 +16,30 @@ interface ClassStats {
 
 export default function AdminStudentsScreen() {
   const router = useRouter();
+  const { can, canAccessClass } = usePermissions();
   const [classStats, setClassStats] = useState<ClassStats[]>([]);
+  const [pendingRegistrations, setPendingRegistrations] = useState(0);
   const [loading, setLoading] = useState(true);
   const [totalStudents, setTotalStudents] = useState(0);
 
   useEffect(() => {
     loadClassStats();
+    loadPendingRegistrations();
   }, []);
 
+  const loadPendingRegistrations = async () => {
+    const { count, error } = await supabase
+      .from('students')
+      .select('id', { count: 'exact', head: true })
+      .eq('registration_status', 'pending');
+
+    if (error) {
+      console.error('Error loading pending registrations:', error);
+      return;
+    }
+    setPendingRegistrations(count || 0);
+  };
+
   const loadClassStats = async () => {
     try {
       setLoading(true);
@@ -101,6 +118,15 @@ export default function AdminStudentsScreen() {
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Student Management</Text>
         <View style={styles.headerRight}>
+          {can('manage_students') && (
+            <TouchableOpacity
+              style={styles.registrationsButton}
+              onPress={() => router.push('/(admin)/students/registrations')}
+            >
+              <UserPlus size={14} color="#FFFFFF" />
+              <Text style={styles.bulkImportText}>{pendingRegistrations} Pending</Text>
+            </TouchableOpacity>
+          )}
           <View style={styles.headerStats}>
             <Text style={styles.headerStatsText}>{totalStudents} Total</Text>
           </View>
@@ -131,7 +157,7 @@ export default function AdminStudentsScreen() {
           </Text>
 
           <View style={styles.classesList}>
-            {classStats.map((classItem) => (
+            {classStats.filter((classItem) => canAccessClass(classItem.className)).map((classItem) => (
               <TouchableOpacity
                 key={classItem.className}
                 style={styles.classCard}
@@ -193,6 +219,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     paddingVertical: 6,
   },
+  registrationsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FF9500',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
   bulkImportText: {
     fontSize: 13,
     color: '#FFFFFF',
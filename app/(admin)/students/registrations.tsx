@@ -0,0 +1,626 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Modal, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Redirect, useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { ChevronLeft, UserPlus, FileText, Check, X, GitMerge, Search } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { supabase, getSignedUrl } from '@/lib/supabase';
+import { formatDate } from '@/lib/utils';
+import { AUDIT_ACTION_HEADER } from '@/lib/audit';
+
+interface Registration {
+  id: string;
+  name: string;
+  uid: string;
+  email: string;
+  roll_no: string;
+  class: string;
+  id_proof_url: string | null;
+  registered_at: string | null;
+}
+
+interface StudentRecord {
+  id: string;
+  name: string;
+  uid: string;
+  email: string;
+  roll_no: string;
+  class: string;
+}
+
+type ReviewMode = 'reject' | 'merge';
+
+export default function RegistrationReviewScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { can, canAccessClass } = usePermissions();
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [reviewing, setReviewing] = useState<Registration | null>(null);
+  const [reviewMode, setReviewMode] = useState<ReviewMode>('reject');
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [mergeSearch, setMergeSearch] = useState('');
+  const [mergeCandidates, setMergeCandidates] = useState<StudentRecord[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, []);
+
+  const loadRegistrations = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, name, uid, email, roll_no, class, id_proof_url, registered_at')
+        .eq('registration_status', 'pending')
+        .order('registered_at', { ascending: true });
+
+      if (error) throw error;
+      setRegistrations((data || []).filter((r: Registration) => canAccessClass(r.class)));
+    } catch (error) {
+      console.error('Error loading registrations:', error);
+      Alert.alert('Error', 'Failed to load pending registrations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewIdProof = async (registration: Registration) => {
+    if (!registration.id_proof_url) {
+      Alert.alert('No Document', 'This student has not uploaded an ID proof.');
+      return;
+    }
+
+    try {
+      const url = await getSignedUrl(registration.id_proof_url);
+      if (Platform.OS === 'web') {
+        window.open(url, '_blank');
+      } else {
+        await WebBrowser.openBrowserAsync(url, {
+          presentationStyle: WebBrowser.WebBrowserPresentationStyle.FULL_SCREEN,
+          controlsColor: '#007AFF',
+        });
+      }
+    } catch (error) {
+      console.error('ID proof view error:', error);
+      Alert.alert('Error', 'Failed to open the ID proof.');
+    }
+  };
+
+  const approve = async (registration: Registration) => {
+    try {
+      setBusyId(registration.id);
+      const { error } = await supabase
+        .from('students')
+        .update({
+          registration_status: 'approved',
+          rejection_reason: null,
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', registration.id)
+        .setHeader(AUDIT_ACTION_HEADER, 'approve_registration');
+
+      if (error) throw error;
+
+      setRegistrations(prev => prev.filter(r => r.id !== registration.id));
+      Alert.alert('Success', `${registration.name} can now apply to placements.`);
+    } catch (error) {
+      console.error('Approve registration error:', error);
+      Alert.alert('Error', 'Failed to approve the registration');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReview = (registration: Registration, mode: ReviewMode) => {
+    setReviewing(registration);
+    setReviewMode(mode);
+    setRejectionReason('');
+    setMergeSearch(mode === 'merge' ? registration.roll_no : '');
+    setMergeCandidates([]);
+    if (mode === 'merge') {
+      searchMergeCandidates(registration, registration.roll_no);
+    }
+  };
+
+  const reject = async () => {
+    if (!reviewing) return;
+    if (!rejectionReason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for the rejection');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('students')
+        .update({
+          registration_status: 'rejected',
+          rejection_reason: rejectionReason.trim(),
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', reviewing.id)
+        .setHeader(AUDIT_ACTION_HEADER, 'reject_registration');
+
+      if (error) throw error;
+
+      setRegistrations(prev => prev.filter(r => r.id !== reviewing.id));
+      setReviewing(null);
+      Alert.alert('Success', 'Registration rejected');
+    } catch (error) {
+      console.error('Reject registration error:', error);
+      Alert.alert('Error', 'Failed to reject the registration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Approved records in the same class matching the name, UID or roll number
+  const searchMergeCandidates = async (registration: Registration, search: string) => {
+    const term = search.trim().replace(/[,()]/g, '');
+
+    let query = supabase
+      .from('students')
+      .select('id, name, uid, email, roll_no, class')
+      .eq('registration_status', 'approved')
+      .eq('class', registration.class)
+      .order('roll_no', { ascending: true })
+      .limit(20);
+
+    if (term) {
+      query = query.or(`name.ilike.%${term}%,uid.ilike.%${term}%,roll_no.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error searching students:', error);
+      return;
+    }
+    setMergeCandidates(data || []);
+  };
+
+  const merge = (target: StudentRecord) => {
+    if (!reviewing) return;
+    const registration = reviewing;
+
+    Alert.alert(
+      'Merge Registration',
+      `Merge ${registration.name} (${registration.uid}) into ${target.name} (${target.uid})? ` +
+        `${target.name}'s login email becomes ${registration.email} and the registration is removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              const { error } = await supabase
+                .rpc('merge_student_registration', {
+                  p_registration_id: registration.id,
+                  p_student_id: target.id,
+                })
+                .setHeader(AUDIT_ACTION_HEADER, 'merge_registration');
+
+              if (error) throw error;
+
+              setRegistrations(prev => prev.filter(r => r.id !== registration.id));
+              setReviewing(null);
+              Alert.alert('Success', 'Registration merged into the existing record');
+            } catch (error: any) {
+              console.error('Merge registration error:', error);
+              Alert.alert('Error', error?.message || 'Failed to merge the registration');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!can('manage_students')) {
+    return <Redirect href="/not-authorized" />;
+  }
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ChevronLeft size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Registrations</Text>
+        <View style={styles.headerStats}>
+          <Text style={styles.headerStatsText}>{registrations.length} Pending</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <Text style={styles.loadingText}>Loading registrations...</Text>
+        ) : registrations.length === 0 ? (
+          <View style={styles.emptyState}>
+            <UserPlus size={48} color="#FFFFFF" />
+            <Text style={styles.emptyText}>No registrations waiting for review</Text>
+          </View>
+        ) : (
+          <View style={styles.registrationsList}>
+            {registrations.map((registration) => (
+              <View key={registration.id} style={styles.registrationCard}>
+                <View style={styles.registrationHeader}>
+                  <Text style={styles.registrationName}>{registration.name}</Text>
+                  <View style={styles.classBadge}>
+                    <Text style={styles.classBadgeText}>{registration.class}</Text>
+                  </View>
+                </View>
+                <Text style={styles.registrationMeta}>UID: {registration.uid} • Roll: {registration.roll_no}</Text>
+                <Text style={styles.registrationMeta}>{registration.email}</Text>
+                {registration.registered_at && (
+                  <Text style={styles.registrationMeta}>Registered {formatDate(registration.registered_at)}</Text>
+                )}
+
+                <TouchableOpacity style={styles.idProofButton} onPress={() => viewIdProof(registration)}>
+                  <FileText size={16} color="#007AFF" />
+                  <Text style={styles.idProofText}>
+                    {registration.id_proof_url ? 'View ID Proof' : 'No ID proof uploaded'}
+                  </Text>
+                </TouchableOpacity>
+
+                <View style={styles.actionRow}>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: '#34C759' }, busyId === registration.id && styles.disabledButton]}
+                    onPress={() => approve(registration)}
+                    disabled={busyId === registration.id}
+                  >
+                    <Check size={16} color="#FFFFFF" />
+                    <Text style={styles.actionButtonText}>Approve</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: '#FF3B30' }]}
+                    onPress={() => openReview(registration, 'reject')}
+                  >
+                    <X size={16} color="#FFFFFF" />
+                    <Text style={styles.actionButtonText}>Reject</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: '#FF9500' }]}
+                    onPress={() => openReview(registration, 'merge')}
+                  >
+                    <GitMerge size={16} color="#FFFFFF" />
+                    <Text style={styles.actionButtonText}>Merge</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Reject / Merge Modal */}
+      <Modal visible={!!reviewing} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {reviewMode === 'reject' ? 'Reject Registration' : 'Merge Into Existing Record'}
+            </Text>
+            <TouchableOpacity onPress={() => setReviewing(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          {reviewing && (
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.modalSubtitle}>
+                {reviewing.name} • {reviewing.uid} • {reviewing.class}
+              </Text>
+
+              {reviewMode === 'reject' ? (
+                <>
+                  <Text style={styles.label}>Reason *</Text>
+                  <Text style={styles.sublabel}>Shown to the student when they log in</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea]}
+                    placeholder="e.g., ID proof is unreadable"
+                    value={rejectionReason}
+                    onChangeText={setRejectionReason}
+                    multiline
+                    numberOfLines={3}
+                  />
+                  <TouchableOpacity
+                    style={[styles.saveButton, { backgroundColor: '#FF3B30' }, saving && styles.disabledButton]}
+                    onPress={reject}
+                    disabled={saving}
+                  >
+                    <Text style={styles.saveButtonText}>{saving ? 'Rejecting...' : 'Reject Registration'}</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.sublabel}>
+                    Choose the imported record for this student. It keeps its history and takes over the
+                    registration's email and ID proof.
+                  </Text>
+                  <View style={styles.searchRow}>
+                    <TextInput
+                      style={[styles.input, styles.searchInput]}
+                      placeholder="Search by name, UID or roll number"
+                      value={mergeSearch}
+                      onChangeText={setMergeSearch}
+                      onSubmitEditing={() => searchMergeCandidates(reviewing, mergeSearch)}
+                    />
+                    <TouchableOpacity
+                      style={styles.searchButton}
+                      onPress={() => searchMergeCandidates(reviewing, mergeSearch)}
+                    >
+                      <Search size={18} color="#FFFFFF" />
+                    </TouchableOpacity>
+                  </View>
+
+                  {mergeCandidates.length === 0 ? (
+                    <Text style={styles.noMatchesText}>No matching students in {reviewing.class}</Text>
+                  ) : (
+                    mergeCandidates.map((candidate) => (
+                      <TouchableOpacity
+                        key={candidate.id}
+                        style={[styles.candidateCard, saving && styles.disabledButton]}
+                        onPress={() => merge(candidate)}
+                        disabled={saving}
+                      >
+                        <Text style={styles.candidateName}>{candidate.name}</Text>
+                        <Text style={styles.candidateMeta}>
+                          UID: {candidate.uid} • Roll: {candidate.roll_no} • {candidate.email}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  headerStats: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  headerStatsText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  registrationsList: {
+    gap: 16,
+    paddingBottom: 40,
+  },
+  registrationCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  registrationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  registrationName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  classBadge: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  classBadgeText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  registrationMeta: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    marginBottom: 2,
+  },
+  idProofButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  idProofText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalSubtitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  sublabel: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    backgroundColor: '#F2F2F7',
+  },
+  textArea: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 40,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  searchButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+  },
+  noMatchesText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  candidateCard: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  candidateName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  candidateMeta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+});
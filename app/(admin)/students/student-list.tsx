@@ -4,6 +4,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import { Users, GraduationCap, ChevronRight } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface ClassStats {
   className: string;
@@ -15,6 +16,7 @@ interface ClassStats {
 
 export default function AdminStudentsScreen() {
   const router = useRouter();
+  const { can, canAccessClass } = usePermissions();
   const [classStats, setClassStats] = useState<ClassStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalStudents, setTotalStudents] = useState(0);
@@ -129,15 +131,17 @@ export default function AdminStudentsScreen() {
             Select a class to view and manage students
           </Text>
 
-          <TouchableOpacity
-            style={styles.bulkImportButton}
-            onPress={() => router.push('/(admin)/students/bulk-import')}
-          >
-            <Text style={styles.bulkImportText}>Bulk Import Students from Excel</Text>
-          </TouchableOpacity>
+          {can('manage_students') && (
+            <TouchableOpacity
+              style={styles.bulkImportButton}
+              onPress={() => router.push('/(admin)/students/bulk-import')}
+            >
+              <Text style={styles.bulkImportText}>Bulk Import Students from Excel</Text>
+            </TouchableOpacity>
+          )}
 
           <View style={styles.classesList}>
-            {classStats.map((classItem) => (
+            {classStats.filter((classItem) => canAccessClass(classItem.className)).map((classItem) => (
               <TouchableOpacity
                 key={classItem.className}
                 style={styles.classCard}
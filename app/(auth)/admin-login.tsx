@@ -1,17 +1,23 @@
 import { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
-import { ArrowLeft, Lock, User } from 'lucide-react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Lock, User, Square, SquareCheck } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { getSafeRedirect } from '@/hooks/useRoleGuard';
+import { useCooldown } from '@/hooks/useCooldown';
 
 export default function AdminLogin() {
   const [code, setCode] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
   const { signInAdmin } = useAuth();
+  const cooldown = useCooldown();
+  const blocked = !code || !password || loading || cooldown.remaining > 0;
 
   const handleLogin = async () => {
     if (!code || !password) {
@@ -22,12 +28,14 @@ export default function AdminLogin() {
     setLoading(true);
     setError('');
 
-    const result = await signInAdmin(code, password);
+    const result = await signInAdmin(code, password, remember);
     
     if (result.success) {
-      router.replace('/(admin)');
+      // Return to the page that sent the user to login, if any
+      router.replace(getSafeRedirect(redirect, '/(admin)'));
     } else {
       setError(result.error || 'Login failed');
+      cooldown.start(result.retryAfter);
     }
     
     setLoading(false);
@@ -83,12 +91,28 @@ export default function AdminLogin() {
           </View>
 
           <TouchableOpacity
-            style={[styles.loginButton, (!code || !password || loading) && styles.disabledButton]}
+            style={styles.rememberRow}
+            onPress={() => setRemember(prev => !prev)}
+          >
+            {remember ? (
+              <SquareCheck size={20} color="#007AFF" />
+            ) : (
+              <Square size={20} color="#6B6B6B" />
+            )}
+            <Text style={styles.rememberText}>Remember me on this device</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.loginButton, blocked && styles.disabledButton]}
             onPress={handleLogin}
-            disabled={!code || !password || loading}
+            disabled={blocked}
           >
             <Text style={styles.loginButtonText}>
-              {loading ? 'Logging in...' : 'Login to Dashboard'}
+              {loading
+                ? 'Logging in...'
+                : cooldown.remaining > 0
+                  ? `Try again in ${cooldown.label}`
+                  : 'Login to Dashboard'}
             </Text>
           </TouchableOpacity>
 
@@ -171,6 +195,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1C1C1E',
   },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 24,
+  },
+  rememberText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
   loginButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
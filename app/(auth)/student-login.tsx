@@ -1,19 +1,38 @@
-import { useState } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
-import { ArrowLeft, Mail, Hash, UserPlus } from 'lucide-react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ArrowLeft, Mail, Hash, KeyRound, Square, SquareCheck } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { getSafeRedirect } from '@/hooks/useRoleGuard';
+import { useCooldown } from '@/hooks/useCooldown';
+
+// Matches the one-code-per-minute limit configured for Supabase Auth emails
+const RESEND_COOLDOWN_SECONDS = 60;
 
 export default function StudentLogin() {
-  const [uid, setUid] = useState('');
-  const [email, setEmail] = useState('');
+  const params = useLocalSearchParams<{ redirect?: string; uid?: string; email?: string; codeSent?: string }>();
+  const [step, setStep] = useState<'details' | 'code'>(params.codeSent ? 'code' : 'details');
+  const [uid, setUid] = useState(params.uid || '');
+  const [email, setEmail] = useState(params.email || '');
+  const [code, setCode] = useState('');
+  const [remember, setRemember] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [info, setInfo] = useState(params.codeSent ? 'A login code has been sent to your email address.' : '');
+  const [cooldown, setCooldown] = useState(params.codeSent ? RESEND_COOLDOWN_SECONDS : 0);
   const router = useRouter();
-  const { signInStudent } = useAuth();
+  const { requestStudentCode, verifyStudentCode } = useAuth();
+  // Set when the server throttles this email or device after repeated failures
+  const lockout = useCooldown();
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
 
-  const handleLogin = async () => {
+  const handleSendCode = async () => {
     if (!uid || !email) {
       setError('Please enter both UID and email');
       return;
@@ -27,17 +46,49 @@ export default function StudentLogin() {
     setLoading(true);
     setError('');
 
-    const result = await signInStudent(uid, email);
-    
+    const result = await requestStudentCode(uid, email);
+
+    if (result.success) {
+      setInfo(result.message || 'A login code has been sent to your email address.');
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      setStep('code');
+    } else {
+      setError(result.error || 'Could not send the login code');
+      lockout.start(result.retryAfter);
+    }
+
+    setLoading(false);
+  };
+
+  const handleVerifyCode = async () => {
+    if (code.length < 6) {
+      setError('Please enter the 6-digit code from your email');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    const result = await verifyStudentCode(email, code, remember);
+
     if (result.success) {
-      router.replace('/(student)');
+      // Return to the page that sent the user to login, if any
+      router.replace(getSafeRedirect(params.redirect, '/(student)'));
     } else {
       setError(result.error || 'Login failed');
+      lockout.start(result.retryAfter);
     }
-    
+
     setLoading(false);
   };
 
+  const changeDetails = () => {
+    setStep('details');
+    setCode('');
+    setError('');
+    setInfo('');
+  };
+
   return (
     <LinearGradient
       colors={['#667eea', '#764ba2']}
@@ -53,7 +104,11 @@ export default function StudentLogin() {
       <View style={styles.content}>
         <View style={styles.loginCard}>
           <Text style={styles.title}>Student Portal</Text>
-          <Text style={styles.subtitle}>Login with your college credentials</Text>
+          <Text style={styles.subtitle}>
+            {step === 'details'
+              ? 'Enter your college UID and email to get a login code'
+              : `Enter the code sent to ${email}`}
+          </Text>
 
           <View style={styles.inputContainer}>
             {error ? (
@@ -62,41 +117,111 @@ export default function StudentLogin() {
               </View>
             ) : null}
 
-            <View style={styles.inputWrapper}>
-              <Hash size={20} color="#6B6B6B" style={styles.inputIcon} />
-              <TextInput
-                style={styles.input}
-                placeholder="College UID"
-                value={uid}
-                onChangeText={setUid}
-                autoCapitalize="characters"
-                placeholderTextColor="#6B6B6B"
-              />
-            </View>
-
-            <View style={styles.inputWrapper}>
-              <Mail size={20} color="#6B6B6B" style={styles.inputIcon} />
-              <TextInput
-                style={styles.input}
-                placeholder="College Email"
-                value={email}
-                onChangeText={setEmail}
-                keyboardType="email-address"
-                autoCapitalize="none"
-                placeholderTextColor="#6B6B6B"
-              />
-            </View>
+            {info && step === 'code' ? (
+              <View style={styles.infoBanner}>
+                <Text style={styles.infoBannerText}>{info}</Text>
+              </View>
+            ) : null}
+
+            {step === 'details' ? (
+              <>
+                <View style={styles.inputWrapper}>
+                  <Hash size={20} color="#6B6B6B" style={styles.inputIcon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="College UID"
+                    value={uid}
+                    onChangeText={setUid}
+                    autoCapitalize="characters"
+                    placeholderTextColor="#6B6B6B"
+                  />
+                </View>
+
+                <View style={styles.inputWrapper}>
+                  <Mail size={20} color="#6B6B6B" style={styles.inputIcon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="College Email"
+                    value={email}
+                    onChangeText={setEmail}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    placeholderTextColor="#6B6B6B"
+                  />
+                </View>
+              </>
+            ) : (
+              <View style={styles.inputWrapper}>
+                <KeyRound size={20} color="#6B6B6B" style={styles.inputIcon} />
+                <TextInput
+                  style={[styles.input, styles.codeInput]}
+                  placeholder="6-digit code"
+                  value={code}
+                  onChangeText={(text) => setCode(text.replace(/[^0-9]/g, ''))}
+                  keyboardType="number-pad"
+                  maxLength={6}
+                  autoComplete="one-time-code"
+                  textContentType="oneTimeCode"
+                  placeholderTextColor="#6B6B6B"
+                />
+              </View>
+            )}
           </View>
 
-          <TouchableOpacity
-            style={[styles.loginButton, (!uid || !email || loading) && styles.disabledButton]}
-            onPress={handleLogin}
-            disabled={!uid || !email || loading}
-          >
-            <Text style={styles.loginButtonText}>
-              {loading ? 'Logging in...' : 'Login to Portal'}
-            </Text>
-          </TouchableOpacity>
+          {step === 'code' && (
+            <TouchableOpacity
+              style={styles.rememberRow}
+              onPress={() => setRemember(prev => !prev)}
+            >
+              {remember ? (
+                <SquareCheck size={20} color="#007AFF" />
+              ) : (
+                <Square size={20} color="#6B6B6B" />
+              )}
+              <Text style={styles.rememberText}>Remember me on this device</Text>
+            </TouchableOpacity>
+          )}
+
+          {step === 'details' ? (
+            <TouchableOpacity
+              style={[styles.loginButton, (!uid || !email || loading || cooldown > 0 || lockout.remaining > 0) && styles.disabledButton]}
+              onPress={handleSendCode}
+              disabled={!uid || !email || loading || cooldown > 0 || lockout.remaining > 0}
+            >
+              <Text style={styles.loginButtonText}>
+                {loading
+                  ? 'Sending Code...'
+                  : lockout.remaining > 0
+                    ? `Try again in ${lockout.label}`
+                    : cooldown > 0 ? `Send Code (${cooldown}s)` : 'Send Login Code'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.loginButton, (code.length < 6 || loading || lockout.remaining > 0) && styles.disabledButton]}
+                onPress={handleVerifyCode}
+                disabled={code.length < 6 || loading || lockout.remaining > 0}
+              >
+                <Text style={styles.loginButtonText}>
+                  {loading
+                    ? 'Verifying...'
+                    : lockout.remaining > 0 ? `Try again in ${lockout.label}` : 'Verify & Login'}
+                </Text>
+              </TouchableOpacity>
+
+              <View style={styles.codeActions}>
+                <TouchableOpacity onPress={changeDetails}>
+                  <Text style={styles.linkText}>Change details</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleSendCode} disabled={cooldown > 0 || loading || lockout.remaining > 0}>
+                  <Text style={[styles.linkText, (cooldown > 0 || loading || lockout.remaining > 0) && styles.linkTextDisabled]}>
+                    {cooldown > 0 ? `Resend code in ${cooldown}s` : 'Resend code'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
 
           <View style={styles.divider}>
             <View style={styles.dividerLine} />
@@ -183,6 +308,44 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1C1C1E',
   },
+  codeInput: {
+    letterSpacing: 6,
+  },
+  infoBanner: {
+    backgroundColor: '#E8F5E8',
+    borderRadius: 8,
+    padding: 12,
+  },
+  infoBannerText: {
+    fontSize: 14,
+    color: '#2E7D32',
+    textAlign: 'center',
+  },
+  codeActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  linkTextDisabled: {
+    color: '#C7C7CC',
+  },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 24,
+  },
+  rememberText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
   loginButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
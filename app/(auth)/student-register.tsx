@@ -2,22 +2,37 @@ import { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import { ArrowLeft, User, Hash, Mail, FileText } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { ArrowLeft, User, Hash, Mail, FileText, Upload, CheckCircle } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { CLASS_NAMES } from '@/lib/constants';
 
 export default function StudentRegister() {
   const [name, setName] = useState('');
   const [uid, setUid] = useState('');
   const [email, setEmail] = useState('');
   const [rollNo, setRollNo] = useState('');
+  const [className, setClassName] = useState('');
+  const [idProof, setIdProof] = useState<DocumentPicker.DocumentPickerAsset | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const router = useRouter();
   const { registerStudent } = useAuth();
 
+  const pickIdProof = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*'],
+      copyToCacheDirectory: true,
+    });
+
+    if (!result.canceled && result.assets?.[0]) {
+      setIdProof(result.assets[0]);
+    }
+  };
+
   const handleRegister = async () => {
-    if (!name || !uid || !email || !rollNo) {
-      setError('Please fill in all fields');
+    if (!name || !uid || !email || !rollNo || !className || !idProof) {
+      setError('Please fill in all fields, choose your class and attach your ID proof');
       return;
     }
 
@@ -34,10 +49,20 @@ export default function StudentRegister() {
       uid,
       email,
       rollNo,
+      className,
+      idProof: { uri: idProof.uri, name: idProof.name, mimeType: idProof.mimeType },
     });
     
     if (result.success) {
-      router.replace('/(student)');
+      Alert.alert(
+        'Registration Submitted',
+        `An admin will review your registration before you can apply to placements.${result.warning ? `\n\n${result.warning}` : ''}`
+      );
+      // Registration emails a login code, which is entered on the login screen
+      router.replace({
+        pathname: '/(auth)/student-login',
+        params: { uid, email, codeSent: '1' },
+      });
     } else {
       setError(result.error || 'Registration failed');
     }
@@ -45,7 +70,7 @@ export default function StudentRegister() {
     setLoading(false);
   };
 
-  const isFormValid = name && uid && email && rollNo;
+  const isFormValid = name && uid && email && rollNo && className && idProof;
 
   return (
     <LinearGradient
@@ -119,6 +144,28 @@ export default function StudentRegister() {
                 placeholderTextColor="#6B6B6B"
               />
             </View>
+
+            <Text style={styles.label}>Class</Text>
+            <View style={styles.classRow}>
+              {CLASS_NAMES.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.classChip, className === option && styles.classChipSelected]}
+                  onPress={() => setClassName(option)}
+                >
+                  <Text style={[styles.classChipText, className === option && styles.classChipTextSelected]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity style={styles.uploadButton} onPress={pickIdProof}>
+              {idProof ? <CheckCircle size={20} color="#34C759" /> : <Upload size={20} color="#007AFF" />}
+              <Text style={styles.uploadText} numberOfLines={1}>
+                {idProof ? idProof.name : 'Attach College ID Proof (PDF or image)'}
+              </Text>
+            </TouchableOpacity>
           </View>
 
           <TouchableOpacity
@@ -211,6 +258,50 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1C1C1E',
   },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  classRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  classChip: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  classChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  classChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  classChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  uploadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  uploadText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   registerButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
@@ -1,11 +1,13 @@
-import { Tabs } from 'expo-router';
-import { Chrome as Home, User, Building, GraduationCap } from 'lucide-react-native';
+import { Redirect, Tabs } from 'expo-router';
+import { Chrome as Home, User, Building, GraduationCap, CalendarDays } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { useRoleGuard } from '@/hooks/useRoleGuard';
 
 export default function StudentLayout() {
   const { user } = useAuth();
+  const guard = useRoleGuard('student');
   const [studentClass, setStudentClass] = useState<string>('');
   const [loading, setLoading] = useState(true);
 
@@ -47,6 +49,14 @@ export default function StudentLayout() {
   // Check if student is eligible for placements (TYIT or TYSD only)
   const isPlacementEligible = studentClass === 'TYIT' || studentClass === 'TYSD';
 
+  if (!guard.ready) {
+    return null;
+  }
+
+  if (guard.redirect) {
+    return <Redirect href={guard.redirect} />;
+  }
+
   if (loading) {
     return null; // Or a loading spinner
   }
@@ -87,6 +97,17 @@ export default function StudentLayout() {
           }}
         />
       )}
+      {isPlacementEligible && (
+        <Tabs.Screen
+          name="calendar"
+          options={{
+            title: 'Calendar',
+            tabBarIcon: ({ size, color }) => (
+              <CalendarDays size={size} color={color} />
+            ),
+          }}
+        />
+      )}
       <Tabs.Screen
         name="internships"
         options={{
@@ -0,0 +1,642 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal, Platform, Share, Linking } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ChevronLeft, ChevronRight, Rss, X, Download, CalendarDays } from 'lucide-react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '@/lib/supabase';
+import { formatDate, formatDateTime } from '@/lib/utils';
+import { CALENDAR_ENTRY_LABELS } from '@/lib/constants';
+import {
+  PlacementCalendarEntry,
+  PlacementCalendarKind,
+  CALENDAR_ENTRY_COLORS,
+  buildIcsCalendar,
+  toCalendarEntry,
+  toDayKey,
+  getMonthGrid,
+  getWeekDays,
+  groupEntriesByDay,
+} from '@/lib/calendar';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function StudentCalendarScreen() {
+  const [entries, setEntries] = useState<PlacementCalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'month' | 'week'>('month');
+  const [cursor, setCursor] = useState(new Date());
+  const [selectedDay, setSelectedDay] = useState(toDayKey(new Date()));
+  const [showFeedModal, setShowFeedModal] = useState(false);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [loadingFeed, setLoadingFeed] = useState(false);
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  const loadCalendar = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_placement_calendar');
+      if (error) throw error;
+      setEntries((data || []) as PlacementCalendarEntry[]);
+    } catch (error) {
+      console.error('Error loading placement calendar:', error);
+      Alert.alert('Error', 'Failed to load the placement calendar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveCursor = (step: number) => {
+    setCursor(prev => view === 'month'
+      ? new Date(prev.getFullYear(), prev.getMonth() + step, 1)
+      : new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + step * 7));
+  };
+
+  const goToToday = () => {
+    setCursor(new Date());
+    setSelectedDay(toDayKey(new Date()));
+  };
+
+  const saveCalendarFile = async (filename: string, contents: string) => {
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(new Blob([contents], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const fileUri = (FileSystem.documentDirectory || '/tmp/') + filename;
+    await FileSystem.writeAsStringAsync(fileUri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, { mimeType: 'text/calendar', dialogTitle: 'Add to Calendar' });
+    } else {
+      Alert.alert('File Saved', `Calendar saved to: ${fileUri}`);
+    }
+  };
+
+  // Every date of the entry's placement event goes into one file
+  const exportEvent = async (entry: PlacementCalendarEntry) => {
+    const eventEntries = entries.filter(item => item.event_id === entry.event_id);
+    const drive = eventEntries.find(item => item.kind === 'drive') || entry;
+
+    try {
+      await saveCalendarFile(
+        `${drive.title.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 30)}.ics`,
+        buildIcsCalendar(drive.title, eventEntries.map(toCalendarEntry))
+      );
+    } catch (error) {
+      console.error('Calendar export error:', error);
+      Alert.alert('Export Failed', 'Could not export this event');
+    }
+  };
+
+  const loadFeedUrl = async (reset: boolean) => {
+    setLoadingFeed(true);
+    const { data, error } = await supabase.rpc('get_calendar_feed_token', { p_reset: reset });
+    setLoadingFeed(false);
+
+    if (error || !data) {
+      console.error('Error loading calendar feed:', error);
+      Alert.alert('Error', 'Could not get your calendar link');
+      return;
+    }
+
+    setFeedUrl(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/calendar-feed?token=${data}`);
+  };
+
+  const openFeedModal = () => {
+    setFeedUrl('');
+    setShowFeedModal(true);
+    loadFeedUrl(false);
+  };
+
+  const resetFeedUrl = () => {
+    Alert.alert(
+      'Reset Link',
+      'Calendars subscribed with the current link will stop updating. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => loadFeedUrl(true) },
+      ]
+    );
+  };
+
+  // Calendar apps pick up webcal:// links as subscriptions instead of one-off downloads
+  const openFeedInCalendar = async () => {
+    try {
+      await Linking.openURL(feedUrl.replace(/^https?:/, 'webcal:'));
+    } catch (error) {
+      console.error('Error opening calendar feed:', error);
+      Alert.alert('Error', 'No calendar app could open the link. Share it and add it to your calendar instead.');
+    }
+  };
+
+  const entriesByDay = groupEntriesByDay(entries);
+  const todayKey = toDayKey(new Date());
+  const monthDays = getMonthGrid(cursor);
+  const weekDays = getWeekDays(cursor);
+  const periodLabel = view === 'month'
+    ? cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `${formatDate(weekDays[0].toISOString())} - ${formatDate(weekDays[6].toISOString())}`;
+  const listedDays = view === 'month'
+    ? [new Date(`${selectedDay}T00:00:00`)]
+    : weekDays;
+
+  const renderEntry = (entry: PlacementCalendarEntry) => (
+    <View key={entry.entry_id} style={styles.entryCard}>
+      <View style={[styles.entryStripe, { backgroundColor: CALENDAR_ENTRY_COLORS[entry.kind] }]} />
+      <View style={styles.entryBody}>
+        <Text style={[styles.entryKind, { color: CALENDAR_ENTRY_COLORS[entry.kind] }]}>
+          {CALENDAR_ENTRY_LABELS[entry.kind]}
+        </Text>
+        <Text style={styles.entryTitle}>{entry.title}</Text>
+        <Text style={styles.entryMeta}>
+          {entry.ends_at !== entry.starts_at
+            ? `${formatTime(entry.starts_at)} - ${formatTime(entry.ends_at)}`
+            : formatDateTime(entry.starts_at)}
+          {entry.location ? ` • ${entry.location}` : ''}
+        </Text>
+        {entry.description ? (
+          <Text style={styles.entryDescription} numberOfLines={2}>{entry.description}</Text>
+        ) : null}
+        <TouchableOpacity style={styles.exportButton} onPress={() => exportEvent(entry)}>
+          <Download size={14} color="#007AFF" />
+          <Text style={styles.exportButtonText}>Add to Calendar</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>My Calendar</Text>
+        <TouchableOpacity onPress={openFeedModal} style={styles.headerButton}>
+          <Rss size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.calendarCard}>
+          <View style={styles.viewToggle}>
+            {(['month', 'week'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.classOption, view === option && styles.classOptionSelected]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.classOptionText, view === option && styles.classOptionTextSelected]}>
+                  {option === 'month' ? 'Month' : 'Week'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.classOption} onPress={goToToday}>
+              <Text style={styles.classOptionText}>Today</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.periodRow}>
+            <TouchableOpacity onPress={() => moveCursor(-1)} style={styles.periodButton}>
+              <ChevronLeft size={20} color="#1C1C1E" />
+            </TouchableOpacity>
+            <Text style={styles.periodLabel}>{periodLabel}</Text>
+            <TouchableOpacity onPress={() => moveCursor(1)} style={styles.periodButton}>
+              <ChevronRight size={20} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          {view === 'month' && (
+            <>
+              <View style={styles.weekRow}>
+                {WEEKDAY_LABELS.map(label => (
+                  <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+                ))}
+              </View>
+              <View style={styles.monthGrid}>
+                {monthDays.map(day => {
+                  const key = toDayKey(day);
+                  const dayEntries = entriesByDay[key] || [];
+                  const kinds = [...new Set(dayEntries.map(entry => entry.kind))] as PlacementCalendarKind[];
+                  return (
+                    <TouchableOpacity
+                      key={key}
+                      style={[styles.dayCell, key === selectedDay && styles.dayCellSelected]}
+                      onPress={() => setSelectedDay(key)}
+                    >
+                      <Text style={[
+                        styles.dayNumber,
+                        day.getMonth() !== cursor.getMonth() && styles.dayNumberOutside,
+                        key === todayKey && styles.dayNumberToday,
+                      ]}>
+                        {day.getDate()}
+                      </Text>
+                      <View style={styles.dotRow}>
+                        {kinds.map(kind => (
+                          <View key={kind} style={[styles.dot, { backgroundColor: CALENDAR_ENTRY_COLORS[kind] }]} />
+                        ))}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <View style={styles.legend}>
+            {(Object.keys(CALENDAR_ENTRY_COLORS) as PlacementCalendarKind[]).map(kind => (
+              <View key={kind} style={styles.legendItem}>
+                <View style={[styles.dot, { backgroundColor: CALENDAR_ENTRY_COLORS[kind] }]} />
+                <Text style={styles.legendText}>{CALENDAR_ENTRY_LABELS[kind]}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {loading ? (
+          <Text style={styles.loadingText}>Loading calendar...</Text>
+        ) : (
+          <View style={styles.dayList}>
+            {listedDays.map(day => {
+              const key = toDayKey(day);
+              const dayEntries = entriesByDay[key] || [];
+              return (
+                <View key={key} style={styles.daySection}>
+                  <Text style={[styles.daySectionTitle, key === todayKey && styles.daySectionToday]}>
+                    {day.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                  </Text>
+                  {dayEntries.length === 0 ? (
+                    <Text style={styles.emptyDayText}>Nothing scheduled</Text>
+                  ) : (
+                    dayEntries.map(renderEntry)
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <Modal visible={showFeedModal} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Subscribe to Calendar</Text>
+            <TouchableOpacity onPress={() => setShowFeedModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.feedIntro}>
+              <CalendarDays size={32} color="#667eea" />
+              <Text style={styles.sublabel}>
+                Add this link to Google Calendar, Outlook or Apple Calendar to see the drives you
+                can apply to, their deadlines, your interviews and when your offers expire. Your
+                calendar app keeps it up to date.
+              </Text>
+            </View>
+
+            <Text style={styles.label}>Your calendar link</Text>
+            <Text style={styles.feedUrl} selectable>
+              {loadingFeed || !feedUrl ? 'Loading...' : feedUrl}
+            </Text>
+            <Text style={styles.hint}>Anyone with this link can see your calendar. Don't share it publicly.</Text>
+
+            <TouchableOpacity
+              style={[styles.saveButton, !feedUrl && styles.disabledButton]}
+              onPress={openFeedInCalendar}
+              disabled={!feedUrl}
+            >
+              <Text style={styles.saveButtonText}>Open in Calendar App</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, !feedUrl && styles.disabledButton]}
+              onPress={() => Share.share({ message: feedUrl })}
+              disabled={!feedUrl}
+            >
+              <Text style={styles.secondaryButtonText}>Share Link</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, (!feedUrl || loadingFeed) && styles.disabledButton]}
+              onPress={resetFeedUrl}
+              disabled={!feedUrl || loadingFeed}
+            >
+              <Text style={styles.resetButtonText}>Reset Link</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  calendarCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  classOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  classOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  classOptionText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    fontWeight: '500',
+  },
+  classOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  periodButton: {
+    padding: 6,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  periodLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+  },
+  monthGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  dayCellSelected: {
+    backgroundColor: '#E8F0FE',
+  },
+  dayNumber: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  dayNumberOutside: {
+    color: '#C7C7CC',
+  },
+  dayNumberToday: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+  },
+  dotRow: {
+    flexDirection: 'row',
+    gap: 2,
+    height: 6,
+    marginTop: 2,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6B6B6B',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  dayList: {
+    gap: 16,
+    paddingBottom: 40,
+  },
+  daySection: {
+    gap: 8,
+  },
+  daySectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  daySectionToday: {
+    textDecorationLine: 'underline',
+  },
+  emptyDayText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  entryCard: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  entryStripe: {
+    width: 4,
+  },
+  entryBody: {
+    flex: 1,
+    padding: 12,
+  },
+  entryKind: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
+  entryDescription: {
+    fontSize: 13,
+    color: '#3A3A3C',
+    marginTop: 4,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 8,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+  },
+  modalContent: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  feedIntro: {
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  sublabel: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  feedUrl: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 13,
+    color: '#1C1C1E',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 6,
+    marginBottom: 20,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -127,6 +127,19 @@ export default function StudentDashboard() {
         contentContainerStyle={styles.contentContainer}
         showsVerticalScrollIndicator={false}
       >
+        {user?.registrationStatus && user.registrationStatus !== 'approved' && (
+          <View style={styles.registrationBanner}>
+            <Text style={styles.registrationBannerTitle}>
+              {user.registrationStatus === 'rejected' ? 'Registration Rejected' : 'Registration Pending Approval'}
+            </Text>
+            <Text style={styles.registrationBannerText}>
+              {user.registrationStatus === 'rejected'
+                ? `Reason: ${user.rejectionReason || 'Not specified'}. Please contact the placement office.`
+                : 'An admin is reviewing your details and ID proof. You can apply to placements once approved.'}
+            </Text>
+          </View>
+        )}
+
         {/* Notifications Section */}
         {notifications.length > 0 && (
           <View style={styles.notificationsSection}>
@@ -184,6 +197,24 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 20,
   },
+  registrationBanner: {
+    backgroundColor: '#FFF4E5',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9500',
+  },
+  registrationBannerTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  registrationBannerText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+  },
   welcomeText: {
     fontSize: 16,
     color: '#FFFFFF',
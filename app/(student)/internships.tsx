@@ -3,7 +3,7 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'rea
 import { LinearGradient } from 'expo-linear-gradient';
 import { GraduationCap, Upload, FileText, Bell, Lock } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, uploadFile, getPublicUrl } from '@/lib/supabase';
+import { supabase, uploadFile } from '@/lib/supabase';
 import { STATIC_ASSIGNMENTS } from '@/lib/constants';
 import { formatDate, getStatusColor } from '@/lib/utils';
 import * as DocumentPicker from 'expo-document-picker';
@@ -138,7 +138,7 @@ export default function StudentInternshipsScreen() {
 
       const file = result.assets[0];
       const fileExtension = file.name.split('.').pop() || 'pdf';
-      const fileName = `${user.id}_${assignmentType}_${Date.now()}.${fileExtension}`;
+      const fileName = `${user.id}/${assignmentType}_${Date.now()}.${fileExtension}`;
 
       // Check if Supabase is configured
       const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -176,15 +176,15 @@ export default function StudentInternshipsScreen() {
       console.log('Blob created, size:', blob.size);
 
       // Upload to Supabase storage using helper function
-      const { publicUrl } = await uploadFile('student-documents', fileName, blob, {
+      const { fileUrl } = await uploadFile('student-documents', fileName, blob, {
         contentType: file.mimeType || 'application/pdf',
       });
 
       console.log(`Successfully uploaded to bucket: ${actualBucket}`);
 
-      console.log('File URL:', publicUrl);
+      console.log('File URL:', fileUrl);
 
-      if (!publicUrl) {
+      if (!fileUrl) {
         Alert.alert('Error', 'Failed to get file URL after upload');
         setUploading(null);
         return;
@@ -196,7 +196,7 @@ export default function StudentInternshipsScreen() {
         .upsert({
           student_id: user.id,
           assignment_type: assignmentType,
-          file_url: publicUrl,
+          file_url: fileUrl,
           submission_status: 'submitted',
           submitted_at: new Date().toISOString(),
         }, { onConflict: 'student_id,assignment_type' });
@@ -207,7 +207,7 @@ export default function StudentInternshipsScreen() {
         throw error;
       }
 
-      console.log('Upload successful:', { title, publicUrl });
+      console.log('Upload successful:', { title, fileUrl });
       Alert.alert('Success', `${title} uploaded successfully!`);
       loadSubmissions();
     } catch (error) {
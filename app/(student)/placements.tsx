@@ -1,16 +1,59 @@
 import { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Modal, Platform } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Modal, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as WebBrowser from 'expo-web-browser';
 import * as ExpoLinking from 'expo-linking';
-import { Briefcase, Calendar, Building, Users, FileText, Upload, X, CheckCircle, Bell } from 'lucide-react-native';
+import { Briefcase, Calendar, Building, Users, FileText, Upload, X, CheckCircle, Bell, CalendarClock } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, uploadFile } from '@/lib/supabase';
-import { formatDate, getStatusColor, getRequirementLabel } from '@/lib/utils';
+import { useNow } from '@/hooks/useNow';
+import { supabase, uploadFile, getSignedUrl } from '@/lib/supabase';
+import {
+  formatDate,
+  formatDateTime,
+  formatTimeRemaining,
+  getPlacementEventStatus,
+  getStatusColor,
+  getRequirementLabel,
+  describeRequirementType,
+  isMimeTypeAllowed,
+  RequirementType,
+  describeEligibilityCriteria,
+  EligibilityCriteria,
+  formatCtc,
+  ApplicationQuestion,
+  ApplicationAnswer,
+  getApplicationAnswerError,
+} from '@/lib/utils';
+import { PLACEMENT_TIER_LABELS, ROUND_RESULT_LABELS, SUBMISSION_STATUS_LABELS } from '@/lib/constants';
 import * as DocumentPicker from 'expo-document-picker';
 
 const openURL = (url: string) => Platform.OS === 'web' ? WebBrowser.openBrowserAsync(url) : ExpoLinking.openURL(url);
 
+// Stored document links need a fresh signed URL each time they are opened
+const openDocument = async (url: string) => {
+  try {
+    openURL(await getSignedUrl(url));
+  } catch (error) {
+    console.error('Error opening document:', error);
+    Alert.alert('Error', 'Could not open the document. Please try again.');
+  }
+};
+
+// Where the student stands in an event's recruitment rounds
+const getCurrentStage = (
+  application: PlacementApplication,
+  rounds: { id: string; name: string }[]
+) => {
+  const index = rounds.findIndex(round => round.id === application.current_round_id);
+  if (application.application_status === 'accepted') return 'Selected';
+  if (application.application_status === 'withdrawn') return 'Withdrawn';
+  if (application.application_status === 'rejected') {
+    return index >= 0 ? `Not selected after ${rounds[index].name}` : 'Not selected';
+  }
+  if (index < 0) return `Waiting for ${rounds[0].name} (Round 1 of ${rounds.length})`;
+  return `Current stage: ${rounds[index].name} (Round ${index + 1} of ${rounds.length})`;
+};
+
 interface PlacementEvent {
   id: string;
   title: string;
@@ -20,18 +63,65 @@ interface PlacementEvent {
   application_deadline: string;
   requirements: string;
   eligible_classes: string[];
-  additional_requirements: { type: string; required: boolean }[];
+  eligibility_criteria?: EligibilityCriteria;
+  tier?: 'regular' | 'dream' | 'super_dream';
+  students_pick_slots?: boolean;
+  additional_requirements: EventRequirement[];
+  application_questions?: ApplicationQuestion[];
   bucket_name: string;
+  status: 'open' | 'closed' | 'completed';
   is_active: boolean;
   created_at: string;
+  placement_rounds?: { id: string; name: string; sequence: number }[];
+}
+
+interface EventRequirement {
+  id: string;
+  type: string;
+  required: boolean;
+  definition: RequirementType | null;
 }
 
 interface PlacementApplication {
   id: string;
   placement_event_id: string;
-  application_status: 'pending' | 'applied' | 'accepted' | 'rejected';
+  application_status: 'pending' | 'applied' | 'shortlisted' | 'waitlisted' | 'accepted' | 'rejected' | 'withdrawn';
   applied_at: string;
   admin_notes?: string;
+  status_reason?: string | null;
+  status_changed_at?: string | null;
+  current_round_id?: string | null;
+  placement_round_results?: {
+    round_id: string;
+    result: 'pending' | 'cleared' | 'not_cleared' | 'absent';
+    remarks?: string;
+  }[];
+  placement_offers?: PlacementOffer | null;
+  interview_bookings?: {
+    id: string;
+    interview_slots: { starts_at: string; ends_at: string; panel: string | null; location: string | null } | null;
+  } | null;
+}
+
+interface OpenInterviewSlot {
+  slot_id: string;
+  starts_at: string;
+  ends_at: string;
+  panel: string | null;
+  location: string | null;
+  remaining: number;
+  clash: string | null;
+}
+
+interface PlacementOffer {
+  id: string;
+  role: string;
+  ctc_lpa: number;
+  location?: string | null;
+  joining_date?: string | null;
+  expires_at: string;
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
+  decline_reason?: string | null;
 }
 
 interface Notification {
@@ -55,8 +145,26 @@ export default function PlacementsScreen() {
   const [selectedEvent, setSelectedEvent] = useState<PlacementEvent | null>(null);
   const [uploading, setUploading] = useState<string | null>(null);
   const [submittedRequirements, setSubmittedRequirements] = useState<{[key: string]: boolean}>({});
-  const [requirementUrls, setRequirementUrls] = useState<{ [key: string]: string }>({});
+  const [requirementUrls, setRequirementUrls] = useState<{ [key: string]: string[] }>({});
+  const [requirementAnswers, setRequirementAnswers] = useState<{ [key: string]: string }>({});
+  const [requirementReviews, setRequirementReviews] = useState<{ [key: string]: { status: string; feedback: string | null } }>({});
   const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [withdrawingApplication, setWithdrawingApplication] = useState<PlacementApplication | null>(null);
+  const [withdrawReason, setWithdrawReason] = useState('');
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [decliningOffer, setDecliningOffer] = useState<PlacementOffer | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [respondingOffer, setRespondingOffer] = useState<string | null>(null);
+  // Criteria each event's recruiter has that the student doesn't meet, checked by the database
+  const [eligibility, setEligibility] = useState<Record<string, { reasons: string[]; overridden: boolean }>>({});
+  // Why the placement policy stops the student applying to an event once they are placed
+  const [policyBlocks, setPolicyBlocks] = useState<Record<string, string>>({});
+  const [slotEvent, setSlotEvent] = useState<PlacementEvent | null>(null);
+  const [openSlots, setOpenSlots] = useState<OpenInterviewSlot[]>([]);
+  const [bookingSlot, setBookingSlot] = useState<string | null>(null);
+  const [applicationFormEvent, setApplicationFormEvent] = useState<PlacementEvent | null>(null);
+  const [formAnswers, setFormAnswers] = useState<Record<string, ApplicationAnswer>>({});
+  const now = useNow();
 
   const uploadOfferLetter = async (eventId: string, applicationId: string) => {
     if (!user?.id) return;
@@ -76,7 +184,7 @@ export default function PlacementsScreen() {
 
       const file = result.assets[0];
       const fileExtension = file.name.split('.').pop() || 'pdf';
-      const fileName = `${user.id}_offer_letter_${Date.now()}.${fileExtension}`;
+      const fileName = `${user.id}/offer_letter_${Date.now()}.${fileExtension}`;
 
       // Check if Supabase is configured
       const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -91,14 +199,14 @@ export default function PlacementsScreen() {
       const response = await fetch(file.uri);
       const blob = await response.blob();
 
-      const { publicUrl } = await uploadFile('placement-offer-letters', fileName, blob, {
+      const { fileUrl } = await uploadFile('placement-offer-letters', fileName, blob, {
         contentType: file.mimeType || 'application/pdf',
       });
 
       // Update application with offer letter URL
       const { error } = await supabase
         .from('placement_applications')
-        .update({ offer_letter_url: publicUrl })
+        .update({ offer_letter_url: fileUrl })
         .eq('id', applicationId);
 
       if (error) {
@@ -128,6 +236,7 @@ export default function PlacementsScreen() {
   useEffect(() => {
     if (studentClass) {
       loadPlacementEvents();
+      loadEligibility();
       loadMyApplications();
       loadNotifications();
       setupRealtimeSubscriptions();
@@ -232,6 +341,8 @@ export default function PlacementsScreen() {
         },
         () => {
           loadPlacementEvents();
+          loadEligibility();
+          loadPolicyBlocks();
         }
       )
       .subscribe();
@@ -252,7 +363,13 @@ export default function PlacementsScreen() {
             id,
             type,
             description,
-            is_required
+            is_required,
+            requirement_types (*)
+          ),
+          placement_rounds (
+            id,
+            name,
+            sequence
           )
         `)
         .eq('is_active', true)
@@ -260,19 +377,14 @@ export default function PlacementsScreen() {
 
       if (error) throw error;
 
-      // Filter events based on student's class
-      const filteredEvents = (eventsData || []).filter(event => {
-        // If no eligible_classes specified, show to all students
-        if (!event.eligible_classes || event.eligible_classes.length === 0) {
-          return true;
-        }
-        // Check if student's class is in eligible classes
-        return event.eligible_classes.includes(studentClass);
-      }).map(event => ({
+      // Events for other classes are filtered out when rendering, unless the student has an override
+      const filteredEvents = (eventsData || []).map(event => ({
         ...event,
         additional_requirements: event.placement_requirements?.map((req: any) => ({
+          id: req.id,
           type: req.type,
-          required: req.is_required
+          required: req.is_required,
+          definition: req.requirement_types || null,
         })) || []
       }));
 
@@ -285,6 +397,36 @@ export default function PlacementsScreen() {
     }
   };
 
+  const loadEligibility = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_placement_eligibility');
+
+      if (error) throw error;
+
+      setEligibility((data || []).reduce((acc: Record<string, { reasons: string[]; overridden: boolean }>, row: any) => {
+        acc[row.event_id] = { reasons: row.reasons || [], overridden: row.overridden };
+        return acc;
+      }, {}));
+    } catch (error) {
+      console.error('Error loading eligibility:', error);
+    }
+  };
+
+  const loadPolicyBlocks = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_placement_policy_blocks');
+
+      if (error) throw error;
+
+      setPolicyBlocks((data || []).reduce((acc: Record<string, string>, row: any) => {
+        acc[row.event_id] = row.reason;
+        return acc;
+      }, {}));
+    } catch (error) {
+      console.error('Error loading placement policy:', error);
+    }
+  };
+
   const loadSubmittedRequirements = async () => {
     if (!user?.id) return;
 
@@ -301,6 +443,10 @@ export default function PlacementsScreen() {
         .from('student_requirement_submissions')
         .select(`
           file_url,
+          file_urls,
+          answer,
+          submission_status,
+          admin_feedback,
           placement_application_id,
           requirement_id,
           placement_requirements (
@@ -313,20 +459,30 @@ export default function PlacementsScreen() {
       if (error) throw error;
 
       const submitted: { [key: string]: boolean } = {};
-      const urls: { [key: string]: string } = {};
+      const urls: { [key: string]: string[] } = {};
+      const answers: { [key: string]: string } = {};
+      const reviews: { [key: string]: { status: string; feedback: string | null } } = {};
       (data || []).forEach((submission: any) => {
         const rel = submission.placement_requirements;
         if (rel?.event_id && rel?.type) {
           const key = `${rel.event_id}_${rel.type}`;
           submitted[key] = true;
-          if (submission.file_url) {
-            urls[key] = submission.file_url;
+          if (submission.file_urls?.length) {
+            urls[key] = submission.file_urls;
+          } else if (submission.file_url) {
+            urls[key] = [submission.file_url];
+          }
+          if (submission.answer) {
+            answers[key] = submission.answer;
           }
+          reviews[key] = { status: submission.submission_status, feedback: submission.admin_feedback };
         }
       });
 
       setSubmittedRequirements(submitted);
       setRequirementUrls(urls);
+      setRequirementAnswers(answers);
+      setRequirementReviews(reviews);
     } catch (error) {
       console.error('Error loading submitted requirements:', error);
     }
@@ -338,25 +494,72 @@ export default function PlacementsScreen() {
     try {
       const { data, error } = await supabase
         .from('placement_applications')
-        .select('*')
+        .select(`
+          *,
+          placement_round_results (round_id, result, remarks),
+          placement_offers (id, role, ctc_lpa, location, joining_date, expires_at, status, decline_reason),
+          interview_bookings (id, interview_slots (starts_at, ends_at, panel, location))
+        `)
         .eq('student_id', user.id);
 
       if (error) throw error;
       setApplications(data || []);
+      // Being selected or answering an offer changes what the policy lets the student apply to
+      loadPolicyBlocks();
     } catch (error) {
       console.error('Error loading applications:', error);
       setApplications([]);
     }
   };
 
-  const applyForPlacement = async (eventId: string) => {
+  // Events with application questions are answered in a form before the application is sent
+  const startApplication = (event: PlacementEvent) => {
+    if (!event.application_questions?.length) {
+      applyForPlacement(event.id);
+      return;
+    }
+    setFormAnswers({});
+    setApplicationFormEvent(event);
+  };
+
+  const toggleFormChoice = (questionId: string, option: string) => {
+    setFormAnswers(prev => {
+      const chosen = Array.isArray(prev[questionId]) ? prev[questionId] as string[] : [];
+      return {
+        ...prev,
+        [questionId]: chosen.includes(option) ? chosen.filter(choice => choice !== option) : [...chosen, option],
+      };
+    });
+  };
+
+  const submitApplicationForm = () => {
+    if (!applicationFormEvent) return;
+
+    const questions = applicationFormEvent.application_questions || [];
+    const answers = questions.reduce((acc, question) => {
+      const answer = formAnswers[question.id];
+      if (answer == null || (typeof answer === 'string' && !answer.trim())) return acc;
+      acc[question.id] = question.kind === 'number' ? Number(answer) : answer;
+      return acc;
+    }, {} as Record<string, ApplicationAnswer>);
+
+    const answerError = getApplicationAnswerError(questions, answers);
+    if (answerError) {
+      Alert.alert('Check Your Answers', answerError);
+      return;
+    }
+
+    applyForPlacement(applicationFormEvent.id, answers);
+  };
+
+  const applyForPlacement = async (eventId: string, answers: Record<string, ApplicationAnswer> = {}) => {
     if (!user?.id) {
       Alert.alert('Error', 'Please log in to apply.');
       return;
     }
 
-    if (hasAcceptedOffer) {
-      Alert.alert('Not Eligible', 'You have already been accepted for a placement. You are not eligible to apply for further events.');
+    if (awaitingApproval) {
+      Alert.alert('Registration Not Approved', 'You can apply to placements once an admin approves your registration.');
       return;
     }
 
@@ -369,6 +572,7 @@ export default function PlacementsScreen() {
           placement_event_id: eventId,
           student_id: user.id,
           application_status: 'applied',
+          answers,
         });
 
       if (error) {
@@ -376,10 +580,20 @@ export default function PlacementsScreen() {
           Alert.alert('Already Applied', 'You have already applied for this placement.');
           return;
         }
+        // Raised by the database when the event is closed, its deadline has passed, the
+        // student doesn't meet its eligibility criteria or the placement policy stops them
+        if (error.code === 'P0001') {
+          Alert.alert('Cannot Apply', error.message);
+          loadPlacementEvents();
+          loadEligibility();
+          loadPolicyBlocks();
+          return;
+        }
         throw error;
       }
 
       Alert.alert('Success', 'Application submitted successfully!');
+      setApplicationFormEvent(null);
       loadMyApplications();
     } catch (error) {
       console.error('Application error:', error);
@@ -389,96 +603,272 @@ export default function PlacementsScreen() {
     }
   };
 
-  const getApplicationStatus = (eventId: string) => {
-    return applications.find(app => app.placement_event_id === eventId);
+  const withdrawApplication = async () => {
+    if (!withdrawingApplication) return;
+
+    if (!withdrawReason.trim()) {
+      Alert.alert('Reason Required', 'Please tell us why you are withdrawing.');
+      return;
+    }
+
+    try {
+      setWithdrawing(true);
+
+      // The database refuses withdrawals once the offer is released
+      const { error } = await supabase
+        .from('placement_applications')
+        .update({ application_status: 'withdrawn', status_reason: withdrawReason.trim() })
+        .eq('id', withdrawingApplication.id);
+
+      if (error) {
+        Alert.alert('Cannot Withdraw', error.message || 'Failed to withdraw the application.');
+        return;
+      }
+
+      Alert.alert('Withdrawn', 'Your application has been withdrawn.');
+      setWithdrawingApplication(null);
+      setWithdrawReason('');
+      loadMyApplications();
+    } catch (error) {
+      console.error('Withdraw error:', error);
+      Alert.alert('Error', 'Failed to withdraw the application.');
+    } finally {
+      setWithdrawing(false);
+    }
   };
-  const hasAcceptedOffer = applications.some(app => app.application_status === 'accepted');
-  const uploadRequirement = async (eventId: string, requirementType: string, bucketName: string) => {
-    if (!user?.id) return;
+
+  const respondToOffer = async (offer: PlacementOffer, accept: boolean) => {
+    if (!accept && !declineReason.trim()) {
+      Alert.alert('Reason Required', 'Please tell us why you are declining the offer.');
+      return;
+    }
 
     try {
-      setUploading(requirementType);
+      setRespondingOffer(offer.id);
 
-      // Use expo-document-picker to select file
-      const result = await DocumentPicker.getDocumentAsync({
-        type: ['application/pdf', 'image/*', 'video/*'],
-        copyToCacheDirectory: true,
+      // The database checks the offer is still pending and hasn't expired
+      const { error } = await supabase.rpc('respond_to_offer', {
+        p_offer_id: offer.id,
+        p_accept: accept,
+        p_reason: accept ? null : declineReason.trim(),
       });
 
-      if (result.canceled || !result.assets?.[0]) {
-        setUploading(null);
+      if (error) {
+        Alert.alert('Cannot Respond', error.message || 'Failed to respond to the offer.');
+        loadMyApplications();
         return;
       }
 
-      const file = result.assets[0];
-      const fileExtension = file.name.split('.').pop() || 'pdf';
-      const fileName = `${user.id}_${requirementType}_${Date.now()}.${fileExtension}`;
+      Alert.alert(accept ? 'Offer Accepted' : 'Offer Declined', accept
+        ? 'Congratulations! The placement cell has been told you accepted.'
+        : 'The placement cell has been told you declined the offer.');
+      setDecliningOffer(null);
+      setDeclineReason('');
+      loadMyApplications();
+    } catch (error) {
+      console.error('Offer response error:', error);
+      Alert.alert('Error', 'Failed to respond to the offer.');
+    } finally {
+      setRespondingOffer(null);
+    }
+  };
 
-      // Upload file to Supabase storage
-      const response = await fetch(file.uri);
-      const blob = await response.blob();
+  const openSlotPicker = async (event: PlacementEvent) => {
+    try {
+      // Slots that are full or clash with another interview come back too, so the student sees why
+      const { data, error } = await supabase.rpc('get_open_interview_slots', { p_event_id: event.id });
 
-      const { publicUrl } = await uploadFile('placement-offer-letters', fileName, blob, {
-        contentType: file.mimeType || 'application/pdf',
-      });
+      if (error) {
+        Alert.alert('Cannot Pick a Slot', error.message || 'Failed to load interview slots.');
+        return;
+      }
+
+      setOpenSlots(data || []);
+      setSlotEvent(event);
+    } catch (error) {
+      console.error('Error loading interview slots:', error);
+      Alert.alert('Error', 'Failed to load interview slots.');
+    }
+  };
+
+  const bookInterviewSlot = async (slot: OpenInterviewSlot) => {
+    try {
+      setBookingSlot(slot.slot_id);
+
+      const { error } = await supabase.rpc('book_interview_slot', { p_slot_id: slot.slot_id });
 
-      // Get the application for this event
-      const application = applications.find(app => app.placement_event_id === eventId);
-      if (!application) {
-        Alert.alert('Error', 'Please apply for this placement first before uploading requirements.');
+      if (error) {
+        Alert.alert('Cannot Book Slot', error.message || 'Failed to book the slot.');
+        if (slotEvent) openSlotPicker(slotEvent);
         return;
       }
 
-      // Get the placement requirement record
-      const { data: requirementData, error: reqError } = await supabase
-        .from('placement_requirements')
-        .select('id')
-        .eq('event_id', eventId)
-        .eq('type', requirementType)
-        .single();
+      Alert.alert('Interview Booked', `Your interview is on ${formatDateTime(slot.starts_at)}.`);
+      setSlotEvent(null);
+      loadMyApplications();
+    } catch (error) {
+      console.error('Slot booking error:', error);
+      Alert.alert('Error', 'Failed to book the slot.');
+    } finally {
+      setBookingSlot(null);
+    }
+  };
+
+  const confirmAcceptOffer = (offer: PlacementOffer) => {
+    Alert.alert(
+      'Accept Offer',
+      `Accept the ${offer.role} offer at ${formatCtc(offer.ctc_lpa)}? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Accept', onPress: () => respondToOffer(offer, true) },
+      ]
+    );
+  };
+
+  const canWithdraw = (application: PlacementApplication) =>
+    ['pending', 'applied', 'shortlisted', 'waitlisted'].includes(application.application_status);
+
+  const getApplicationStatus = (eventId: string) => {
+    return applications.find(app => app.placement_event_id === eventId);
+  };
+  // Self-registered students can browse events but only apply once an admin approves them
+  const awaitingApproval = user?.registrationStatus !== undefined && user.registrationStatus !== 'approved';
+  // Stores the student's files or answer for one of an event's requirements. The database checks
+  // them against the requirement type again, so its message is shown when they don't fit.
+  const saveRequirementSubmission = async (
+    eventId: string,
+    requirement: EventRequirement,
+    values: { file_url: string | null; file_urls: string[]; answer: string | null }
+  ) => {
+    const application = applications.find(app => app.placement_event_id === eventId);
+    if (!application) {
+      Alert.alert('Error', 'Please apply for this placement first before uploading requirements.');
+      return false;
+    }
+
+    const label = getRequirementLabel(requirement.type, requirement.definition ? [requirement.definition] : []);
+    const { error } = await supabase
+      .from('student_requirement_submissions')
+      .upsert({
+        placement_application_id: application.id,
+        requirement_id: requirement.id,
+        ...values,
+        submission_status: 'pending',
+        submitted_at: new Date().toISOString(),
+      }, { onConflict: 'placement_application_id,requirement_id' });
+
+    if (error) {
+      console.error('Error saving requirement:', error);
+      Alert.alert('Error', error.code === 'P0001' ? error.message : `Failed to submit ${label}. Please try again.`);
+      return false;
+    }
+
+    const key = `${eventId}_${requirement.type}`;
+    setSubmittedRequirements(prev => ({ ...prev, [key]: true }));
+    setRequirementUrls(prev => ({ ...prev, [key]: values.file_urls }));
+    setRequirementAnswers(prev => ({ ...prev, [key]: values.answer || '' }));
+    // A new file or answer goes back to the placement cell for review
+    setRequirementReviews(prev => ({ ...prev, [key]: { status: 'pending', feedback: prev[key]?.feedback ?? null } }));
+    Alert.alert('Success', `${label} submitted successfully!`);
+    return true;
+  };
+
+  const uploadRequirement = async (eventId: string, requirement: EventRequirement) => {
+    if (!user?.id) return;
+
+    const definition = requirement.definition;
+    const label = getRequirementLabel(requirement.type, definition ? [definition] : []);
+    if (!applications.some(app => app.placement_event_id === eventId)) {
+      Alert.alert('Error', 'Please apply for this placement first before uploading requirements.');
+      return;
+    }
+
+    try {
+      setUploading(requirement.type);
+
+      const result = await DocumentPicker.getDocumentAsync({
+        type: definition?.allowed_mime_types.length ? definition.allowed_mime_types : '*/*',
+        multiple: !!definition?.allow_multiple,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.length) return;
 
-      if (reqError || !requirementData) {
-        throw new Error('Requirement not found');
+      const files = result.assets;
+      if (definition) {
+        if (files.length > 10) {
+          Alert.alert('Too Many Files', `Upload at most 10 files for ${label}.`);
+          return;
+        }
+        const wrongType = files.find(file => !isMimeTypeAllowed(file.mimeType, definition.allowed_mime_types));
+        if (wrongType) {
+          Alert.alert('Wrong File Type', `${wrongType.name} can't be used. ${label} takes ${describeRequirementType(definition)}.`);
+          return;
+        }
+        const tooLarge = files.find(file => (file.size ?? 0) > definition.max_size_mb * 1024 * 1024);
+        if (tooLarge) {
+          Alert.alert('File Too Large', `${tooLarge.name} is over the ${definition.max_size_mb} MB limit for ${label}.`);
+          return;
+        }
       }
 
-      // Store the student's requirement submission
-      const { error } = await supabase
-        .from('student_requirement_submissions')
-        .upsert({
-          placement_application_id: application.id,
-          requirement_id: requirementData.id,
-          file_url: publicUrl,
-          submission_status: 'pending',
-          submitted_at: new Date().toISOString(),
-        }, { onConflict: 'placement_application_id,requirement_id' });
+      const fileUrls: string[] = [];
+      for (const [index, file] of files.entries()) {
+        const fileExtension = file.name.split('.').pop() || 'pdf';
+        const fileName = `${user.id}/${eventId}_${requirement.type}_${Date.now()}_${index + 1}.${fileExtension}`;
 
-      if (error) throw error;
+        const response = await fetch(file.uri);
+        const blob = await response.blob();
 
-      Alert.alert('Success', `${getRequirementLabel(requirementType)} uploaded successfully!`);
-      
-      // Update local state to reflect the upload
-      const key = `${eventId}_${requirementType}`;
-      setSubmittedRequirements(prev => ({ ...prev, [key]: true }));
-      if (publicUrl) {
-        setRequirementUrls(prev => ({ ...prev, [key]: publicUrl }));
+        const { fileUrl } = await uploadFile('placement-requirements', fileName, blob, {
+          contentType: file.mimeType || 'application/octet-stream',
+        });
+        fileUrls.push(fileUrl);
       }
+
+      await saveRequirementSubmission(eventId, requirement, { file_url: fileUrls[0], file_urls: fileUrls, answer: null });
     } catch (error) {
       console.error('Upload error:', error);
-      Alert.alert('Error', `Failed to upload ${getRequirementLabel(requirementType)}. Please try again.`);
+      Alert.alert('Error', `Failed to upload ${label}. Please try again.`);
     } finally {
       setUploading(null);
     }
   };
 
+  const submitRequirementAnswer = async (eventId: string, requirement: EventRequirement) => {
+    const definition = requirement.definition;
+    const label = getRequirementLabel(requirement.type, definition ? [definition] : []);
+    const answer = (requirementAnswers[`${eventId}_${requirement.type}`] || '').trim();
+
+    if (!answer) {
+      Alert.alert('Error', `Please enter your ${definition?.answer_kind === 'url' ? 'link' : 'answer'} for ${label}`);
+      return;
+    }
+    if (answer.length > 5000) {
+      Alert.alert('Error', 'Answers can be at most 5000 characters');
+      return;
+    }
+    if (definition?.answer_kind === 'url' && !/^https?:\/\/\S+$/i.test(answer)) {
+      Alert.alert('Error', 'Enter a link starting with http:// or https://');
+      return;
+    }
+
+    setUploading(requirement.type);
+    await saveRequirementSubmission(eventId, requirement, { file_url: null, file_urls: [], answer });
+    setUploading(null);
+  };
+
   const viewRequirements = (event: PlacementEvent) => {
     setSelectedEvent(event);
     loadSubmittedRequirements();
     setShowRequirementsModal(true);
   };
 
-  const isDeadlinePassed = (deadline: string) => {
-    return new Date(deadline) < new Date();
-  };
+  // Completed events stay visible only to students who applied to them
+  const visibleEvents = events.filter(event =>
+    (event.status !== 'completed' || getApplicationStatus(event.id))
+    && (!event.eligible_classes?.length || event.eligible_classes.includes(studentClass) || eligibility[event.id]?.overridden)
+  );
 
   if (loading) {
     return (
@@ -510,6 +900,19 @@ export default function PlacementsScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {awaitingApproval && (
+          <View style={styles.registrationBanner}>
+            <Text style={styles.registrationBannerTitle}>
+              {user?.registrationStatus === 'rejected' ? 'Registration Rejected' : 'Registration Pending Approval'}
+            </Text>
+            <Text style={styles.registrationBannerText}>
+              {user?.registrationStatus === 'rejected'
+                ? `Reason: ${user.rejectionReason || 'Not specified'}. Please contact the placement office.`
+                : 'You can apply to placements once an admin reviews your registration.'}
+            </Text>
+          </View>
+        )}
+
         {/* Notifications Section */}
         {notifications.length > 0 && (
           <View style={styles.notificationsSection}>
@@ -528,7 +931,7 @@ export default function PlacementsScreen() {
           </View>
         )}
 
-        {events.length === 0 ? (
+        {visibleEvents.length === 0 ? (
           <View style={styles.emptyState}>
             <Briefcase size={64} color="#6B6B6B" />
             <Text style={styles.emptyStateTitle}>No Placements Available</Text>
@@ -538,9 +941,13 @@ export default function PlacementsScreen() {
           </View>
         ) : (
           <View style={styles.eventsList}>
-            {events.map((event) => {
+            {visibleEvents.map((event) => {
               const application = getApplicationStatus(event.id);
-              const deadlinePassed = isDeadlinePassed(event.application_deadline);
+              const deadlinePassed = getPlacementEventStatus(event) !== 'open';
+              const rounds = [...(event.placement_rounds || [])].sort((a, b) => a.sequence - b.sequence);
+              const criteria = describeEligibilityCriteria(event.eligibility_criteria);
+              const ineligibleReasons = eligibility[event.id]?.overridden ? [] : eligibility[event.id]?.reasons || [];
+              const policyBlock = policyBlocks[event.id];
 
               return (
                 <View key={event.id} style={styles.eventCard}>
@@ -550,6 +957,9 @@ export default function PlacementsScreen() {
                       <View style={styles.companyDetails}>
                         <Text style={styles.companyName}>{event.company_name}</Text>
                         <Text style={styles.eventTitle}>{event.title}</Text>
+                        {event.tier && event.tier !== 'regular' && (
+                          <Text style={styles.tierText}>{PLACEMENT_TIER_LABELS[event.tier]} Company</Text>
+                        )}
                       </View>
                     </View>
                     {application && (
@@ -567,15 +977,22 @@ export default function PlacementsScreen() {
                     <View style={styles.detailItem}>
                       <Calendar size={16} color="#6B6B6B" />
                       <Text style={styles.detailText}>
-                        Event: {formatDate(event.event_date)}
+                        Event: {formatDateTime(event.event_date)}
                       </Text>
                     </View>
                     <View style={styles.detailItem}>
                       <Calendar size={16} color="#6B6B6B" />
                       <Text style={styles.detailText}>
-                        Deadline: {formatDate(event.application_deadline)}
+                        Deadline: {formatDateTime(event.application_deadline)}
                       </Text>
                     </View>
+                    {!application && (
+                      <View style={[styles.countdownBadge, deadlinePassed && styles.countdownBadgeClosed]}>
+                        <Text style={[styles.countdownText, deadlinePassed && styles.countdownTextClosed]}>
+                          {deadlinePassed ? 'Applications closed' : formatTimeRemaining(event.application_deadline, now)}
+                        </Text>
+                      </View>
+                    )}
                   </View>
 
                   <View style={styles.requirementsSection}>
@@ -583,6 +1000,37 @@ export default function PlacementsScreen() {
                     <Text style={styles.requirementsText}>{event.requirements}</Text>
                   </View>
 
+                  {criteria.length > 0 && (
+                    <View style={styles.requirementsSection}>
+                      <Text style={styles.requirementsTitle}>Eligibility:</Text>
+                      {criteria.map((line) => (
+                        <Text key={line} style={styles.requirementsText}>• {line}</Text>
+                      ))}
+                    </View>
+                  )}
+
+                  {!application && ineligibleReasons.length > 0 && (
+                    <View style={styles.ineligibleSection}>
+                      <Text style={styles.ineligibleTitle}>Why you're not eligible</Text>
+                      {ineligibleReasons.map((reason) => (
+                        <Text key={reason} style={styles.ineligibleReason}>• {reason}</Text>
+                      ))}
+                    </View>
+                  )}
+
+                  {!application && policyBlock && (
+                    <View style={styles.ineligibleSection}>
+                      <Text style={styles.ineligibleTitle}>Placement policy</Text>
+                      <Text style={styles.ineligibleReason}>{policyBlock}</Text>
+                    </View>
+                  )}
+
+                  {!application && eligibility[event.id]?.overridden && eligibility[event.id].reasons.length > 0 && (
+                    <Text style={styles.overrideNote}>
+                      The placement cell has allowed you to apply even though you don't meet every criterion.
+                    </Text>
+                  )}
+
                   {event.additional_requirements && event.additional_requirements.length > 0 && (
                     <TouchableOpacity
                       style={styles.viewRequirementsButton}
@@ -599,6 +1047,54 @@ export default function PlacementsScreen() {
                   {application && application.application_status === 'accepted' && (
                     <View style={styles.offerLetterSection}>
                       <Text style={styles.offerLetterTitle}>🎉 Congratulations! You've been accepted!</Text>
+                      {application.placement_offers && (
+                        <View style={styles.offerDetails}>
+                          <View style={styles.offerDetailsHeader}>
+                            <Text style={styles.offerRole}>{application.placement_offers.role}</Text>
+                            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(application.placement_offers.status) }]}>
+                              <Text style={styles.statusText}>{application.placement_offers.status.toUpperCase()}</Text>
+                            </View>
+                          </View>
+                          <Text style={styles.offerCtc}>{formatCtc(application.placement_offers.ctc_lpa)}</Text>
+                          {application.placement_offers.location && (
+                            <Text style={styles.offerDetailText}>Location: {application.placement_offers.location}</Text>
+                          )}
+                          {application.placement_offers.joining_date && (
+                            <Text style={styles.offerDetailText}>Joining: {formatDate(application.placement_offers.joining_date)}</Text>
+                          )}
+                          {application.placement_offers.status === 'pending' && (
+                            <>
+                              <Text style={styles.offerDetailText}>
+                                Respond by {formatDateTime(application.placement_offers.expires_at)} • {formatTimeRemaining(application.placement_offers.expires_at, now)}
+                              </Text>
+                              <View style={styles.offerResponseActions}>
+                                <TouchableOpacity
+                                  style={[styles.declineOfferButton, respondingOffer === application.placement_offers.id && styles.disabledButton]}
+                                  onPress={() => {
+                                    setDeclineReason('');
+                                    setDecliningOffer(application.placement_offers!);
+                                  }}
+                                  disabled={respondingOffer === application.placement_offers.id}
+                                >
+                                  <Text style={styles.declineOfferText}>Decline</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                  style={[styles.acceptOfferButton, respondingOffer === application.placement_offers.id && styles.disabledButton]}
+                                  onPress={() => confirmAcceptOffer(application.placement_offers!)}
+                                  disabled={respondingOffer === application.placement_offers.id}
+                                >
+                                  <Text style={styles.acceptOfferText}>
+                                    {respondingOffer === application.placement_offers.id ? 'Saving...' : 'Accept Offer'}
+                                  </Text>
+                                </TouchableOpacity>
+                              </View>
+                            </>
+                          )}
+                          {application.placement_offers.decline_reason && (
+                            <Text style={styles.offerDetailText}>Declined: {application.placement_offers.decline_reason}</Text>
+                          )}
+                        </View>
+                      )}
                       {application.offer_letter_url ? (
                         <View style={styles.offerLetterUploaded}>
                           <Text style={styles.offerLetterUploadedText}>✅ Offer letter uploaded successfully</Text>
@@ -632,29 +1128,91 @@ export default function PlacementsScreen() {
                       <Text style={styles.appliedText}>
                         Applied on {formatDate(application.applied_at)}
                       </Text>
+                      {rounds.length > 0 && (
+                        <View style={styles.roundsProgress}>
+                          <Text style={styles.currentStage}>
+                            {getCurrentStage(application, rounds)}
+                          </Text>
+                          {rounds.map((round, index) => {
+                            const roundResult = application.placement_round_results?.find(r => r.round_id === round.id);
+                            return (
+                              <View key={round.id} style={styles.roundRow}>
+                                <Text style={styles.roundName}>{index + 1}. {round.name}</Text>
+                                <Text style={[styles.roundResult, { color: roundResult ? getStatusColor(roundResult.result) : '#C7C7CC' }]}>
+                                  {roundResult ? ROUND_RESULT_LABELS[roundResult.result] : 'Upcoming'}
+                                </Text>
+                              </View>
+                            );
+                          })}
+                        </View>
+                      )}
+                      {application.interview_bookings?.interview_slots && (
+                        <View style={styles.interviewDetails}>
+                          <View style={styles.detailItem}>
+                            <CalendarClock size={16} color="#007AFF" />
+                            <Text style={styles.interviewTitle}>
+                              Interview: {formatDateTime(application.interview_bookings.interview_slots.starts_at)}
+                            </Text>
+                          </View>
+                          {application.interview_bookings.interview_slots.location && (
+                            <Text style={styles.offerDetailText}>{application.interview_bookings.interview_slots.location}</Text>
+                          )}
+                          {application.interview_bookings.interview_slots.panel && (
+                            <Text style={styles.offerDetailText}>Panel: {application.interview_bookings.interview_slots.panel}</Text>
+                          )}
+                        </View>
+                      )}
+                      {application.application_status === 'shortlisted' && event.students_pick_slots && (
+                        <TouchableOpacity style={styles.pickSlotButton} onPress={() => openSlotPicker(event)}>
+                          <Text style={styles.pickSlotButtonText}>
+                            {application.interview_bookings ? 'Change Interview Slot' : 'Pick Interview Slot'}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                       {application.admin_notes && (
                         <Text style={styles.adminNotes}>
                           Notes: {application.admin_notes}
                         </Text>
                       )}
+                      {application.status_reason && ['rejected', 'withdrawn'].includes(application.application_status) && (
+                        <Text style={styles.adminNotes}>
+                          {application.application_status === 'withdrawn' ? 'Withdrawn' : 'Reason'}
+                          {application.status_changed_at ? ` (${formatDate(application.status_changed_at)})` : ''}: {application.status_reason}
+                        </Text>
+                      )}
+                      {canWithdraw(application) && (
+                        <TouchableOpacity
+                          style={styles.withdrawButton}
+                          onPress={() => {
+                            setWithdrawReason('');
+                            setWithdrawingApplication(application);
+                          }}
+                        >
+                          <Text style={styles.withdrawButtonText}>Withdraw Application</Text>
+                        </TouchableOpacity>
+                      )}
                     </View>
                   ) : (
                     <TouchableOpacity
                       style={[
                         styles.applyButton,
-                        (deadlinePassed || applying === event.id || hasAcceptedOffer) && styles.disabledButton,
+                        (deadlinePassed || applying === event.id || !!policyBlock || awaitingApproval || ineligibleReasons.length > 0) && styles.disabledButton,
                       ]}
-                      onPress={() => applyForPlacement(event.id)}
-                      disabled={deadlinePassed || applying === event.id || hasAcceptedOffer}
+                      onPress={() => startApplication(event)}
+                      disabled={deadlinePassed || applying === event.id || !!policyBlock || awaitingApproval || ineligibleReasons.length > 0}
                     >
                       <Users size={20} color="#FFFFFF" />
                       <Text style={styles.applyButtonText}>
                         {applying === event.id
                           ? 'Applying...'
                           : deadlinePassed
-                          ? 'Deadline Passed'
-                          : hasAcceptedOffer
-                          ? 'Not Eligible (Accepted)'
+                          ? 'Applications Closed'
+                          : policyBlock
+                          ? 'Not Eligible (Placed)'
+                          : awaitingApproval
+                          ? 'Awaiting Approval'
+                          : ineligibleReasons.length > 0
+                          ? 'Not Eligible'
                           : 'Apply Now'}
                       </Text>
                     </TouchableOpacity>
@@ -666,120 +1224,390 @@ export default function PlacementsScreen() {
         )}
       </ScrollView>
 
-      {/* Additional Requirements Modal */}
+      {/* Application Form Modal */}
       <Modal
-        visible={showRequirementsModal}
+        visible={!!applicationFormEvent}
         animationType="slide"
         presentationStyle="pageSheet"
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Additional Requirements</Text>
-            <TouchableOpacity onPress={() => setShowRequirementsModal(false)}>
+            <Text style={styles.modalTitle}>Apply to {applicationFormEvent?.company_name}</Text>
+            <TouchableOpacity onPress={() => setApplicationFormEvent(null)}>
               <X size={24} color="#1C1C1E" />
             </TouchableOpacity>
           </View>
 
           <ScrollView style={styles.modalContent}>
-            {selectedEvent?.additional_requirements?.map((requirement) => (
-              <View key={requirement.type} style={styles.requirementCard}>
-                <View style={styles.requirementHeader}>
-                  <Text style={styles.requirementTitle}>
-                    {getRequirementLabel(requirement.type)}
-                    {requirement.required && <Text style={styles.requiredAsterisk}> *</Text>}
-                  </Text>
-                  {requirement.required && (
-                    <View style={styles.requiredBadge}>
-                      <Text style={styles.requiredText}>Required</Text>
-                    </View>
-                  )}
-                </View>
+            <Text style={styles.withdrawInfo}>
+              The recruiter asks these questions with every application. You can't change your answers after applying.
+            </Text>
 
-                {submittedRequirements[`${selectedEvent.id}_${requirement.type}`] ? (
-                  <View style={styles.submittedSection}>
-                    <>
-                      <View style={styles.submittedIndicator}>
-                        <CheckCircle size={16} color="#34C759" />
-                        <Text style={styles.submittedText}>Submitted</Text>
-                      </View>
-                      {requirementUrls[`${selectedEvent.id}_${requirement.type}`] && (
+            {(applicationFormEvent?.application_questions || []).map((question) => (
+              <View key={question.id} style={styles.questionGroup}>
+                <Text style={styles.questionLabel}>
+                  {question.label}{question.required ? ' *' : ''}
+                </Text>
+                {question.kind === 'single_choice' || question.kind === 'multi_choice' ? (
+                  <View style={styles.choiceOptions}>
+                    {question.options.map((option) => {
+                      const answer = formAnswers[question.id];
+                      const selected = Array.isArray(answer) ? answer.includes(option) : answer === option;
+                      return (
                         <TouchableOpacity
-                          style={styles.reuploadButton}
-                          onPress={() => Linking.openURL(requirementUrls[`${selectedEvent.id}_${requirement.type}`])}
+                          key={option}
+                          style={[styles.choiceOption, selected && styles.choiceOptionSelected]}
+                          onPress={() => question.kind === 'multi_choice'
+                            ? toggleFormChoice(question.id, option)
+                            : setFormAnswers(prev => ({ ...prev, [question.id]: option }))}
                         >
-                          <Upload size={16} color="#007AFF" />
-                          <Text style={styles.reuploadText}>
-                            {uploading === requirement.type ? 'Uploading...' : 'Update'}
+                          <Text style={[styles.choiceOptionText, selected && styles.choiceOptionTextSelected]}>
+                            {option}
                           </Text>
                         </TouchableOpacity>
-                      )}
-                    </>
+                      );
+                    })}
                   </View>
                 ) : (
-                  <TouchableOpacity
-                    style={[styles.uploadButton, uploading === requirement.type && styles.disabledButton]}
-                    onPress={() => uploadRequirement(selectedEvent.id, requirement.type, selectedEvent.bucket_name)}
-                    disabled={uploading === requirement.type}
-                  >
-                    <Upload size={16} color="#FFFFFF" />
-                    <Text style={styles.uploadButtonText}>
-                      {uploading === requirement.type ? 'Uploading...' : `Upload ${getRequirementLabel(requirement.type)}`}
-                    </Text>
-                  </TouchableOpacity>
+                  <TextInput
+                    style={[styles.questionInput, question.kind === 'text' && styles.questionTextArea]}
+                    placeholder={question.kind === 'number' ? 'Enter a number' : 'Your answer'}
+                    keyboardType={question.kind === 'number' ? 'decimal-pad' : 'default'}
+                    multiline={question.kind === 'text'}
+                    value={String(formAnswers[question.id] ?? '')}
+                    onChangeText={(text) => setFormAnswers(prev => ({ ...prev, [question.id]: text }))}
+                  />
                 )}
               </View>
             ))}
 
-            {(!selectedEvent?.additional_requirements || selectedEvent.additional_requirements.length === 0) && (
-              <View style={styles.noRequirements}>
-                <FileText size={48} color="#6B6B6B" />
-                <Text style={styles.noRequirementsText}>No additional requirements for this placement</Text>
-              </View>
-            )}
+            <TouchableOpacity
+              style={[styles.applyButton, styles.applyFormButton, !!applying && styles.disabledButton]}
+              onPress={submitApplicationForm}
+              disabled={!!applying}
+            >
+              <Users size={20} color="#FFFFFF" />
+              <Text style={styles.applyButtonText}>{applying ? 'Applying...' : 'Submit Application'}</Text>
+            </TouchableOpacity>
           </ScrollView>
         </View>
       </Modal>
-    </LinearGradient>
-  );
-}
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-  },
-  header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingTop: 60,
-    paddingHorizontal: 20,
-    paddingBottom: 20,
-  },
-  headerTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#FFFFFF',
-  },
-  headerRight: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-  },
-  notificationButton: {
-    position: 'relative',
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
-    borderRadius: 8,
-    padding: 8,
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: -4,
-    right: -4,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
+      {/* Withdraw Application Modal */}
+      <Modal
+        visible={!!withdrawingApplication}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Withdraw Application</Text>
+            <TouchableOpacity onPress={() => setWithdrawingApplication(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.withdrawInfo}>
+              Withdrawing removes you from this placement for good. You won't be able to apply to it again.
+            </Text>
+            <TextInput
+              style={styles.withdrawInput}
+              placeholder="Reason for withdrawing"
+              value={withdrawReason}
+              onChangeText={setWithdrawReason}
+              multiline
+              numberOfLines={3}
+            />
+            <TouchableOpacity
+              style={[styles.withdrawConfirmButton, withdrawing && styles.disabledButton]}
+              onPress={withdrawApplication}
+              disabled={withdrawing}
+            >
+              <Text style={styles.withdrawConfirmText}>
+                {withdrawing ? 'Withdrawing...' : 'Withdraw Application'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Decline Offer Modal */}
+      <Modal
+        visible={!!decliningOffer}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Decline Offer</Text>
+            <TouchableOpacity onPress={() => setDecliningOffer(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.withdrawInfo}>
+              Declining is final. The company won't be able to hold this offer for you afterwards.
+            </Text>
+            <TextInput
+              style={styles.withdrawInput}
+              placeholder="Reason for declining"
+              value={declineReason}
+              onChangeText={setDeclineReason}
+              multiline
+              numberOfLines={3}
+            />
+            <TouchableOpacity
+              style={[styles.withdrawConfirmButton, !!respondingOffer && styles.disabledButton]}
+              onPress={() => decliningOffer && respondToOffer(decliningOffer, false)}
+              disabled={!!respondingOffer}
+            >
+              <Text style={styles.withdrawConfirmText}>
+                {respondingOffer ? 'Declining...' : 'Decline Offer'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Interview Slot Modal */}
+      <Modal
+        visible={!!slotEvent}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Pick Interview Slot</Text>
+            <TouchableOpacity onPress={() => setSlotEvent(null)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.withdrawInfo}>
+              {slotEvent?.company_name} interviews. Picking a new slot gives up the one you have.
+            </Text>
+            {openSlots.length === 0 && (
+              <Text style={styles.withdrawInfo}>No upcoming slots yet, check back later.</Text>
+            )}
+            {openSlots.map((slot) => {
+              const unavailable = slot.remaining <= 0 || !!slot.clash;
+              return (
+                <TouchableOpacity
+                  key={slot.slot_id}
+                  style={[styles.slotOption, unavailable && styles.disabledButton]}
+                  onPress={() => bookInterviewSlot(slot)}
+                  disabled={unavailable || !!bookingSlot}
+                >
+                  <Text style={styles.interviewTitle}>
+                    {formatDateTime(slot.starts_at)} - {new Date(slot.ends_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                  {(slot.panel || slot.location) && (
+                    <Text style={styles.offerDetailText}>{[slot.panel, slot.location].filter(Boolean).join(' • ')}</Text>
+                  )}
+                  <Text style={[styles.offerDetailText, unavailable && styles.slotUnavailableText]}>
+                    {bookingSlot === slot.slot_id
+                      ? 'Booking...'
+                      : slot.clash
+                      ? `Clashes with your ${slot.clash}`
+                      : slot.remaining <= 0
+                      ? 'Full'
+                      : `${slot.remaining} place${slot.remaining === 1 ? '' : 's'} left`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Additional Requirements Modal */}
+      <Modal
+        visible={showRequirementsModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Additional Requirements</Text>
+            <TouchableOpacity onPress={() => setShowRequirementsModal(false)}>
+              <X size={24} color="#1C1C1E" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            {selectedEvent?.additional_requirements?.map((requirement) => {
+              const key = `${selectedEvent.id}_${requirement.type}`;
+              const definition = requirement.definition;
+              const label = getRequirementLabel(requirement.type, definition ? [definition] : []);
+              const takesFiles = !definition || definition.answer_kind === 'file';
+              const fileUrls = requirementUrls[key] || [];
+              const reviewStatus = requirementReviews[key]?.status || 'pending';
+              const reviewColor = reviewStatus === 'pending' ? '#6B6B6B' : getStatusColor(reviewStatus);
+              const feedback = requirementReviews[key]?.feedback;
+
+              return (
+                <View key={requirement.type} style={styles.requirementCard}>
+                  <View style={styles.requirementHeader}>
+                    <Text style={styles.requirementTitle}>
+                      {label}
+                      {requirement.required && <Text style={styles.requiredAsterisk}> *</Text>}
+                    </Text>
+                    {requirement.required && (
+                      <View style={styles.requiredBadge}>
+                        <Text style={styles.requiredText}>Required</Text>
+                      </View>
+                    )}
+                  </View>
+
+                  {definition && (
+                    <Text style={styles.requirementHint}>
+                      {definition.description ? `${definition.description}\n` : ''}{describeRequirementType(definition)}
+                    </Text>
+                  )}
+
+                  {submittedRequirements[key] && reviewStatus === 'changes_requested' && feedback && (
+                    <View style={styles.feedbackBox}>
+                      <Text style={styles.feedbackText}>Feedback: {feedback}</Text>
+                      <Text style={styles.feedbackHint}>Update your submission to send it for review again.</Text>
+                    </View>
+                  )}
+
+                  {takesFiles ? (
+                    submittedRequirements[key] ? (
+                      <>
+                        <View style={styles.submittedSection}>
+                          <View style={styles.submittedIndicator}>
+                            <CheckCircle size={16} color={reviewColor} />
+                            <Text style={[styles.submittedText, { color: reviewColor }]}>
+                              {SUBMISSION_STATUS_LABELS[reviewStatus]}{fileUrls.length > 1 ? ` (${fileUrls.length} files)` : ''}
+                            </Text>
+                          </View>
+                          <TouchableOpacity
+                            style={[styles.reuploadButton, uploading === requirement.type && styles.disabledButton]}
+                            onPress={() => uploadRequirement(selectedEvent.id, requirement)}
+                            disabled={uploading === requirement.type}
+                          >
+                            <Upload size={16} color="#007AFF" />
+                            <Text style={styles.reuploadText}>
+                              {uploading === requirement.type
+                                ? 'Uploading...'
+                                : reviewStatus === 'changes_requested' ? 'Resubmit' : 'Update'}
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                        {fileUrls.map((url, index) => (
+                          <TouchableOpacity key={url} onPress={() => openDocument(url)}>
+                            <Text style={styles.requirementFileLink}>
+                              View {fileUrls.length > 1 ? `file ${index + 1}` : 'file'}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </>
+                    ) : (
+                      <TouchableOpacity
+                        style={[styles.uploadButton, uploading === requirement.type && styles.disabledButton]}
+                        onPress={() => uploadRequirement(selectedEvent.id, requirement)}
+                        disabled={uploading === requirement.type}
+                      >
+                        <Upload size={16} color="#FFFFFF" />
+                        <Text style={styles.uploadButtonText}>
+                          {uploading === requirement.type ? 'Uploading...' : `Upload ${label}`}
+                        </Text>
+                      </TouchableOpacity>
+                    )
+                  ) : (
+                    <>
+                      <TextInput
+                        style={[styles.answerInput, definition.answer_kind === 'text' && styles.answerTextArea]}
+                        placeholder={definition.answer_kind === 'url' ? 'https://' : 'Your answer'}
+                        autoCapitalize={definition.answer_kind === 'url' ? 'none' : 'sentences'}
+                        keyboardType={definition.answer_kind === 'url' ? 'url' : 'default'}
+                        multiline={definition.answer_kind === 'text'}
+                        value={requirementAnswers[key] || ''}
+                        onChangeText={(text) => setRequirementAnswers(prev => ({ ...prev, [key]: text }))}
+                      />
+                      <View style={styles.submittedSection}>
+                        {submittedRequirements[key] ? (
+                          <View style={styles.submittedIndicator}>
+                            <CheckCircle size={16} color={reviewColor} />
+                            <Text style={[styles.submittedText, { color: reviewColor }]}>
+                              {SUBMISSION_STATUS_LABELS[reviewStatus]}
+                            </Text>
+                          </View>
+                        ) : (
+                          <View />
+                        )}
+                        <TouchableOpacity
+                          style={[styles.reuploadButton, uploading === requirement.type && styles.disabledButton]}
+                          onPress={() => submitRequirementAnswer(selectedEvent.id, requirement)}
+                          disabled={uploading === requirement.type}
+                        >
+                          <Text style={styles.reuploadText}>
+                            {uploading === requirement.type
+                              ? 'Saving...'
+                              : !submittedRequirements[key] ? 'Submit' : reviewStatus === 'changes_requested' ? 'Resubmit' : 'Update'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    </>
+                  )}
+                </View>
+              );
+            })}
+
+            {(!selectedEvent?.additional_requirements || selectedEvent.additional_requirements.length === 0) && (
+              <View style={styles.noRequirements}>
+                <FileText size={48} color="#6B6B6B" />
+                <Text style={styles.noRequirementsText}>No additional requirements for this placement</Text>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  notificationButton: {
+    position: 'relative',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  notificationBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    justifyContent: 'center',
     alignItems: 'center',
   },
   notificationBadgeText: {
@@ -875,6 +1703,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#6B6B6B',
   },
+  tierText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#AF52DE',
+    marginTop: 2,
+  },
   statusBadge: {
     borderRadius: 12,
     paddingHorizontal: 8,
@@ -904,6 +1738,24 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B6B6B',
   },
+  countdownBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#F0FFF4',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  countdownBadgeClosed: {
+    backgroundColor: '#FFF5F5',
+  },
+  countdownText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  countdownTextClosed: {
+    color: '#FF3B30',
+  },
   requirementsSection: {
     marginBottom: 16,
   },
@@ -929,12 +1781,111 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
+  roundsProgress: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  currentStage: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 2,
+  },
+  roundRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  roundName: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
+  roundResult: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   adminNotes: {
     fontSize: 14,
     color: '#6B6B6B',
     fontStyle: 'italic',
     marginBottom: 12,
   },
+  interviewDetails: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  interviewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  pickSlotButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  pickSlotButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  slotOption: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  slotUnavailableText: {
+    color: '#FF3B30',
+  },
+  withdrawButton: {
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  withdrawButtonText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  withdrawInfo: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  withdrawInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    height: 100,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  withdrawConfirmButton: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  withdrawConfirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   offerLetterButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -949,6 +1900,48 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  registrationBanner: {
+    backgroundColor: '#FFF4E5',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9500',
+  },
+  registrationBannerTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  registrationBannerText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+  },
+  ineligibleSection: {
+    backgroundColor: '#FFF4F4',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF3B30',
+  },
+  ineligibleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+    marginBottom: 4,
+  },
+  ineligibleReason: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    lineHeight: 18,
+  },
+  overrideNote: {
+    fontSize: 13,
+    color: '#34C759',
+    marginBottom: 16,
+  },
   applyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -961,6 +1954,56 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#C7C7CC',
   },
+  applyFormButton: {
+    marginBottom: 40,
+  },
+  questionGroup: {
+    marginBottom: 20,
+  },
+  questionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  questionInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  questionTextArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  choiceOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  choiceOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  choiceOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  choiceOptionText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    fontWeight: '500',
+  },
+  choiceOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   applyButtonText: {
     fontSize: 16,
     fontWeight: '600',
@@ -1065,6 +2108,47 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  feedbackBox: {
+    backgroundColor: '#FFF2F2',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  feedbackHint: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 4,
+  },
+  requirementHint: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  requirementFileLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 8,
+  },
+  answerInput: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginBottom: 12,
+  },
+  answerTextArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
   submittedIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1106,6 +2190,64 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     textAlign: 'center',
   },
+  offerDetails: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  offerDetailsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  offerRole: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  offerCtc: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#34C759',
+    marginVertical: 4,
+  },
+  offerDetailText: {
+    fontSize: 13,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+  offerResponseActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  declineOfferButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  declineOfferText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  acceptOfferButton: {
+    flex: 1,
+    backgroundColor: '#34C759',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  acceptOfferText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   offerLetterUploaded: {
     alignItems: 'center',
     gap: 12,
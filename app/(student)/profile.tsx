@@ -2,9 +2,10 @@ import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import { User, Hash, FileText, GraduationCap, Building, Upload, Save, LogOut, Mail } from 'lucide-react-native';
+import { User, Hash, FileText, GraduationCap, Building, Upload, Save, LogOut, Mail, Award } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, isSupabaseConfigured, uploadFile, getPublicUrl } from '@/lib/supabase';
+import { supabase, isSupabaseConfigured, uploadFile } from '@/lib/supabase';
+import { STREAMS_12TH } from '@/lib/constants';
 import * as DocumentPicker from 'expo-document-picker';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
@@ -18,8 +19,53 @@ interface StudentProfile {
   resume_url?: string;
   marksheet_10th_url?: string;
   marksheet_12th_url?: string;
+  percentage_10th?: number | null;
+  percentage_12th?: number | null;
+  degree_percentage?: number | null;
+  active_backlogs?: number | null;
+  graduation_year?: number | null;
+  academics_verified_at?: string | null;
 }
 
+type AcademicField = 'percentage_10th' | 'percentage_12th' | 'degree_percentage' | 'active_backlogs' | 'graduation_year';
+
+// Recruiters' eligibility criteria are checked against these when applying to placements
+const ACADEMIC_FIELDS: { key: AcademicField; label: string; placeholder: string }[] = [
+  { key: 'percentage_10th', label: '10th Percentage', placeholder: 'e.g. 78.4' },
+  { key: 'percentage_12th', label: '12th Percentage', placeholder: 'e.g. 72' },
+  { key: 'degree_percentage', label: 'Degree Percentage (aggregate so far)', placeholder: 'e.g. 68.5' },
+  { key: 'active_backlogs', label: 'Active Backlogs', placeholder: '0' },
+  { key: 'graduation_year', label: 'Graduation Year', placeholder: 'e.g. 2026' },
+];
+
+const toAcademicInputs = (profile: Partial<StudentProfile>) =>
+  ACADEMIC_FIELDS.reduce((acc, field) => {
+    acc[field.key] = profile[field.key] != null ? String(profile[field.key]) : '';
+    return acc;
+  }, {} as Record<AcademicField, string>);
+
+// Returns the values to save, or an error message for the first invalid field
+const parseAcademicInputs = (inputs: Record<AcademicField, string>) => {
+  const values = {} as Record<AcademicField, number | null>;
+  for (const field of ACADEMIC_FIELDS) {
+    const raw = inputs[field.key].trim();
+    if (!raw) {
+      values[field.key] = field.key === 'active_backlogs' ? 0 : null;
+      continue;
+    }
+
+    const value = Number(raw);
+    const valid = field.key === 'active_backlogs'
+      ? Number.isInteger(value) && value >= 0
+      : field.key === 'graduation_year'
+        ? Number.isInteger(value) && value >= 2000 && value <= 2100
+        : !isNaN(value) && value >= 0 && value <= 100;
+    if (!valid) return { error: `Please enter a valid ${field.label.toLowerCase()}` };
+    values[field.key] = value;
+  }
+  return { values };
+};
+
 export default function StudentProfile() {
   const router = useRouter();
   const { user, signOut } = useAuth();
@@ -37,6 +83,7 @@ export default function StudentProfile() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [realtimeChannel, setRealtimeChannel] = useState<RealtimeChannel | null>(null);
+  const [academics, setAcademics] = useState(toAcademicInputs({}));
 
   useEffect(() => {
     loadProfile();
@@ -68,6 +115,7 @@ export default function StudentProfile() {
           console.log('Profile updated:', payload);
           if (payload.eventType === 'UPDATE' && payload.new) {
             setProfile(payload.new as StudentProfile);
+            setAcademics(toAcademicInputs(payload.new as StudentProfile));
           }
         }
       )
@@ -102,6 +150,7 @@ export default function StudentProfile() {
 
       if (data) {
         setProfile(data);
+        setAcademics(toAcademicInputs(data));
       } else if (user) {
         setProfile(prev => ({
           ...prev,
@@ -128,6 +177,12 @@ export default function StudentProfile() {
       return;
     }
 
+    const academicRecord = parseAcademicInputs(academics);
+    if (academicRecord.error) {
+      setError(academicRecord.error);
+      return;
+    }
+
     try {
       setSaving(true);
       setError('');
@@ -140,6 +195,11 @@ export default function StudentProfile() {
         return;
       }
 
+      // A verified academic record can only be corrected by the placement cell
+      const academicData = profile.academics_verified_at
+        ? {}
+        : { stream_12th: profile.stream_12th, ...academicRecord.values };
+
       const profileData = {
         student_id: user.id,
         full_name: profile.full_name,
@@ -147,10 +207,10 @@ export default function StudentProfile() {
         roll_no: profile.roll_no,
         email: user.email, // Ensure email is included
         class: profile.class,
-        stream_12th: profile.stream_12th,
         resume_url: profile.resume_url,
         marksheet_10th_url: profile.marksheet_10th_url,
         marksheet_12th_url: profile.marksheet_12th_url,
+        ...academicData,
         updated_at: new Date().toISOString(),
       };
 
@@ -215,21 +275,21 @@ export default function StudentProfile() {
 
       const file = result.assets[0];
       const fileUri = file.uri;
-      const fileName = `${user.id}_${type}_${Date.now()}.pdf`;
+      const fileName = `${user.id}/${type}_${Date.now()}.pdf`;
 
       const response = await fetch(fileUri);
       const blob = await response.blob();
 
-      const { publicUrl } = await uploadFile('student-documents', fileName, blob, {
+      const { fileUrl } = await uploadFile('student-documents', fileName, blob, {
         contentType: file.mimeType || 'application/pdf',
       });
 
-      if (publicUrl) {
+      if (fileUrl) {
         const urlKey = type === 'resume' ? 'resume_url' : 
                       type === '10th' ? 'marksheet_10th_url' : 'marksheet_12th_url';
         setProfile((prev) => ({
           ...prev,
-          [urlKey]: publicUrl,
+          [urlKey]: fileUrl,
         }));
       }
       
@@ -241,7 +301,6 @@ export default function StudentProfile() {
   };
 
   const classOptions = ['SYIT', 'SYSD', 'TYIT', 'TYSD'];
-  const streamOptions = ['Science', 'Commerce', 'Arts'];
 
   return (
     <LinearGradient
@@ -354,7 +413,7 @@ export default function StudentProfile() {
             <View style={styles.inputGroup}>
               <Text style={styles.label}>12th Standard Stream</Text>
               <View style={styles.dropdownContainer}>
-                {streamOptions.map((streamOption) => (
+                {STREAMS_12TH.map((streamOption) => (
                   <TouchableOpacity
                     key={streamOption}
                     style={[
@@ -362,6 +421,7 @@ export default function StudentProfile() {
                       profile.stream_12th === streamOption && styles.selectedOption
                     ]}
                     onPress={() => setProfile(prev => ({ ...prev, stream_12th: streamOption }))}
+                    disabled={!!profile.academics_verified_at}
                   >
                     <Building size={16} color={profile.stream_12th === streamOption ? "#FFFFFF" : "#6B6B6B"} />
                     <Text style={[
@@ -375,6 +435,30 @@ export default function StudentProfile() {
               </View>
             </View>
 
+            {ACADEMIC_FIELDS.map((field) => (
+              <View key={field.key} style={styles.inputGroup}>
+                <Text style={styles.label}>{field.label}</Text>
+                <View style={styles.inputWrapper}>
+                  <Award size={20} color="#6B6B6B" style={styles.inputIcon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder={field.placeholder}
+                    value={academics[field.key]}
+                    onChangeText={(text) => setAcademics(prev => ({ ...prev, [field.key]: text }))}
+                    keyboardType={field.key === 'active_backlogs' || field.key === 'graduation_year' ? 'number-pad' : 'decimal-pad'}
+                    placeholderTextColor="#6B6B6B"
+                    editable={!profile.academics_verified_at}
+                  />
+                </View>
+              </View>
+            ))}
+
+            {profile.academics_verified_at && (
+              <Text style={styles.verifiedText}>
+                ✓ Academic record verified by the placement cell. Contact them to correct it.
+              </Text>
+            )}
+
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Resume (PDF)</Text>
               <TouchableOpacity style={styles.uploadButton} onPress={() => uploadDocument('resume')}>
@@ -577,6 +661,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  verifiedText: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '500',
+    marginBottom: 20,
+  },
   saveButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -26,6 +26,7 @@ export default function RootLayout() {
         <Stack.Screen name="(auth)" />
         <Stack.Screen name="(admin)" />
         <Stack.Screen name="(student)" />
+        <Stack.Screen name="not-authorized" />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
@@ -1,13 +1,23 @@
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Dimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
+import { Redirect, useRouter } from 'expo-router';
 import { UserCog, GraduationCap } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
 export default function WelcomeScreen() {
   const router = useRouter();
+  const { userType, loading } = useAuth();
+
+  // Skip the chooser when a saved session was restored
+  if (!loading && userType === 'admin') {
+    return <Redirect href="/(admin)" />;
+  }
+  if (!loading && userType === 'student') {
+    return <Redirect href="/(student)" />;
+  }
 
   return (
     <LinearGradient
@@ -0,0 +1,104 @@
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { ShieldAlert, LogOut } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { HOME_ROUTES } from '@/hooks/useRoleGuard';
+
+export default function NotAuthorizedScreen() {
+  const router = useRouter();
+  const { user, userType, signOut } = useAuth();
+
+  const goHome = () => {
+    router.replace(userType ? HOME_ROUTES[userType] : '/');
+  };
+
+  const switchAccount = async () => {
+    await signOut();
+    router.replace('/');
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <View style={styles.card}>
+        <ShieldAlert size={48} color="#FF3B30" />
+        <Text style={styles.title}>Not Authorized</Text>
+        <Text style={styles.message}>
+          {user
+            ? `You are signed in as ${user.name} (${userType}) and don't have access to this page.`
+            : "You don't have access to this page."}
+        </Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={goHome}>
+          <Text style={styles.primaryButtonText}>
+            {userType ? 'Go to My Dashboard' : 'Go to Home Screen'}
+          </Text>
+        </TouchableOpacity>
+
+        {user && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={switchAccount}>
+            <LogOut size={16} color="#007AFF" />
+            <Text style={styles.secondaryButtonText}>Sign in with another account</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 32,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.1,
+    shadowRadius: 16,
+    elevation: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 16,
+    color: '#6B6B6B',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -1,8 +1,20 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { AppState } from 'react-native';
+import { FunctionsHttpError, User as AuthUser } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured, safeQuery } from '@/lib/supabase';
+import { getDeviceId, setRememberSession } from '@/lib/session';
+import { AdminRole } from '@/lib/permissions';
 
 type UserType = 'admin' | 'student' | null;
 
+export type RegistrationStatus = 'pending' | 'approved' | 'rejected';
+
+interface IdProofFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
 interface User {
   id: string;
   name: string;
@@ -11,25 +23,56 @@ interface User {
   uid?: string;
   rollNo?: string;
   adminCode?: string;
+  mustChangePassword?: boolean;
+  adminRole?: AdminRole;
+  assignedClasses?: string[];
+  registrationStatus?: RegistrationStatus;
+  rejectionReason?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   userType: UserType;
   loading: boolean;
-  signInAdmin: (code: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  signInStudent: (uid: string, email: string) => Promise<{ success: boolean; error?: string }>;
+  signInAdmin: (code: string, password: string, remember?: boolean) => Promise<{ success: boolean; error?: string; retryAfter?: number }>;
+  requestStudentCode: (uid: string, email: string) => Promise<{ success: boolean; message?: string; error?: string; retryAfter?: number }>;
+  verifyStudentCode: (email: string, code: string, remember?: boolean) => Promise<{ success: boolean; error?: string; retryAfter?: number }>;
   registerStudent: (data: {
     name: string;
     uid: string;
     email: string;
     rollNo: string;
-  }) => Promise<{ success: boolean; error?: string }>;
+    className: string;
+    idProof: IdProofFile;
+  }) => Promise<{ success: boolean; error?: string; warning?: string }>;
+  changeAdminPassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
   signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const toAdminUser = (data: any): User => ({
+  id: data.id,
+  name: data.name,
+  email: data.email,
+  type: 'admin',
+  adminCode: data.admin_code,
+  mustChangePassword: !!data.must_change_password,
+  adminRole: data.role,
+  assignedClasses: data.assigned_classes || [],
+});
+
+const toStudentUser = (data: any): User => ({
+  id: data.id,
+  name: data.name,
+  email: data.email,
+  type: 'student',
+  uid: data.uid,
+  rollNo: data.roll_no,
+  registrationStatus: data.registration_status || 'approved',
+  rejectionReason: data.rejection_reason || undefined,
+});
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [userType, setUserType] = useState<UserType>(null);
@@ -38,21 +81,118 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     // Check for existing session
     checkSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT' || !session) {
+        applyUser(null);
+      } else if (event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        // Defer so the profile query doesn't run inside the auth callback
+        setTimeout(() => loadUser(session.user), 0);
+      }
+    });
+
+    // Token refresh timers only run while the app is in the foreground on native
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        supabase.auth.startAutoRefresh();
+      } else {
+        supabase.auth.stopAutoRefresh();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      appStateSubscription.remove();
+    };
   }, []);
 
+  const applyUser = (signedInUser: User | null) => {
+    setUser(signedInUser);
+    setUserType(signedInUser?.type ?? null);
+  };
+
+  // Reads the admin or student record linked to the auth account, keyed by its role claim
+  const loadUser = async (authUser: AuthUser) => {
+    const role = authUser.app_metadata?.role;
+    if (role !== 'admin' && role !== 'student') {
+      await supabase.auth.signOut();
+      applyUser(null);
+      return null;
+    }
+
+    const isAdmin = role === 'admin';
+    const { data, error } = await safeQuery(() =>
+      supabase
+        .from(isAdmin ? 'admin_users' : 'students')
+        .select('*')
+        .eq('id', authUser.id)
+        .maybeSingle()
+    );
+
+    if (error) {
+      // Keep the current user on network errors, it is retried on the next token refresh
+      return null;
+    }
+
+    // Deactivated admins lose their session on the next load or token refresh
+    if (!data || (isAdmin && data.is_active === false)) {
+      await supabase.auth.signOut();
+      applyUser(null);
+      return null;
+    }
+
+    const signedInUser = isAdmin ? toAdminUser(data) : toStudentUser(data);
+    applyUser(signedInUser);
+    return signedInUser;
+  };
+
   const checkSession = async () => {
     try {
-      // In a real app, you'd check for stored session tokens
-      // For now, we'll just set loading to false after the delay
-      await new Promise(resolve => setTimeout(resolve, 100)); // Small delay to prevent race conditions
-      setLoading(false);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) {
+        await loadUser(session.user);
+      }
     } catch (error) {
       console.error('Session check error:', error);
+    } finally {
       setLoading(false);
     }
   };
 
-  const signInAdmin = async (code: string, password: string) => {
+  // Calls the admin-auth or student-auth function. Both count failed attempts per device and
+  // answer with `retryAfter` (seconds) while the login is cooling down or locked.
+  const invokeAuthFunction = async (name: 'admin-auth' | 'student-auth', body: Record<string, string>) => {
+    const deviceId = await getDeviceId();
+    const { data, error } = await supabase.functions.invoke(name, { body: { ...body, deviceId } });
+
+    if (error) {
+      let message: string | undefined;
+      let retryAfter: number | undefined;
+      if (error instanceof FunctionsHttpError) {
+        const payload = await error.context.json().catch(() => null);
+        message = payload?.error;
+        retryAfter = payload?.retryAfter || undefined;
+      }
+      return { success: false, error: message, retryAfter };
+    }
+
+    return {
+      success: true,
+      data,
+      message: data?.message as string | undefined,
+      session: data?.session as { access_token: string; refresh_token: string } | undefined,
+    };
+  };
+
+  // Installs a session returned by one of the auth functions and loads its profile
+  const startSession = async (session: { access_token: string; refresh_token: string }, remember: boolean) => {
+    await setRememberSession(remember);
+    const { data, error } = await supabase.auth.setSession(session);
+    if (error || !data.user) return null;
+    return loadUser(data.user);
+  };
+
+  const signInAdmin = async (code: string, password: string, remember = false) => {
     try {
       setLoading(true);
       
@@ -61,36 +201,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return { success: false, error: 'Database connection not available. Please check your configuration.' };
       }
 
-      const { data, error } = await safeQuery(() =>
-        supabase
-          .from('admin_users')
-          .select('*')
-          .eq('admin_code', code)
-          .maybeSingle()
-      );
+      const result = await invokeAuthFunction('admin-auth', { action: 'sign_in', code, password });
 
-      if (error || !data) {
-        return { success: false, error: 'Invalid admin code' };
-      }
-
-      // In production, you should hash the password and compare
-      // For demo purposes, we'll store plain text (NOT recommended)
-      if (data.password_hash !== password) {
-        return { success: false, error: 'Invalid password' };
+      if (!result.success || !result.session) {
+        setLoading(false);
+        return { success: false, error: result.error || 'Login failed. Please try again.', retryAfter: result.retryAfter };
       }
 
-      const adminUser: User = {
-        id: data.id,
-        name: data.name,
-        email: data.email,
-        type: 'admin',
-        adminCode: data.admin_code,
-      };
-
-      setUser(adminUser);
-      setUserType('admin');
+      const admin = await startSession(result.session, remember);
       setLoading(false);
 
+      if (admin?.type !== 'admin') {
+        await supabase.auth.signOut();
+        return { success: false, error: 'Invalid admin code or password' };
+      }
+
       return { success: true };
     } catch (error) {
       setLoading(false);
@@ -98,53 +223,46 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signInStudent = async (uid: string, email: string) => {
+  const requestStudentCode = async (uid: string, email: string) => {
     try {
-      setLoading(true);
-
-      if (!supabase) {
-        setLoading(false);
+      if (!isSupabaseConfigured()) {
         return { success: false, error: 'Database connection not available. Please check your configuration.' };
       }
 
-      const { data, error } = await supabase
-        .from('students')
-        .select('*')
-        .or(`uid.eq.${uid},email.eq.${email}`)
-        .maybeSingle();
-
-      if (error) {
-        console.error('Login error:', error);
-        setLoading(false);
-        return { success: false, error: 'Login failed. Please try again.' };
+      const result = await invokeAuthFunction('student-auth', { action: 'send_code', uid, email });
+      if (!result.success) {
+        return { success: false, error: result.error || 'Could not send the login code. Please try again.', retryAfter: result.retryAfter };
       }
 
-      if (!data) {
-        console.error('Login error: No student found with provided credentials');
-        setLoading(false);
-        return { success: false, error: 'No student found with these credentials. Please register first or check your UID and email.' };
-      }
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Could not send the login code. Please try again.' };
+    }
+  };
+
+  const verifyStudentCode = async (email: string, code: string, remember = false) => {
+    try {
+      setLoading(true);
+
+      const result = await invokeAuthFunction('student-auth', { action: 'verify_code', email, code });
 
-      // Verify both UID and email match exactly
-      if (data.uid !== uid || data.email !== email) {
-        console.error('Login error: Credentials do not match exactly');
+      if (!result.success || !result.session) {
         setLoading(false);
-        return { success: false, error: 'Invalid credentials. Please check your UID and email.' };
+        return {
+          success: false,
+          error: result.error || 'Invalid or expired code. Please check the code or request a new one.',
+          retryAfter: result.retryAfter,
+        };
       }
 
-      const studentUser: User = {
-        id: data.id,
-        name: data.name,
-        email: data.email,
-        type: 'student',
-        uid: data.uid,
-        rollNo: data.roll_no,
-      };
-
-      setUser(studentUser);
-      setUserType('student');
+      const student = await startSession(result.session, remember);
       setLoading(false);
 
+      if (student?.type !== 'student') {
+        await supabase.auth.signOut();
+        return { success: false, error: 'Login failed. Please try again.' };
+      }
+
       return { success: true };
     } catch (error) {
       setLoading(false);
@@ -152,11 +270,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const registerStudent = async (data: {
+  const registerStudent = async ({ idProof, ...data }: {
     name: string;
     uid: string;
     email: string;
     rollNo: string;
+    className: string;
+    idProof: IdProofFile;
   }) => {
     try {
       setLoading(true);
@@ -166,53 +286,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return { success: false, error: 'Database connection not available. Please check your configuration.' };
       }
 
-      // Check if student already exists
-      const { data: existingStudent } = await safeQuery(() =>
-        supabase
-          .from('students')
-          .select('id')
-          .or(`uid.eq.${data.uid},email.eq.${data.email},roll_no.eq.${data.rollNo}`)
-          .maybeSingle()
-      );
-
-      if (existingStudent) {
-        return { success: false, error: 'Student with this UID, email, or roll number already exists' };
-      }
+      const result = await invokeAuthFunction('student-auth', {
+        action: 'register',
+        ...data,
+        idProofName: idProof.name,
+      });
 
-      const { data: newStudent, error } = await safeQuery(() =>
-        supabase
-          .from('students')
-          .insert({
-            name: data.name,
-            uid: data.uid,
-            email: data.email,
-            roll_no: data.rollNo,
-            class: 'SYIT', // Default class
-            total_credits: 0,
-          })
-          .select()
-          .maybeSingle()
-      );
-
-      if (error || !newStudent) {
+      if (!result.success) {
         setLoading(false);
-        return { success: false, error: 'Registration failed. Please try again.' };
+        return { success: false, error: result.error || 'Registration failed. Please try again.' };
       }
 
-      const studentUser: User = {
-        id: newStudent.id,
-        name: newStudent.name,
-        email: newStudent.email,
-        type: 'student',
-        uid: newStudent.uid,
-        rollNo: newStudent.roll_no,
-      };
-
-      setUser(studentUser);
-      setUserType('student');
+      // The function hands out a one-time upload URL because the student has no session yet
+      const upload = result.data?.idProofUpload;
+      let uploaded = false;
+      if (upload) {
+        const blob = await (await fetch(idProof.uri)).blob();
+        const { error } = await supabase.storage
+          .from(upload.bucket)
+          .uploadToSignedUrl(upload.path, upload.token, blob, {
+            contentType: idProof.mimeType || 'application/pdf',
+          });
+        if (error) console.error('ID proof upload error:', error);
+        uploaded = !error;
+      }
       setLoading(false);
 
-      return { success: true };
+      return {
+        success: true,
+        warning: uploaded ? undefined : 'Your ID proof could not be uploaded. Please upload it from your profile after logging in.',
+      };
     } catch (error) {
       console.error('Registration error:', error);
       setLoading(false);
@@ -220,9 +323,41 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const changeAdminPassword = async (currentPassword: string, newPassword: string) => {
+    if (!user || user.type !== 'admin') {
+      return { success: false, error: 'Please log in as an administrator.' };
+    }
+
+    if (newPassword.length < 8) {
+      return { success: false, error: 'New password must be at least 8 characters' };
+    }
+
+    if (newPassword === currentPassword) {
+      return { success: false, error: 'New password must be different from the current password' };
+    }
+
+    const { data, error } = await safeQuery(() =>
+      supabase.rpc('change_admin_password', {
+        p_current_password: currentPassword,
+        p_new_password: newPassword,
+      })
+    );
+
+    if (error) {
+      return { success: false, error: 'Failed to change password. Please try again.' };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Current password is incorrect' };
+    }
+
+    applyUser({ ...user, mustChangePassword: false });
+    return { success: true };
+  };
+
   const signOut = async () => {
-    setUser(null);
-    setUserType(null);
+    await supabase.auth.signOut();
+    applyUser(null);
   };
 
   return (
@@ -232,8 +367,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         userType,
         loading,
         signInAdmin,
-        signInStudent,
+        requestStudentCode,
+        verifyStudentCode,
         registerStudent,
+        changeAdminPassword,
         signOut,
       }}
     >
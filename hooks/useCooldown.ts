@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+// Counts down the seconds until a throttled login may be retried
+export function useCooldown() {
+  const [until, setUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (until <= now) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until, now]);
+
+  const remaining = Math.max(0, Math.ceil((until - now) / 1000));
+
+  return {
+    remaining,
+    label: `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`,
+    start: (seconds?: number) => {
+      if (!seconds || seconds <= 0) return;
+      setNow(Date.now());
+      setUntil(Date.now() + seconds * 1000);
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed on an interval so countdowns stay up to date
+export function useNow(intervalMs = 60000) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,13 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { AdminPermission, canAccessClass, hasPermission } from '@/lib/permissions';
+
+// Role checks for the signed-in admin, used to hide tabs and buttons they can't use
+export function usePermissions() {
+  const { user } = useAuth();
+
+  return {
+    adminRole: user?.adminRole,
+    can: (permission: AdminPermission) => hasPermission(user, permission),
+    canAccessClass: (className: string) => canAccessClass(user, className),
+  };
+}
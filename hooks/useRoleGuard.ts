@@ -0,0 +1,50 @@
+import { Href, usePathname, useSegments } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+
+type Role = 'admin' | 'student';
+
+const LOGIN_ROUTES: Record<Role, string> = {
+  admin: '/(auth)/admin-login',
+  student: '/(auth)/student-login',
+};
+
+export const HOME_ROUTES: Record<Role, string> = {
+  admin: '/(admin)',
+  student: '/(student)',
+};
+
+// Only accept in-app paths for the post-login redirect, never another origin
+export const getSafeRedirect = (redirect: string | string[] | undefined, fallback: string) => {
+  const path = Array.isArray(redirect) ? redirect[0] : redirect;
+  if (!path || !path.startsWith('/') || path.startsWith('//')) {
+    return fallback;
+  }
+  return path;
+};
+
+// Decides where a user landing in a role's route group should be sent, if anywhere
+export function useRoleGuard(role: Role): { ready: boolean; redirect: Href | null } {
+  const { userType, loading } = useAuth();
+  const segments = useSegments();
+  const pathname = usePathname();
+
+  if (loading) {
+    return { ready: false, redirect: null };
+  }
+
+  if (!userType) {
+    // Keep the group in the path, since /placements exists for both admins and students
+    const group = segments[0] ?? '';
+    const target = pathname === '/' ? `/${group}` : `/${group}${pathname}`;
+    return {
+      ready: true,
+      redirect: { pathname: LOGIN_ROUTES[role], params: { redirect: target } } as Href,
+    };
+  }
+
+  if (userType !== role) {
+    return { ready: true, redirect: '/not-authorized' as Href };
+  }
+
+  return { ready: true, redirect: null };
+}
@@ -0,0 +1,96 @@
+// Admin actions are recorded in `audit_events` by database triggers. Requests tagged with
+// this header are logged under the given action name instead of the bare table operation.
+export const AUDIT_ACTION_HEADER = 'x-audit-action';
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  accept_application: 'Accepted Application',
+  shortlist_application: 'Shortlisted Application',
+  waitlist_application: 'Waitlisted Application',
+  reject_application: 'Rejected Application',
+  approve_offer_letter: 'Approved Offer Letter',
+  award_credits: 'Awarded Credits',
+  create_placement_event: 'Created Placement Event',
+  publish_placement_event: 'Published Placement Event',
+  close_placement_event: 'Closed Placement Event',
+  reopen_placement_event: 'Reopened Placement Event',
+  complete_placement_event: 'Completed Placement Event',
+  update_placement_event: 'Edited Placement Event',
+  archive_placement_event: 'Archived Placement Event',
+  restore_placement_event: 'Restored Placement Event',
+  delete_placement_event: 'Deleted Placement Event',
+  bulk_import_students: 'Bulk Imported Student',
+  update_admin: 'Updated Admin',
+  invite_admin: 'Invited Admin',
+  reset_admin_password: 'Reset Admin Password',
+  deactivate_admin: 'Deactivated Admin',
+  reactivate_admin: 'Reactivated Admin',
+  clear_login_lockout: 'Cleared Login Lockout',
+  approve_registration: 'Approved Registration',
+  reject_registration: 'Rejected Registration',
+  merge_registration: 'Merged Registration',
+  update_placement_rounds: 'Updated Placement Rounds',
+  move_to_round: 'Moved Applicants to Round',
+  record_round_result: 'Recorded Round Result',
+  grant_eligibility_override: 'Granted Eligibility Override',
+  revoke_eligibility_override: 'Revoked Eligibility Override',
+  create_offer: 'Made Offer',
+  update_offer: 'Edited Offer',
+  revoke_offer: 'Revoked Offer',
+  update_placement_policy: 'Updated Placement Policy',
+  create_interview_slots: 'Added Interview Slots',
+  delete_interview_slot: 'Deleted Interview Slot',
+  assign_interview_slots: 'Assigned Interview Slots',
+  cancel_interview_booking: 'Removed from Interview Slot',
+  create_company: 'Added Company',
+  update_company: 'Edited Company',
+  delete_company: 'Deleted Company',
+  add_company_contact: 'Added Company Contact',
+  remove_company_contact: 'Removed Company Contact',
+  create_requirement_type: 'Added Requirement Type',
+  update_requirement_type: 'Edited Requirement Type',
+  archive_requirement_type: 'Archived Requirement Type',
+  restore_requirement_type: 'Restored Requirement Type',
+  approve_requirement_submission: 'Approved Requirement',
+  request_requirement_changes: 'Requested Requirement Changes',
+  import_application_results: 'Imported Company Results',
+  verify_student_academics: 'Verified Academic Record',
+  unverify_student_academics: 'Reopened Academic Record',
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  students: 'Students',
+  student_profiles: 'Student Profiles',
+  admin_users: 'Admin Users',
+  placement_events: 'Placement Events',
+  placement_requirements: 'Placement Requirements',
+  placement_applications: 'Placement Applications',
+  placement_rounds: 'Placement Rounds',
+  placement_round_results: 'Round Results',
+  placement_eligibility_overrides: 'Eligibility Overrides',
+  placement_offers: 'Placement Offers',
+  placement_policies: 'Placement Policies',
+  interview_slots: 'Interview Slots',
+  interview_bookings: 'Interview Bookings',
+  companies: 'Companies',
+  company_contacts: 'Company Contacts',
+  requirement_types: 'Requirement Types',
+  student_requirement_submissions: 'Requirement Submissions',
+  student_internship_submissions: 'Internship Submissions',
+  student_internship_approvals: 'Internship Approvals',
+  login_throttles: 'Login Lockouts',
+};
+
+export const getAuditActionLabel = (action: string) =>
+  AUDIT_ACTION_LABELS[action] || action.replace(/_/g, ' ');
+
+// Fields whose value differs between the before and after snapshots of a row
+export const getChangedFields = (before: Record<string, any> | null, after: Record<string, any> | null) => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return Array.from(keys)
+    .filter((key) => key !== 'updated_at')
+    .filter((key) => JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null))
+    .map((key) => ({ field: key, before: before?.[key] ?? null, after: after?.[key] ?? null }));
+};
@@ -0,0 +1,116 @@
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  location?: string | null;
+  description?: string | null;
+}
+
+// iCalendar wants UTC times as 20250930T093000Z
+const toIcsDate = (dateString: string) =>
+  new Date(dateString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+export const buildIcsCalendar = (name: string, entries: CalendarEntry[]) => {
+  const stamp = toIcsDate(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Campus Connect//Placements//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}@campus-connect`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toIcsDate(entry.startsAt)}`,
+      `DTEND:${toIcsDate(entry.endsAt)}`,
+      `SUMMARY:${escapeIcsText(entry.title)}`,
+    );
+    if (entry.location) lines.push(`LOCATION:${escapeIcsText(entry.location)}`);
+    if (entry.description) lines.push(`DESCRIPTION:${escapeIcsText(entry.description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export type PlacementCalendarKind = 'drive' | 'deadline' | 'interview' | 'offer_expiry';
+
+// A row of get_placement_calendar
+export interface PlacementCalendarEntry {
+  entry_id: string;
+  kind: PlacementCalendarKind;
+  event_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  location: string | null;
+  description: string | null;
+}
+
+export const CALENDAR_ENTRY_COLORS: Record<PlacementCalendarKind, string> = {
+  drive: '#007AFF',
+  deadline: '#FF9500',
+  interview: '#5856D6',
+  offer_expiry: '#FF3B30',
+};
+
+export const toCalendarEntry = (entry: PlacementCalendarEntry): CalendarEntry => ({
+  uid: entry.entry_id,
+  title: entry.title,
+  startsAt: entry.starts_at,
+  endsAt: entry.ends_at,
+  location: entry.location,
+  description: entry.description,
+});
+
+// The local calendar day of a date, e.g. 2025-09-30
+export const toDayKey = (date: Date | string) => {
+  const day = new Date(date);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+};
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+export const getWeekDays = (date: Date) => {
+  const start = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+};
+
+// Six whole weeks from the Monday before the 1st, so every month grid has the same height
+export const getMonthGrid = (month: Date) => {
+  const start = startOfWeek(new Date(month.getFullYear(), month.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, i) =>
+    new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+};
+
+export const groupEntriesByDay = (entries: PlacementCalendarEntry[]) => {
+  const days: Record<string, PlacementCalendarEntry[]> = {};
+  for (const entry of entries) {
+    const key = toDayKey(entry.starts_at);
+    (days[key] = days[key] || []).push(entry);
+  }
+  return days;
+};
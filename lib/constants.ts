@@ -47,4 +47,53 @@ export const STATIC_ASSIGNMENTS = [
     required: true,
     unlockOthers: false
   }
-];
\ No newline at end of file
+];
+
+export const CLASS_NAMES = ['TYIT', 'TYSD', 'SYIT', 'SYSD'];
+
+export const STREAMS_12TH = ['Science', 'Commerce', 'Arts'];
+
+export const PLACEMENT_TIER_LABELS: Record<string, string> = {
+  regular: 'Regular',
+  dream: 'Dream',
+  super_dream: 'Super Dream',
+};
+
+// File kinds admins pick from when defining a requirement type
+export const REQUIREMENT_FILE_KINDS = [
+  { label: 'PDF', mimeTypes: ['application/pdf'] },
+  { label: 'Images', mimeTypes: ['image/*'] },
+  { label: 'Videos', mimeTypes: ['video/*'] },
+  { label: 'Word', mimeTypes: ['application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'] },
+  { label: 'Text', mimeTypes: ['text/*'] },
+  { label: 'ZIP', mimeTypes: ['application/zip'] },
+];
+
+export const PLACEMENT_ROUND_PRESETS = ['Aptitude Test', 'Group Discussion', 'Technical Interview', 'HR Interview'];
+
+export const ROUND_RESULT_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  cleared: 'Cleared',
+  not_cleared: 'Not Cleared',
+  absent: 'Absent',
+};
+
+export const SUBMISSION_STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting Review',
+  approved: 'Approved',
+  changes_requested: 'Changes Requested',
+};
+
+export const CALENDAR_ENTRY_LABELS: Record<string, string> = {
+  drive: 'Drive',
+  deadline: 'Application Deadline',
+  interview: 'Interview',
+  offer_expiry: 'Offer Expiry',
+};
+
+export const APPLICATION_QUESTION_KIND_LABELS: Record<string, string> = {
+  text: 'Text',
+  number: 'Number',
+  single_choice: 'Single Choice',
+  multi_choice: 'Multiple Choice',
+};
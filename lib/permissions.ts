@@ -0,0 +1,70 @@
+// Admin roles and what each one may do. Keep in sync with `has_admin_permission` in the
+// database, which enforces the same rules through row level policies.
+export type AdminRole =
+  | 'super_admin'
+  | 'placement_officer'
+  | 'internship_coordinator'
+  | 'class_teacher'
+  | 'auditor';
+
+export type AdminPermission =
+  | 'view_students'
+  | 'manage_students'
+  | 'view_placements'
+  | 'manage_placements'
+  | 'view_internships'
+  | 'manage_internships'
+  | 'view_analytics'
+  | 'manage_admins'
+  | 'view_audit';
+
+export const ADMIN_ROLES: AdminRole[] = [
+  'super_admin',
+  'placement_officer',
+  'internship_coordinator',
+  'class_teacher',
+  'auditor',
+];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  placement_officer: 'Placement Officer',
+  internship_coordinator: 'Internship Coordinator',
+  class_teacher: 'Class Teacher',
+  auditor: 'Auditor (read-only)',
+};
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    'view_students',
+    'manage_students',
+    'view_placements',
+    'manage_placements',
+    'view_internships',
+    'manage_internships',
+    'view_analytics',
+    'manage_admins',
+    'view_audit',
+  ],
+  placement_officer: ['view_students', 'view_placements', 'manage_placements', 'view_analytics'],
+  internship_coordinator: ['view_students', 'view_internships', 'manage_internships', 'view_analytics'],
+  class_teacher: ['view_students', 'manage_students', 'view_internships', 'manage_internships'],
+  auditor: ['view_students', 'view_placements', 'view_internships', 'view_analytics', 'view_audit'],
+};
+
+interface AdminAccess {
+  adminRole?: AdminRole;
+  assignedClasses?: string[];
+}
+
+export const hasPermission = (admin: AdminAccess | null | undefined, permission: AdminPermission) => {
+  if (!admin?.adminRole) return false;
+  return ROLE_PERMISSIONS[admin.adminRole]?.includes(permission) ?? false;
+};
+
+// Class teachers only see the classes assigned to them, every other role sees all classes
+export const canAccessClass = (admin: AdminAccess | null | undefined, className: string) => {
+  if (!admin?.adminRole) return false;
+  if (admin.adminRole !== 'class_teacher') return true;
+  return (admin.assignedClasses || []).includes(className.toUpperCase());
+};
@@ -0,0 +1,163 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+
+const REMEMBER_KEY = 'campus-connect.remember';
+const DEVICE_ID_KEY = 'campus-connect.device-id';
+
+// SecureStore rejects values above ~2KB, so larger auth sessions are split into chunks
+const SECURE_STORE_CHUNK_SIZE = 1800;
+
+// On native, sessions without "remember me" only live in memory for the app's lifetime
+const memoryStore = new Map<string, string>();
+
+const getWebStorage = (remember: boolean) => {
+  if (typeof window === 'undefined') return null;
+  return remember ? window.localStorage : window.sessionStorage;
+};
+
+// Restores the last "remember me" choice so token refreshes are written to the same storage
+const loadRememberSession = async () => {
+  try {
+    const stored = Platform.OS === 'web'
+      ? getWebStorage(true)?.getItem(REMEMBER_KEY)
+      : await SecureStore.getItemAsync(REMEMBER_KEY);
+    return stored !== 'false';
+  } catch (error) {
+    console.error('Error loading remember preference:', error);
+    return true;
+  }
+};
+
+// Whether the session should survive an app restart ("remember me"). Read when this module
+// loads, before the Supabase client restores or refreshes a session, and awaited by every write
+let rememberSession = loadRememberSession();
+
+const chunkCountKey = (key: string) => `${key}.chunks`;
+const chunkKey = (key: string, index: number) => `${key}.${index}`;
+
+const secureStoreKey = (key: string) => key.replace(/[^A-Za-z0-9._-]/g, '_');
+
+const readSecureItem = async (key: string) => {
+  const storeKey = secureStoreKey(key);
+  const count = Number(await SecureStore.getItemAsync(chunkCountKey(storeKey)));
+  if (!count) return null;
+
+  const chunks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const chunk = await SecureStore.getItemAsync(chunkKey(storeKey, i));
+    if (chunk === null) return null;
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+};
+
+const removeSecureItem = async (key: string) => {
+  const storeKey = secureStoreKey(key);
+  const count = Number(await SecureStore.getItemAsync(chunkCountKey(storeKey)));
+  for (let i = 0; i < count; i++) {
+    await SecureStore.deleteItemAsync(chunkKey(storeKey, i));
+  }
+  await SecureStore.deleteItemAsync(chunkCountKey(storeKey));
+};
+
+const writeSecureItem = async (key: string, value: string) => {
+  await removeSecureItem(key);
+
+  const storeKey = secureStoreKey(key);
+  const count = Math.ceil(value.length / SECURE_STORE_CHUNK_SIZE);
+  for (let i = 0; i < count; i++) {
+    await SecureStore.setItemAsync(
+      chunkKey(storeKey, i),
+      value.slice(i * SECURE_STORE_CHUNK_SIZE, (i + 1) * SECURE_STORE_CHUNK_SIZE)
+    );
+  }
+  await SecureStore.setItemAsync(chunkCountKey(storeKey), String(count));
+};
+
+// Call before signing in to choose between a persistent and a tab/app-lifetime session
+export const setRememberSession = async (remember: boolean) => {
+  rememberSession = Promise.resolve(remember);
+
+  try {
+    if (Platform.OS === 'web') {
+      getWebStorage(true)?.setItem(REMEMBER_KEY, String(remember));
+    } else {
+      await SecureStore.setItemAsync(REMEMBER_KEY, String(remember));
+    }
+  } catch (error) {
+    console.error('Error saving remember preference:', error);
+  }
+};
+
+// Storage adapter handed to the Supabase client, which handles expiry and token refresh itself
+export const authStorage = {
+  getItem: async (key: string) => {
+    try {
+      if (Platform.OS === 'web') {
+        return getWebStorage(true)?.getItem(key) ?? getWebStorage(false)?.getItem(key) ?? null;
+      }
+
+      return memoryStore.get(key) ?? (await readSecureItem(key));
+    } catch (error) {
+      console.error('Error reading session:', error);
+      return null;
+    }
+  },
+  setItem: async (key: string, value: string) => {
+    try {
+      const remember = await rememberSession;
+
+      if (Platform.OS === 'web') {
+        // Drop any copy in the other storage so only one session survives
+        getWebStorage(!remember)?.removeItem(key);
+        getWebStorage(remember)?.setItem(key, value);
+        return;
+      }
+
+      if (remember) {
+        memoryStore.delete(key);
+        await writeSecureItem(key, value);
+      } else {
+        memoryStore.set(key, value);
+        await removeSecureItem(key);
+      }
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  },
+  removeItem: async (key: string) => {
+    try {
+      if (Platform.OS === 'web') {
+        getWebStorage(true)?.removeItem(key);
+        getWebStorage(false)?.removeItem(key);
+        return;
+      }
+
+      memoryStore.delete(key);
+      await removeSecureItem(key);
+    } catch (error) {
+      console.error('Error clearing session:', error);
+    }
+  },
+};
+
+// Random id kept across sessions so the login functions can throttle failed attempts per device
+export const getDeviceId = async () => {
+  try {
+    const stored = Platform.OS === 'web'
+      ? getWebStorage(true)?.getItem(DEVICE_ID_KEY)
+      : await SecureStore.getItemAsync(DEVICE_ID_KEY);
+    if (stored) return stored;
+
+    const deviceId = Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join('');
+    if (Platform.OS === 'web') {
+      getWebStorage(true)?.setItem(DEVICE_ID_KEY, deviceId);
+    } else {
+      await SecureStore.setItemAsync(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch (error) {
+    console.error('Error loading device id:', error);
+    return undefined;
+  }
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { authStorage } from '@/lib/session';
+import { EligibilityCriteria, PlacementTierRules, ApplicationQuestion, ApplicationAnswer } from '@/lib/utils';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key';
@@ -6,6 +8,7 @@ const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || 'placeholde
 // Add connection timeout and retry logic
 const supabaseOptions = {
   auth: {
+    storage: authStorage,
     autoRefreshToken: true,
     persistSession: true,
     detectSessionInUrl: false,
@@ -53,7 +56,7 @@ export const isSupabaseConfigured = () => {
 
 // Safe database query wrapper with error handling
 export const safeQuery = async <T>(
-  queryFn: () => Promise<{ data: T | null; error: any }>
+  queryFn: () => PromiseLike<{ data: T; error: any }>
 ): Promise<{ data: T | null; error: any }> => {
   try {
     if (!isSupabaseConfigured()) {
@@ -96,15 +99,75 @@ export const debugSupabaseConfig = () => {
   }
 };
 
-// Helper function to get public URL with proper headers
-export const getPublicUrl = (bucket: string, path: string) => {
-  const { data } = supabase.storage.from(bucket).getPublicUrl(path, {
-    download: false, // Ensure inline viewing instead of download
+// Signed links opened from the app only need to outlive the tap that requested them
+export const VIEW_LINK_EXPIRY_SECONDS = 60 * 5;
+
+// Links embedded in exported sheets stop working a week after the export
+export const EXPORT_LINK_EXPIRY_SECONDS = 60 * 60 * 24 * 7;
+
+// Buckets are private, so the stored link is the authenticated object URL. It only works with
+// a session and is turned into a signed URL whenever the document is viewed or exported.
+export const getStorageUrl = (bucket: string, path: string) =>
+  `${supabaseUrl}/storage/v1/object/authenticated/${bucket}/${path}`;
+
+// Reads the bucket and path from a stored document link, including the public URLs saved
+// before the buckets were made private. Returns null for links outside Supabase Storage.
+export const parseStorageUrl = (url: string) => {
+  const match = url.match(/\/storage\/v1\/object\/(?:public|authenticated|sign)\/([^/]+)\/([^?]+)/);
+  if (!match) return null;
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+};
+
+// Short-lived link to a stored document, or the link itself when it isn't a storage object
+export const getSignedUrl = async (url: string, expiresIn = VIEW_LINK_EXPIRY_SECONDS) => {
+  const object = parseStorageUrl(url);
+  if (!object) return url;
+
+  const { data, error } = await supabase.storage
+    .from(object.bucket)
+    .createSignedUrl(object.path, expiresIn);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.signedUrl;
+};
+
+// Signs many stored links at once, one request per bucket. Links that can't be signed map to
+// an empty string so exports never fall back to the permanent URL.
+export const getSignedUrls = async (urls: string[], expiresIn = EXPORT_LINK_EXPIRY_SECONDS) => {
+  const signed: Record<string, string> = {};
+  const pathsByBucket: Record<string, string[]> = {};
+
+  for (const url of new Set(urls.filter(Boolean))) {
+    const object = parseStorageUrl(url);
+    if (!object) {
+      signed[url] = url;
+      continue;
+    }
+    (pathsByBucket[object.bucket] ||= []).push(object.path);
+  }
+
+  for (const [bucket, paths] of Object.entries(pathsByBucket)) {
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, expiresIn);
+    if (error) {
+      console.error('Error signing document links:', error);
+    }
+
+    paths.forEach((path, index) => {
+      signed[getStorageUrl(bucket, path)] = data?.[index]?.signedUrl || '';
+    });
+  }
+
+  return urls.map((url) => {
+    if (!url) return '';
+    const object = parseStorageUrl(url);
+    return object ? signed[getStorageUrl(object.bucket, object.path)] ?? '' : signed[url];
   });
-  return data.publicUrl;
 };
 
-// Helper function to upload file with proper settings
+// Paths must start with the uploading student's id as a folder, the storage policies check it
 export const uploadFile = async (
   bucket: string,
   path: string,
@@ -131,7 +194,7 @@ export const uploadFile = async (
 
   return {
     data,
-    publicUrl: getPublicUrl(bucket, path),
+    fileUrl: getStorageUrl(bucket, path),
   };
 };
 
@@ -142,27 +205,42 @@ export type Database = {
         Row: {
           id: string;
           admin_code: string;
-          password_hash: string;
           name: string;
           email: string;
+          must_change_password: boolean;
+          role: string;
+          assigned_classes: string[];
+          is_active: boolean;
+          deactivated_at: string | null;
+          password_changed_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           admin_code: string;
-          password_hash: string;
           name: string;
           email: string;
+          must_change_password?: boolean;
+          role?: string;
+          assigned_classes?: string[];
+          is_active?: boolean;
+          deactivated_at?: string | null;
+          password_changed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           admin_code?: string;
-          password_hash?: string;
           name?: string;
           email?: string;
+          must_change_password?: boolean;
+          role?: string;
+          assigned_classes?: string[];
+          is_active?: boolean;
+          deactivated_at?: string | null;
+          password_changed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -178,6 +256,12 @@ export type Database = {
           year: string;
           gpa: number;
           total_credits: number;
+          registration_status: 'pending' | 'approved' | 'rejected';
+          id_proof_url: string | null;
+          rejection_reason: string | null;
+          registered_at: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -191,6 +275,12 @@ export type Database = {
           year?: string;
           gpa?: number;
           total_credits?: number;
+          registration_status?: 'pending' | 'approved' | 'rejected';
+          id_proof_url?: string | null;
+          rejection_reason?: string | null;
+          registered_at?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -204,6 +294,12 @@ export type Database = {
           year?: string;
           gpa?: number;
           total_credits?: number;
+          registration_status?: 'pending' | 'approved' | 'rejected';
+          id_proof_url?: string | null;
+          rejection_reason?: string | null;
+          registered_at?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -225,6 +321,15 @@ export type Database = {
           eligible_classes: string[];
           additional_requirements: { type: string; required: boolean }[];
           bucket_name: string;
+          status: 'draft' | 'open' | 'closed' | 'completed';
+          eligibility_criteria: EligibilityCriteria;
+          application_questions: ApplicationQuestion[];
+          archived_at: string | null;
+          archived_by: string | null;
+          tier: 'regular' | 'dream' | 'super_dream';
+          academic_year: string;
+          students_pick_slots: boolean;
+          company_id: string;
         };
         Insert: {
           id?: string;
@@ -242,6 +347,15 @@ export type Database = {
           eligible_classes?: string[];
           additional_requirements?: { type: string; required: boolean }[];
           bucket_name?: string;
+          status?: 'draft' | 'open' | 'closed' | 'completed';
+          eligibility_criteria?: EligibilityCriteria;
+          application_questions?: ApplicationQuestion[];
+          tier?: 'regular' | 'dream' | 'super_dream';
+          academic_year?: string;
+          students_pick_slots?: boolean;
+          company_id?: string;
+          archived_at?: string | null;
+          archived_by?: string | null;
         };
         Update: {
           id?: string;
@@ -259,6 +373,15 @@ export type Database = {
           eligible_classes?: string[];
           additional_requirements?: { type: string; required: boolean }[];
           bucket_name?: string;
+          status?: 'draft' | 'open' | 'closed' | 'completed';
+          eligibility_criteria?: EligibilityCriteria;
+          application_questions?: ApplicationQuestion[];
+          tier?: 'regular' | 'dream' | 'super_dream';
+          academic_year?: string;
+          students_pick_slots?: boolean;
+          company_id?: string;
+          archived_at?: string | null;
+          archived_by?: string | null;
         };
       };
       placement_requirements: {
@@ -296,6 +419,11 @@ export type Database = {
           applied_at: string;
           admin_notes: string;
           offer_letter_url?: string;
+          current_round_id?: string | null;
+          status_reason?: string | null;
+          status_changed_at?: string | null;
+          status_changed_by?: string | null;
+          answers: Record<string, ApplicationAnswer>;
           student_requirement_submissions?: {
             id: string;
             requirement_id: string;
@@ -315,6 +443,11 @@ export type Database = {
           applied_at?: string;
           admin_notes?: string;
           offer_letter_url?: string;
+          current_round_id?: string | null;
+          status_reason?: string | null;
+          status_changed_at?: string | null;
+          status_changed_by?: string | null;
+          answers?: Record<string, ApplicationAnswer>;
         };
         Update: {
           id?: string;
@@ -324,6 +457,358 @@ export type Database = {
           applied_at?: string;
           admin_notes?: string;
           offer_letter_url?: string;
+          current_round_id?: string | null;
+          status_reason?: string | null;
+          status_changed_at?: string | null;
+          status_changed_by?: string | null;
+          answers?: Record<string, ApplicationAnswer>;
+        };
+      };
+      placement_rounds: {
+        Row: {
+          id: string;
+          event_id: string;
+          name: string;
+          sequence: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          name: string;
+          sequence: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          name?: string;
+          sequence?: number;
+          created_at?: string;
+        };
+      };
+      placement_round_results: {
+        Row: {
+          id: string;
+          application_id: string;
+          round_id: string;
+          result: 'pending' | 'cleared' | 'not_cleared' | 'absent';
+          remarks: string | null;
+          recorded_by: string | null;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: string;
+          application_id: string;
+          round_id: string;
+          result?: 'pending' | 'cleared' | 'not_cleared' | 'absent';
+          remarks?: string | null;
+          recorded_by?: string | null;
+          recorded_at?: string;
+        };
+        Update: {
+          id?: string;
+          application_id?: string;
+          round_id?: string;
+          result?: 'pending' | 'cleared' | 'not_cleared' | 'absent';
+          remarks?: string | null;
+          recorded_by?: string | null;
+          recorded_at?: string;
+        };
+      };
+      placement_eligibility_overrides: {
+        Row: {
+          id: string;
+          event_id: string;
+          student_id: string;
+          justification: string;
+          granted_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          student_id: string;
+          justification: string;
+          granted_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          student_id?: string;
+          justification?: string;
+          granted_by?: string | null;
+          created_at?: string;
+        };
+      };
+      placement_offers: {
+        Row: {
+          id: string;
+          application_id: string;
+          role: string;
+          ctc_lpa: number;
+          location: string | null;
+          joining_date: string | null;
+          expires_at: string;
+          status: 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
+          decline_reason: string | null;
+          responded_at: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          application_id: string;
+          role: string;
+          ctc_lpa: number;
+          location?: string | null;
+          joining_date?: string | null;
+          expires_at: string;
+          status?: 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
+          decline_reason?: string | null;
+          responded_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          application_id?: string;
+          role?: string;
+          ctc_lpa?: number;
+          location?: string | null;
+          joining_date?: string | null;
+          expires_at?: string;
+          status?: 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
+          decline_reason?: string | null;
+          responded_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      placement_policies: {
+        Row: {
+          id: string;
+          academic_year: string;
+          one_offer_enabled: boolean;
+          tier_rules: PlacementTierRules;
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          academic_year: string;
+          one_offer_enabled?: boolean;
+          tier_rules?: PlacementTierRules;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          academic_year?: string;
+          one_offer_enabled?: boolean;
+          tier_rules?: PlacementTierRules;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      interview_slots: {
+        Row: {
+          id: string;
+          event_id: string;
+          starts_at: string;
+          ends_at: string;
+          panel: string | null;
+          location: string | null;
+          capacity: number;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          starts_at: string;
+          ends_at: string;
+          panel?: string | null;
+          location?: string | null;
+          capacity?: number;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          starts_at?: string;
+          ends_at?: string;
+          panel?: string | null;
+          location?: string | null;
+          capacity?: number;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      interview_bookings: {
+        Row: {
+          id: string;
+          slot_id: string;
+          application_id: string;
+          student_id: string;
+          reminder_sent_at: string | null;
+          booked_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          slot_id: string;
+          application_id: string;
+          student_id: string;
+          reminder_sent_at?: string | null;
+          booked_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          slot_id?: string;
+          application_id?: string;
+          student_id?: string;
+          reminder_sent_at?: string | null;
+          booked_by?: string | null;
+          created_at?: string;
+        };
+      };
+      calendar_feeds: {
+        Row: {
+          user_id: string;
+          token: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          token?: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          token?: string;
+          created_at?: string;
+        };
+      };
+      companies: {
+        Row: {
+          id: string;
+          name: string;
+          normalized_name: string;
+          sector: string | null;
+          website: string | null;
+          logo_url: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          sector?: string | null;
+          website?: string | null;
+          logo_url?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          sector?: string | null;
+          website?: string | null;
+          logo_url?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      company_contacts: {
+        Row: {
+          id: string;
+          company_id: string;
+          name: string;
+          designation: string | null;
+          email: string | null;
+          phone: string | null;
+          is_primary: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          company_id: string;
+          name: string;
+          designation?: string | null;
+          email?: string | null;
+          phone?: string | null;
+          is_primary?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          company_id?: string;
+          name?: string;
+          designation?: string | null;
+          email?: string | null;
+          phone?: string | null;
+          is_primary?: boolean;
+          created_at?: string;
+        };
+      };
+      requirement_types: {
+        Row: {
+          id: string;
+          key: string;
+          label: string;
+          description: string | null;
+          answer_kind: 'file' | 'text' | 'url';
+          allowed_mime_types: string[];
+          max_size_mb: number;
+          allow_multiple: boolean;
+          archived_at: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          key: string;
+          label: string;
+          description?: string | null;
+          answer_kind?: 'file' | 'text' | 'url';
+          allowed_mime_types?: string[];
+          max_size_mb?: number;
+          allow_multiple?: boolean;
+          archived_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          label?: string;
+          description?: string | null;
+          answer_kind?: 'file' | 'text' | 'url';
+          allowed_mime_types?: string[];
+          max_size_mb?: number;
+          allow_multiple?: boolean;
+          archived_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
         };
       };
       student_requirement_submissions: {
@@ -331,28 +816,40 @@ export type Database = {
           id: string;
           placement_application_id: string;
           requirement_id: string;
-          file_url: string;
-          submission_status: string;
+          file_url: string | null;
+          file_urls: string[];
+          answer: string | null;
+          submission_status: 'pending' | 'approved' | 'changes_requested';
           submitted_at: string;
-          admin_feedback: string;
+          admin_feedback: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
         };
         Insert: {
           id?: string;
           placement_application_id: string;
           requirement_id: string;
-          file_url: string;
-          submission_status?: string;
+          file_url?: string | null;
+          file_urls?: string[];
+          answer?: string | null;
+          submission_status?: 'pending' | 'approved' | 'changes_requested';
           submitted_at?: string;
-          admin_feedback?: string;
+          admin_feedback?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
         };
         Update: {
           id?: string;
           placement_application_id?: string;
           requirement_id?: string;
-          file_url?: string;
-          submission_status?: string;
+          file_url?: string | null;
+          file_urls?: string[];
+          answer?: string | null;
+          submission_status?: 'pending' | 'approved' | 'changes_requested';
           submitted_at?: string;
-          admin_feedback?: string;
+          admin_feedback?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
         };
       };
       student_profiles: {
@@ -368,6 +865,11 @@ export type Database = {
           resume_url: string;
           marksheet_10th_url: string;
           marksheet_12th_url: string;
+          percentage_10th: number | null;
+          percentage_12th: number | null;
+          degree_percentage: number | null;
+          active_backlogs: number;
+          graduation_year: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -630,6 +1132,7 @@ export type Database = {
           is_active: boolean;
           created_at: string;
           read_by: string[];
+          student_id: string | null;
         };
         Insert: {
           id?: string;
@@ -642,6 +1145,7 @@ export type Database = {
           is_active?: boolean;
           created_at?: string;
           read_by?: string[];
+          student_id?: string | null;
         };
         Update: {
           id?: string;
@@ -654,6 +1158,7 @@ export type Database = {
           is_active?: boolean;
           created_at?: string;
           read_by?: string[];
+          student_id?: string | null;
         };
       };
       notifications: {
@@ -668,6 +1173,7 @@ export type Database = {
           is_active: boolean;
           created_at: string;
           read_by: string[];
+          student_id: string | null;
         };
         Insert: {
           id?: string;
@@ -680,6 +1186,7 @@ export type Database = {
           is_active?: boolean;
           created_at?: string;
           read_by?: string[];
+          student_id?: string | null;
         };
         Update: {
           id?: string;
@@ -692,6 +1199,7 @@ export type Database = {
           is_active?: boolean;
           created_at?: string;
           read_by?: string[];
+          student_id?: string | null;
         };
       };
   };
@@ -1,3 +1,5 @@
+import { REQUIREMENT_FILE_KINDS } from '@/lib/constants';
+
 export const formatDate = (dateString: string) => {
   return new Date(dateString).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -6,16 +8,176 @@ export const formatDate = (dateString: string) => {
   });
 };
 
-export const getRequirementLabel = (type: string) => {
-  const labels: Record<string, string> = {
-    video_introduction: 'Video Introduction',
-    portfolio: 'Portfolio',
-    cover_letter: 'Cover Letter',
-    certificates: 'Certificates',
-    project_demo: 'Project Demo',
-    coding_sample: 'Coding Sample',
-  };
-  return labels[type] || type.replace('_', ' ').toUpperCase();
+export const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Parses "YYYY-MM-DD HH:MM" in local time; a date without a time means the end of that day
+export const parseDateTimeInput = (value: string) => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours = '23', minutes = '59'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  if (isNaN(date.getTime()) || date.getMonth() !== Number(month) - 1 || Number(hours) > 23 || Number(minutes) > 59) {
+    return null;
+  }
+  return date;
+};
+
+export const toDateTimeInput = (dateString: string) => {
+  const date = new Date(dateString);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const formatTimeRemaining = (dateString: string, now = Date.now()) => {
+  const minutes = Math.floor((new Date(dateString).getTime() - now) / 60000);
+  if (minutes < 0) return 'Closed';
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m left`;
+  return `${Math.max(minutes, 1)}m left`;
+};
+
+// Open events past their deadline count as closed even before the scheduled job closes them
+export const getPlacementEventStatus = (event: { status?: string; application_deadline?: string }) => {
+  const status = event.status || 'open';
+  if (status === 'open' && event.application_deadline && new Date(event.application_deadline).getTime() <= Date.now()) {
+    return 'closed';
+  }
+  return status;
+};
+
+// Offers are stored in lakhs per annum
+export const formatCtc = (ctcLpa: number) => `₹${Number(ctcLpa).toFixed(2).replace(/\.?0+$/, '')} LPA`;
+
+// Academic years run from June to May and are written like 2025-26, matching the database
+export const getAcademicYear = (date = new Date()) => {
+  const startYear = date.getMonth() >= 5 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export interface PlacementTierRule {
+  max_offer_ctc_lpa: number;
+  max_applications: number;
+}
+
+export type PlacementTierRules = Partial<Record<'dream' | 'super_dream', PlacementTierRule>>;
+
+export interface EligibilityCriteria {
+  min_percentage_10th?: number;
+  min_percentage_12th?: number;
+  min_degree_percentage?: number;
+  max_active_backlogs?: number;
+  streams_12th?: string[];
+  graduation_years?: number[];
+}
+
+// One line per criterion for event cards; eligible classes are shown separately
+export const describeEligibilityCriteria = (criteria?: EligibilityCriteria | null) => {
+  if (!criteria) return [];
+
+  const lines: string[] = [];
+  if (criteria.min_percentage_10th != null) lines.push(`10th: ${criteria.min_percentage_10th}% or above`);
+  if (criteria.min_percentage_12th != null) lines.push(`12th: ${criteria.min_percentage_12th}% or above`);
+  if (criteria.min_degree_percentage != null) lines.push(`Degree: ${criteria.min_degree_percentage}% or above`);
+  if (criteria.max_active_backlogs != null) {
+    lines.push(criteria.max_active_backlogs === 0 ? 'No active backlogs' : `At most ${criteria.max_active_backlogs} active backlogs`);
+  }
+  if (criteria.streams_12th?.length) lines.push(`12th stream: ${criteria.streams_12th.join(', ')}`);
+  if (criteria.graduation_years?.length) lines.push(`Graduating in ${criteria.graduation_years.join(', ')}`);
+  return lines;
+};
+
+// Documents and answers admins can ask for on placement events, see the requirement_types table
+export interface RequirementType {
+  id: string;
+  key: string;
+  label: string;
+  description?: string | null;
+  answer_kind: 'file' | 'text' | 'url';
+  allowed_mime_types: string[];
+  max_size_mb: number;
+  allow_multiple: boolean;
+  archived_at?: string | null;
+}
+
+export const getRequirementLabel = (type: string, requirementTypes: RequirementType[] = []) =>
+  requirementTypes.find(requirementType => requirementType.key === type)?.label
+    || type.replace(/_/g, ' ').toUpperCase();
+
+// `image/*` matches any image type and an empty list accepts everything, the same as the database
+export const isMimeTypeAllowed = (mimeType: string | undefined, allowed: string[]) =>
+  allowed.length === 0 || allowed.some(pattern => {
+    const type = (mimeType || '').toLowerCase();
+    return pattern.endsWith('/*')
+      ? type.startsWith(pattern.slice(0, -1).toLowerCase())
+      : type === pattern.toLowerCase();
+  });
+
+export const describeRequirementType = (requirementType: RequirementType) => {
+  if (requirementType.answer_kind === 'text') return 'Written answer';
+  if (requirementType.answer_kind === 'url') return 'Link';
+
+  const allowed = requirementType.allowed_mime_types;
+  const named = REQUIREMENT_FILE_KINDS.filter(kind => kind.mimeTypes.every(mimeType => allowed.includes(mimeType)));
+  const others = allowed.filter(mimeType => !named.some(kind => kind.mimeTypes.includes(mimeType)));
+  const kinds = allowed.length > 0
+    ? [...named.map(kind => kind.label), ...others].join(', ')
+    : 'Any file';
+  return `${kinds} up to ${requirementType.max_size_mb} MB${requirementType.allow_multiple ? ', several allowed' : ''}`;
+};
+
+// Questions students answer when applying to a placement event, see placement_events.application_questions
+export interface ApplicationQuestion {
+  id: string;
+  label: string;
+  kind: 'text' | 'number' | 'single_choice' | 'multi_choice';
+  options: string[];
+  required: boolean;
+}
+
+export type ApplicationAnswer = string | number | string[];
+
+// Same checks as the database, so students see what is missing before submitting
+export const getApplicationAnswerError = (
+  questions: ApplicationQuestion[],
+  answers: Record<string, ApplicationAnswer>
+) => {
+  for (const question of questions) {
+    const answer = answers[question.id];
+    const empty = answer == null || (Array.isArray(answer) ? answer.length === 0 : String(answer).trim() === '');
+
+    if (empty) {
+      if (question.required) return `${question.label} needs an answer`;
+      continue;
+    }
+    if (question.kind === 'number' && !Number.isFinite(Number(answer))) {
+      return `${question.label} must be a number`;
+    }
+    if (question.kind === 'single_choice' && !question.options.includes(String(answer))) {
+      return `Pick one of the choices for ${question.label}`;
+    }
+    if (question.kind === 'multi_choice'
+      && (!Array.isArray(answer) || answer.some(choice => !question.options.includes(choice)))) {
+      return `Pick from the listed choices for ${question.label}`;
+    }
+  }
+  return null;
+};
+
+export const formatApplicationAnswer = (answer?: ApplicationAnswer | null) => {
+  if (answer == null || answer === '') return '-';
+  return Array.isArray(answer) ? answer.join(', ') || '-' : String(answer);
 };
 
 export const getStatusColor = (status: string) => {
@@ -23,7 +185,20 @@ export const getStatusColor = (status: string) => {
     case 'accepted': return '#34C759';
     case 'rejected': return '#FF3B30';
     case 'applied': return '#007AFF';
+    case 'shortlisted': return '#AF52DE';
+    case 'withdrawn': return '#6B6B6B';
+    case 'declined': return '#FF3B30';
+    case 'expired': return '#6B6B6B';
+    case 'revoked': return '#6B6B6B';
+    case 'open': return '#34C759';
+    case 'closed': return '#FF3B30';
+    case 'completed': return '#007AFF';
+    case 'draft': return '#6B6B6B';
     case 'approved': return '#34C759';
+    case 'changes_requested': return '#FF3B30';
+    case 'cleared': return '#34C759';
+    case 'not_cleared': return '#FF3B30';
+    case 'absent': return '#6B6B6B';
     default: return '#FF9500';
   }
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+// iCalendar output for functions that serve calendars.
+//
+// Functions can't import the app's code, so this follows `buildIcsCalendar` in
+// lib/calendar.ts. Change both together so exported files and feeds look the same.
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  location?: string | null;
+  description?: string | null;
+}
+
+// iCalendar wants UTC times as 20250930T093000Z
+const toIcsDate = (dateString: string) =>
+  new Date(dateString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+export const buildIcsCalendar = (name: string, entries: CalendarEntry[]) => {
+  const stamp = toIcsDate(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Campus Connect//Placements//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}@campus-connect`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toIcsDate(entry.startsAt)}`,
+      `DTEND:${toIcsDate(entry.endsAt)}`,
+      `SUMMARY:${escapeIcsText(entry.title)}`,
+    );
+    if (entry.location) lines.push(`LOCATION:${escapeIcsText(entry.location)}`);
+    if (entry.description) lines.push(`DESCRIPTION:${escapeIcsText(entry.description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,75 @@
+// Failed-login counters shared by the admin-auth and student-auth functions.
+//
+// Counting happens in the database (`login_throttles`) so every function instance sees the
+// same numbers. Callers check `getRetryAfter` before verifying credentials, call
+// `recordFailure` when they are wrong and `clearFailures` after a successful login.
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type LoginKind = 'admin' | 'student';
+
+export const getRetryAfter = async (
+  supabase: SupabaseClient,
+  kind: LoginKind,
+  identifier: string,
+  deviceId: string | null
+) => {
+  const { data, error } = await supabase.rpc('login_retry_after', {
+    p_kind: kind,
+    p_identifier: identifier,
+    p_device: deviceId,
+  });
+
+  if (error) {
+    console.error('login_retry_after error:', error);
+    return 0;
+  }
+
+  return Number(data) || 0;
+};
+
+export const recordFailure = async (
+  supabase: SupabaseClient,
+  kind: LoginKind,
+  identifier: string,
+  deviceId: string | null
+) => {
+  const { data, error } = await supabase.rpc('record_login_failure', {
+    p_kind: kind,
+    p_identifier: identifier,
+    p_device: deviceId,
+  });
+
+  if (error) {
+    console.error('record_login_failure error:', error);
+    return 0;
+  }
+
+  return Number(data) || 0;
+};
+
+export const clearFailures = async (
+  supabase: SupabaseClient,
+  kind: LoginKind,
+  identifier: string,
+  deviceId: string | null
+) => {
+  const { error } = await supabase.rpc('clear_login_failures', {
+    p_kind: kind,
+    p_identifier: identifier,
+    p_device: deviceId,
+  });
+
+  if (error) {
+    console.error('clear_login_failures error:', error);
+  }
+};
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+};
+
+// Same wording whether or not the identifier exists, so lockouts don't reveal accounts
+export const lockedOutMessage = (retryAfter: number) =>
+  `Too many failed attempts. Please try again in ${formatWait(retryAfter)}.`;
@@ -0,0 +1,97 @@
+// Signs admins in with their admin code and password.
+//
+// The admin code is resolved to the auth email here, with the service role key, so the app
+// never learns which codes exist. Failed attempts are counted per admin code and per device
+// (see `_shared/login-throttle.ts`); once the limit is hit the function refuses to check the
+// password until the cooldown has passed. On success the session is returned and the app
+// installs it with `supabase.auth.setSession`. Supabase Auth refuses password logins that
+// don't come through here, so the Auth endpoints can't be used to skip the lockout.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { clearFailures, getRetryAfter, lockedOutMessage, recordFailure } from '../_shared/login-throttle.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Same response for an unknown code, a deactivated admin and a wrong password
+const INVALID_CREDENTIALS_MESSAGE = 'Invalid admin code or password';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const authClient = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_ANON_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const signIn = async (code: string, password: string, deviceId: string | null) => {
+  if (!code || !password) {
+    return json({ error: 'Please enter both admin code and password' }, 400);
+  }
+
+  const retryAfter = await getRetryAfter(supabase, 'admin', code, deviceId);
+  if (retryAfter > 0) {
+    return json({ error: lockedOutMessage(retryAfter), retryAfter }, 429);
+  }
+
+  // Also lets this one password check through the Auth hook (see login_tickets)
+  const { data: email } = await supabase.rpc('start_admin_login', { p_admin_code: code });
+
+  // An unknown code still costs a bcrypt hash, so it answers as slowly as a wrong password
+  const { data, error } = email
+    ? await authClient.auth.signInWithPassword({ email, password })
+    : await supabase.rpc('check_decoy_password', { p_password: password })
+      .then(() => ({ data: { session: null }, error: null }));
+
+  if (error || !data.session) {
+    const nextRetryAfter = await recordFailure(supabase, 'admin', code, deviceId);
+    return json({ error: INVALID_CREDENTIALS_MESSAGE, retryAfter: nextRetryAfter }, 401);
+  }
+
+  await clearFailures(supabase, 'admin', code, deviceId);
+
+  return json({
+    session: {
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+    },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const code = String(body.code || '').trim();
+    const password = String(body.password || '');
+    // Falls back to the client IP when the app couldn't store a device id
+    const deviceId = String(body.deviceId || '').trim()
+      || req.headers.get('x-forwarded-for')?.split(',')[0].trim()
+      || null;
+
+    switch (body.action) {
+      case 'sign_in':
+        return await signIn(code, password, deviceId);
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('admin-auth error:', error);
+    return json({ error: 'Login failed. Please try again.' }, 500);
+  }
+});
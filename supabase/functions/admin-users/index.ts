@@ -0,0 +1,242 @@
+// Admin account actions that need the service role key.
+//
+// Only callers whose JWT belongs to an admin with the `manage_admins` permission may use
+// it. `invite` and `reset_password` set a temporary password that the inviting admin
+// shares with the new admin, who must replace it on their first login. `set_active`
+// deactivates or reactivates an admin and bans or unbans their auth account so existing
+// sessions stop refreshing. Editing names, roles and classes goes straight through the
+// `admin_users` table policies.
+//
+// Service role writes skip the database audit trigger, so each action records its own
+// `audit_events` row attributed to the calling admin.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const ADMIN_ROLES = ['super_admin', 'placement_officer', 'internship_coordinator', 'class_teacher', 'auditor'];
+const CLASS_NAMES = ['SYIT', 'SYSD', 'TYIT', 'TYSD'];
+
+// Long enough to behave as permanent, Supabase Auth has no indefinite ban
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+// 14 characters without look-alikes such as 0/O and 1/l
+const generateTemporaryPassword = () => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(14));
+  return Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join('');
+};
+
+// Checks the caller's own JWT against the same permission the database policies use
+const getCallerId = async (req: Request) => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const callerClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { auth: { persistSession: false }, global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) return null;
+
+  const { data: allowed } = await callerClient.rpc('has_admin_permission', { p_permission: 'manage_admins' });
+  return allowed ? user.id : null;
+};
+
+const recordAuditEvent = async (
+  callerId: string,
+  action: string,
+  adminId: string,
+  before: unknown = null,
+  after: unknown = null
+) => {
+  const { data: caller } = await supabase
+    .from('admin_users')
+    .select('name, role')
+    .eq('id', callerId)
+    .maybeSingle();
+
+  const { error } = await supabase.from('audit_events').insert({
+    actor_id: callerId,
+    actor_name: caller?.name ?? null,
+    actor_role: caller?.role ?? null,
+    action,
+    entity: 'admin_users',
+    entity_id: adminId,
+    before_data: before,
+    after_data: after,
+  });
+
+  if (error) {
+    console.error('Audit event error:', error);
+  }
+};
+
+const invite = async (body: Record<string, any>, callerId: string) => {
+  const name = String(body.name || '').trim();
+  const email = String(body.email || '').trim().toLowerCase();
+  const adminCode = String(body.adminCode || '').trim();
+  const role = String(body.role || '');
+  const assignedClasses: string[] = Array.isArray(body.assignedClasses) ? body.assignedClasses : [];
+
+  if (!name || !email || !adminCode) {
+    return json({ error: 'Please fill in name, email and admin code' }, 400);
+  }
+
+  if (!ADMIN_ROLES.includes(role)) {
+    return json({ error: 'Please choose a valid role' }, 400);
+  }
+
+  if (role === 'class_teacher' && (assignedClasses.length === 0 || assignedClasses.some((c) => !CLASS_NAMES.includes(c)))) {
+    return json({ error: 'Class teachers need at least one valid class' }, 400);
+  }
+
+  // Separate lookups, since the code and the email may belong to two different admins
+  const [{ data: sameCode }, { data: sameEmail }] = await Promise.all([
+    supabase.from('admin_users').select('id').eq('admin_code', adminCode).limit(1),
+    supabase.from('admin_users').select('id').eq('email', email).limit(1),
+  ]);
+
+  if (sameCode?.length || sameEmail?.length) {
+    return json({ error: 'An admin with this code or email already exists' }, 409);
+  }
+
+  // The admin_users insert trigger provisions the matching auth account
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .insert({
+      id: crypto.randomUUID(),
+      name,
+      email,
+      admin_code: adminCode,
+      role,
+      assigned_classes: role === 'class_teacher' ? assignedClasses : [],
+      must_change_password: true,
+    })
+    .select('*')
+    .single();
+
+  // Another invite for the same code or email can land between the lookup and the insert
+  if (error?.code === '23505') {
+    return json({ error: 'An admin with this code or email already exists' }, 409);
+  }
+
+  if (error || !admin) {
+    console.error('Invite error:', error);
+    return json({ error: 'Could not create the admin. Please try again.' }, 500);
+  }
+
+  await recordAuditEvent(callerId, 'invite_admin', admin.id, null, admin);
+
+  const temporaryPassword = generateTemporaryPassword();
+  const { error: passwordError } = await supabase.auth.admin.updateUserById(admin.id, { password: temporaryPassword });
+
+  if (passwordError) {
+    console.error('Set password error:', passwordError);
+    return json({ error: 'Admin created, but the password could not be set. Use Reset Password.' }, 500);
+  }
+
+  return json({ id: admin.id, temporaryPassword });
+};
+
+const resetPassword = async (adminId: string, callerId: string) => {
+  const temporaryPassword = generateTemporaryPassword();
+  const { error } = await supabase.auth.admin.updateUserById(adminId, { password: temporaryPassword });
+
+  if (error) {
+    console.error('Reset password error:', error);
+    return json({ error: 'Could not reset the password. Please try again.' }, 500);
+  }
+
+  await supabase
+    .from('admin_users')
+    .update({ must_change_password: true, updated_at: new Date().toISOString() })
+    .eq('id', adminId);
+
+  await recordAuditEvent(callerId, 'reset_admin_password', adminId);
+
+  return json({ temporaryPassword });
+};
+
+const setActive = async (adminId: string, active: boolean, callerId: string) => {
+  if (adminId === callerId && !active) {
+    return json({ error: 'You cannot deactivate your own account' }, 400);
+  }
+
+  const { data: before } = await supabase
+    .from('admin_users')
+    .select('*')
+    .eq('id', adminId)
+    .maybeSingle();
+
+  const { data: after, error } = await supabase
+    .from('admin_users')
+    .update({ is_active: active, updated_at: new Date().toISOString() })
+    .eq('id', adminId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Set active error:', error);
+    return json({ error: error.message || 'Could not update the admin. Please try again.' }, 400);
+  }
+
+  const { error: banError } = await supabase.auth.admin.updateUserById(adminId, {
+    ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+  });
+
+  if (banError) {
+    console.error('Ban update error:', banError);
+  }
+
+  await recordAuditEvent(callerId, active ? 'reactivate_admin' : 'deactivate_admin', adminId, before, after);
+
+  return json({ success: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const callerId = await getCallerId(req);
+    if (!callerId) {
+      return json({ error: 'Only super admins can manage admin accounts' }, 403);
+    }
+
+    const body = await req.json();
+    const adminId = String(body.adminId || '');
+
+    switch (body.action) {
+      case 'invite':
+        return await invite(body, callerId);
+      case 'reset_password':
+        return adminId ? await resetPassword(adminId, callerId) : json({ error: 'Missing admin' }, 400);
+      case 'set_active':
+        return adminId ? await setActive(adminId, !!body.active, callerId) : json({ error: 'Missing admin' }, 400);
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('admin-users error:', error);
+    return json({ error: 'Request failed. Please try again.' }, 500);
+  }
+});
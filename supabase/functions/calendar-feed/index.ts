@@ -0,0 +1,77 @@
+// Serves a user's placement calendar as an iCalendar feed that calendar apps subscribe to.
+//
+// Calendar apps can't sign in, so the feed is found by the secret `token` in the link the
+// app hands out (see `get_calendar_feed_token`). The database builds the calendar as the
+// token's owner: students get their eligible drives, interviews and offers, placement
+// admins get the whole season. Resetting the link in the app makes old links stop working.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildIcsCalendar } from '../_shared/ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+interface CalendarRow {
+  entry_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  location: string | null;
+  description: string | null;
+}
+
+const text = (body: string, status = 200) =>
+  new Response(body, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') || '';
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return text('Calendar not found', 404);
+    }
+
+    const { data, error } = await supabase.rpc('get_calendar_feed', { p_token: token });
+    if (error) {
+      return text('Calendar not found', 404);
+    }
+
+    const calendar = buildIcsCalendar(
+      'Campus Connect Placements',
+      ((data || []) as CalendarRow[]).map(row => ({
+        uid: row.entry_id,
+        title: row.title,
+        startsAt: row.starts_at,
+        endsAt: row.ends_at,
+        location: row.location,
+        description: row.description,
+      }))
+    );
+
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="placements.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('calendar-feed error:', error);
+    return text('Request failed. Please try again.', 500);
+  }
+});
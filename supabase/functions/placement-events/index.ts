@@ -0,0 +1,244 @@
+// Placement event actions that need the service role key.
+//
+// Only callers whose JWT belongs to an admin with the `manage_placements` permission may
+// use it. `create` inserts an event with the caller's own token, so the table policies and
+// checks apply, then creates its private storage bucket and records the bucket's name; only
+// the service role may set it. An event whose bucket can't be set up is deleted again, since
+// its name can't be recorded later. `delete` removes an event that nobody has applied to,
+// together with its requirements and rounds, then empties and deletes the storage bucket
+// created for it. Supabase only lets buckets be created and removed through the Storage
+// API, which is why this isn't a database function. Events with applications are archived
+// from the app instead.
+//
+// Service role writes skip the database audit trigger, so deletes record their own
+// `audit_events` row attributed to the calling admin.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Per-event buckets are named from the company and creation time, e.g. `acme-corp-1727600000000`.
+// Only buckets named this way are deleted along with an event; shared buckets never are
+const EVENT_BUCKET_PATTERN = /^[a-z0-9-]+-\d{13}$/;
+
+// Same header the app sends to name audited changes, see lib/audit.ts
+const AUDIT_ACTION_HEADER = 'x-audit-action';
+
+const EVENT_BUCKET_OPTIONS = {
+  public: false,
+  allowedMimeTypes: [
+    'application/pdf',
+    'video/*',
+    'image/*',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+  fileSizeLimit: 52428800, // 50MB
+};
+
+// Fields the app may set when creating an event; the rest are managed by the database or here
+const EVENT_FIELDS = [
+  'title',
+  'description',
+  'company_id',
+  'company_name',
+  'requirements',
+  'eligible_classes',
+  'eligibility_criteria',
+  'application_questions',
+  'tier',
+  'academic_year',
+  'additional_requirements',
+  'event_date',
+  'application_deadline',
+  'status',
+];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+// Checks the caller's own JWT against the same permission the database policies use, and
+// returns the caller's id with a client acting as the caller
+const getCaller = async (req: Request) => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const callerClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { auth: { persistSession: false }, global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) return null;
+
+  const { data: allowed } = await callerClient.rpc('has_admin_permission', { p_permission: 'manage_placements' });
+  return allowed ? { id: user.id, client: callerClient } : null;
+};
+
+const recordAuditEvent = async (callerId: string, action: string, eventId: string, before: unknown) => {
+  const { data: caller } = await supabase
+    .from('admin_users')
+    .select('name, role')
+    .eq('id', callerId)
+    .maybeSingle();
+
+  const { error } = await supabase.from('audit_events').insert({
+    actor_id: callerId,
+    actor_name: caller?.name ?? null,
+    actor_role: caller?.role ?? null,
+    action,
+    entity: 'placement_events',
+    entity_id: eventId,
+    before_data: before,
+    after_data: null,
+  });
+
+  if (error) {
+    console.error('Audit event error:', error);
+  }
+};
+
+const removeBucket = async (bucketName: string) => {
+  const { error: emptyError } = await supabase.storage.emptyBucket(bucketName);
+  if (emptyError) return emptyError;
+
+  const { error } = await supabase.storage.deleteBucket(bucketName);
+  return error;
+};
+
+const eventBucketName = (companyName: string) => {
+  const slug = companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `${slug || 'event'}-${Date.now()}`;
+};
+
+const createEvent = async (caller: SupabaseClient, callerId: string, fields: Record<string, unknown>) => {
+  const values = Object.fromEntries(EVENT_FIELDS.filter(field => field in fields).map(field => [field, fields[field]]));
+
+  const { data: event, error } = await caller
+    .from('placement_events')
+    .insert({ ...values, is_active: true })
+    .setHeader(AUDIT_ACTION_HEADER, 'create_placement_event')
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create event error:', error);
+    // Checks raised by the database explain themselves, anything else is unexpected
+    return json({ error: error.code === 'P0001' ? error.message : 'Could not create the event. Please try again.' }, 400);
+  }
+
+  const bucketName = eventBucketName(String(event.company_name || ''));
+  const { error: bucketError } = await supabase.storage.createBucket(bucketName, EVENT_BUCKET_OPTIONS);
+  const { error: updateError } = bucketError
+    ? { error: null }
+    : await supabase.from('placement_events').update({ bucket_name: bucketName }).eq('id', event.id);
+
+  if (bucketError || updateError) {
+    console.error('Event bucket error:', bucketError || updateError);
+
+    if (!bucketError) {
+      const cleanupError = await removeBucket(bucketName);
+      if (cleanupError) console.error('Bucket cleanup error:', cleanupError);
+    }
+
+    const { error: deleteError } = await supabase.from('placement_events').delete().eq('id', event.id);
+    if (deleteError) {
+      console.error('Delete event error:', deleteError);
+      return json({ error: 'The event was created, but its storage could not be set up. Delete the event and create it again.' }, 500);
+    }
+
+    await recordAuditEvent(callerId, 'delete_placement_event', event.id, event);
+    return json({ error: 'Could not set up storage for the event, so it was not created. Please try again.' }, 500);
+  }
+
+  return json({ event: { ...event, bucket_name: bucketName } });
+};
+
+const deleteEvent = async (eventId: string, callerId: string) => {
+  const { data: event } = await supabase
+    .from('placement_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (!event) {
+    return json({ error: 'Placement event not found' }, 404);
+  }
+
+  const { count } = await supabase
+    .from('placement_applications')
+    .select('id', { count: 'exact', head: true })
+    .eq('placement_event_id', eventId);
+
+  if (count) {
+    return json({ error: 'Students have applied to this event, archive it instead' }, 409);
+  }
+
+  for (const table of ['placement_requirements', 'placement_rounds']) {
+    const { error } = await supabase.from(table).delete().eq('event_id', eventId);
+    if (error) {
+      console.error(`Delete ${table} error:`, error);
+      return json({ error: 'Could not delete the event. Please try again.' }, 500);
+    }
+  }
+
+  const { error } = await supabase.from('placement_events').delete().eq('id', eventId);
+  if (error) {
+    console.error('Delete event error:', error);
+    return json({ error: 'Could not delete the event. Please try again.' }, 500);
+  }
+
+  await recordAuditEvent(callerId, 'delete_placement_event', eventId, event);
+
+  if (event.bucket_name && EVENT_BUCKET_PATTERN.test(event.bucket_name)) {
+    const bucketError = await removeBucket(event.bucket_name);
+    if (bucketError) {
+      console.error('Bucket cleanup error:', bucketError);
+      return json({ success: true, warning: `The event was deleted, but its storage bucket ${event.bucket_name} could not be removed.` });
+    }
+  }
+
+  return json({ success: true });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req);
+    if (!caller) {
+      return json({ error: 'Only placement admins can manage placement events' }, 403);
+    }
+
+    const body = await req.json();
+    const eventId = String(body.eventId || '');
+
+    switch (body.action) {
+      case 'create':
+        return body.event && typeof body.event === 'object'
+          ? await createEvent(caller.client, caller.id, body.event) : json({ error: 'Missing event' }, 400);
+      case 'delete':
+        return eventId ? await deleteEvent(eventId, caller.id) : json({ error: 'Missing event' }, 400);
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('placement-events error:', error);
+    return json({ error: 'Request failed. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,408 @@
+// Compiles a placement event's applicants into one "resume book" PDF for recruiters.
+//
+// Only callers whose JWT belongs to an admin with the `view_placements` permission may use
+// it. Applications are read with the caller's own token, so class-scoped admins only get the
+// students they can already see. Resumes live in `student-documents`, which needs a
+// different permission, so they are downloaded with the service role key. Students set their
+// own resume link, so only files in their own `student-documents` folder are downloaded.
+//
+// The book has a cover page, a contents table with each applicant's name, class, UID, roll
+// number and first page, then every resume: PDFs are copied page by page and images are
+// placed on their own A4 page. Applicants without a readable resume stay in the contents
+// and are returned in `missing`. Each resume is added to the book as soon as it is downloaded,
+// so only one is held in memory at a time. Each book is saved to the private `resume-books` bucket
+// under its own name, so compiling one never replaces a book someone else is still downloading,
+// and the caller gets a signed link to it. Books older than the link expiry are removed.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const RESUME_BOOK_BUCKET = 'resume-books';
+const RESUME_BUCKET = 'student-documents';
+const RESUME_BOOK_LINK_EXPIRY_SECONDS = 60 * 60;
+const APPLICATION_STATUSES = ['pending', 'applied', 'shortlisted', 'waitlisted', 'accepted', 'rejected', 'withdrawn'];
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENTS_ROWS_PER_PAGE = 34;
+
+// Row shape of the applications query in buildResumeBook
+interface ApplicationRow {
+  student_id: string;
+  students: {
+    name: string | null;
+    uid: string | null;
+    roll_no: string | null;
+    student_profiles: ProfileRow | ProfileRow[] | null;
+  } | null;
+}
+
+interface ProfileRow {
+  full_name: string | null;
+  class: string | null;
+  resume_url: string | null;
+}
+
+interface Applicant {
+  studentId: string;
+  name: string;
+  className: string;
+  uid: string;
+  rollNo: string;
+  resumeUrl: string | null;
+}
+
+type Resume =
+  | { kind: 'pdf'; document: PDFDocument }
+  | { kind: 'image'; image: PDFImage }
+  | { kind: 'missing'; reason: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+// Checks the caller's own JWT against the same permission the database policies use, and
+// returns the caller's id with a client acting as the caller
+const getCaller = async (req: Request) => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const callerClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { auth: { persistSession: false }, global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user } } = await callerClient.auth.getUser();
+  if (!user) return null;
+
+  const { data: allowed } = await callerClient.rpc('has_admin_permission', { p_permission: 'view_placements' });
+  return allowed ? { id: user.id, client: callerClient } : null;
+};
+
+// Same format the app stores, see parseStorageUrl in lib/supabase.ts
+const parseStorageUrl = (url: string) => {
+  const match = url.match(/\/storage\/v1\/object\/(?:public|authenticated|sign)\/([^/]+)\/([^?]+)/);
+  if (!match) return null;
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+};
+
+// The standard fonts only cover Latin-1, anything else would stop the whole book
+const pdfText = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = pdfText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// Images are embedded straight away so a broken one counts as missing
+const loadResume = async (book: PDFDocument, applicant: Applicant): Promise<Resume> => {
+  if (!applicant.resumeUrl) return { kind: 'missing', reason: 'No resume uploaded' };
+
+  const object = parseStorageUrl(applicant.resumeUrl);
+  if (!object) return { kind: 'missing', reason: 'Resume is not stored in the app' };
+
+  const { data: owner } = await supabase.rpc('storage_object_owner', { p_name: object.path });
+  if (object.bucket !== RESUME_BUCKET || owner !== applicant.studentId) {
+    return { kind: 'missing', reason: 'Resume is not in the student\'s own documents' };
+  }
+
+  const { data, error } = await supabase.storage.from(object.bucket).download(object.path);
+  if (error || !data) return { kind: 'missing', reason: 'Resume could not be downloaded' };
+
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  const extension = object.path.split('.').pop()?.toLowerCase();
+  const type = data.type || '';
+
+  try {
+    if (type === 'application/pdf' || extension === 'pdf') {
+      return { kind: 'pdf', document: await PDFDocument.load(bytes, { ignoreEncryption: true }) };
+    }
+    if (type === 'image/png' || extension === 'png') {
+      return { kind: 'image', image: await book.embedPng(bytes) };
+    }
+    if (type === 'image/jpeg' || extension === 'jpg' || extension === 'jpeg') {
+      return { kind: 'image', image: await book.embedJpg(bytes) };
+    }
+  } catch (error) {
+    console.error('Resume read error:', error);
+    return { kind: 'missing', reason: 'Resume could not be read' };
+  }
+
+  return { kind: 'missing', reason: 'Resume is not a PDF, PNG or JPEG file' };
+};
+
+const addImagePage = (book: PDFDocument, image: PDFImage) => {
+  const page = book.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const scale = Math.min(
+    (PAGE_WIDTH - MARGIN * 2) / image.width,
+    (PAGE_HEIGHT - MARGIN * 2) / image.height,
+    1
+  );
+  const width = image.width * scale;
+  const height = image.height * scale;
+  page.drawImage(image, {
+    x: (PAGE_WIDTH - width) / 2,
+    y: (PAGE_HEIGHT - height) / 2,
+    width,
+    height,
+  });
+};
+
+const drawCover = (
+  page: PDFPage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  event: { title: string; company_name: string },
+  applicantCount: number,
+  statuses: string[]
+) => {
+  const width = PAGE_WIDTH - MARGIN * 2;
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 260, width: PAGE_WIDTH, height: 260, color: rgb(0.4, 0.49, 0.92) });
+  page.drawText(fitText(event.company_name, fonts.bold, 32, width), {
+    x: MARGIN, y: PAGE_HEIGHT - 130, size: 32, font: fonts.bold, color: rgb(1, 1, 1),
+  });
+  page.drawText(fitText(event.title, fonts.regular, 18, width), {
+    x: MARGIN, y: PAGE_HEIGHT - 170, size: 18, font: fonts.regular, color: rgb(1, 1, 1),
+  });
+  page.drawText('Resume Book', {
+    x: MARGIN, y: PAGE_HEIGHT - 330, size: 28, font: fonts.bold, color: rgb(0.11, 0.11, 0.12),
+  });
+
+  const details = [
+    `${applicantCount} applicant${applicantCount === 1 ? '' : 's'}`,
+    statuses.length > 0 ? `Applications: ${statuses.join(', ')}` : 'All applications',
+    `Compiled on ${new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}`,
+  ];
+  details.forEach((line, index) => {
+    page.drawText(fitText(line, fonts.regular, 14, width), {
+      x: MARGIN, y: PAGE_HEIGHT - 370 - index * 22, size: 14, font: fonts.regular, color: rgb(0.42, 0.42, 0.42),
+    });
+  });
+};
+
+const drawContentsPage = (
+  page: PDFPage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  rows: { applicant: Applicant; page: number | null }[],
+  firstNumber: number,
+  isFirst: boolean
+) => {
+  const columns = [
+    { label: 'No.', x: MARGIN, width: 28 },
+    { label: 'Name', x: MARGIN + 30, width: 170 },
+    { label: 'Class', x: MARGIN + 204, width: 50 },
+    { label: 'UID', x: MARGIN + 258, width: 90 },
+    { label: 'Roll No.', x: MARGIN + 352, width: 90 },
+    { label: 'Page', x: MARGIN + 446, width: 53 },
+  ];
+
+  let y = PAGE_HEIGHT - MARGIN - 10;
+  if (isFirst) {
+    page.drawText('Contents', { x: MARGIN, y, size: 22, font: fonts.bold, color: rgb(0.11, 0.11, 0.12) });
+  }
+  y -= 40;
+
+  columns.forEach(column => {
+    page.drawText(column.label, { x: column.x, y, size: 10, font: fonts.bold, color: rgb(0.42, 0.42, 0.42) });
+  });
+  y -= 8;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: rgb(0.9, 0.9, 0.92),
+  });
+  y -= 16;
+
+  rows.forEach((row, index) => {
+    const values = [
+      String(firstNumber + index),
+      row.applicant.name,
+      row.applicant.className,
+      row.applicant.uid,
+      row.applicant.rollNo,
+      row.page ? String(row.page) : 'No resume',
+    ];
+    columns.forEach((column, columnIndex) => {
+      page.drawText(fitText(values[columnIndex], fonts.regular, 10, column.width), {
+        x: column.x,
+        y,
+        size: 10,
+        font: fonts.regular,
+        color: columnIndex === 5 && !row.page ? rgb(1, 0.23, 0.19) : rgb(0.11, 0.11, 0.12),
+      });
+    });
+    y -= 20;
+  });
+};
+
+// Links last RESUME_BOOK_LINK_EXPIRY_SECONDS, so older books of the event can't be opened anymore
+const pruneResumeBooks = async (eventId: string, keepPath: string) => {
+  const { data: files, error } = await supabase.storage.from(RESUME_BOOK_BUCKET).list(eventId);
+  if (error) {
+    console.error('Resume book list error:', error);
+    return;
+  }
+
+  const cutoff = Date.now() - RESUME_BOOK_LINK_EXPIRY_SECONDS * 1000;
+  const stale = (files || [])
+    .filter(file => `${eventId}/${file.name}` !== keepPath)
+    .filter(file => !file.created_at || new Date(file.created_at).getTime() < cutoff)
+    .map(file => `${eventId}/${file.name}`);
+
+  if (stale.length > 0) {
+    const { error: removeError } = await supabase.storage.from(RESUME_BOOK_BUCKET).remove(stale);
+    if (removeError) console.error('Resume book cleanup error:', removeError);
+  }
+};
+
+const buildResumeBook = async (caller: SupabaseClient, callerId: string, eventId: string, statuses: string[]) => {
+  const { data: event } = await caller
+    .from('placement_events')
+    .select('id, title, company_name')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (!event) {
+    return json({ error: 'Placement event not found' }, 404);
+  }
+
+  let query = caller
+    .from('placement_applications')
+    .select('id, student_id, application_status, students!inner (name, uid, roll_no, student_profiles (full_name, class, resume_url))')
+    .eq('placement_event_id', eventId);
+  if (statuses.length > 0) {
+    query = query.in('application_status', statuses);
+  }
+
+  const { data: applications, error } = await query.returns<ApplicationRow[]>();
+  if (error) {
+    console.error('Load applications error:', error);
+    return json({ error: 'Could not load the applications. Please try again.' }, 500);
+  }
+
+  const applicants: Applicant[] = (applications || []).map((application) => {
+    const student = application.students;
+    const profile = Array.isArray(student?.student_profiles) ? student.student_profiles[0] : student?.student_profiles;
+    return {
+      studentId: application.student_id,
+      name: profile?.full_name || student?.name || 'Unknown',
+      className: profile?.class || '-',
+      uid: student?.uid || '-',
+      rollNo: student?.roll_no || '-',
+      resumeUrl: profile?.resume_url || null,
+    };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  if (applicants.length === 0) {
+    return json({ error: 'No applications match the selected statuses' }, 404);
+  }
+
+  const book = await PDFDocument.create();
+  book.setTitle(pdfText(`${event.company_name} - ${event.title} Resume Book`));
+  const fonts = {
+    regular: await book.embedFont(StandardFonts.Helvetica),
+    bold: await book.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  // The cover and contents come first; the contents pages are reserved now and filled in once
+  // every resume has been added and its first page is known
+  drawCover(book.addPage([PAGE_WIDTH, PAGE_HEIGHT]), fonts, event, applicants.length, statuses);
+  const contentsPages = Array.from(
+    { length: Math.ceil(applicants.length / CONTENTS_ROWS_PER_PAGE) },
+    () => book.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  );
+
+  const startPages: (number | null)[] = [];
+  const missing: { name: string; reason: string }[] = [];
+  for (const applicant of applicants) {
+    const resume = await loadResume(book, applicant);
+    if (resume.kind === 'missing') {
+      startPages.push(null);
+      missing.push({ name: applicant.name, reason: resume.reason });
+      continue;
+    }
+
+    startPages.push(book.getPageCount() + 1);
+    if (resume.kind === 'pdf') {
+      const pages = await book.copyPages(resume.document, resume.document.getPageIndices());
+      pages.forEach(page => book.addPage(page));
+    } else {
+      addImagePage(book, resume.image);
+    }
+  }
+
+  contentsPages.forEach((page, index) => {
+    const first = index * CONTENTS_ROWS_PER_PAGE;
+    const rows = applicants
+      .slice(first, first + CONTENTS_ROWS_PER_PAGE)
+      .map((applicant, offset) => ({ applicant, page: startPages[first + offset] }));
+    drawContentsPage(page, fonts, rows, first + 1, index === 0);
+  });
+
+  const path = `${eventId}/${callerId}-${Date.now()}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(RESUME_BOOK_BUCKET)
+    .upload(path, await book.save(), { contentType: 'application/pdf' });
+
+  if (uploadError) {
+    console.error('Resume book upload error:', uploadError);
+    return json({ error: 'Could not save the resume book. Please try again.' }, 500);
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(RESUME_BOOK_BUCKET)
+    .createSignedUrl(path, RESUME_BOOK_LINK_EXPIRY_SECONDS);
+
+  if (signError || !signed) {
+    console.error('Resume book link error:', signError);
+    return json({ error: 'Could not open the resume book. Please try again.' }, 500);
+  }
+
+  await pruneResumeBooks(eventId, path);
+
+  return json({ url: signed.signedUrl, included: applicants.length - missing.length, missing });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req);
+    if (!caller) {
+      return json({ error: 'Only placement admins can compile resume books' }, 403);
+    }
+
+    const body = await req.json();
+    const eventId = String(body.eventId || '');
+    const statuses: string[] = Array.isArray(body.statuses)
+      ? body.statuses.filter((status: unknown) => APPLICATION_STATUSES.includes(String(status)))
+      : [];
+
+    return eventId ? await buildResumeBook(caller.client, caller.id, eventId, statuses) : json({ error: 'Missing event' }, 400);
+  } catch (error) {
+    console.error('resume-book error:', error);
+    return json({ error: 'Request failed. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,268 @@
+// Starts Supabase Auth sessions for students.
+//
+// Students have no password. `send_code` checks their UID and email with the service
+// role key and, within the rate limits below, has Supabase Auth email them a one-time
+// code. `verify_code` exchanges that code for a session, which the app installs with
+// `supabase.auth.setSession`. Wrong codes are counted per email and per device (see
+// `_shared/login-throttle.ts`), and a locked out email gets neither new codes nor checks.
+// Codes verified with Supabase Auth directly don't get a session, so the lockout can't be skipped.
+//
+// `register` creates a student whose registration stays pending until an admin approves it.
+// It also returns a signed upload URL for the ID proof, since the student has no session yet.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { clearFailures, getRetryAfter, lockedOutMessage, recordFailure } from '../_shared/login-throttle.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Per email and per client IP, over a rolling window. Registrations count against the same
+// limits, since each one sends a code
+const CODE_REQUEST_WINDOW_MINUTES = 15;
+const MAX_CODE_REQUESTS_PER_EMAIL = 3;
+const MAX_CODE_REQUESTS_PER_IP = 10;
+
+// Same response whether or not the details match, so accounts can't be probed
+const CODE_SENT_MESSAGE = 'If these details match a student account, a login code has been sent to the email address.';
+
+const INVALID_CODE_MESSAGE = 'Invalid or expired code. Please check the code or request a new one.';
+
+const CLASS_NAMES = ['SYIT', 'SYSD', 'TYIT', 'TYSD'];
+const ID_PROOF_BUCKET = 'student-documents';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+// Sends the OTP email through Supabase Auth, which also enforces the code expiry
+const authClient = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_ANON_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const isRateLimited = async (email: string, ip: string | null) => {
+  const since = new Date(Date.now() - CODE_REQUEST_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const { count: emailCount } = await supabase
+    .from('student_otp_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('email', email.toLowerCase())
+    .gte('requested_at', since);
+
+  if ((emailCount ?? 0) >= MAX_CODE_REQUESTS_PER_EMAIL) return true;
+
+  if (ip) {
+    const { count: ipCount } = await supabase
+      .from('student_otp_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('ip_address', ip)
+      .gte('requested_at', since);
+
+    if ((ipCount ?? 0) >= MAX_CODE_REQUESTS_PER_IP) return true;
+  }
+
+  return false;
+};
+
+const sendCode = async (email: string) => {
+  const { error } = await authClient.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false },
+  });
+
+  if (error) {
+    console.error('signInWithOtp error:', error);
+    return false;
+  }
+
+  return true;
+};
+
+const requestCode = async (uid: string, email: string, ip: string | null, deviceId: string | null) => {
+  if (!uid || !email) {
+    return json({ error: 'Please enter both UID and email' }, 400);
+  }
+
+  const retryAfter = await getRetryAfter(supabase, 'student', email, deviceId);
+  if (retryAfter > 0) {
+    return json({ error: lockedOutMessage(retryAfter), retryAfter }, 429);
+  }
+
+  if (await isRateLimited(email, ip)) {
+    return json({
+      error: `Too many code requests. Please wait ${CODE_REQUEST_WINDOW_MINUTES} minutes and try again.`,
+      retryAfter: CODE_REQUEST_WINDOW_MINUTES * 60,
+    }, 429);
+  }
+
+  await supabase.from('student_otp_requests').insert({ email: email.toLowerCase(), ip_address: ip });
+  await supabase.rpc('prune_student_otp_requests');
+
+  const { data: student, error } = await supabase
+    .from('students')
+    .select('id, uid, email')
+    .eq('uid', uid)
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Student lookup error:', error);
+    return json({ error: 'Login failed. Please try again.' }, 500);
+  }
+
+  if (student && !(await sendCode(student.email))) {
+    return json({ error: 'Could not send the login code. Please try again.' }, 500);
+  }
+
+  return json({ message: CODE_SENT_MESSAGE });
+};
+
+const verifyCode = async (email: string, code: string, deviceId: string | null) => {
+  if (!email || !code) {
+    return json({ error: 'Please enter the login code' }, 400);
+  }
+
+  const retryAfter = await getRetryAfter(supabase, 'student', email, deviceId);
+  if (retryAfter > 0) {
+    return json({ error: lockedOutMessage(retryAfter), retryAfter }, 429);
+  }
+
+  // Supabase Auth only issues a session for the code with this ticket (see login_tickets)
+  await supabase.rpc('issue_login_ticket', { p_email: email });
+  const { data, error } = await authClient.auth.verifyOtp({ email, token: code, type: 'email' });
+
+  if (error || !data.session) {
+    await supabase.rpc('revoke_login_ticket', { p_email: email });
+    const nextRetryAfter = await recordFailure(supabase, 'student', email, deviceId);
+    return json({ error: INVALID_CODE_MESSAGE, retryAfter: nextRetryAfter }, 401);
+  }
+
+  await clearFailures(supabase, 'student', email, deviceId);
+
+  return json({
+    session: {
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+    },
+  });
+};
+
+const register = async (body: Record<string, string>, ip: string | null, deviceId: string | null) => {
+  const { name, uid, email, rollNo, className } = body;
+  const idProofExtension = String(body.idProofName || '').split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'pdf';
+
+  if (!name || !uid || !email || !rollNo || !body.idProofName) {
+    return json({ error: 'Please fill in all fields and attach your ID proof' }, 400);
+  }
+
+  if (!CLASS_NAMES.includes(className)) {
+    return json({ error: 'Please choose your class' }, 400);
+  }
+
+  // Checked before the student and their auth account are created, not only when the code is sent
+  if (await isRateLimited(email, ip)) {
+    return json({
+      error: `Too many registration attempts. Please wait ${CODE_REQUEST_WINDOW_MINUTES} minutes and try again.`,
+      retryAfter: CODE_REQUEST_WINDOW_MINUTES * 60,
+    }, 429);
+  }
+
+  // Separate lookups, since the UID and the email may belong to two different students
+  const [{ data: sameUid }, { data: sameEmail }] = await Promise.all([
+    supabase.from('students').select('id').eq('uid', uid).limit(1),
+    supabase.from('students').select('id').eq('email', email).limit(1),
+  ]);
+
+  if (sameUid?.length || sameEmail?.length) {
+    return json({ error: 'Student with this UID or email already exists' }, 409);
+  }
+
+  // ID proofs live in the student's own folder like their other documents
+  const id = crypto.randomUUID();
+  const idProofPath = `${id}/id_proof_${Date.now()}.${idProofExtension}`;
+
+  // The students insert trigger provisions the matching auth account
+  const { data: student, error } = await supabase
+    .from('students')
+    .insert({
+      id,
+      name,
+      uid,
+      email,
+      roll_no: rollNo,
+      class: className,
+      total_credits: 0,
+      registration_status: 'pending',
+      registered_at: new Date().toISOString(),
+      id_proof_url: `${Deno.env.get('SUPABASE_URL')}/storage/v1/object/authenticated/${ID_PROOF_BUCKET}/${idProofPath}`,
+    })
+    .select('id, email')
+    .single();
+
+  // Another registration for the same UID or email can land between the lookup and the insert
+  if (error?.code === '23505') {
+    return json({ error: 'Student with this UID or email already exists' }, 409);
+  }
+
+  if (error || !student) {
+    console.error('Registration error:', error);
+    return json({ error: 'Registration failed. Please try again.' }, 500);
+  }
+
+  const { data: upload, error: uploadError } = await supabase.storage
+    .from(ID_PROOF_BUCKET)
+    .createSignedUploadUrl(idProofPath);
+
+  if (uploadError || !upload) {
+    console.error('ID proof upload URL error:', uploadError);
+  }
+
+  // New accounts verify their email with a code like any other login
+  const codeResponse = await requestCode(uid, student.email, ip, deviceId);
+  const codeResult = await codeResponse.json();
+
+  return json({
+    ...codeResult,
+    idProofUpload: upload ? { bucket: ID_PROOF_BUCKET, path: upload.path, token: upload.token } : null,
+  }, codeResponse.status);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const uid = String(body.uid || '').trim();
+    const email = String(body.email || '').trim();
+    const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+    // Falls back to the client IP when the app couldn't store a device id
+    const deviceId = String(body.deviceId || '').trim() || ip;
+
+    switch (body.action) {
+      case 'send_code':
+        return await requestCode(uid, email, ip, deviceId);
+      case 'verify_code':
+        return await verifyCode(email, String(body.code || '').trim(), deviceId);
+      case 'register':
+        return await register({ ...body, uid, email }, ip, deviceId);
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('student-auth error:', error);
+    return json({ error: 'Request failed. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+/*
+  # Hash admin passwords with pgcrypto
+
+  1. Schema Changes
+    - Enable the `pgcrypto` extension
+    - Add `must_change_password` and `password_changed_at` columns to `admin_users`
+    - Add a trigger that bcrypt-hashes `password_hash` whenever a plaintext value is written
+
+  2. Data Migration
+    - Rehash every existing plaintext password with a per-row salt
+    - Flag rehashed admins so they must pick a new password on their next login
+
+  3. Functions
+    - `verify_admin_password` checks an admin code and password and returns the admin without the hash
+    - `change_admin_password` requires the current password before storing a new one
+
+  4. Security
+    - Both functions are SECURITY DEFINER so the client never reads `password_hash`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Add password lifecycle columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'must_change_password'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN must_change_password boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'password_changed_at'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN password_changed_at timestamptz;
+  END IF;
+END $$;
+
+-- Rehash existing plaintext passwords (bcrypt hashes start with $2)
+UPDATE admin_users
+SET password_hash = crypt(password_hash, gen_salt('bf', 10)),
+    must_change_password = true
+WHERE password_hash NOT LIKE '$2%';
+
+-- Hash any plaintext password written directly, e.g. when an admin is created by hand in SQL
+CREATE OR REPLACE FUNCTION hash_admin_password()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.password_hash IS NOT NULL AND NEW.password_hash NOT LIKE '$2%' THEN
+    NEW.password_hash := crypt(NEW.password_hash, gen_salt('bf', 10));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_users_hash_password ON admin_users;
+CREATE TRIGGER admin_users_hash_password
+  BEFORE INSERT OR UPDATE OF password_hash ON admin_users
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_admin_password();
+
+-- Verify an admin's credentials without exposing the stored hash
+CREATE OR REPLACE FUNCTION verify_admin_password(p_admin_code text, p_password text)
+RETURNS TABLE (
+  id uuid,
+  admin_code text,
+  name text,
+  email text,
+  must_change_password boolean
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT a.id, a.admin_code, a.name, a.email, a.must_change_password
+  FROM admin_users a
+  WHERE a.admin_code = p_admin_code
+    AND a.password_hash = crypt(p_password, a.password_hash);
+$$;
+
+-- Change an admin's password after checking the current one
+CREATE OR REPLACE FUNCTION change_admin_password(
+  p_admin_id uuid,
+  p_current_password text,
+  p_new_password text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF length(coalesce(p_new_password, '')) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  UPDATE admin_users
+  SET password_hash = crypt(p_new_password, gen_salt('bf', 10)),
+      must_change_password = false,
+      password_changed_at = now(),
+      updated_at = now()
+  WHERE id = p_admin_id
+    AND password_hash = crypt(p_current_password, password_hash);
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_admin_password(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_admin_password(uuid, text, text) TO anon, authenticated;
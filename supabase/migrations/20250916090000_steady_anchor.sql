@@ -0,0 +1,299 @@
+/*
+  # Back student and admin logins with Supabase Auth
+
+  1. Auth Accounts
+    - `provision_auth_user` creates (or updates) an `auth.users` row whose id equals the
+      `students.id` / `admin_users.id`, with the role stored in `app_metadata.role`
+    - Existing students and admins are backfilled; admins keep their bcrypt password hash
+    - Triggers provision an auth account for every new student or admin row
+
+  2. Schema Changes
+    - `students.id` and `admin_users.id` reference `auth.users(id)`
+    - `admin_users.password_hash` is dropped, `auth.users` now holds the password
+
+  3. Functions
+    - `auth_role()`, `is_admin()` and `is_student()` read the role claim from the JWT
+    - `admin_login_email` resolves an admin code to the email used for sign-in
+    - `change_admin_password` now checks and updates the signed-in admin's auth password
+
+  4. Security
+    - Row level policies on the core tables key off `auth.uid()` and the role claim
+*/
+
+-- Create or update the auth account linked to a student or admin row
+CREATE OR REPLACE FUNCTION provision_auth_user(
+  p_id uuid,
+  p_email text,
+  p_role text,
+  p_encrypted_password text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+BEGIN
+  INSERT INTO auth.users (
+    instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+    raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+    confirmation_token, recovery_token, email_change_token_new, email_change
+  )
+  VALUES (
+    '00000000-0000-0000-0000-000000000000', p_id, 'authenticated', 'authenticated',
+    lower(p_email), coalesce(p_encrypted_password, ''), now(),
+    jsonb_build_object('provider', 'email', 'providers', jsonb_build_array('email'), 'role', p_role),
+    '{}'::jsonb, now(), now(), '', '', '', ''
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    raw_app_meta_data = coalesce(auth.users.raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', p_role),
+    updated_at = now();
+
+  INSERT INTO auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+  VALUES (
+    gen_random_uuid(), p_id, p_id::text,
+    jsonb_build_object('sub', p_id::text, 'email', lower(p_email), 'email_verified', true),
+    'email', now(), now(), now()
+  )
+  ON CONFLICT (provider_id, provider) DO UPDATE SET
+    identity_data = EXCLUDED.identity_data,
+    updated_at = now();
+END;
+$$;
+
+-- Backfill auth accounts for existing rows
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, email FROM students LOOP
+    PERFORM provision_auth_user(r.id, r.email, 'student');
+  END LOOP;
+
+  FOR r IN SELECT id, email, password_hash FROM admin_users LOOP
+    PERFORM provision_auth_user(r.id, r.email, 'admin', r.password_hash);
+  END LOOP;
+END $$;
+
+-- Provision auth accounts for new rows (bulk import, registration, manual inserts)
+CREATE OR REPLACE FUNCTION provision_student_auth_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+BEGIN
+  PERFORM provision_auth_user(NEW.id, NEW.email, 'student');
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION provision_admin_auth_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+BEGIN
+  PERFORM provision_auth_user(NEW.id, NEW.email, 'admin');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS students_provision_auth_user ON students;
+CREATE TRIGGER students_provision_auth_user
+  BEFORE INSERT OR UPDATE OF email ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION provision_student_auth_user();
+
+DROP TRIGGER IF EXISTS admin_users_provision_auth_user ON admin_users;
+CREATE TRIGGER admin_users_provision_auth_user
+  BEFORE INSERT OR UPDATE OF email ON admin_users
+  FOR EACH ROW
+  EXECUTE FUNCTION provision_admin_auth_user();
+
+-- Link profile rows to their auth accounts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'students_id_auth_users_fkey'
+  ) THEN
+    ALTER TABLE students ADD CONSTRAINT students_id_auth_users_fkey
+    FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'admin_users_id_auth_users_fkey'
+  ) THEN
+    ALTER TABLE admin_users ADD CONSTRAINT admin_users_id_auth_users_fkey
+    FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+  END IF;
+END $$;
+
+-- Passwords now live in auth.users
+DROP FUNCTION IF EXISTS verify_admin_password(text, text);
+DROP TRIGGER IF EXISTS admin_users_hash_password ON admin_users;
+DROP FUNCTION IF EXISTS hash_admin_password();
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'password_hash'
+  ) THEN
+    ALTER TABLE admin_users DROP COLUMN password_hash;
+  END IF;
+END $$;
+
+-- Role helpers backed by the JWT's app_metadata.role claim
+CREATE OR REPLACE FUNCTION auth_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '');
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth_role() = 'admin';
+$$;
+
+CREATE OR REPLACE FUNCTION is_student()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth_role() = 'student';
+$$;
+
+-- Admins sign in with their admin code, which maps to the email on their auth account
+CREATE OR REPLACE FUNCTION admin_login_email(p_admin_code text)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email FROM admin_users WHERE admin_code = p_admin_code;
+$$;
+
+DROP FUNCTION IF EXISTS change_admin_password(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION change_admin_password(p_current_password text, p_new_password text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change an admin password';
+  END IF;
+
+  IF length(coalesce(p_new_password, '')) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  UPDATE auth.users
+  SET encrypted_password = crypt(p_new_password, gen_salt('bf', 10)),
+      updated_at = now()
+  WHERE id = auth.uid()
+    AND encrypted_password = crypt(p_current_password, encrypted_password);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE admin_users
+  SET must_change_password = false,
+      password_changed_at = now(),
+      updated_at = now()
+  WHERE id = auth.uid();
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_login_email(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_admin_password(text, text) TO authenticated;
+
+-- Row level policies keyed off the signed-in account
+ALTER TABLE students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE placement_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_requirement_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own record" ON students;
+DROP POLICY IF EXISTS "Admins manage students" ON students;
+DROP POLICY IF EXISTS "Admins read admin users" ON admin_users;
+DROP POLICY IF EXISTS "Admins update own admin record" ON admin_users;
+DROP POLICY IF EXISTS "Students manage own profile" ON student_profiles;
+DROP POLICY IF EXISTS "Admins manage student profiles" ON student_profiles;
+DROP POLICY IF EXISTS "Students manage own applications" ON placement_applications;
+DROP POLICY IF EXISTS "Admins manage applications" ON placement_applications;
+DROP POLICY IF EXISTS "Students manage own submissions" ON student_requirement_submissions;
+DROP POLICY IF EXISTS "Admins manage submissions" ON student_requirement_submissions;
+
+CREATE POLICY "Students read own record" ON students
+FOR SELECT TO authenticated
+USING (id = auth.uid());
+
+CREATE POLICY "Admins manage students" ON students
+FOR ALL TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE POLICY "Admins read admin users" ON admin_users
+FOR SELECT TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins update own admin record" ON admin_users
+FOR UPDATE TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Students manage own profile" ON student_profiles
+FOR ALL TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid());
+
+CREATE POLICY "Admins manage student profiles" ON student_profiles
+FOR ALL TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE POLICY "Students manage own applications" ON placement_applications
+FOR ALL TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid());
+
+CREATE POLICY "Admins manage applications" ON placement_applications
+FOR ALL TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE POLICY "Students manage own submissions" ON student_requirement_submissions
+FOR ALL TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = placement_application_id AND pa.student_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = placement_application_id AND pa.student_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins manage submissions" ON student_requirement_submissions
+FOR ALL TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin());
@@ -0,0 +1,33 @@
+/*
+  # Track student login code requests
+
+  1. New Tables
+    - `student_otp_requests` records every one-time code request made through the
+      `student-auth` edge function, with the email and client IP
+
+  2. Rate Limiting
+    - The edge function counts recent rows per email and per IP before sending a code
+    - Rows older than a day are pruned by `prune_student_otp_requests`
+
+  3. Security
+    - RLS is enabled with no policies, so only the service role can read or write
+*/
+
+CREATE TABLE IF NOT EXISTS student_otp_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  ip_address text,
+  requested_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_otp_requests_email ON student_otp_requests (email, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_student_otp_requests_ip ON student_otp_requests (ip_address, requested_at DESC);
+
+ALTER TABLE student_otp_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION prune_student_otp_requests()
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM student_otp_requests WHERE requested_at < now() - interval '1 day';
+$$;
@@ -0,0 +1,355 @@
+/*
+  # Granular admin roles
+
+  1. Schema Changes
+    - `admin_users.role` is one of `super_admin`, `placement_officer`, `internship_coordinator`,
+      `class_teacher` or `auditor`; existing admins become super admins
+    - `admin_users.assigned_classes` lists the classes a class teacher is scoped to (e.g. TYIT)
+    - `admin_users.is_active` and `deactivated_at` let admins be deactivated instead of deleted
+
+  2. Functions
+    - `is_admin()` now also requires an active `admin_users` row
+    - `current_admin_role()`, `has_admin_permission()`, `admin_can_access_class()` and
+      `admin_can_access_student()` mirror the role table in `lib/permissions.ts`
+    - `admin_login_email` ignores deactivated admins
+    - A trigger stops admins without `manage_admins` from changing roles, classes or status,
+      and keeps at least one active super admin
+
+  3. Security
+    - Admin policies are split into read policies (any active admin, scoped by class for class
+      teachers) and write policies keyed off the permission each screen needs
+    - Placement events, requirements and internship tables get row level security
+*/
+
+-- Role, class scope and status columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN role text NOT NULL DEFAULT 'super_admin';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'assigned_classes'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN assigned_classes text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'is_active'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN is_active boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'admin_users' AND column_name = 'deactivated_at'
+  ) THEN
+    ALTER TABLE admin_users ADD COLUMN deactivated_at timestamptz;
+  END IF;
+END $$;
+
+-- Admins created before roles existed keep full access
+UPDATE admin_users
+SET role = 'super_admin'
+WHERE role IS NULL
+   OR role NOT IN ('super_admin', 'placement_officer', 'internship_coordinator', 'class_teacher', 'auditor');
+
+-- New admins start read-only until a super admin picks their role
+ALTER TABLE admin_users ALTER COLUMN role SET DEFAULT 'auditor';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'admin_users_role_check'
+  ) THEN
+    ALTER TABLE admin_users ADD CONSTRAINT admin_users_role_check
+    CHECK (role = ANY (ARRAY['super_admin'::text, 'placement_officer'::text, 'internship_coordinator'::text, 'class_teacher'::text, 'auditor'::text]));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'admin_users_assigned_classes_check'
+  ) THEN
+    ALTER TABLE admin_users ADD CONSTRAINT admin_users_assigned_classes_check
+    CHECK (assigned_classes <@ ARRAY['SYIT'::text, 'SYSD'::text, 'TYIT'::text, 'TYSD'::text]);
+  END IF;
+END $$;
+
+-- Role helpers. SECURITY DEFINER so policies on admin_users can call them without recursing.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth_role() = 'admin'
+    AND EXISTS (SELECT 1 FROM admin_users WHERE id = auth.uid() AND is_active);
+$$;
+
+CREATE OR REPLACE FUNCTION current_admin_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM admin_users
+  WHERE id = auth.uid() AND is_active AND auth_role() = 'admin';
+$$;
+
+CREATE OR REPLACE FUNCTION has_admin_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(
+    CASE current_admin_role()
+      WHEN 'super_admin' THEN true
+      WHEN 'placement_officer' THEN p_permission IN (
+        'view_students', 'view_placements', 'manage_placements', 'view_analytics'
+      )
+      WHEN 'internship_coordinator' THEN p_permission IN (
+        'view_students', 'view_internships', 'manage_internships', 'view_analytics'
+      )
+      WHEN 'class_teacher' THEN p_permission IN (
+        'view_students', 'manage_students', 'view_internships', 'manage_internships'
+      )
+      WHEN 'auditor' THEN p_permission IN (
+        'view_students', 'view_placements', 'view_internships', 'view_analytics'
+      )
+      ELSE false
+    END,
+    false
+  );
+$$;
+
+-- Class teachers are limited to their assigned classes, other roles see every class
+CREATE OR REPLACE FUNCTION admin_can_access_class(p_class text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE id = auth.uid()
+      AND is_active
+      AND (role <> 'class_teacher' OR upper(coalesce(p_class, '')) = ANY (assigned_classes))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION admin_can_access_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT admin_can_access_class((SELECT class FROM students WHERE id = p_student_id));
+$$;
+
+CREATE OR REPLACE FUNCTION admin_login_email(p_admin_code text)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email FROM admin_users WHERE admin_code = p_admin_code AND is_active;
+$$;
+
+-- Only admins who manage admins may change roles, class scopes or status
+CREATE OR REPLACE FUNCTION guard_admin_user_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role and SQL editor changes have no signed-in user and are always allowed
+  IF auth.uid() IS NOT NULL AND NOT has_admin_permission('manage_admins') AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.assigned_classes IS DISTINCT FROM OLD.assigned_classes
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.admin_code IS DISTINCT FROM OLD.admin_code
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can change admin roles or status';
+  END IF;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    NEW.deactivated_at := CASE WHEN NEW.is_active THEN NULL ELSE now() END;
+  END IF;
+
+  IF OLD.role = 'super_admin' AND OLD.is_active
+    AND (NEW.role <> 'super_admin' OR NOT NEW.is_active)
+    AND NOT EXISTS (
+      SELECT 1 FROM admin_users
+      WHERE role = 'super_admin' AND is_active AND id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'At least one active super admin is required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_users_guard_changes ON admin_users;
+CREATE TRIGGER admin_users_guard_changes
+  BEFORE UPDATE ON admin_users
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_admin_user_changes();
+
+GRANT EXECUTE ON FUNCTION current_admin_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_admin_permission(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_can_access_class(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_can_access_student(uuid) TO authenticated;
+
+-- Row level policies per permission
+ALTER TABLE placement_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE placement_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_internship_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_internship_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins manage students" ON students;
+DROP POLICY IF EXISTS "Admins read students" ON students;
+DROP POLICY IF EXISTS "Internship admins update students" ON students;
+DROP POLICY IF EXISTS "Admins read admin users" ON admin_users;
+DROP POLICY IF EXISTS "Admins read own admin record" ON admin_users;
+DROP POLICY IF EXISTS "Super admins manage admin users" ON admin_users;
+DROP POLICY IF EXISTS "Admins manage student profiles" ON student_profiles;
+DROP POLICY IF EXISTS "Admins read student profiles" ON student_profiles;
+DROP POLICY IF EXISTS "Admins manage applications" ON placement_applications;
+DROP POLICY IF EXISTS "Admins read applications" ON placement_applications;
+DROP POLICY IF EXISTS "Admins manage submissions" ON student_requirement_submissions;
+DROP POLICY IF EXISTS "Admins read submissions" ON student_requirement_submissions;
+DROP POLICY IF EXISTS "Signed in users read placement events" ON placement_events;
+DROP POLICY IF EXISTS "Admins manage placement events" ON placement_events;
+DROP POLICY IF EXISTS "Signed in users read placement requirements" ON placement_requirements;
+DROP POLICY IF EXISTS "Admins manage placement requirements" ON placement_requirements;
+DROP POLICY IF EXISTS "Students manage own internship submissions" ON student_internship_submissions;
+DROP POLICY IF EXISTS "Admins read internship submissions" ON student_internship_submissions;
+DROP POLICY IF EXISTS "Admins manage internship submissions" ON student_internship_submissions;
+DROP POLICY IF EXISTS "Students read own internship approval" ON student_internship_approvals;
+DROP POLICY IF EXISTS "Students reset own internship approval" ON student_internship_approvals;
+DROP POLICY IF EXISTS "Admins read internship approvals" ON student_internship_approvals;
+DROP POLICY IF EXISTS "Admins manage internship approvals" ON student_internship_approvals;
+
+-- Students
+CREATE POLICY "Admins read students" ON students
+FOR SELECT TO authenticated
+USING (is_admin() AND admin_can_access_class(class));
+
+CREATE POLICY "Admins manage students" ON students
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_students') AND admin_can_access_class(class))
+WITH CHECK (has_admin_permission('manage_students') AND admin_can_access_class(class));
+
+-- Internship credits are stored on the student record
+CREATE POLICY "Internship admins update students" ON students
+FOR UPDATE TO authenticated
+USING (has_admin_permission('manage_internships') AND admin_can_access_class(class))
+WITH CHECK (has_admin_permission('manage_internships') AND admin_can_access_class(class));
+
+-- Admin users
+CREATE POLICY "Admins read admin users" ON admin_users
+FOR SELECT TO authenticated
+USING (is_admin());
+
+-- Lets a deactivated admin's app see the flag and sign itself out
+CREATE POLICY "Admins read own admin record" ON admin_users
+FOR SELECT TO authenticated
+USING (id = auth.uid());
+
+CREATE POLICY "Super admins manage admin users" ON admin_users
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_admins'))
+WITH CHECK (has_admin_permission('manage_admins'));
+
+-- Student profiles
+CREATE POLICY "Admins read student profiles" ON student_profiles
+FOR SELECT TO authenticated
+USING (is_admin() AND admin_can_access_class(class));
+
+CREATE POLICY "Admins manage student profiles" ON student_profiles
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_students') AND admin_can_access_class(class))
+WITH CHECK (has_admin_permission('manage_students') AND admin_can_access_class(class));
+
+-- Placements
+CREATE POLICY "Signed in users read placement events" ON placement_events
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage placement events" ON placement_events
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Signed in users read placement requirements" ON placement_requirements
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage placement requirements" ON placement_requirements
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Admins read applications" ON placement_applications
+FOR SELECT TO authenticated
+USING (is_admin() AND admin_can_access_student(student_id));
+
+CREATE POLICY "Admins manage applications" ON placement_applications
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Admins read submissions" ON student_requirement_submissions
+FOR SELECT TO authenticated
+USING (is_admin());
+
+CREATE POLICY "Admins manage submissions" ON student_requirement_submissions
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+-- Internships
+CREATE POLICY "Students manage own internship submissions" ON student_internship_submissions
+FOR ALL TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid());
+
+CREATE POLICY "Admins read internship submissions" ON student_internship_submissions
+FOR SELECT TO authenticated
+USING (is_admin() AND admin_can_access_student(student_id));
+
+CREATE POLICY "Admins manage internship submissions" ON student_internship_submissions
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_internships') AND admin_can_access_student(student_id))
+WITH CHECK (has_admin_permission('manage_internships') AND admin_can_access_student(student_id));
+
+CREATE POLICY "Students read own internship approval" ON student_internship_approvals
+FOR SELECT TO authenticated
+USING (student_id = auth.uid());
+
+-- The student screen clears the approval when the offer letter is removed, but can't grant it
+CREATE POLICY "Students reset own internship approval" ON student_internship_approvals
+FOR UPDATE TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid() AND NOT offer_letter_approved);
+
+CREATE POLICY "Admins read internship approvals" ON student_internship_approvals
+FOR SELECT TO authenticated
+USING (is_admin() AND admin_can_access_student(student_id));
+
+CREATE POLICY "Admins manage internship approvals" ON student_internship_approvals
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_internships') AND admin_can_access_student(student_id))
+WITH CHECK (has_admin_permission('manage_internships') AND admin_can_access_student(student_id));
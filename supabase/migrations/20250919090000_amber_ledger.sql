@@ -0,0 +1,252 @@
+/*
+  # Append-only audit log of admin actions
+
+  1. New Tables
+    - `audit_events` records who changed what and when: the acting admin, an action name,
+      the table (`entity`) and row that changed, the affected student, and the row before
+      and after the change
+
+  2. Recording
+    - `record_audit_event` runs after every insert, update and delete made by an admin on
+      the student, placement, internship and admin tables
+    - The app names the action (e.g. `accept_application`) with the `x-audit-action` request
+      header; without it the database operation (`insert`, `update`, `delete`) is used
+    - The `admin-users` edge function writes its own events, since it uses the service role
+
+  3. Tamper Evidence
+    - Each event stores the SHA-256 hash of its contents chained to the previous event's hash,
+      so editing or removing a row breaks the chain
+    - `verify_audit_chain()` recomputes the chain and reports the first event that fails
+    - Triggers reject every UPDATE, DELETE and TRUNCATE, including from the service role
+
+  4. Security
+    - Only admins with the `view_audit` permission (super admins and auditors) can read events
+    - There are no insert policies, events are only written by the trigger and service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE SEQUENCE IF NOT EXISTS audit_events_id_seq;
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id bigint PRIMARY KEY,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_name text,
+  actor_role text,
+  action text NOT NULL,
+  entity text NOT NULL,
+  entity_id text,
+  student_id uuid,
+  before_data jsonb,
+  after_data jsonb,
+  prev_hash text,
+  hash text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events (actor_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_student ON audit_events (student_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events (entity, occurred_at DESC);
+
+-- Super admins and auditors may read the audit log
+CREATE OR REPLACE FUNCTION has_admin_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(
+    CASE current_admin_role()
+      WHEN 'super_admin' THEN true
+      WHEN 'placement_officer' THEN p_permission IN (
+        'view_students', 'view_placements', 'manage_placements', 'view_analytics'
+      )
+      WHEN 'internship_coordinator' THEN p_permission IN (
+        'view_students', 'view_internships', 'manage_internships', 'view_analytics'
+      )
+      WHEN 'class_teacher' THEN p_permission IN (
+        'view_students', 'manage_students', 'view_internships', 'manage_internships'
+      )
+      WHEN 'auditor' THEN p_permission IN (
+        'view_students', 'view_placements', 'view_internships', 'view_analytics', 'view_audit'
+      )
+      ELSE false
+    END,
+    false
+  );
+$$;
+
+-- Hash of one event's contents chained to the previous hash
+CREATE OR REPLACE FUNCTION audit_event_hash(e audit_events)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(concat_ws('|',
+    e.id::text,
+    to_char(e.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US'),
+    e.actor_id::text,
+    e.action,
+    e.entity,
+    e.entity_id,
+    e.student_id::text,
+    e.before_data::text,
+    e.after_data::text,
+    coalesce(e.prev_hash, '')
+  ), 'sha256'), 'hex');
+$$;
+
+-- Assigns the id and hash while holding a lock, so the chain follows commit order
+CREATE OR REPLACE FUNCTION chain_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_events'));
+
+  NEW.id := nextval('audit_events_id_seq');
+  NEW.occurred_at := now();
+  SELECT hash INTO NEW.prev_hash FROM audit_events ORDER BY id DESC LIMIT 1;
+  NEW.hash := audit_event_hash(NEW);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_audit_event_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_chain ON audit_events;
+CREATE TRIGGER audit_events_chain
+  BEFORE INSERT ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION chain_audit_event();
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_audit_event_change();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON audit_events;
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON audit_events
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reject_audit_event_change();
+
+-- Records admin changes to the tables it is attached to
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  v_after jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  v_row jsonb := coalesce(v_after, v_before);
+  v_headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_admin admin_users%ROWTYPE;
+BEGIN
+  IF NOT is_admin() OR (TG_OP = 'UPDATE' AND v_before = v_after) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_admin FROM admin_users WHERE id = auth.uid();
+
+  INSERT INTO audit_events (
+    actor_id, actor_name, actor_role, action, entity, entity_id, student_id, before_data, after_data
+  )
+  VALUES (
+    auth.uid(),
+    v_admin.name,
+    v_admin.role,
+    coalesce(nullif(v_headers ->> 'x-audit-action', ''), lower(TG_OP)),
+    TG_TABLE_NAME,
+    coalesce(v_row ->> 'id', v_row ->> 'student_id'),
+    (CASE WHEN TG_TABLE_NAME = 'students' THEN v_row ->> 'id' ELSE v_row ->> 'student_id' END)::uuid,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'students',
+    'student_profiles',
+    'admin_users',
+    'placement_events',
+    'placement_requirements',
+    'placement_applications',
+    'student_requirement_submissions',
+    'student_internship_submissions',
+    'student_internship_approvals'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
+
+-- Recomputes every hash in order; valid is false from the first event that doesn't match
+CREATE OR REPLACE FUNCTION verify_audit_chain()
+RETURNS TABLE (valid boolean, checked_count bigint, first_invalid_id bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  e audit_events%ROWTYPE;
+  v_prev text := NULL;
+BEGIN
+  IF NOT has_admin_permission('view_audit') THEN
+    RAISE EXCEPTION 'Only auditors and super admins can verify the audit log';
+  END IF;
+
+  valid := true;
+  checked_count := 0;
+  first_invalid_id := NULL;
+
+  FOR e IN SELECT * FROM audit_events ORDER BY id LOOP
+    checked_count := checked_count + 1;
+    IF e.prev_hash IS DISTINCT FROM v_prev OR e.hash <> audit_event_hash(e) THEN
+      valid := false;
+      first_invalid_id := e.id;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+    v_prev := e.hash;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_audit_chain() TO authenticated;
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_events FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Auditors read audit events" ON audit_events;
+
+CREATE POLICY "Auditors read audit events" ON audit_events
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_audit'));
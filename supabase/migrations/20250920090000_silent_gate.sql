@@ -0,0 +1,153 @@
+/*
+  # Login brute-force protection
+
+  1. New Tables
+    - `login_throttles` counts failed admin and student logins per identifier (admin code or
+      student email) and per device, and stores when the next attempt is allowed
+
+  2. Progressive Delays and Lockout
+    - `login_cooldown_seconds` maps a failure count to a wait: none for the first few
+      failures, then 30s, 60s, 120s, then a 15 minute lockout
+    - Devices get more free attempts than a single identifier, since one device may be
+      shared by several students
+    - Failures older than an hour no longer count, and a successful login clears both counters
+    - `login_retry_after`, `record_login_failure` and `clear_login_failures` are called by the
+      `admin-auth` and `student-auth` edge functions with the service role only
+
+  3. Security
+    - `admin_login_email` is no longer callable by clients, the `admin-auth` function
+      resolves admin codes so emails can't be looked up from the app
+    - Admins with `manage_admins` can view and clear lockouts; clearing one is audited
+*/
+
+CREATE TABLE IF NOT EXISTS login_throttles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('admin', 'student')),
+  scope text NOT NULL CHECK (scope IN ('identifier', 'device')),
+  key text NOT NULL,
+  failed_count integer NOT NULL DEFAULT 0,
+  first_failed_at timestamptz NOT NULL DEFAULT now(),
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  UNIQUE (kind, scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_throttles_locked_until ON login_throttles (locked_until DESC);
+
+CREATE OR REPLACE FUNCTION login_cooldown_seconds(p_scope text, p_failed_count integer)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_free_attempts integer := CASE WHEN p_scope = 'device' THEN 10 ELSE 3 END;
+BEGIN
+  IF p_failed_count < v_free_attempts THEN
+    RETURN 0;
+  END IF;
+
+  IF p_failed_count >= v_free_attempts + 3 THEN
+    RETURN 15 * 60;
+  END IF;
+
+  RETURN 30 * power(2, p_failed_count - v_free_attempts)::integer;
+END;
+$$;
+
+-- Seconds until the identifier and device may try again, 0 when allowed now
+CREATE OR REPLACE FUNCTION login_retry_after(p_kind text, p_identifier text, p_device text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(max(ceil(extract(epoch FROM locked_until - now())))::integer, 0)
+  FROM login_throttles
+  WHERE kind = p_kind
+    AND locked_until > now()
+    AND (
+      (scope = 'identifier' AND key = lower(trim(p_identifier)))
+      OR (scope = 'device' AND key = nullif(trim(p_device), ''))
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION record_login_failure(p_kind text, p_identifier text, p_device text)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_scope text;
+  v_key text;
+  v_count integer;
+BEGIN
+  FOREACH v_scope IN ARRAY ARRAY['identifier', 'device'] LOOP
+    v_key := CASE WHEN v_scope = 'identifier' THEN lower(trim(p_identifier)) ELSE nullif(trim(p_device), '') END;
+    CONTINUE WHEN v_key IS NULL OR v_key = '';
+
+    INSERT INTO login_throttles AS t (kind, scope, key, failed_count)
+    VALUES (p_kind, v_scope, v_key, 1)
+    ON CONFLICT (kind, scope, key) DO UPDATE SET
+      failed_count = CASE
+        WHEN t.last_failed_at < now() - interval '1 hour' THEN 1
+        ELSE t.failed_count + 1
+      END,
+      first_failed_at = CASE
+        WHEN t.last_failed_at < now() - interval '1 hour' THEN now()
+        ELSE t.first_failed_at
+      END,
+      last_failed_at = now()
+    RETURNING failed_count INTO v_count;
+
+    UPDATE login_throttles
+    SET locked_until = CASE
+      WHEN login_cooldown_seconds(v_scope, v_count) > 0
+        THEN now() + make_interval(secs => login_cooldown_seconds(v_scope, v_count))
+      ELSE NULL
+    END
+    WHERE kind = p_kind AND scope = v_scope AND key = v_key;
+  END LOOP;
+
+  RETURN login_retry_after(p_kind, p_identifier, p_device);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION clear_login_failures(p_kind text, p_identifier text, p_device text)
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM login_throttles
+  WHERE kind = p_kind
+    AND (
+      (scope = 'identifier' AND key = lower(trim(p_identifier)))
+      OR (scope = 'device' AND key = nullif(trim(p_device), ''))
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION login_retry_after(text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_login_failure(text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION clear_login_failures(text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION login_retry_after(text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_login_failure(text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION clear_login_failures(text, text, text) TO service_role;
+
+-- Admin codes are resolved by the admin-auth function from now on
+REVOKE EXECUTE ON FUNCTION admin_login_email(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_login_email(text) TO service_role;
+
+ALTER TABLE login_throttles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins read login throttles" ON login_throttles;
+DROP POLICY IF EXISTS "Admins clear login throttles" ON login_throttles;
+
+CREATE POLICY "Admins read login throttles" ON login_throttles
+FOR SELECT TO authenticated
+USING (has_admin_permission('manage_admins'));
+
+CREATE POLICY "Admins clear login throttles" ON login_throttles
+FOR DELETE TO authenticated
+USING (has_admin_permission('manage_admins'));
+
+DROP TRIGGER IF EXISTS login_throttles_audit ON login_throttles;
+CREATE TRIGGER login_throttles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON login_throttles
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_event();
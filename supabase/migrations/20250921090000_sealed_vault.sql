@@ -0,0 +1,140 @@
+/*
+  # Private document storage
+
+  1. Buckets
+    - Every storage bucket, including the per-event buckets created from the app, is made
+      private. Documents are only reachable through signed URLs that expire
+
+  2. Ownership
+    - New uploads are stored under a folder named after the student's id (`<student id>/<file>`)
+    - `storage_object_owner` reads the owner from that folder, or from the `<student id>_`
+      prefix used by files uploaded before this migration
+
+  3. Security
+    - All earlier storage policies are dropped, most of them allowed anonymous reads
+    - Students upload, read, replace and delete only their own files
+    - Admins read files of students in their classes when their role can view the bucket's
+      area (student documents, placements or internships); placement managers may delete
+      files in placement buckets
+*/
+
+UPDATE storage.buckets SET public = false;
+
+CREATE OR REPLACE FUNCTION storage_object_owner(p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_prefix text := CASE
+    WHEN position('/' IN p_name) > 0 THEN split_part(p_name, '/', 1)
+    ELSE split_part(p_name, '_', 1)
+  END;
+BEGIN
+  IF v_prefix ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN v_prefix::uuid;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Permission an admin needs to read files in a bucket; per-event buckets hold placement files
+CREATE OR REPLACE FUNCTION storage_bucket_permission(p_bucket_id text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_bucket_id = 'student-documents' THEN 'view_students'
+    WHEN p_bucket_id LIKE 'internship-%' THEN 'view_internships'
+    ELSE 'view_placements'
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION storage_object_owner(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION storage_bucket_permission(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow authenticated deletes from internship-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated deletes from placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated deletes internship" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated updates internship" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated updates to internship-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated updates to placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated uploads internship" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated uploads to internship-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated uploads to placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public downloads from internship-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public downloads from placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public downloads internship" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public uploads internship" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public uploads to placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-company-outcomes" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-completion-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-student-feedback" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-student-outcomes" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for internship-weekly-reports" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for placement-offer-letters" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous public read access for student-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Anonymous read access" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated delete access" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated update access" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated upload access" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update internship documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update placement documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update student documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload internship documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload placement documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload placement offer letters" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload student documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public read access for all documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public read access for internship documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public read access for placement documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public read access for student documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own internship documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own placement documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own student documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own internship documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own placement documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own student documents" ON storage.objects;
+
+DROP POLICY IF EXISTS "Students upload own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Students read own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Students update own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Students delete own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Admins read student documents" ON storage.objects;
+DROP POLICY IF EXISTS "Placement admins delete placement documents" ON storage.objects;
+
+CREATE POLICY "Students upload own documents" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK ((storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Students read own documents" ON storage.objects
+FOR SELECT TO authenticated
+USING (storage_object_owner(name) = auth.uid());
+
+CREATE POLICY "Students update own documents" ON storage.objects
+FOR UPDATE TO authenticated
+USING (storage_object_owner(name) = auth.uid())
+WITH CHECK ((storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Students delete own documents" ON storage.objects
+FOR DELETE TO authenticated
+USING (storage_object_owner(name) = auth.uid());
+
+CREATE POLICY "Admins read student documents" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  has_admin_permission(storage_bucket_permission(bucket_id))
+  AND admin_can_access_student(storage_object_owner(name))
+);
+
+CREATE POLICY "Placement admins delete placement documents" ON storage.objects
+FOR DELETE TO authenticated
+USING (
+  storage_bucket_permission(bucket_id) = 'view_placements'
+  AND has_admin_permission('manage_placements')
+);
@@ -0,0 +1,141 @@
+/*
+  # Student registration approval
+
+  1. Changes
+    - `students.registration_status` is `pending` for self-registrations until an admin reviews
+      them, `approved` for imported students and everyone who registered before this migration,
+      or `rejected`
+    - `students.id_proof_url`, `rejection_reason`, `registered_at`, `reviewed_by` and
+      `reviewed_at` record the submitted ID proof and the review
+
+  2. Functions
+    - `is_approved_student` checks the signed-in student's status
+    - `merge_student_registration` folds a pending registration into an existing student
+      record: the existing record takes over the registration's email (and with it the login)
+      and ID proof, then the registration and its auth account are deleted
+
+  3. Security
+    - Students only create or change placement applications once approved
+    - Approving, rejecting and merging need `manage_students` and access to the classes
+      involved
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'registration_status'
+  ) THEN
+    ALTER TABLE students ADD COLUMN registration_status text NOT NULL DEFAULT 'approved'
+      CHECK (registration_status IN ('pending', 'approved', 'rejected'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'id_proof_url'
+  ) THEN
+    ALTER TABLE students ADD COLUMN id_proof_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'rejection_reason'
+  ) THEN
+    ALTER TABLE students ADD COLUMN rejection_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'registered_at'
+  ) THEN
+    ALTER TABLE students ADD COLUMN registered_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'reviewed_by'
+  ) THEN
+    ALTER TABLE students ADD COLUMN reviewed_by uuid REFERENCES admin_users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'students' AND column_name = 'reviewed_at'
+  ) THEN
+    ALTER TABLE students ADD COLUMN reviewed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_students_registration_status ON students (registration_status);
+
+CREATE OR REPLACE FUNCTION is_approved_student()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM students
+    WHERE id = auth.uid() AND registration_status = 'approved'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_approved_student() TO authenticated;
+
+CREATE OR REPLACE FUNCTION merge_student_registration(p_registration_id uuid, p_student_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_registration students%ROWTYPE;
+  v_student students%ROWTYPE;
+BEGIN
+  IF NOT has_admin_permission('manage_students') THEN
+    RAISE EXCEPTION 'Not allowed to review registrations';
+  END IF;
+
+  SELECT * INTO v_registration FROM students WHERE id = p_registration_id FOR UPDATE;
+  SELECT * INTO v_student FROM students WHERE id = p_student_id FOR UPDATE;
+
+  IF v_registration.id IS NULL OR v_registration.registration_status <> 'pending' THEN
+    RAISE EXCEPTION 'Registration is not pending review';
+  END IF;
+
+  IF v_student.id IS NULL OR v_student.registration_status <> 'approved' OR v_student.id = v_registration.id THEN
+    RAISE EXCEPTION 'Choose an approved student record to merge into';
+  END IF;
+
+  IF NOT admin_can_access_class(v_registration.class) OR NOT admin_can_access_class(v_student.class) THEN
+    RAISE EXCEPTION 'Not allowed to review students in this class';
+  END IF;
+
+  -- Keep a profile the student already filled in if the existing record has none
+  UPDATE student_profiles SET student_id = v_student.id
+  WHERE student_id = v_registration.id
+    AND NOT EXISTS (SELECT 1 FROM student_profiles WHERE student_id = v_student.id);
+
+  -- Removes the registration's row through the students foreign key, freeing its email
+  DELETE FROM auth.users WHERE id = v_registration.id;
+
+  UPDATE students SET
+    email = v_registration.email,
+    id_proof_url = coalesce(v_registration.id_proof_url, v_student.id_proof_url),
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    updated_at = now()
+  WHERE id = v_student.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_student_registration(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_student_registration(uuid, uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Students manage own applications" ON placement_applications;
+
+CREATE POLICY "Students manage own applications" ON placement_applications
+FOR ALL TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid() AND is_approved_student());
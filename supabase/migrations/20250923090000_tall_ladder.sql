@@ -0,0 +1,247 @@
+/*
+  # Placement recruitment rounds
+
+  1. New Tables
+    - `placement_rounds`: the ordered rounds of a placement event (aptitude test, group
+      discussion, interviews, ...), `sequence` sets the order
+    - `placement_round_results`: one result per application and round, `pending` until the
+      round is graded, then `cleared`, `not_cleared` or `absent`, with remarks and who
+      recorded it
+
+  2. Changes
+    - `placement_applications.current_round_id` points at the round the applicant is in.
+      Applicants rejected in a round keep pointing at it so students see where they stopped
+
+  3. Functions
+    - `move_applications_to_round` puts applications of the round's event into that round
+      with a pending result
+    - `record_round_result` grades applications in their current round. Clearing a round
+      moves the applicant to the next one, clearing the last round accepts the application,
+      not clearing or being absent rejects it
+
+  4. Security
+    - Every signed in user reads rounds, placement managers define them
+    - Students read results of their own applications, admins with `view_placements` read
+      results of students in their classes, placement managers record them
+    - Students can no longer change the status or round of their own applications
+    - Both new tables are audited
+*/
+
+CREATE TABLE IF NOT EXISTS placement_rounds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES placement_events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sequence integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_placement_rounds_event ON placement_rounds (event_id, sequence);
+
+CREATE TABLE IF NOT EXISTS placement_round_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES placement_applications(id) ON DELETE CASCADE,
+  round_id uuid NOT NULL REFERENCES placement_rounds(id) ON DELETE CASCADE,
+  result text NOT NULL DEFAULT 'pending'
+    CHECK (result IN ('pending', 'cleared', 'not_cleared', 'absent')),
+  remarks text,
+  recorded_by uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  recorded_at timestamptz DEFAULT now(),
+  UNIQUE (application_id, round_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_placement_round_results_round ON placement_round_results (round_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_applications' AND column_name = 'current_round_id'
+  ) THEN
+    ALTER TABLE placement_applications ADD COLUMN current_round_id uuid
+      REFERENCES placement_rounds(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE placement_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE placement_round_results ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users read placement rounds" ON placement_rounds;
+DROP POLICY IF EXISTS "Admins manage placement rounds" ON placement_rounds;
+DROP POLICY IF EXISTS "Students read own round results" ON placement_round_results;
+DROP POLICY IF EXISTS "Admins read round results" ON placement_round_results;
+DROP POLICY IF EXISTS "Admins manage round results" ON placement_round_results;
+
+CREATE POLICY "Signed in users read placement rounds" ON placement_rounds
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage placement rounds" ON placement_rounds
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Students read own round results" ON placement_round_results
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = application_id AND pa.student_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins read round results" ON placement_round_results
+FOR SELECT TO authenticated
+USING (
+  has_admin_permission('view_placements')
+  AND EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = application_id AND admin_can_access_student(pa.student_id)
+  )
+);
+
+CREATE POLICY "Admins manage round results" ON placement_round_results
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+-- Students still update their own applications (offer letters), but only admins decide outcomes
+CREATE OR REPLACE FUNCTION protect_application_outcome()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    NEW.application_status := OLD.application_status;
+    NEW.current_round_id := OLD.current_round_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_protect_outcome ON placement_applications;
+CREATE TRIGGER placement_applications_protect_outcome
+BEFORE UPDATE ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION protect_application_outcome();
+
+CREATE OR REPLACE FUNCTION move_applications_to_round(p_application_ids uuid[], p_round_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_round placement_rounds%ROWTYPE;
+  v_count integer;
+BEGIN
+  IF NOT has_admin_permission('manage_placements') THEN
+    RAISE EXCEPTION 'Not allowed to manage placement rounds';
+  END IF;
+
+  SELECT * INTO v_round FROM placement_rounds WHERE id = p_round_id;
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  UPDATE placement_applications
+  SET current_round_id = v_round.id, application_status = 'applied'
+  WHERE id = ANY (p_application_ids) AND placement_event_id = v_round.event_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Moving an applicant back into a round they were graded in starts that round over
+  INSERT INTO placement_round_results (application_id, round_id, result, recorded_by, recorded_at)
+  SELECT id, v_round.id, 'pending', auth.uid(), now()
+  FROM placement_applications
+  WHERE id = ANY (p_application_ids) AND placement_event_id = v_round.event_id
+  ON CONFLICT (application_id, round_id) DO UPDATE SET
+    result = 'pending',
+    remarks = NULL,
+    recorded_by = excluded.recorded_by,
+    recorded_at = excluded.recorded_at;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_round_result(
+  p_application_ids uuid[],
+  p_result text,
+  p_remarks text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_application placement_applications%ROWTYPE;
+  v_round placement_rounds%ROWTYPE;
+  v_next_round_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT has_admin_permission('manage_placements') THEN
+    RAISE EXCEPTION 'Not allowed to manage placement rounds';
+  END IF;
+
+  IF p_result NOT IN ('cleared', 'not_cleared', 'absent') THEN
+    RAISE EXCEPTION 'Unknown round result: %', p_result;
+  END IF;
+
+  FOR v_application IN
+    SELECT * FROM placement_applications
+    WHERE id = ANY (p_application_ids) AND current_round_id IS NOT NULL
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_round FROM placement_rounds WHERE id = v_application.current_round_id;
+
+    INSERT INTO placement_round_results (application_id, round_id, result, remarks, recorded_by, recorded_at)
+    VALUES (v_application.id, v_round.id, p_result, nullif(trim(p_remarks), ''), auth.uid(), now())
+    ON CONFLICT (application_id, round_id) DO UPDATE SET
+      result = excluded.result,
+      remarks = excluded.remarks,
+      recorded_by = excluded.recorded_by,
+      recorded_at = excluded.recorded_at;
+
+    IF p_result = 'cleared' THEN
+      SELECT id INTO v_next_round_id FROM placement_rounds
+      WHERE event_id = v_round.event_id AND sequence > v_round.sequence
+      ORDER BY sequence
+      LIMIT 1;
+
+      IF v_next_round_id IS NULL THEN
+        UPDATE placement_applications SET application_status = 'accepted'
+        WHERE id = v_application.id;
+      ELSE
+        UPDATE placement_applications SET current_round_id = v_next_round_id, application_status = 'applied'
+        WHERE id = v_application.id;
+
+        INSERT INTO placement_round_results (application_id, round_id, result, recorded_by, recorded_at)
+        VALUES (v_application.id, v_next_round_id, 'pending', auth.uid(), now())
+        ON CONFLICT (application_id, round_id) DO NOTHING;
+      END IF;
+    ELSE
+      UPDATE placement_applications SET application_status = 'rejected'
+      WHERE id = v_application.id;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION move_applications_to_round(uuid[], uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION record_round_result(uuid[], text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION move_applications_to_round(uuid[], uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_round_result(uuid[], text, text) TO authenticated;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['placement_rounds', 'placement_round_results'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
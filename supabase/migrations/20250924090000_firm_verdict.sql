@@ -0,0 +1,309 @@
+/*
+  # Application decisions
+
+  1. Changes
+    - `placement_applications.application_status` also accepts `shortlisted`, `waitlisted`
+      and `withdrawn`
+    - `status_reason`, `status_changed_at` and `status_changed_by` record why, when and by
+      whom the status last changed
+    - `notifications.student_id` addresses a notification to a single student
+
+  2. Rules
+    - Students create applications as `applied` and may only withdraw them, with a reason,
+      until the offer is released (`accepted`) or the application is rejected
+    - Rejecting and withdrawing need a reason, withdrawn applications are final
+    - Round results that reject an applicant give the round as the reason, and moving
+      applicants through rounds shortlists them
+
+  3. Notifications
+    - Students are notified when an admin changes their application's status or moves them
+      to another round
+
+  4. Security
+    - Notifications addressed to a student are only readable by that student and admins
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_applications' AND column_name = 'status_reason'
+  ) THEN
+    ALTER TABLE placement_applications ADD COLUMN status_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_applications' AND column_name = 'status_changed_at'
+  ) THEN
+    ALTER TABLE placement_applications ADD COLUMN status_changed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_applications' AND column_name = 'status_changed_by'
+  ) THEN
+    ALTER TABLE placement_applications ADD COLUMN status_changed_by uuid
+      REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'student_id'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN student_id uuid REFERENCES students(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE placement_applications DROP CONSTRAINT IF EXISTS placement_applications_status_check;
+ALTER TABLE placement_applications ADD CONSTRAINT placement_applications_status_check
+  CHECK (application_status IN (
+    'pending', 'applied', 'shortlisted', 'waitlisted', 'accepted', 'rejected', 'withdrawn'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_notifications_student ON notifications (student_id);
+
+-- Restrictive, so it narrows whatever read policies notifications already have
+DROP POLICY IF EXISTS "Students only read their own notifications" ON notifications;
+
+CREATE POLICY "Students only read their own notifications" ON notifications
+AS RESTRICTIVE
+FOR SELECT TO authenticated
+USING (student_id IS NULL OR student_id = auth.uid() OR is_admin());
+
+CREATE OR REPLACE FUNCTION protect_application_outcome()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_admin() THEN
+      NEW.application_status := 'applied';
+      NEW.current_round_id := NULL;
+      NEW.status_reason := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_admin() THEN
+    NEW.current_round_id := OLD.current_round_id;
+
+    IF NEW.application_status IS DISTINCT FROM OLD.application_status
+      AND NEW.application_status <> 'withdrawn' THEN
+      RAISE EXCEPTION 'Only placement admins can change the status of an application';
+    END IF;
+  END IF;
+
+  IF NEW.application_status IS NOT DISTINCT FROM OLD.application_status THEN
+    NEW.status_reason := OLD.status_reason;
+    NEW.status_changed_at := OLD.status_changed_at;
+    NEW.status_changed_by := OLD.status_changed_by;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.application_status = 'withdrawn' THEN
+    RAISE EXCEPTION 'A withdrawn application can''t be changed';
+  END IF;
+
+  IF NEW.application_status = 'withdrawn' AND OLD.application_status = 'accepted' THEN
+    RAISE EXCEPTION 'An application can''t be withdrawn after the offer is released';
+  END IF;
+
+  IF NEW.application_status = 'withdrawn' AND OLD.application_status = 'rejected' THEN
+    RAISE EXCEPTION 'A rejected application can''t be withdrawn';
+  END IF;
+
+  IF NEW.application_status IN ('rejected', 'withdrawn') AND nullif(trim(NEW.status_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % an application',
+      CASE NEW.application_status WHEN 'rejected' THEN 'reject' ELSE 'withdraw' END;
+  END IF;
+
+  NEW.status_changed_at := now();
+  NEW.status_changed_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_protect_outcome ON placement_applications;
+CREATE TRIGGER placement_applications_protect_outcome
+BEFORE INSERT OR UPDATE ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION protect_application_outcome();
+
+CREATE OR REPLACE FUNCTION notify_application_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event placement_events%ROWTYPE;
+  v_round_name text;
+  v_title text;
+  v_message text;
+BEGIN
+  -- Students withdrawing their own applications don't need to be told about it
+  IF NOT is_admin() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_event FROM placement_events WHERE id = NEW.placement_event_id;
+
+  IF NEW.application_status IS DISTINCT FROM OLD.application_status THEN
+    CASE NEW.application_status
+      WHEN 'shortlisted' THEN
+        v_title := 'Application Shortlisted';
+        v_message := format('You have been shortlisted for %s at %s.', v_event.title, v_event.company_name);
+      WHEN 'waitlisted' THEN
+        v_title := 'Application Waitlisted';
+        v_message := format('You are on the waitlist for %s at %s.', v_event.title, v_event.company_name);
+      WHEN 'accepted' THEN
+        v_title := 'Application Accepted';
+        v_message := format('Your application for %s at %s has been accepted.', v_event.title, v_event.company_name);
+      WHEN 'rejected' THEN
+        v_title := 'Application Not Selected';
+        v_message := format('Your application for %s at %s was not selected. Reason: %s',
+          v_event.title, v_event.company_name, NEW.status_reason);
+      ELSE
+        v_title := NULL;
+    END CASE;
+  END IF;
+
+  IF v_title IS NULL
+    AND NEW.current_round_id IS NOT NULL
+    AND NEW.current_round_id IS DISTINCT FROM OLD.current_round_id THEN
+    SELECT name INTO v_round_name FROM placement_rounds WHERE id = NEW.current_round_id;
+    v_title := 'Next Round';
+    v_message := format('You have moved to the %s round for %s at %s.',
+      v_round_name, v_event.title, v_event.company_name);
+  END IF;
+
+  IF v_title IS NOT NULL THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (v_title, v_message, 'placement', 'student', NEW.student_id, auth.uid(), true);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_notify ON placement_applications;
+CREATE TRIGGER placement_applications_notify
+AFTER UPDATE ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION notify_application_change();
+
+-- Moving applicants into a round shortlists them, withdrawn applications stay where they are
+CREATE OR REPLACE FUNCTION move_applications_to_round(p_application_ids uuid[], p_round_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_round placement_rounds%ROWTYPE;
+  v_ids uuid[];
+BEGIN
+  IF NOT has_admin_permission('manage_placements') THEN
+    RAISE EXCEPTION 'Not allowed to manage placement rounds';
+  END IF;
+
+  SELECT * INTO v_round FROM placement_rounds WHERE id = p_round_id;
+  IF v_round.id IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  WITH moved AS (
+    UPDATE placement_applications
+    SET current_round_id = v_round.id, application_status = 'shortlisted', status_reason = NULL
+    WHERE id = ANY (p_application_ids)
+      AND placement_event_id = v_round.event_id
+      AND application_status <> 'withdrawn'
+    RETURNING id
+  )
+  SELECT coalesce(array_agg(id), '{}') INTO v_ids FROM moved;
+
+  -- Moving an applicant back into a round they were graded in starts that round over
+  INSERT INTO placement_round_results (application_id, round_id, result, recorded_by, recorded_at)
+  SELECT id, v_round.id, 'pending', auth.uid(), now()
+  FROM unnest(v_ids) AS id
+  ON CONFLICT (application_id, round_id) DO UPDATE SET
+    result = 'pending',
+    remarks = NULL,
+    recorded_by = excluded.recorded_by,
+    recorded_at = excluded.recorded_at;
+
+  RETURN coalesce(array_length(v_ids, 1), 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_round_result(
+  p_application_ids uuid[],
+  p_result text,
+  p_remarks text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_application placement_applications%ROWTYPE;
+  v_round placement_rounds%ROWTYPE;
+  v_next_round_id uuid;
+  v_remarks text := nullif(trim(p_remarks), '');
+  v_count integer := 0;
+BEGIN
+  IF NOT has_admin_permission('manage_placements') THEN
+    RAISE EXCEPTION 'Not allowed to manage placement rounds';
+  END IF;
+
+  IF p_result NOT IN ('cleared', 'not_cleared', 'absent') THEN
+    RAISE EXCEPTION 'Unknown round result: %', p_result;
+  END IF;
+
+  FOR v_application IN
+    SELECT * FROM placement_applications
+    WHERE id = ANY (p_application_ids)
+      AND current_round_id IS NOT NULL
+      AND application_status <> 'withdrawn'
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_round FROM placement_rounds WHERE id = v_application.current_round_id;
+
+    INSERT INTO placement_round_results (application_id, round_id, result, remarks, recorded_by, recorded_at)
+    VALUES (v_application.id, v_round.id, p_result, v_remarks, auth.uid(), now())
+    ON CONFLICT (application_id, round_id) DO UPDATE SET
+      result = excluded.result,
+      remarks = excluded.remarks,
+      recorded_by = excluded.recorded_by,
+      recorded_at = excluded.recorded_at;
+
+    IF p_result = 'cleared' THEN
+      SELECT id INTO v_next_round_id FROM placement_rounds
+      WHERE event_id = v_round.event_id AND sequence > v_round.sequence
+      ORDER BY sequence
+      LIMIT 1;
+
+      IF v_next_round_id IS NULL THEN
+        UPDATE placement_applications SET application_status = 'accepted', status_reason = NULL
+        WHERE id = v_application.id;
+      ELSE
+        UPDATE placement_applications
+        SET current_round_id = v_next_round_id, application_status = 'shortlisted', status_reason = NULL
+        WHERE id = v_application.id;
+
+        INSERT INTO placement_round_results (application_id, round_id, result, recorded_by, recorded_at)
+        VALUES (v_application.id, v_next_round_id, 'pending', auth.uid(), now())
+        ON CONFLICT (application_id, round_id) DO NOTHING;
+      END IF;
+    ELSE
+      UPDATE placement_applications
+      SET application_status = 'rejected',
+        status_reason = format('%s %s', CASE p_result WHEN 'absent' THEN 'Absent for' ELSE 'Did not clear' END, v_round.name)
+          || coalesce(': ' || v_remarks, '')
+      WHERE id = v_application.id;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,129 @@
+/*
+  # Placement event lifecycle
+
+  1. Changes
+    - `placement_events.status` moves through `draft`, `open`, `closed` and `completed`.
+      Existing events start as `open`, or `closed` when their deadline has already passed
+
+  2. Rules
+    - Students only see events that are not drafts
+    - Applications are refused unless the event is open and its deadline hasn't passed
+    - An event can't be opened with a deadline in the past, and its event date can't be
+      before the deadline
+
+  3. Scheduling
+    - `close_expired_placement_events` closes open events past their deadline; pg_cron runs
+      it every five minutes
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN status text NOT NULL DEFAULT 'open'
+      CHECK (status IN ('draft', 'open', 'closed', 'completed'));
+
+    UPDATE placement_events SET status = 'closed'
+    WHERE application_deadline IS NOT NULL AND application_deadline <= now();
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_placement_events_status ON placement_events (status, application_deadline);
+
+DROP POLICY IF EXISTS "Signed in users read placement events" ON placement_events;
+
+CREATE POLICY "Signed in users read placement events" ON placement_events
+FOR SELECT TO authenticated
+USING (status <> 'draft' OR is_admin());
+
+CREATE OR REPLACE FUNCTION check_placement_event_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.application_deadline IS NULL OR NEW.event_date IS NULL THEN
+    RAISE EXCEPTION 'Placement events need an application deadline and an event date';
+  END IF;
+
+  -- Events created before this migration had their dates filled in automatically, so the
+  -- order is only checked when the dates are set
+  IF NEW.event_date < NEW.application_deadline
+    AND (TG_OP = 'INSERT' OR NEW.event_date IS DISTINCT FROM OLD.event_date
+      OR NEW.application_deadline IS DISTINCT FROM OLD.application_deadline) THEN
+    RAISE EXCEPTION 'The event date can''t be before the application deadline';
+  END IF;
+
+  IF NEW.status = 'open' AND NEW.application_deadline <= now()
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'open' OR NEW.application_deadline IS DISTINCT FROM OLD.application_deadline) THEN
+    RAISE EXCEPTION 'Move the application deadline into the future before opening the event';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_events_check_schedule ON placement_events;
+CREATE TRIGGER placement_events_check_schedule
+BEFORE INSERT OR UPDATE OF status, application_deadline, event_date ON placement_events
+FOR EACH ROW EXECUTE FUNCTION check_placement_event_schedule();
+
+-- Applying goes straight to the table, so the deadline is checked here rather than in the app
+CREATE OR REPLACE FUNCTION check_application_window()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event placement_events%ROWTYPE;
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_event FROM placement_events WHERE id = NEW.placement_event_id;
+
+  IF v_event.id IS NULL OR v_event.status <> 'open' THEN
+    RAISE EXCEPTION 'Applications for this placement are closed';
+  END IF;
+
+  IF v_event.application_deadline <= now() THEN
+    RAISE EXCEPTION 'The application deadline for this placement has passed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_check_window ON placement_applications;
+CREATE TRIGGER placement_applications_check_window
+BEFORE INSERT ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION check_application_window();
+
+CREATE OR REPLACE FUNCTION close_expired_placement_events()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE placement_events SET status = 'closed', updated_at = now()
+  WHERE status = 'open' AND application_deadline <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_expired_placement_events() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-expired-placement-events',
+  '*/5 * * * *',
+  'SELECT public.close_expired_placement_events()'
+);
@@ -0,0 +1,93 @@
+/*
+  # Archiving and editing placement events
+
+  1. Changes
+    - `placement_events.archived_at` and `archived_by` soft archive an event. Archived events
+      keep their applications and documents but are hidden from students and closed to
+      new applications
+
+  2. Rules
+    - A placement requirement that students have submitted against can't be deleted or
+      change its type; it can still be made optional or required. Requirements are removed
+      with their event when the event itself is deleted
+
+  3. Security
+    - Students no longer see archived events
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN archived_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'archived_by'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN archived_by uuid REFERENCES admin_users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Signed in users read placement events" ON placement_events;
+
+CREATE POLICY "Signed in users read placement events" ON placement_events
+FOR SELECT TO authenticated
+USING ((status <> 'draft' AND archived_at IS NULL) OR is_admin());
+
+CREATE OR REPLACE FUNCTION check_application_window()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event placement_events%ROWTYPE;
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_event FROM placement_events WHERE id = NEW.placement_event_id;
+
+  IF v_event.id IS NULL OR v_event.status <> 'open' OR v_event.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Applications for this placement are closed';
+  END IF;
+
+  IF v_event.application_deadline <= now() THEN
+    RAISE EXCEPTION 'The application deadline for this placement has passed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_submitted_requirement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.type IS NOT DISTINCT FROM OLD.type AND NEW.event_id = OLD.event_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Deleting the event removes its requirements along with everything else
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM placement_events WHERE id = OLD.event_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM student_requirement_submissions WHERE requirement_id = OLD.id) THEN
+    RAISE EXCEPTION 'Students have already submitted "%", it can only be made optional', OLD.type;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_requirements_protect_submitted ON placement_requirements;
+CREATE TRIGGER placement_requirements_protect_submitted
+BEFORE UPDATE OR DELETE ON placement_requirements
+FOR EACH ROW EXECUTE FUNCTION protect_submitted_requirement();
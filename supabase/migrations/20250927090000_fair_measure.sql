@@ -0,0 +1,270 @@
+/*
+  # Placement eligibility criteria
+
+  1. Changes
+    - `student_profiles` gains the academic record recruiters screen on: `percentage_10th`,
+      `percentage_12th`, `degree_percentage`, `active_backlogs` and `graduation_year`
+    - `placement_events.eligibility_criteria` holds an event's criteria on top of its
+      eligible classes: `min_percentage_10th`, `min_percentage_12th`,
+      `min_degree_percentage`, `max_active_backlogs`, `streams_12th` and `graduation_years`.
+      Criteria left out don't apply
+
+  2. New Tables
+    - `placement_eligibility_overrides`: lets a student apply to an event whose criteria
+      they don't meet, with the admin's justification
+
+  3. Functions
+    - `placement_eligibility_failures` lists the criteria of an event a student fails, one
+      readable reason each
+    - `get_placement_eligibility` returns those reasons for every event, and whether an
+      override lets the student apply anyway
+
+  4. Rules
+    - Students can only apply to events they are eligible for or have an override for
+
+  5. Security
+    - Students read their own overrides, admins with `view_placements` read overrides of
+      students in their classes, placement managers grant and revoke them
+    - Overrides are audited
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'percentage_10th'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN percentage_10th numeric(5,2)
+      CHECK (percentage_10th BETWEEN 0 AND 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'percentage_12th'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN percentage_12th numeric(5,2)
+      CHECK (percentage_12th BETWEEN 0 AND 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'degree_percentage'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN degree_percentage numeric(5,2)
+      CHECK (degree_percentage BETWEEN 0 AND 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'active_backlogs'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN active_backlogs integer NOT NULL DEFAULT 0
+      CHECK (active_backlogs >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'graduation_year'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN graduation_year integer
+      CHECK (graduation_year BETWEEN 2000 AND 2100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'eligibility_criteria'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN eligibility_criteria jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS placement_eligibility_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES placement_events(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  justification text NOT NULL CHECK (length(trim(justification)) > 0),
+  granted_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_placement_eligibility_overrides_student
+  ON placement_eligibility_overrides (student_id);
+
+ALTER TABLE placement_eligibility_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own eligibility overrides" ON placement_eligibility_overrides;
+DROP POLICY IF EXISTS "Admins read eligibility overrides" ON placement_eligibility_overrides;
+DROP POLICY IF EXISTS "Admins manage eligibility overrides" ON placement_eligibility_overrides;
+
+CREATE POLICY "Students read own eligibility overrides" ON placement_eligibility_overrides
+FOR SELECT TO authenticated
+USING (student_id = auth.uid());
+
+CREATE POLICY "Admins read eligibility overrides" ON placement_eligibility_overrides
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_placements') AND admin_can_access_student(student_id));
+
+CREATE POLICY "Admins manage eligibility overrides" ON placement_eligibility_overrides
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE OR REPLACE FUNCTION placement_eligibility_failures(p_event placement_events, p_student_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile student_profiles%ROWTYPE;
+  v_class text;
+  v_criteria jsonb := coalesce(p_event.eligibility_criteria, '{}'::jsonb);
+  v_reasons text[] := '{}';
+  v_min numeric;
+BEGIN
+  SELECT * INTO v_profile FROM student_profiles WHERE student_id = p_student_id;
+  SELECT coalesce(v_profile.class, s.class) INTO v_class FROM students s WHERE s.id = p_student_id;
+
+  IF coalesce(array_length(p_event.eligible_classes, 1), 0) > 0
+    AND (v_class IS NULL OR NOT v_class = ANY (p_event.eligible_classes)) THEN
+    v_reasons := v_reasons || format('Open to %s only', array_to_string(p_event.eligible_classes, ', '));
+  END IF;
+
+  v_min := (v_criteria->>'min_percentage_10th')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.percentage_10th IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 10th, add your 10th percentage to your profile', v_min);
+    ELSIF v_profile.percentage_10th < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 10th, you have %s%%', v_min, v_profile.percentage_10th);
+    END IF;
+  END IF;
+
+  v_min := (v_criteria->>'min_percentage_12th')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.percentage_12th IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 12th, add your 12th percentage to your profile', v_min);
+    ELSIF v_profile.percentage_12th < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 12th, you have %s%%', v_min, v_profile.percentage_12th);
+    END IF;
+  END IF;
+
+  v_min := (v_criteria->>'min_degree_percentage')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.degree_percentage IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in your degree, add your degree percentage to your profile', v_min);
+    ELSIF v_profile.degree_percentage < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in your degree, you have %s%%', v_min, v_profile.degree_percentage);
+    END IF;
+  END IF;
+
+  IF v_criteria ? 'max_active_backlogs'
+    AND coalesce(v_profile.active_backlogs, 0) > (v_criteria->>'max_active_backlogs')::integer THEN
+    v_reasons := v_reasons || CASE (v_criteria->>'max_active_backlogs')::integer
+      WHEN 0 THEN format('No active backlogs allowed, you have %s', v_profile.active_backlogs)
+      ELSE format('At most %s active backlogs allowed, you have %s',
+        v_criteria->>'max_active_backlogs', v_profile.active_backlogs)
+    END;
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_criteria->'streams_12th', '[]'::jsonb)) > 0
+    AND NOT coalesce(v_criteria->'streams_12th' ? v_profile.stream_12th, false) THEN
+    v_reasons := v_reasons || format('Open to students from the %s stream in 12th only',
+      (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(v_criteria->'streams_12th')));
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_criteria->'graduation_years', '[]'::jsonb)) > 0
+    AND NOT coalesce(v_criteria->'graduation_years' @> to_jsonb(v_profile.graduation_year), false) THEN
+    v_reasons := v_reasons || CASE
+      WHEN v_profile.graduation_year IS NULL
+        THEN 'Open to specific graduation years, add your graduation year to your profile'
+      ELSE format('Open to the %s graduating batch only',
+        (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(v_criteria->'graduation_years')))
+    END;
+  END IF;
+
+  RETURN v_reasons;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION placement_eligibility_failures(placement_events, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_placement_eligibility(p_student_id uuid DEFAULT auth.uid())
+RETURNS TABLE (event_id uuid, reasons text[], overridden boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_student_id IS DISTINCT FROM auth.uid()
+    AND NOT (has_admin_permission('view_placements') AND admin_can_access_student(p_student_id)) THEN
+    RAISE EXCEPTION 'Not allowed to view this student''s eligibility';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id,
+    placement_eligibility_failures(e, p_student_id),
+    EXISTS (
+      SELECT 1 FROM placement_eligibility_overrides o
+      WHERE o.event_id = e.id AND o.student_id = p_student_id
+    )
+  FROM placement_events e
+  WHERE e.archived_at IS NULL AND (e.status <> 'draft' OR is_admin());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_placement_eligibility(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_placement_eligibility(uuid) TO authenticated;
+
+-- The app hides events a student can't apply to, the database makes sure of it
+CREATE OR REPLACE FUNCTION check_application_eligibility()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event placement_events%ROWTYPE;
+  v_reasons text[];
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_event FROM placement_events WHERE id = NEW.placement_event_id;
+  IF v_event.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_reasons := placement_eligibility_failures(v_event, NEW.student_id);
+
+  IF coalesce(array_length(v_reasons, 1), 0) > 0 AND NOT EXISTS (
+    SELECT 1 FROM placement_eligibility_overrides
+    WHERE event_id = NEW.placement_event_id AND student_id = NEW.student_id
+  ) THEN
+    RAISE EXCEPTION 'You are not eligible for this placement: %', array_to_string(v_reasons, '; ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_check_eligibility ON placement_applications;
+CREATE TRIGGER placement_applications_check_eligibility
+BEFORE INSERT ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION check_application_eligibility();
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['placement_eligibility_overrides'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,227 @@
+/*
+  # Placement offers
+
+  1. New Tables
+    - `placement_offers`: the offer made on an accepted application, with role, CTC in
+      lakhs per annum, location, joining date and the time the offer expires. `status` is
+      `pending` until the student accepts or declines it, `expired` once the window passes
+      without an answer, or `revoked` by an admin
+
+  2. Functions
+    - `respond_to_offer` lets a student accept or decline their own pending offer before it
+      expires, a reason is required to decline
+    - `expire_placement_offers` marks pending offers past their expiry as expired; pg_cron
+      runs it every fifteen minutes
+
+  3. Rules
+    - Offers can only be made on accepted applications, one per application
+    - Students are notified when they receive an offer and when one is revoked
+
+  4. Security
+    - Students read offers on their own applications, admins with `view_placements` read
+      offers of students in their classes, placement managers make and change them
+    - Offers are audited
+*/
+
+CREATE TABLE IF NOT EXISTS placement_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL UNIQUE REFERENCES placement_applications(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  ctc_lpa numeric(6,2) NOT NULL CHECK (ctc_lpa > 0),
+  location text,
+  joining_date date,
+  expires_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked')),
+  decline_reason text,
+  responded_at timestamptz,
+  created_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_placement_offers_status ON placement_offers (status, expires_at);
+
+ALTER TABLE placement_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own offers" ON placement_offers;
+DROP POLICY IF EXISTS "Admins read offers" ON placement_offers;
+DROP POLICY IF EXISTS "Admins manage offers" ON placement_offers;
+
+CREATE POLICY "Students read own offers" ON placement_offers
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = application_id AND pa.student_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins read offers" ON placement_offers
+FOR SELECT TO authenticated
+USING (
+  has_admin_permission('view_placements')
+  AND EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.id = application_id AND admin_can_access_student(pa.student_id)
+  )
+);
+
+CREATE POLICY "Admins manage offers" ON placement_offers
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE OR REPLACE FUNCTION check_placement_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM placement_applications
+    WHERE id = NEW.application_id AND application_status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'Offers can only be made on accepted applications';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('accepted', 'declined')
+    AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'revoked' THEN
+    RAISE EXCEPTION 'The student has already answered this offer';
+  END IF;
+
+  -- Moving the expiry of an expired offer into the future gives the student another chance
+  IF TG_OP = 'UPDATE' AND OLD.status = 'expired' AND NEW.status = 'expired' AND NEW.expires_at > now() THEN
+    NEW.status := 'pending';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_offers_check ON placement_offers;
+CREATE TRIGGER placement_offers_check
+BEFORE INSERT OR UPDATE ON placement_offers
+FOR EACH ROW EXECUTE FUNCTION check_placement_offer();
+
+CREATE OR REPLACE FUNCTION notify_placement_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id uuid;
+  v_event placement_events%ROWTYPE;
+BEGIN
+  SELECT pa.student_id INTO v_student_id FROM placement_applications pa WHERE pa.id = NEW.application_id;
+  SELECT e.* INTO v_event FROM placement_events e
+  JOIN placement_applications pa ON pa.placement_event_id = e.id
+  WHERE pa.id = NEW.application_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Offer Received',
+      format('%s has offered you the %s role at %s LPA. Respond before %s.',
+        v_event.company_name, NEW.role, NEW.ctc_lpa, to_char(NEW.expires_at, 'DD Mon YYYY HH24:MI')),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  ELSIF NEW.status = 'revoked' AND OLD.status IS DISTINCT FROM 'revoked' THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Offer Revoked',
+      format('Your offer for the %s role at %s has been revoked.', NEW.role, v_event.company_name),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_offers_notify ON placement_offers;
+CREATE TRIGGER placement_offers_notify
+AFTER INSERT OR UPDATE OF status ON placement_offers
+FOR EACH ROW EXECUTE FUNCTION notify_placement_offer();
+
+-- Students can't write offers directly, answering one goes through here
+CREATE OR REPLACE FUNCTION respond_to_offer(p_offer_id uuid, p_accept boolean, p_reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer placement_offers%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_offer FROM placement_offers o
+  JOIN placement_applications pa ON pa.id = o.application_id
+  WHERE o.id = p_offer_id AND pa.student_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF v_offer.id IS NULL THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer has already been %', v_offer.status;
+  END IF;
+
+  IF v_offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer expired on %', to_char(v_offer.expires_at, 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  IF NOT p_accept AND nullif(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to decline an offer';
+  END IF;
+
+  UPDATE placement_offers
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    decline_reason = CASE WHEN p_accept THEN NULL ELSE trim(p_reason) END,
+    responded_at = now()
+  WHERE id = v_offer.id;
+
+  RETURN CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION respond_to_offer(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION respond_to_offer(uuid, boolean, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION expire_placement_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE placement_offers SET status = 'expired'
+  WHERE status = 'pending' AND expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_placement_offers() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-placement-offers',
+  '*/15 * * * *',
+  'SELECT public.expire_placement_offers()'
+);
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['placement_offers'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,278 @@
+/*
+  # Placement policy
+
+  1. Changes
+    - `placement_events.tier` is `regular`, `dream` or `super_dream`, and
+      `placement_events.academic_year` (e.g. `2025-26`) is the placement season the event
+      belongs to. Existing events take the academic year of their event date
+
+  2. New Tables
+    - `placement_policies`: one row per academic year. `one_offer_enabled` stops placed
+      students from applying to further events. `tier_rules` holds, per dream tier, the CTC
+      in lakhs per annum a student's offer must be below to still apply
+      (`max_offer_ctc_lpa`) and how many events of that tier they may apply to once placed
+      (`max_applications`). A tier without rules is closed to placed students. Years without
+      a policy follow the one-offer rule with no exceptions
+
+  3. Functions
+    - `placement_policy_failure` explains why the policy stops a student applying to an
+      event, or returns null
+    - `get_placement_policy_blocks` returns that reason for every event a student is blocked
+      from
+
+  4. Rules
+    - A student is placed once they are selected for an event in the same academic year and
+      haven't declined the offer, let it expire or had it revoked
+    - Students can only apply to events the policy allows
+
+  5. Security
+    - Signed in users read policies, placement managers change them
+    - Policies are audited
+*/
+
+CREATE OR REPLACE FUNCTION academic_year_for(p_date timestamptz)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  -- Academic years run from June to May
+  SELECT CASE
+    WHEN extract(month FROM p_date) >= 6
+      THEN format('%s-%s', extract(year FROM p_date)::int, lpad(((extract(year FROM p_date)::int + 1) % 100)::text, 2, '0'))
+    ELSE format('%s-%s', extract(year FROM p_date)::int - 1, lpad((extract(year FROM p_date)::int % 100)::text, 2, '0'))
+  END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'tier'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN tier text NOT NULL DEFAULT 'regular'
+      CHECK (tier IN ('regular', 'dream', 'super_dream'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'academic_year'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN academic_year text;
+    UPDATE placement_events SET academic_year = academic_year_for(coalesce(event_date, created_at, now()));
+    ALTER TABLE placement_events ALTER COLUMN academic_year SET DEFAULT academic_year_for(now());
+    ALTER TABLE placement_events ALTER COLUMN academic_year SET NOT NULL;
+    ALTER TABLE placement_events ADD CONSTRAINT placement_events_academic_year_format
+      CHECK (academic_year ~ '^\d{4}-\d{2}$');
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_placement_events_academic_year ON placement_events (academic_year, tier);
+
+CREATE TABLE IF NOT EXISTS placement_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  academic_year text NOT NULL UNIQUE CHECK (academic_year ~ '^\d{4}-\d{2}$'),
+  one_offer_enabled boolean NOT NULL DEFAULT true,
+  tier_rules jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE placement_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users read placement policies" ON placement_policies;
+DROP POLICY IF EXISTS "Admins manage placement policies" ON placement_policies;
+
+CREATE POLICY "Signed in users read placement policies" ON placement_policies
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage placement policies" ON placement_policies
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE OR REPLACE FUNCTION check_placement_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tier text;
+BEGIN
+  FOR v_tier IN SELECT jsonb_object_keys(NEW.tier_rules) LOOP
+    IF v_tier NOT IN ('dream', 'super_dream') THEN
+      RAISE EXCEPTION 'Unknown placement tier "%"', v_tier;
+    END IF;
+
+    IF coalesce((NEW.tier_rules->v_tier->>'max_offer_ctc_lpa')::numeric, 0) <= 0
+      OR coalesce((NEW.tier_rules->v_tier->>'max_applications')::integer, 0) <= 0 THEN
+      RAISE EXCEPTION 'The % tier needs an offer CTC limit and an application cap above zero', replace(v_tier, '_', ' ');
+    END IF;
+  END LOOP;
+
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_policies_check ON placement_policies;
+CREATE TRIGGER placement_policies_check
+BEFORE INSERT OR UPDATE ON placement_policies
+FOR EACH ROW EXECUTE FUNCTION check_placement_policy();
+
+CREATE OR REPLACE FUNCTION placement_policy_failure(p_event placement_events, p_student_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy placement_policies%ROWTYPE;
+  v_rule jsonb;
+  v_tier_label text := initcap(replace(p_event.tier, '_', ' '));
+  v_placements integer;
+  v_best_ctc numeric;
+  v_placed_at timestamptz;
+  v_company text;
+  v_used integer;
+BEGIN
+  SELECT * INTO v_policy FROM placement_policies WHERE academic_year = p_event.academic_year;
+
+  IF v_policy.academic_year IS NOT NULL AND NOT v_policy.one_offer_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT count(*), max(o.ctc_lpa), min(coalesce(pa.status_changed_at, pa.applied_at)),
+    (array_agg(e.company_name ORDER BY o.ctc_lpa DESC NULLS LAST))[1]
+  INTO v_placements, v_best_ctc, v_placed_at, v_company
+  FROM placement_applications pa
+  JOIN placement_events e ON e.id = pa.placement_event_id
+  LEFT JOIN placement_offers o ON o.application_id = pa.id
+  WHERE pa.student_id = p_student_id
+    AND pa.application_status = 'accepted'
+    AND pa.placement_event_id <> p_event.id
+    AND e.academic_year = p_event.academic_year
+    AND coalesce(o.status, 'pending') NOT IN ('declined', 'expired', 'revoked');
+
+  IF v_placements = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_event.tier = 'regular' THEN
+    RETURN format('You have already been placed at %s this year', v_company);
+  END IF;
+
+  v_rule := v_policy.tier_rules->p_event.tier;
+  IF v_rule IS NULL THEN
+    RETURN format('You have already been placed at %s, %s drives are closed to placed students this year',
+      v_company, v_tier_label);
+  END IF;
+
+  IF v_best_ctc IS NULL THEN
+    RETURN format('You have already been placed at %s, ask the placement cell to record your offer to apply to %s drives',
+      v_company, v_tier_label);
+  END IF;
+
+  IF v_best_ctc >= (v_rule->>'max_offer_ctc_lpa')::numeric THEN
+    RETURN format('%s drives are open to students with an offer below %s LPA, yours is %s LPA',
+      v_tier_label, v_rule->>'max_offer_ctc_lpa', v_best_ctc);
+  END IF;
+
+  SELECT count(*) INTO v_used
+  FROM placement_applications pa
+  JOIN placement_events e ON e.id = pa.placement_event_id
+  WHERE pa.student_id = p_student_id
+    AND pa.placement_event_id <> p_event.id
+    AND e.academic_year = p_event.academic_year
+    AND e.tier = p_event.tier
+    AND pa.applied_at >= v_placed_at;
+
+  IF v_used >= (v_rule->>'max_applications')::integer THEN
+    RETURN format('You have used all %s of your %s applications after being placed',
+      v_rule->>'max_applications', v_tier_label);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION placement_policy_failure(placement_events, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_placement_policy_blocks(p_student_id uuid DEFAULT auth.uid())
+RETURNS TABLE (event_id uuid, reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_student_id IS DISTINCT FROM auth.uid()
+    AND NOT (has_admin_permission('view_placements') AND admin_can_access_student(p_student_id)) THEN
+    RAISE EXCEPTION 'Not allowed to view this student''s placement policy';
+  END IF;
+
+  RETURN QUERY
+  SELECT blocks.id, blocks.reason
+  FROM (
+    SELECT e.id, placement_policy_failure(e, p_student_id) AS reason
+    FROM placement_events e
+    WHERE e.archived_at IS NULL AND (e.status <> 'draft' OR is_admin())
+  ) blocks
+  WHERE blocks.reason IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_placement_policy_blocks(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_placement_policy_blocks(uuid) TO authenticated;
+
+-- Replaces the one-offer check the app used to make on its own
+CREATE OR REPLACE FUNCTION check_application_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event placement_events%ROWTYPE;
+  v_reason text;
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_event FROM placement_events WHERE id = NEW.placement_event_id;
+  IF v_event.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two dream applications sent at once mustn't both fit under the cap
+  PERFORM pg_advisory_xact_lock(hashtext('placement_policy:' || NEW.student_id::text));
+
+  v_reason := placement_policy_failure(v_event, NEW.student_id);
+  IF v_reason IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_check_policy ON placement_applications;
+CREATE TRIGGER placement_applications_check_policy
+BEFORE INSERT ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION check_application_policy();
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['placement_policies'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
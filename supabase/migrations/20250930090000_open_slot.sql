@@ -0,0 +1,532 @@
+/*
+  # Interview scheduling
+
+  1. Changes
+    - `placement_events.students_pick_slots` lets shortlisted students pick their own
+      interview slot instead of waiting for the placement cell to assign one
+
+  2. New Tables
+    - `interview_slots`: a time window for an event with its panel, room or meeting link,
+      and how many candidates it takes
+    - `interview_bookings`: the slot a shortlisted application is interviewed in, one per
+      application. `reminder_sent_at` records when the day-before reminder went out
+
+  3. Functions
+    - `auto_assign_interview_slots` books every shortlisted applicant without a slot into
+      the earliest free slot that doesn't clash with their other interviews
+    - `get_open_interview_slots` lists the slots of an event a student can still pick
+    - `book_interview_slot` books the calling student into a slot, replacing the slot they
+      had for that event
+    - `send_interview_reminders` notifies students of interviews starting within a day;
+      pg_cron runs it every fifteen minutes
+
+  4. Rules
+    - Only shortlisted applications are booked, and never into a full slot or one that
+      overlaps another interview of the same student, across every event
+    - Moving a slot is refused if it would make any of its candidates clash. Booked students
+      are told when their slot moves, and reminded again
+    - Slots with bookings can't be deleted, and a rejected or withdrawn application gives up
+      its upcoming slot
+    - Students are notified when they are booked into a slot
+
+  5. Security
+    - Students read the slots of events they applied to and their own bookings, admins with
+      `view_placements` read everything, placement managers manage slots and bookings
+    - Slots and bookings are audited
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'students_pick_slots'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN students_pick_slots boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS interview_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES placement_events(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  panel text,
+  location text,
+  capacity integer NOT NULL DEFAULT 1 CHECK (capacity > 0),
+  created_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_slots_event ON interview_slots (event_id, starts_at);
+
+CREATE TABLE IF NOT EXISTS interview_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid NOT NULL REFERENCES interview_slots(id) ON DELETE CASCADE,
+  application_id uuid NOT NULL UNIQUE REFERENCES placement_applications(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  reminder_sent_at timestamptz,
+  booked_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_bookings_slot ON interview_bookings (slot_id);
+CREATE INDEX IF NOT EXISTS idx_interview_bookings_student ON interview_bookings (student_id);
+
+ALTER TABLE interview_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_bookings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read slots of events they applied to" ON interview_slots;
+DROP POLICY IF EXISTS "Admins read interview slots" ON interview_slots;
+DROP POLICY IF EXISTS "Admins manage interview slots" ON interview_slots;
+DROP POLICY IF EXISTS "Students read own interview bookings" ON interview_bookings;
+DROP POLICY IF EXISTS "Admins read interview bookings" ON interview_bookings;
+DROP POLICY IF EXISTS "Admins manage interview bookings" ON interview_bookings;
+
+CREATE POLICY "Students read slots of events they applied to" ON interview_slots
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM placement_applications pa
+    WHERE pa.placement_event_id = event_id AND pa.student_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins read interview slots" ON interview_slots
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_placements'));
+
+CREATE POLICY "Admins manage interview slots" ON interview_slots
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Students read own interview bookings" ON interview_bookings
+FOR SELECT TO authenticated
+USING (student_id = auth.uid());
+
+CREATE POLICY "Admins read interview bookings" ON interview_bookings
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_placements') AND admin_can_access_student(student_id));
+
+CREATE POLICY "Admins manage interview bookings" ON interview_bookings
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+-- The interview a student already has that overlaps the given window, if any
+CREATE OR REPLACE FUNCTION find_interview_clash(
+  p_student_id uuid,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_ignore_application_id uuid DEFAULT NULL
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT format('%s interview at %s', e.company_name, to_char(s.starts_at, 'DD Mon YYYY HH24:MI'))
+  FROM interview_bookings b
+  JOIN interview_slots s ON s.id = b.slot_id
+  JOIN placement_events e ON e.id = s.event_id
+  WHERE b.student_id = p_student_id
+    AND b.application_id IS DISTINCT FROM p_ignore_application_id
+    AND tstzrange(s.starts_at, s.ends_at) && tstzrange(p_starts_at, p_ends_at)
+  ORDER BY s.starts_at
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_interview_clash(uuid, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_interview_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_application placement_applications%ROWTYPE;
+  v_clash text;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = NEW.slot_id FOR UPDATE;
+  SELECT * INTO v_application FROM placement_applications WHERE id = NEW.application_id;
+
+  IF v_application.placement_event_id IS DISTINCT FROM v_slot.event_id THEN
+    RAISE EXCEPTION 'The slot belongs to a different event';
+  END IF;
+
+  IF v_application.application_status <> 'shortlisted' THEN
+    RAISE EXCEPTION 'Only shortlisted applicants can be given an interview slot';
+  END IF;
+
+  NEW.student_id := v_application.student_id;
+
+  IF (
+    SELECT count(*) FROM interview_bookings
+    WHERE slot_id = NEW.slot_id AND id IS DISTINCT FROM NEW.id
+  ) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'This interview slot is full';
+  END IF;
+
+  v_clash := find_interview_clash(NEW.student_id, v_slot.starts_at, v_slot.ends_at, NEW.application_id);
+  IF v_clash IS NOT NULL THEN
+    RAISE EXCEPTION 'This slot clashes with the %', v_clash;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slot_id IS DISTINCT FROM OLD.slot_id THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_bookings_check ON interview_bookings;
+CREATE TRIGGER interview_bookings_check
+BEFORE INSERT OR UPDATE OF slot_id, application_id ON interview_bookings
+FOR EACH ROW EXECUTE FUNCTION check_interview_booking();
+
+CREATE OR REPLACE FUNCTION notify_interview_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_company text;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = NEW.slot_id;
+  SELECT company_name INTO v_company FROM placement_events WHERE id = v_slot.event_id;
+
+  INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+  VALUES (
+    'Interview Scheduled',
+    format('Your %s interview is on %s%s%s.',
+      v_company,
+      to_char(v_slot.starts_at, 'DD Mon YYYY HH24:MI'),
+      CASE WHEN v_slot.location IS NOT NULL THEN ' at ' || v_slot.location ELSE '' END,
+      CASE WHEN v_slot.panel IS NOT NULL THEN ' with ' || v_slot.panel ELSE '' END),
+    'placement', 'student', NEW.student_id, auth.uid(), true
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_bookings_notify ON interview_bookings;
+CREATE TRIGGER interview_bookings_notify
+AFTER INSERT OR UPDATE OF slot_id ON interview_bookings
+FOR EACH ROW EXECUTE FUNCTION notify_interview_booking();
+
+CREATE OR REPLACE FUNCTION check_interview_slot_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking interview_bookings%ROWTYPE;
+  v_clash text;
+  v_booked integer;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the event removes its slots along with everything else
+    IF EXISTS (SELECT 1 FROM interview_bookings WHERE slot_id = OLD.id)
+      AND EXISTS (SELECT 1 FROM placement_events WHERE id = OLD.event_id) THEN
+      RAISE EXCEPTION 'Candidates are booked into this slot, move them to another slot first';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  SELECT count(*) INTO v_booked FROM interview_bookings WHERE slot_id = NEW.id;
+  IF NEW.capacity < v_booked THEN
+    RAISE EXCEPTION '% candidates are already booked into this slot', v_booked;
+  END IF;
+
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at OR NEW.ends_at IS DISTINCT FROM OLD.ends_at THEN
+    FOR v_booking IN SELECT * FROM interview_bookings WHERE slot_id = NEW.id LOOP
+      v_clash := find_interview_clash(v_booking.student_id, NEW.starts_at, NEW.ends_at, v_booking.application_id);
+      IF v_clash IS NOT NULL THEN
+        RAISE EXCEPTION 'Moving this slot would clash with a booked candidate''s %', v_clash;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_slots_check_change ON interview_slots;
+CREATE TRIGGER interview_slots_check_change
+BEFORE UPDATE OR DELETE ON interview_slots
+FOR EACH ROW EXECUTE FUNCTION check_interview_slot_change();
+
+CREATE OR REPLACE FUNCTION notify_interview_slot_moved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company text;
+BEGIN
+  IF NEW.starts_at IS NOT DISTINCT FROM OLD.starts_at AND NEW.location IS NOT DISTINCT FROM OLD.location THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT company_name INTO v_company FROM placement_events WHERE id = NEW.event_id;
+
+  INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+  SELECT
+    'Interview Rescheduled',
+    format('Your %s interview is now on %s%s.',
+      v_company,
+      to_char(NEW.starts_at, 'DD Mon YYYY HH24:MI'),
+      CASE WHEN NEW.location IS NOT NULL THEN ' at ' || NEW.location ELSE '' END),
+    'placement', 'student', b.student_id, auth.uid(), true
+  FROM interview_bookings b
+  WHERE b.slot_id = NEW.id;
+
+  UPDATE interview_bookings SET reminder_sent_at = NULL WHERE slot_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_slots_notify_moved ON interview_slots;
+CREATE TRIGGER interview_slots_notify_moved
+AFTER UPDATE OF starts_at, ends_at, location ON interview_slots
+FOR EACH ROW EXECUTE FUNCTION notify_interview_slot_moved();
+
+CREATE OR REPLACE FUNCTION release_interview_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM interview_bookings b
+  USING interview_slots s
+  WHERE b.slot_id = s.id AND b.application_id = NEW.id AND s.starts_at > now();
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_release_interview ON placement_applications;
+CREATE TRIGGER placement_applications_release_interview
+AFTER UPDATE OF application_status ON placement_applications
+FOR EACH ROW
+WHEN (NEW.application_status IN ('rejected', 'withdrawn') AND OLD.application_status IS DISTINCT FROM NEW.application_status)
+EXECUTE FUNCTION release_interview_booking();
+
+CREATE OR REPLACE FUNCTION auto_assign_interview_slots(p_event_id uuid)
+RETURNS TABLE (assigned integer, unassigned integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application placement_applications%ROWTYPE;
+  v_slot interview_slots%ROWTYPE;
+  v_placed boolean;
+BEGIN
+  IF NOT has_admin_permission('manage_placements') THEN
+    RAISE EXCEPTION 'Only placement admins can assign interview slots';
+  END IF;
+
+  assigned := 0;
+  unassigned := 0;
+
+  FOR v_application IN
+    SELECT pa.* FROM placement_applications pa
+    WHERE pa.placement_event_id = p_event_id
+      AND pa.application_status = 'shortlisted'
+      AND NOT EXISTS (SELECT 1 FROM interview_bookings b WHERE b.application_id = pa.id)
+    ORDER BY pa.applied_at
+  LOOP
+    v_placed := false;
+
+    FOR v_slot IN
+      SELECT s.* FROM interview_slots s
+      WHERE s.event_id = p_event_id
+        AND s.starts_at > now()
+        AND (SELECT count(*) FROM interview_bookings b WHERE b.slot_id = s.id) < s.capacity
+      ORDER BY s.starts_at
+    LOOP
+      IF find_interview_clash(v_application.student_id, v_slot.starts_at, v_slot.ends_at) IS NULL THEN
+        INSERT INTO interview_bookings (slot_id, application_id, student_id)
+        VALUES (v_slot.id, v_application.id, v_application.student_id);
+        v_placed := true;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_placed THEN
+      assigned := assigned + 1;
+    ELSE
+      unassigned := unassigned + 1;
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION auto_assign_interview_slots(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION auto_assign_interview_slots(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_open_interview_slots(p_event_id uuid)
+RETURNS TABLE (
+  slot_id uuid,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  panel text,
+  location text,
+  remaining integer,
+  clash text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application_id uuid;
+BEGIN
+  SELECT id INTO v_application_id FROM placement_applications
+  WHERE placement_event_id = p_event_id AND student_id = auth.uid() AND application_status = 'shortlisted';
+
+  IF v_application_id IS NULL THEN
+    RAISE EXCEPTION 'Only shortlisted applicants can pick an interview slot';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.starts_at, s.ends_at, s.panel, s.location,
+    (s.capacity - (SELECT count(*) FROM interview_bookings b WHERE b.slot_id = s.id))::integer,
+    find_interview_clash(auth.uid(), s.starts_at, s.ends_at, v_application_id)
+  FROM interview_slots s
+  WHERE s.event_id = p_event_id AND s.starts_at > now()
+  ORDER BY s.starts_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_open_interview_slots(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_open_interview_slots(uuid) TO authenticated;
+
+-- Students can't write bookings directly, picking a slot goes through here
+CREATE OR REPLACE FUNCTION book_interview_slot(p_slot_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_application_id uuid;
+  v_booking interview_bookings%ROWTYPE;
+  v_booking_id uuid;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id;
+  IF v_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Interview slot not found';
+  END IF;
+
+  IF NOT (SELECT students_pick_slots FROM placement_events WHERE id = v_slot.event_id) THEN
+    RAISE EXCEPTION 'The placement cell assigns interview slots for this event';
+  END IF;
+
+  IF v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview slot has already started';
+  END IF;
+
+  SELECT id INTO v_application_id FROM placement_applications
+  WHERE placement_event_id = v_slot.event_id AND student_id = auth.uid() AND application_status = 'shortlisted';
+
+  IF v_application_id IS NULL THEN
+    RAISE EXCEPTION 'Only shortlisted applicants can pick an interview slot';
+  END IF;
+
+  SELECT b.* INTO v_booking FROM interview_bookings b WHERE b.application_id = v_application_id;
+
+  IF v_booking.id IS NULL THEN
+    INSERT INTO interview_bookings (slot_id, application_id, student_id)
+    VALUES (p_slot_id, v_application_id, auth.uid())
+    RETURNING id INTO v_booking_id;
+  ELSE
+    IF (SELECT s.starts_at FROM interview_slots s WHERE s.id = v_booking.slot_id) <= now() THEN
+      RAISE EXCEPTION 'Your interview for this event has already started';
+    END IF;
+
+    UPDATE interview_bookings SET slot_id = p_slot_id, booked_by = auth.uid()
+    WHERE id = v_booking.id
+    RETURNING id INTO v_booking_id;
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION book_interview_slot(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION book_interview_slot(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION send_interview_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH due AS (
+    UPDATE interview_bookings b
+    SET reminder_sent_at = now()
+    FROM interview_slots s
+    WHERE s.id = b.slot_id
+      AND b.reminder_sent_at IS NULL
+      AND s.starts_at > now()
+      AND s.starts_at <= now() + interval '24 hours'
+    RETURNING b.student_id, s.event_id, s.starts_at, s.location, s.panel
+  )
+  INSERT INTO notifications (title, message, type, target_audience, student_id, is_active)
+  SELECT
+    'Interview Reminder',
+    format('Your %s interview is on %s%s%s.',
+      e.company_name,
+      to_char(due.starts_at, 'DD Mon YYYY HH24:MI'),
+      CASE WHEN due.location IS NOT NULL THEN ' at ' || due.location ELSE '' END,
+      CASE WHEN due.panel IS NOT NULL THEN ' with ' || due.panel ELSE '' END),
+    'placement', 'student', due.student_id, true
+  FROM due
+  JOIN placement_events e ON e.id = due.event_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_interview_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-interview-reminders',
+  '*/15 * * * *',
+  'SELECT public.send_interview_reminders()'
+);
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['interview_slots', 'interview_bookings'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,207 @@
+/*
+  # Company records
+
+  1. New Tables
+    - `companies`: one row per recruiter with its sector, website, logo and notes.
+      `normalized_name` ignores case, punctuation and suffixes like Inc or Pvt Ltd, so
+      "Google" and "google inc" are the same company
+    - `company_contacts`: the company's HR and recruiting contacts
+
+  2. Changes
+    - `placement_events.company_id` points at the company running the drive. Existing events
+      are matched to companies created from their company names.
+      `placement_events.company_name` is kept as a copy of the company's name so
+      notifications and exports keep working, and follows the company when it is renamed
+    - Events created without a company are matched by name, or get a new company
+    - A private `company-logos` storage bucket holds logos
+
+  3. Functions
+    - `normalize_company_name` gives the name companies are matched on
+
+  4. Security
+    - Admins with `view_placements` read companies, contacts and logos; placement managers
+      manage them
+    - Companies and contacts are audited
+*/
+
+CREATE OR REPLACE FUNCTION normalize_company_name(p_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(coalesce(p_name, '')), '[^a-z0-9]+', ' ', 'g'),
+    '( (inc|incorporated|ltd|limited|llc|llp|plc|pvt|private|corp|corporation|co|company))+ *$',
+    ''
+  ));
+$$;
+
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  normalized_name text GENERATED ALWAYS AS (normalize_company_name(name)) STORED UNIQUE,
+  sector text,
+  website text,
+  logo_url text,
+  notes text,
+  created_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS company_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  designation text,
+  email text,
+  phone text,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_contacts_company ON company_contacts (company_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'company_id'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN company_id uuid REFERENCES companies(id) ON DELETE RESTRICT;
+
+    INSERT INTO companies (name)
+    SELECT DISTINCT ON (normalize_company_name(company_name)) trim(company_name)
+    FROM placement_events
+    WHERE nullif(normalize_company_name(company_name), '') IS NOT NULL
+    ORDER BY normalize_company_name(company_name), created_at
+    ON CONFLICT (normalized_name) DO NOTHING;
+
+    UPDATE placement_events e SET company_id = c.id
+    FROM companies c
+    WHERE c.normalized_name = normalize_company_name(e.company_name);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_placement_events_company ON placement_events (company_id);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins read companies" ON companies;
+DROP POLICY IF EXISTS "Admins manage companies" ON companies;
+DROP POLICY IF EXISTS "Admins read company contacts" ON company_contacts;
+DROP POLICY IF EXISTS "Admins manage company contacts" ON company_contacts;
+
+CREATE POLICY "Admins read companies" ON companies
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_placements'));
+
+CREATE POLICY "Admins manage companies" ON companies
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE POLICY "Admins read company contacts" ON company_contacts
+FOR SELECT TO authenticated
+USING (has_admin_permission('view_placements'));
+
+CREATE POLICY "Admins manage company contacts" ON company_contacts
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE OR REPLACE FUNCTION set_placement_event_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.company_id IS NULL THEN
+    IF nullif(normalize_company_name(NEW.company_name), '') IS NULL THEN
+      RAISE EXCEPTION 'Placement events need a company';
+    END IF;
+
+    SELECT id INTO NEW.company_id FROM companies
+    WHERE normalized_name = normalize_company_name(NEW.company_name);
+
+    IF NEW.company_id IS NULL THEN
+      INSERT INTO companies (name) VALUES (trim(NEW.company_name))
+      RETURNING id INTO NEW.company_id;
+    END IF;
+  END IF;
+
+  SELECT name INTO NEW.company_name FROM companies WHERE id = NEW.company_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_events_set_company ON placement_events;
+CREATE TRIGGER placement_events_set_company
+BEFORE INSERT OR UPDATE OF company_id, company_name ON placement_events
+FOR EACH ROW EXECUTE FUNCTION set_placement_event_company();
+
+CREATE OR REPLACE FUNCTION touch_company()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS companies_touch ON companies;
+CREATE TRIGGER companies_touch
+BEFORE UPDATE ON companies
+FOR EACH ROW EXECUTE FUNCTION touch_company();
+
+-- Runs after the rename so the event trigger above reads the new name
+CREATE OR REPLACE FUNCTION sync_company_name()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE placement_events SET company_name = NEW.name WHERE company_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS companies_sync_name ON companies;
+CREATE TRIGGER companies_sync_name
+AFTER UPDATE OF name ON companies
+FOR EACH ROW
+WHEN (NEW.name IS DISTINCT FROM OLD.name)
+EXECUTE FUNCTION sync_company_name();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('company-logos', 'company-logos', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Admins read company logos" ON storage.objects;
+DROP POLICY IF EXISTS "Placement admins manage company logos" ON storage.objects;
+
+CREATE POLICY "Admins read company logos" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'company-logos' AND has_admin_permission('view_placements'));
+
+CREATE POLICY "Placement admins manage company logos" ON storage.objects
+FOR ALL TO authenticated
+USING (bucket_id = 'company-logos' AND has_admin_permission('manage_placements'))
+WITH CHECK (bucket_id = 'company-logos' AND has_admin_permission('manage_placements'));
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'company_contacts'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,246 @@
+/*
+  # Requirement types
+
+  1. New Tables
+    - `requirement_types`: the documents and answers placement events can ask for. Each type
+      has a `label`, a `key` stored in `placement_requirements.type`, and an `answer_kind`:
+      - `file`: `allowed_mime_types` lists the accepted types (`image/*` matches any image,
+        an empty list accepts anything), `max_size_mb` caps each file and `allow_multiple`
+        lets students upload more than one
+      - `text`: a written answer to the `description`, e.g. "Why do you want to join?"
+      - `url`: a link, e.g. a GitHub profile
+      Archived types can't be added to new events
+    - The six types the app used to hard-code are created, along with any other type already
+      used by an event
+
+  2. Changes
+    - `placement_requirements.type` must be a requirement type
+    - `student_requirement_submissions.file_urls` holds every uploaded file, `file_url` keeps
+      the first one for older exports. `answer` holds text and link answers
+    - A private `placement-requirements` storage bucket holds requirement uploads
+
+  3. Rules
+    - Submissions are checked against their requirement type: files must be uploaded, of an
+      allowed type and within the size limit; answers can't be empty and links must be http(s)
+
+  4. Security
+    - Signed in users read requirement types, placement managers change them
+    - Requirement types are audited
+*/
+
+CREATE TABLE IF NOT EXISTS requirement_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9]+(_[a-z0-9]+)*$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  description text,
+  answer_kind text NOT NULL DEFAULT 'file' CHECK (answer_kind IN ('file', 'text', 'url')),
+  allowed_mime_types text[] NOT NULL DEFAULT '{}',
+  max_size_mb numeric NOT NULL DEFAULT 10 CHECK (max_size_mb > 0 AND max_size_mb <= 50),
+  allow_multiple boolean NOT NULL DEFAULT false,
+  archived_at timestamptz,
+  created_by uuid REFERENCES admin_users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO requirement_types (key, label, answer_kind, allowed_mime_types, max_size_mb, allow_multiple)
+VALUES
+  ('video_introduction', 'Video Introduction', 'file', ARRAY['video/*'], 50, false),
+  ('portfolio', 'Portfolio', 'file', ARRAY['application/pdf', 'image/*'], 20, true),
+  ('cover_letter', 'Cover Letter', 'file', ARRAY['application/pdf'], 5, false),
+  ('certificates', 'Certificates', 'file', ARRAY['application/pdf', 'image/*'], 10, true),
+  ('project_demo', 'Project Demo', 'file', ARRAY['video/*', 'application/pdf'], 50, false),
+  ('coding_sample', 'Coding Sample', 'file', ARRAY['application/pdf', 'text/*', 'application/zip'], 10, true)
+ON CONFLICT (key) DO NOTHING;
+
+-- Types events already use that the app never listed accept the files it used to allow
+UPDATE placement_requirements
+SET type = trim(BOTH '_' FROM regexp_replace(lower(type), '[^a-z0-9]+', '_', 'g'))
+WHERE type !~ '^[a-z0-9]+(_[a-z0-9]+)*$';
+
+INSERT INTO requirement_types (key, label, allowed_mime_types, max_size_mb)
+SELECT DISTINCT pr.type, initcap(replace(pr.type, '_', ' ')), ARRAY['application/pdf', 'image/*', 'video/*'], 50
+FROM placement_requirements pr
+ON CONFLICT (key) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'placement_requirements' AND constraint_name = 'placement_requirements_type_fkey'
+  ) THEN
+    ALTER TABLE placement_requirements ADD CONSTRAINT placement_requirements_type_fkey
+      FOREIGN KEY (type) REFERENCES requirement_types(key) ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_requirement_submissions' AND column_name = 'file_urls'
+  ) THEN
+    ALTER TABLE student_requirement_submissions ADD COLUMN file_urls text[] NOT NULL DEFAULT '{}';
+    UPDATE student_requirement_submissions SET file_urls = ARRAY[file_url] WHERE file_url IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_requirement_submissions' AND column_name = 'answer'
+  ) THEN
+    ALTER TABLE student_requirement_submissions ADD COLUMN answer text;
+  END IF;
+END $$;
+
+ALTER TABLE student_requirement_submissions ALTER COLUMN file_url DROP NOT NULL;
+
+ALTER TABLE requirement_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users read requirement types" ON requirement_types;
+DROP POLICY IF EXISTS "Admins manage requirement types" ON requirement_types;
+
+CREATE POLICY "Signed in users read requirement types" ON requirement_types
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage requirement types" ON requirement_types
+FOR ALL TO authenticated
+USING (has_admin_permission('manage_placements'))
+WITH CHECK (has_admin_permission('manage_placements'));
+
+CREATE OR REPLACE FUNCTION touch_requirement_type()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.answer_kind <> 'file' THEN
+    NEW.allowed_mime_types := '{}';
+    NEW.allow_multiple := false;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS requirement_types_touch ON requirement_types;
+CREATE TRIGGER requirement_types_touch
+BEFORE INSERT OR UPDATE ON requirement_types
+FOR EACH ROW EXECUTE FUNCTION touch_requirement_type();
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('placement-requirements', 'placement-requirements', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+-- `image/*` matches any image type, an empty list matches everything
+CREATE OR REPLACE FUNCTION mime_type_allowed(p_mime_type text, p_allowed text[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT cardinality(p_allowed) = 0 OR EXISTS (
+    SELECT 1 FROM unnest(p_allowed) allowed
+    WHERE lower(p_mime_type) = lower(allowed)
+      OR (allowed LIKE '%/*' AND lower(p_mime_type) LIKE lower(left(allowed, -1)) || '%')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_requirement_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type requirement_types%ROWTYPE;
+  v_url text;
+  v_match text[];
+  v_object record;
+BEGIN
+  SELECT rt.* INTO v_type
+  FROM placement_requirements pr
+  JOIN requirement_types rt ON rt.key = pr.type
+  WHERE pr.id = NEW.requirement_id;
+
+  IF v_type.id IS NULL THEN
+    RAISE EXCEPTION 'This requirement no longer exists';
+  END IF;
+
+  IF v_type.answer_kind <> 'file' THEN
+    NEW.answer := nullif(trim(NEW.answer), '');
+    NEW.file_urls := '{}';
+    NEW.file_url := NULL;
+
+    IF NEW.answer IS NULL THEN
+      RAISE EXCEPTION '% needs an answer', v_type.label;
+    END IF;
+    IF length(NEW.answer) > 5000 THEN
+      RAISE EXCEPTION '% answers can be at most 5000 characters', v_type.label;
+    END IF;
+    IF v_type.answer_kind = 'url' AND NEW.answer !~* '^https?://[^\s]+$' THEN
+      RAISE EXCEPTION '% must be a link starting with http:// or https://', v_type.label;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Older app versions only send file_url
+  IF NEW.file_url IS NOT NULL AND (
+    cardinality(NEW.file_urls) = 0
+    OR (TG_OP = 'UPDATE' AND NEW.file_url IS DISTINCT FROM OLD.file_url AND NEW.file_urls = OLD.file_urls)
+  ) THEN
+    NEW.file_urls := ARRAY[NEW.file_url];
+  END IF;
+  NEW.file_url := NEW.file_urls[1];
+  NEW.answer := NULL;
+
+  IF cardinality(NEW.file_urls) = 0 THEN
+    RAISE EXCEPTION '% needs a file', v_type.label;
+  END IF;
+  IF cardinality(NEW.file_urls) > 1 AND NOT v_type.allow_multiple THEN
+    RAISE EXCEPTION '% takes a single file', v_type.label;
+  END IF;
+  IF cardinality(NEW.file_urls) > 10 THEN
+    RAISE EXCEPTION 'Upload at most 10 files for %', v_type.label;
+  END IF;
+
+  FOREACH v_url IN ARRAY NEW.file_urls LOOP
+    v_match := regexp_match(v_url, '/storage/v1/object/(?:public|authenticated|sign)/([^/]+)/([^?]+)');
+    IF v_match IS NULL THEN
+      RAISE EXCEPTION 'Upload the % file instead of linking to it', v_type.label;
+    END IF;
+
+    SELECT o.metadata->>'mimetype' AS mime_type, (o.metadata->>'size')::bigint AS size
+    INTO v_object
+    FROM storage.objects o
+    WHERE o.bucket_id = v_match[1] AND o.name = v_match[2];
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The % file hasn''t finished uploading', v_type.label;
+    END IF;
+    IF NOT mime_type_allowed(coalesce(v_object.mime_type, ''), v_type.allowed_mime_types) THEN
+      RAISE EXCEPTION '% doesn''t accept % files', v_type.label, coalesce(v_object.mime_type, 'unknown');
+    END IF;
+    IF v_object.size > v_type.max_size_mb * 1024 * 1024 THEN
+      RAISE EXCEPTION '% files can be at most % MB', v_type.label, v_type.max_size_mb;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_requirement_submissions_check ON student_requirement_submissions;
+CREATE TRIGGER student_requirement_submissions_check
+BEFORE INSERT OR UPDATE OF requirement_id, file_url, file_urls, answer ON student_requirement_submissions
+FOR EACH ROW EXECUTE FUNCTION check_requirement_submission();
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['requirement_types'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t || '_audit', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_event()',
+      t || '_audit', t
+    );
+  END LOOP;
+END $$;
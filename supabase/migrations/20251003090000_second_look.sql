@@ -0,0 +1,192 @@
+/*
+  # Requirement reviews
+
+  1. Changes
+    - `student_requirement_submissions.submission_status` is `pending`, `approved` or
+      `changes_requested`. Older statuses are treated as not yet reviewed
+    - `reviewed_by` and `reviewed_at` record who last reviewed a submission and when,
+      `admin_feedback` holds what the student needs to change
+
+  2. Rules
+    - Only placement admins review submissions, and asking for changes needs feedback
+    - Resubmitting files or an answer puts the submission back in review
+    - Applications can't be shortlisted until every required item is approved
+
+  3. Notifications
+    - Students are notified when a submission is approved or needs changes
+*/
+
+UPDATE student_requirement_submissions
+SET submission_status = 'pending'
+WHERE submission_status IS NULL OR submission_status NOT IN ('pending', 'approved', 'changes_requested');
+
+ALTER TABLE student_requirement_submissions ALTER COLUMN submission_status SET DEFAULT 'pending';
+ALTER TABLE student_requirement_submissions ALTER COLUMN submission_status SET NOT NULL;
+
+ALTER TABLE student_requirement_submissions DROP CONSTRAINT IF EXISTS student_requirement_submissions_status_check;
+ALTER TABLE student_requirement_submissions ADD CONSTRAINT student_requirement_submissions_status_check
+  CHECK (submission_status IN ('pending', 'approved', 'changes_requested'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_requirement_submissions' AND column_name = 'reviewed_by'
+  ) THEN
+    ALTER TABLE student_requirement_submissions ADD COLUMN reviewed_by uuid
+      REFERENCES admin_users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_requirement_submissions' AND column_name = 'reviewed_at'
+  ) THEN
+    ALTER TABLE student_requirement_submissions ADD COLUMN reviewed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION protect_requirement_review()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    -- Students can't review themselves, and a new file or answer needs a new review
+    IF TG_OP = 'INSERT'
+      OR NEW.file_urls IS DISTINCT FROM OLD.file_urls
+      OR NEW.file_url IS DISTINCT FROM OLD.file_url
+      OR NEW.answer IS DISTINCT FROM OLD.answer THEN
+      NEW.submission_status := 'pending';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.admin_feedback := CASE WHEN TG_OP = 'UPDATE' THEN OLD.admin_feedback END;
+    ELSE
+      NEW.submission_status := OLD.submission_status;
+      NEW.reviewed_by := OLD.reviewed_by;
+      NEW.reviewed_at := OLD.reviewed_at;
+      NEW.admin_feedback := OLD.admin_feedback;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.submission_status IS NOT DISTINCT FROM OLD.submission_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.submission_status = 'changes_requested' AND nullif(trim(NEW.admin_feedback), '') IS NULL THEN
+    RAISE EXCEPTION 'Tell the student what to change before asking for changes';
+  END IF;
+
+  IF NEW.submission_status = 'pending' THEN
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_requirement_submissions_protect_review ON student_requirement_submissions;
+CREATE TRIGGER student_requirement_submissions_protect_review
+BEFORE INSERT OR UPDATE ON student_requirement_submissions
+FOR EACH ROW EXECUTE FUNCTION protect_requirement_review();
+
+CREATE OR REPLACE FUNCTION notify_requirement_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id uuid;
+  v_event placement_events%ROWTYPE;
+  v_label text;
+BEGIN
+  IF NOT is_admin() OR NEW.submission_status NOT IN ('approved', 'changes_requested') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pa.student_id, rt.label INTO v_student_id, v_label
+  FROM placement_applications pa
+  JOIN placement_requirements pr ON pr.id = NEW.requirement_id
+  JOIN requirement_types rt ON rt.key = pr.type
+  WHERE pa.id = NEW.placement_application_id;
+
+  SELECT e.* INTO v_event
+  FROM placement_events e
+  JOIN placement_applications pa ON pa.placement_event_id = e.id
+  WHERE pa.id = NEW.placement_application_id;
+
+  IF NEW.submission_status = 'approved' THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Requirement Approved',
+      format('Your %s for %s at %s has been approved.', v_label, v_event.title, v_event.company_name),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  ELSE
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Changes Requested',
+      format('Please update your %s for %s at %s. Feedback: %s',
+        v_label, v_event.title, v_event.company_name, NEW.admin_feedback),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_requirement_submissions_notify ON student_requirement_submissions;
+CREATE TRIGGER student_requirement_submissions_notify
+AFTER UPDATE OF submission_status, admin_feedback ON student_requirement_submissions
+FOR EACH ROW
+WHEN (
+  NEW.submission_status IS DISTINCT FROM OLD.submission_status
+  OR (NEW.submission_status = 'changes_requested' AND NEW.admin_feedback IS DISTINCT FROM OLD.admin_feedback)
+)
+EXECUTE FUNCTION notify_requirement_review();
+
+-- Moving applicants into a round shortlists them too, so this covers rounds as well
+CREATE OR REPLACE FUNCTION check_shortlist_requirements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_missing text;
+  v_student_name text;
+BEGIN
+  SELECT string_agg(rt.label, ', ' ORDER BY rt.label) INTO v_missing
+  FROM placement_requirements pr
+  JOIN requirement_types rt ON rt.key = pr.type
+  WHERE pr.event_id = NEW.placement_event_id
+    AND pr.is_required
+    AND NOT EXISTS (
+      SELECT 1 FROM student_requirement_submissions s
+      WHERE s.placement_application_id = NEW.id
+        AND s.requirement_id = pr.id
+        AND s.submission_status = 'approved'
+    );
+
+  IF v_missing IS NOT NULL THEN
+    SELECT name INTO v_student_name FROM students WHERE id = NEW.student_id;
+    RAISE EXCEPTION '% can''t be shortlisted until these are approved: %',
+      coalesce(v_student_name, 'This applicant'), v_missing;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_check_shortlist ON placement_applications;
+CREATE TRIGGER placement_applications_check_shortlist
+BEFORE UPDATE OF application_status ON placement_applications
+FOR EACH ROW
+WHEN (NEW.application_status = 'shortlisted' AND OLD.application_status IS DISTINCT FROM 'shortlisted')
+EXECUTE FUNCTION check_shortlist_requirements();
@@ -0,0 +1,13 @@
+/*
+  # Resume books
+
+  1. Storage
+    - A private `resume-books` bucket holds the resume book compiled for each placement
+      event by the `resume-book` function, one file per event that is replaced each time.
+      Only the function writes to it, and admins open the book through the signed link it
+      returns
+*/
+
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('resume-books', 'resume-books', false, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
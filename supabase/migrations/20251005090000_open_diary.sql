@@ -0,0 +1,200 @@
+/*
+  # Placement calendar
+
+  1. Functions
+    - `get_placement_calendar` lists the dates that matter in the placement season, one
+      row per calendar entry with a `kind`:
+      - `drive`: an event's drive date
+      - `deadline`: an event's application deadline
+      - `interview`: an interview slot
+      - `offer_expiry`: when a pending offer expires
+      Admins with `view_placements` get every event, slot and pending offer of students in
+      their classes. Students get the events they are eligible for, have an override for or
+      applied to, their own interview bookings and their own pending offers
+    - `get_calendar_feed_token` returns the caller's calendar feed token, creating it on
+      first use. Resetting it stops the old link from working
+
+  2. New Tables
+    - `calendar_feeds`: one secret token per user for subscribing to their calendar from a
+      calendar app, which can't sign in
+
+  3. Security
+    - Tokens are only read through `get_calendar_feed_token`
+    - `get_calendar_feed` returns the calendar of a token's owner and is only callable with
+      the service role, by the `calendar-feed` function
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION get_placement_calendar()
+RETURNS TABLE (
+  entry_id text,
+  kind text,
+  event_id uuid,
+  title text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  location text,
+  description text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF has_admin_permission('view_placements') THEN
+    RETURN QUERY
+    SELECT 'drive-' || e.id, 'drive', e.id,
+      format('%s: %s', e.company_name, e.title),
+      e.event_date, e.event_date + interval '1 hour', NULL::text, e.description
+    FROM placement_events e
+    WHERE e.archived_at IS NULL AND e.event_date IS NOT NULL
+    UNION ALL
+    SELECT 'deadline-' || e.id, 'deadline', e.id,
+      format('Applications close: %s', e.company_name),
+      e.application_deadline, e.application_deadline, NULL::text, e.title
+    FROM placement_events e
+    WHERE e.archived_at IS NULL AND e.application_deadline IS NOT NULL
+    UNION ALL
+    SELECT 'interview-' || s.id, 'interview', e.id,
+      format('%s interviews%s', e.company_name, coalesce(' - ' || s.panel, '')),
+      s.starts_at, s.ends_at, s.location,
+      format('%s of %s booked', (SELECT count(*) FROM interview_bookings b WHERE b.slot_id = s.id), s.capacity)
+    FROM interview_slots s
+    JOIN placement_events e ON e.id = s.event_id
+    WHERE e.archived_at IS NULL
+    UNION ALL
+    SELECT 'offer-' || o.id, 'offer_expiry', e.id,
+      format('Offer expires: %s, %s', st.name, e.company_name),
+      o.expires_at, o.expires_at, NULL::text, o.role
+    FROM placement_offers o
+    JOIN placement_applications pa ON pa.id = o.application_id
+    JOIN placement_events e ON e.id = pa.placement_event_id
+    JOIN students st ON st.id = pa.student_id
+    WHERE o.status = 'pending' AND admin_can_access_student(pa.student_id)
+    ORDER BY 5;
+  ELSIF is_student() THEN
+    RETURN QUERY
+    WITH visible AS (
+      SELECT e.*
+      FROM placement_events e
+      JOIN get_placement_eligibility(auth.uid()) g ON g.event_id = e.id
+      WHERE coalesce(array_length(g.reasons, 1), 0) = 0
+        OR g.overridden
+        OR EXISTS (
+          SELECT 1 FROM placement_applications pa
+          WHERE pa.placement_event_id = e.id AND pa.student_id = auth.uid()
+        )
+    )
+    SELECT 'drive-' || v.id, 'drive', v.id,
+      format('%s: %s', v.company_name, v.title),
+      v.event_date, v.event_date + interval '1 hour', NULL::text, v.description
+    FROM visible v
+    WHERE v.event_date IS NOT NULL
+    UNION ALL
+    SELECT 'deadline-' || v.id, 'deadline', v.id,
+      format('Applications close: %s', v.company_name),
+      v.application_deadline, v.application_deadline, NULL::text, v.title
+    FROM visible v
+    WHERE v.application_deadline IS NOT NULL
+    UNION ALL
+    SELECT 'interview-' || s.id, 'interview', e.id,
+      format('%s interview', e.company_name),
+      s.starts_at, s.ends_at, s.location, s.panel
+    FROM interview_bookings b
+    JOIN interview_slots s ON s.id = b.slot_id
+    JOIN placement_events e ON e.id = s.event_id
+    WHERE b.student_id = auth.uid() AND e.archived_at IS NULL
+    UNION ALL
+    SELECT 'offer-' || o.id, 'offer_expiry', e.id,
+      format('Respond to your %s offer', e.company_name),
+      o.expires_at, o.expires_at, NULL::text, o.role
+    FROM placement_offers o
+    JOIN placement_applications pa ON pa.id = o.application_id
+    JOIN placement_events e ON e.id = pa.placement_event_id
+    WHERE o.status = 'pending' AND pa.student_id = auth.uid()
+    ORDER BY 5;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_placement_calendar() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_placement_calendar() TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_calendar_feed_token(p_reset boolean DEFAULT false)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to subscribe to the placement calendar';
+  END IF;
+
+  IF p_reset THEN
+    DELETE FROM calendar_feeds WHERE user_id = auth.uid();
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id) VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO v_token FROM calendar_feeds WHERE user_id = auth.uid();
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_token(boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token(boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_calendar_feed(p_token text)
+RETURNS TABLE (
+  entry_id text,
+  kind text,
+  event_id uuid,
+  title text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  location text,
+  description text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user auth.users%ROWTYPE;
+BEGIN
+  SELECT u.* INTO v_user
+  FROM calendar_feeds f
+  JOIN auth.users u ON u.id = f.user_id
+  WHERE f.token = p_token;
+
+  IF v_user.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown calendar feed';
+  END IF;
+
+  -- The role helpers read the caller from the JWT claims, so act as the token's owner for
+  -- the rest of this transaction. Deactivated admins get an empty calendar
+  PERFORM set_config('request.jwt.claim.sub', v_user.id::text, true);
+  PERFORM set_config('request.jwt.claims', json_build_object(
+    'sub', v_user.id,
+    'role', 'authenticated',
+    'app_metadata', coalesce(v_user.raw_app_meta_data, '{}'::jsonb)
+  )::text, true);
+
+  RETURN QUERY SELECT * FROM get_placement_calendar();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed(text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,163 @@
+/*
+  # Application questions
+
+  1. Changes
+    - `placement_events.application_questions` lists the questions students answer when
+      applying, e.g. preferred location or expected CTC. Each question has an `id`, a
+      `label`, a `kind` (`text`, `number`, `single_choice` or `multi_choice`), the `options`
+      to choose from and whether it is `required`
+    - `placement_applications.answers` holds the student's answers keyed by question id
+
+  2. Rules
+    - Questions need a label, choice questions need at least two options, and an event can
+      ask at most 20 questions
+    - Applications must answer every required question: numbers must be numbers and choices
+      must be among the options. Answers to questions the event doesn't ask are dropped
+    - Students can't change their answers after applying. Answers to questions removed later
+      are kept
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_events' AND column_name = 'application_questions'
+  ) THEN
+    ALTER TABLE placement_events ADD COLUMN application_questions jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'placement_applications' AND column_name = 'answers'
+  ) THEN
+    ALTER TABLE placement_applications ADD COLUMN answers jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION check_application_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_question jsonb;
+  v_ids text[] := '{}';
+  v_id text;
+  v_label text;
+BEGIN
+  IF jsonb_typeof(NEW.application_questions) <> 'array' THEN
+    RAISE EXCEPTION 'Application questions must be a list';
+  END IF;
+  IF jsonb_array_length(NEW.application_questions) > 20 THEN
+    RAISE EXCEPTION 'An event can ask at most 20 application questions';
+  END IF;
+
+  FOR v_question IN SELECT value FROM jsonb_array_elements(NEW.application_questions) LOOP
+    v_id := v_question->>'id';
+    v_label := nullif(trim(v_question->>'label'), '');
+
+    IF v_label IS NULL THEN
+      RAISE EXCEPTION 'Every application question needs a label';
+    END IF;
+    IF v_id IS NULL OR v_id !~ '^[a-z0-9_]+$' OR v_id = ANY (v_ids) THEN
+      RAISE EXCEPTION 'Application question "%" needs its own id', v_label;
+    END IF;
+    IF coalesce(v_question->>'kind', '') NOT IN ('text', 'number', 'single_choice', 'multi_choice') THEN
+      RAISE EXCEPTION 'Application question "%" has an unknown kind', v_label;
+    END IF;
+    IF v_question->>'kind' IN ('single_choice', 'multi_choice') AND (
+      jsonb_typeof(v_question->'options') IS DISTINCT FROM 'array'
+      OR (SELECT count(DISTINCT trim(o)) FROM jsonb_array_elements_text(v_question->'options') o
+          WHERE trim(o) <> '') < 2
+    ) THEN
+      RAISE EXCEPTION 'Application question "%" needs at least two options', v_label;
+    END IF;
+
+    v_ids := v_ids || v_id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_events_check_application_questions ON placement_events;
+CREATE TRIGGER placement_events_check_application_questions
+BEFORE INSERT OR UPDATE OF application_questions ON placement_events
+FOR EACH ROW EXECUTE FUNCTION check_application_questions();
+
+CREATE OR REPLACE FUNCTION check_application_answers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_questions jsonb;
+  v_question jsonb;
+  v_answer jsonb;
+  v_answers jsonb := '{}'::jsonb;
+  v_label text;
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.answers := OLD.answers;
+    RETURN NEW;
+  END IF;
+
+  SELECT application_questions INTO v_questions
+  FROM placement_events WHERE id = NEW.placement_event_id;
+
+  FOR v_question IN SELECT value FROM jsonb_array_elements(coalesce(v_questions, '[]'::jsonb)) LOOP
+    v_label := v_question->>'label';
+    v_answer := coalesce(NEW.answers, '{}'::jsonb) -> (v_question->>'id');
+
+    IF v_answer IS NULL
+      OR jsonb_typeof(v_answer) = 'null'
+      OR (jsonb_typeof(v_answer) = 'string' AND trim(v_answer #>> '{}') = '')
+      OR (jsonb_typeof(v_answer) = 'array' AND jsonb_array_length(v_answer) = 0) THEN
+      IF coalesce((v_question->>'required')::boolean, false) THEN
+        RAISE EXCEPTION '% needs an answer', v_label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    CASE v_question->>'kind'
+      WHEN 'number' THEN
+        IF jsonb_typeof(v_answer) <> 'number' THEN
+          RAISE EXCEPTION '% must be a number', v_label;
+        END IF;
+      WHEN 'single_choice' THEN
+        IF jsonb_typeof(v_answer) <> 'string' OR NOT (v_question->'options' ? (v_answer #>> '{}')) THEN
+          RAISE EXCEPTION 'Pick one of the choices for %', v_label;
+        END IF;
+      WHEN 'multi_choice' THEN
+        IF jsonb_typeof(v_answer) <> 'array' OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements(v_answer) choice
+          WHERE jsonb_typeof(choice) <> 'string' OR NOT (v_question->'options' ? (choice #>> '{}'))
+        ) THEN
+          RAISE EXCEPTION 'Pick from the listed choices for %', v_label;
+        END IF;
+      ELSE
+        IF jsonb_typeof(v_answer) <> 'string' THEN
+          RAISE EXCEPTION '% needs a written answer', v_label;
+        END IF;
+        IF length(v_answer #>> '{}') > 2000 THEN
+          RAISE EXCEPTION '% answers can be at most 2000 characters', v_label;
+        END IF;
+        v_answer := to_jsonb(trim(v_answer #>> '{}'));
+    END CASE;
+
+    v_answers := v_answers || jsonb_build_object(v_question->>'id', v_answer);
+  END LOOP;
+
+  NEW.answers := v_answers;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_check_answers ON placement_applications;
+CREATE TRIGGER placement_applications_check_answers
+BEFORE INSERT OR UPDATE OF answers ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION check_application_answers();
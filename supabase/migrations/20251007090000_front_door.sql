@@ -0,0 +1,153 @@
+/*
+  # Logins only through the login functions
+
+  1. New Tables
+    - `login_tickets` lets one password or login code check through for a user, for 30
+      seconds. The `admin-auth` and `student-auth` functions issue a ticket right before they
+      ask Supabase Auth to check the password or code, after their own lockout check
+
+  2. Auth Hooks
+    - `hook_password_verification_attempt` rejects password logins without a ticket, so the
+      Auth token endpoint can't be used to guess admin passwords past `login_throttles`
+    - `hook_custom_access_token` refuses sessions for login codes verified without a ticket,
+      with the same message Supabase Auth gives for a wrong code. Refreshed sessions and
+      password logins, which the other hook already checked, are left alone
+    - Both use up the ticket they find
+
+  3. Functions
+    - `start_admin_login` resolves an admin code to its email and issues a ticket for it,
+      replacing `admin_login_email` in the `admin-auth` function
+    - `issue_login_ticket` and `revoke_login_ticket` are used by the `student-auth` function
+    - `check_decoy_password` hashes a password as expensively as Supabase Auth does, so a
+      login with an unknown admin code takes as long as one with a wrong password
+
+  4. Security
+    - The ticket functions are only callable with the service role, the hooks only by
+      Supabase Auth
+*/
+
+CREATE TABLE IF NOT EXISTS login_tickets (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL
+);
+
+ALTER TABLE login_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION issue_login_ticket(p_email text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO login_tickets (user_id, expires_at)
+  SELECT u.id, now() + interval '30 seconds'
+  FROM auth.users u
+  WHERE lower(u.email) = lower(p_email)
+  ON CONFLICT (user_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_login_ticket(p_email text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM login_tickets
+  WHERE user_id IN (SELECT id FROM auth.users WHERE lower(email) = lower(p_email));
+$$;
+
+CREATE OR REPLACE FUNCTION use_login_ticket(p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM login_tickets WHERE user_id = p_user_id AND expires_at > now();
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_admin_login(p_admin_code text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text;
+BEGIN
+  SELECT email INTO v_email FROM admin_users WHERE admin_code = p_admin_code AND is_active;
+
+  IF v_email IS NOT NULL THEN
+    PERFORM issue_login_ticket(v_email);
+  END IF;
+
+  RETURN v_email;
+END;
+$$;
+
+-- Same bcrypt cost as Supabase Auth uses for passwords
+CREATE OR REPLACE FUNCTION check_decoy_password(p_password text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  PERFORM crypt(p_password, gen_salt('bf', 10));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_login_ticket(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revoke_login_ticket(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION use_login_ticket(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION start_admin_login(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_decoy_password(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_login_ticket(text) TO service_role;
+GRANT EXECUTE ON FUNCTION revoke_login_ticket(text) TO service_role;
+GRANT EXECUTE ON FUNCTION start_admin_login(text) TO service_role;
+GRANT EXECUTE ON FUNCTION check_decoy_password(text) TO service_role;
+
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF use_login_ticket((event->>'user_id')::uuid) THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'decision', 'reject',
+    'message', 'Invalid login credentials',
+    'should_logout_user', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION hook_custom_access_token(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF event->>'authentication_method' IN ('otp', 'magiclink')
+    AND NOT use_login_ticket((event->>'user_id')::uuid) THEN
+    RETURN jsonb_build_object('error', jsonb_build_object(
+      'http_code', 403,
+      'message', 'Token has expired or is invalid'
+    ));
+  END IF;
+
+  RETURN jsonb_build_object('claims', event->'claims');
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION hook_custom_access_token(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hook_custom_access_token(jsonb) FROM PUBLIC, anon, authenticated;
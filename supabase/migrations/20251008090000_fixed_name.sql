@@ -0,0 +1,29 @@
+/*
+  # Per-event buckets can't be repointed
+
+  1. Rules
+    - `placement_events.bucket_name` can't be changed once set, so an event can't be pointed
+      at a shared bucket that deleting the event would then wipe
+    - No two events share a bucket
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_placement_events_bucket_name
+ON placement_events (bucket_name) WHERE bucket_name IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION keep_placement_event_bucket()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.bucket_name IS NOT NULL AND NEW.bucket_name IS DISTINCT FROM OLD.bucket_name THEN
+    RAISE EXCEPTION 'An event''s storage bucket can''t be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_events_keep_bucket ON placement_events;
+CREATE TRIGGER placement_events_keep_bucket
+BEFORE UPDATE OF bucket_name ON placement_events
+FOR EACH ROW EXECUTE FUNCTION keep_placement_event_bucket();
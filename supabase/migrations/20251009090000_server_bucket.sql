@@ -0,0 +1,32 @@
+/*
+  # Event buckets are created by the server
+
+  1. Rules
+    - Only the service role sets `placement_events.bucket_name`. The `placement-events`
+      function creates each event's bucket and records its name, so admins can't point an
+      event at a bucket of their choosing when creating it either
+*/
+
+CREATE OR REPLACE FUNCTION keep_placement_event_bucket()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.bucket_name IS NOT NULL AND NEW.bucket_name IS DISTINCT FROM OLD.bucket_name THEN
+    RAISE EXCEPTION 'An event''s storage bucket can''t be changed';
+  END IF;
+
+  -- Service role changes have no signed-in user
+  IF auth.uid() IS NOT NULL AND NEW.bucket_name IS DISTINCT FROM
+    (CASE WHEN TG_OP = 'UPDATE' THEN OLD.bucket_name END) THEN
+    RAISE EXCEPTION 'Event storage buckets are set up when the event is created';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_events_keep_bucket ON placement_events;
+CREATE TRIGGER placement_events_keep_bucket
+BEFORE INSERT OR UPDATE OF bucket_name ON placement_events
+FOR EACH ROW EXECUTE FUNCTION keep_placement_event_bucket();
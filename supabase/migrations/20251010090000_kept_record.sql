@@ -0,0 +1,29 @@
+/*
+  # Students can't delete their applications
+
+  1. Security
+    - "Students manage own applications" allowed every command, so a student could delete
+      their application. That got around the rule against withdrawing once the offer is
+      released, and took the application's offer, interview booking and round results with it
+    - It is replaced by policies for reading, applying and updating. Withdrawing and
+      uploading an offer letter stay updates, which `protect_application_outcome` limits to
+      those changes. Students have no delete policy, applications are only deleted by admins
+*/
+
+DROP POLICY IF EXISTS "Students manage own applications" ON placement_applications;
+DROP POLICY IF EXISTS "Students read own applications" ON placement_applications;
+DROP POLICY IF EXISTS "Students apply to placements" ON placement_applications;
+DROP POLICY IF EXISTS "Students update own applications" ON placement_applications;
+
+CREATE POLICY "Students read own applications" ON placement_applications
+FOR SELECT TO authenticated
+USING (student_id = auth.uid());
+
+CREATE POLICY "Students apply to placements" ON placement_applications
+FOR INSERT TO authenticated
+WITH CHECK (student_id = auth.uid() AND is_approved_student());
+
+CREATE POLICY "Students update own applications" ON placement_applications
+FOR UPDATE TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid());
@@ -0,0 +1,67 @@
+/*
+  # Applications stay on the event they were sent to
+
+  1. Rules
+    - The application window, eligibility and placement policy are checked when a student
+      applies. A student could apply to an event that passed those checks and then move the
+      application to another event by changing `placement_event_id`
+    - Students can no longer change an application's `placement_event_id`, `student_id`,
+      `applied_at` or `admin_notes`. Admins still can
+*/
+
+CREATE OR REPLACE FUNCTION protect_application_outcome()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_admin() THEN
+      NEW.application_status := 'applied';
+      NEW.current_round_id := NULL;
+      NEW.status_reason := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_admin() THEN
+    NEW.current_round_id := OLD.current_round_id;
+    NEW.placement_event_id := OLD.placement_event_id;
+    NEW.student_id := OLD.student_id;
+    NEW.applied_at := OLD.applied_at;
+    NEW.admin_notes := OLD.admin_notes;
+
+    IF NEW.application_status IS DISTINCT FROM OLD.application_status
+      AND NEW.application_status <> 'withdrawn' THEN
+      RAISE EXCEPTION 'Only placement admins can change the status of an application';
+    END IF;
+  END IF;
+
+  IF NEW.application_status IS NOT DISTINCT FROM OLD.application_status THEN
+    NEW.status_reason := OLD.status_reason;
+    NEW.status_changed_at := OLD.status_changed_at;
+    NEW.status_changed_by := OLD.status_changed_by;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.application_status = 'withdrawn' THEN
+    RAISE EXCEPTION 'A withdrawn application can''t be changed';
+  END IF;
+
+  IF NEW.application_status = 'withdrawn' AND OLD.application_status = 'accepted' THEN
+    RAISE EXCEPTION 'An application can''t be withdrawn after the offer is released';
+  END IF;
+
+  IF NEW.application_status = 'withdrawn' AND OLD.application_status = 'rejected' THEN
+    RAISE EXCEPTION 'A rejected application can''t be withdrawn';
+  END IF;
+
+  IF NEW.application_status IN ('rejected', 'withdrawn') AND nullif(trim(NEW.status_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % an application',
+      CASE NEW.application_status WHEN 'rejected' THEN 'reject' ELSE 'withdraw' END;
+  END IF;
+
+  NEW.status_changed_at := now();
+  NEW.status_changed_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,29 @@
+/*
+  # Server-set application times
+
+  1. Rules
+    - The placement policy counts a placed student's dream applications from the time they
+      were placed, by `applied_at`. Students sent `applied_at` with their application, so an
+      old date kept new applications out of the count
+    - `applied_at` is now set by the database when a student applies. Students can't change
+      it afterwards, see `protect_application_outcome`
+*/
+
+ALTER TABLE placement_applications ALTER COLUMN applied_at SET DEFAULT now();
+
+CREATE OR REPLACE FUNCTION stamp_application_time()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    NEW.applied_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_applications_stamp_time ON placement_applications;
+CREATE TRIGGER placement_applications_stamp_time
+BEFORE INSERT ON placement_applications
+FOR EACH ROW EXECUTE FUNCTION stamp_application_time();
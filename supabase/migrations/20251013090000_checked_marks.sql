@@ -0,0 +1,170 @@
+/*
+  # Verified academic records
+
+  1. Changes
+    - `student_profiles.academics_verified_at` and `academics_verified_by` record when and by
+      whom the placement cell checked a student's academic record against their marksheets
+
+  2. Rules
+    - Eligibility checks the class an admin set on `students`, not the one on the student's
+      own profile
+    - An event's academic criteria (percentages, backlogs, 12th stream and graduation year)
+      only pass once the student's academic record is verified. Eligibility overrides still
+      apply
+    - Students can't change a verified academic record, or verify their own. Admins who
+      change a record's academic fields keep it verified
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'academics_verified_at'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN academics_verified_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'student_profiles' AND column_name = 'academics_verified_by'
+  ) THEN
+    ALTER TABLE student_profiles ADD COLUMN academics_verified_by uuid
+      REFERENCES admin_users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION guard_student_academics()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_admin() THEN
+    IF NEW.academics_verified_at IS NOT NULL
+      AND (TG_OP = 'INSERT' OR OLD.academics_verified_at IS NULL) THEN
+      NEW.academics_verified_at := now();
+      NEW.academics_verified_by := auth.uid();
+    ELSIF NEW.academics_verified_at IS NULL THEN
+      NEW.academics_verified_by := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.academics_verified_at := NULL;
+    NEW.academics_verified_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.academics_verified_at := OLD.academics_verified_at;
+  NEW.academics_verified_by := OLD.academics_verified_by;
+
+  IF OLD.academics_verified_at IS NOT NULL AND (
+    NEW.percentage_10th IS DISTINCT FROM OLD.percentage_10th
+    OR NEW.percentage_12th IS DISTINCT FROM OLD.percentage_12th
+    OR NEW.degree_percentage IS DISTINCT FROM OLD.degree_percentage
+    OR NEW.active_backlogs IS DISTINCT FROM OLD.active_backlogs
+    OR NEW.graduation_year IS DISTINCT FROM OLD.graduation_year
+    OR NEW.stream_12th IS DISTINCT FROM OLD.stream_12th
+  ) THEN
+    RAISE EXCEPTION 'Your academic record has been verified, ask the placement cell to correct it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_profiles_guard_academics ON student_profiles;
+CREATE TRIGGER student_profiles_guard_academics
+BEFORE INSERT OR UPDATE ON student_profiles
+FOR EACH ROW EXECUTE FUNCTION guard_student_academics();
+
+CREATE OR REPLACE FUNCTION placement_eligibility_failures(p_event placement_events, p_student_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile student_profiles%ROWTYPE;
+  v_class text;
+  v_criteria jsonb := coalesce(p_event.eligibility_criteria, '{}'::jsonb);
+  v_reasons text[] := '{}';
+  v_min numeric;
+BEGIN
+  SELECT * INTO v_profile FROM student_profiles WHERE student_id = p_student_id;
+  SELECT s.class INTO v_class FROM students s WHERE s.id = p_student_id;
+
+  IF coalesce(array_length(p_event.eligible_classes, 1), 0) > 0
+    AND (v_class IS NULL OR NOT v_class = ANY (p_event.eligible_classes)) THEN
+    v_reasons := v_reasons || format('Open to %s only', array_to_string(p_event.eligible_classes, ', '));
+  END IF;
+
+  -- Academic criteria are only checked against a record the placement cell has verified
+  IF v_profile.academics_verified_at IS NULL AND (
+    v_criteria->>'min_percentage_10th' IS NOT NULL
+    OR v_criteria->>'min_percentage_12th' IS NOT NULL
+    OR v_criteria->>'min_degree_percentage' IS NOT NULL
+    OR v_criteria->>'max_active_backlogs' IS NOT NULL
+    OR jsonb_array_length(coalesce(v_criteria->'streams_12th', '[]'::jsonb)) > 0
+    OR jsonb_array_length(coalesce(v_criteria->'graduation_years', '[]'::jsonb)) > 0
+  ) THEN
+    v_reasons := v_reasons || 'Needs your academic record verified by the placement cell'::text;
+    RETURN v_reasons;
+  END IF;
+
+  v_min := (v_criteria->>'min_percentage_10th')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.percentage_10th IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 10th, add your 10th percentage to your profile', v_min);
+    ELSIF v_profile.percentage_10th < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 10th, you have %s%%', v_min, v_profile.percentage_10th);
+    END IF;
+  END IF;
+
+  v_min := (v_criteria->>'min_percentage_12th')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.percentage_12th IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 12th, add your 12th percentage to your profile', v_min);
+    ELSIF v_profile.percentage_12th < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in 12th, you have %s%%', v_min, v_profile.percentage_12th);
+    END IF;
+  END IF;
+
+  v_min := (v_criteria->>'min_degree_percentage')::numeric;
+  IF v_min IS NOT NULL THEN
+    IF v_profile.degree_percentage IS NULL THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in your degree, add your degree percentage to your profile', v_min);
+    ELSIF v_profile.degree_percentage < v_min THEN
+      v_reasons := v_reasons || format('Needs at least %s%% in your degree, you have %s%%', v_min, v_profile.degree_percentage);
+    END IF;
+  END IF;
+
+  IF v_criteria ? 'max_active_backlogs'
+    AND coalesce(v_profile.active_backlogs, 0) > (v_criteria->>'max_active_backlogs')::integer THEN
+    v_reasons := v_reasons || CASE (v_criteria->>'max_active_backlogs')::integer
+      WHEN 0 THEN format('No active backlogs allowed, you have %s', v_profile.active_backlogs)
+      ELSE format('At most %s active backlogs allowed, you have %s',
+        v_criteria->>'max_active_backlogs', v_profile.active_backlogs)
+    END;
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_criteria->'streams_12th', '[]'::jsonb)) > 0
+    AND NOT coalesce(v_criteria->'streams_12th' ? v_profile.stream_12th, false) THEN
+    v_reasons := v_reasons || format('Open to students from the %s stream in 12th only',
+      (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(v_criteria->'streams_12th')));
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_criteria->'graduation_years', '[]'::jsonb)) > 0
+    AND NOT coalesce(v_criteria->'graduation_years' @> to_jsonb(v_profile.graduation_year), false) THEN
+    v_reasons := v_reasons || CASE
+      WHEN v_profile.graduation_year IS NULL
+        THEN 'Open to specific graduation years, add your graduation year to your profile'
+      ELSE format('Open to the %s graduating batch only',
+        (SELECT string_agg(value, ', ') FROM jsonb_array_elements_text(v_criteria->'graduation_years')))
+    END;
+  END IF;
+
+  RETURN v_reasons;
+END;
+$$;
@@ -0,0 +1,27 @@
+/*
+  # Password functions off the anon role
+
+  1. Security
+    - `verify_admin_password(text, text)` and `change_admin_password(uuid, text, text)` were
+      granted to `anon` and `authenticated`, so anyone could use them to guess an admin's
+      password. Supabase Auth replaced both, but a database that still has them now only
+      lets the service role call them
+    - `change_admin_password(text, text)` kept the default grant to PUBLIC. It is now limited
+      to `authenticated`, the only role it works for
+*/
+
+DO $$
+BEGIN
+  IF to_regprocedure('verify_admin_password(text, text)') IS NOT NULL THEN
+    REVOKE EXECUTE ON FUNCTION verify_admin_password(text, text) FROM PUBLIC, anon, authenticated;
+    GRANT EXECUTE ON FUNCTION verify_admin_password(text, text) TO service_role;
+  END IF;
+
+  IF to_regprocedure('change_admin_password(uuid, text, text)') IS NOT NULL THEN
+    REVOKE EXECUTE ON FUNCTION change_admin_password(uuid, text, text) FROM PUBLIC, anon, authenticated;
+    GRANT EXECUTE ON FUNCTION change_admin_password(uuid, text, text) TO service_role;
+  END IF;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION change_admin_password(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION change_admin_password(text, text) TO authenticated;
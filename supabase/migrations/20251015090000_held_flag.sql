@@ -0,0 +1,90 @@
+/*
+  # Admins can't skip a required password change
+
+  1. Rules
+    - "Admins update own admin record" let an admin clear their own `must_change_password`
+      flag, or set `password_changed_at`, without changing their password
+    - Both are now only changed by `change_admin_password` once the new password is stored,
+      or by the service role. Other changes keep their old values
+*/
+
+CREATE OR REPLACE FUNCTION change_admin_password(p_current_password text, p_new_password text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth, extensions
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change an admin password';
+  END IF;
+
+  IF length(coalesce(p_new_password, '')) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  UPDATE auth.users
+  SET encrypted_password = crypt(p_new_password, gen_salt('bf', 10)),
+      updated_at = now()
+  WHERE id = auth.uid()
+    AND encrypted_password = crypt(p_current_password, encrypted_password);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Lets guard_admin_user_changes accept the cleared flag for the rest of this transaction
+  PERFORM set_config('app.admin_password_changed', 'on', true);
+
+  UPDATE admin_users
+  SET must_change_password = false,
+      password_changed_at = now(),
+      updated_at = now()
+  WHERE id = auth.uid();
+
+  RETURN true;
+END;
+$$;
+
+-- Only admins who manage admins may change roles, class scopes or status
+CREATE OR REPLACE FUNCTION guard_admin_user_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role and SQL editor changes have no signed-in user and are always allowed
+  IF auth.uid() IS NOT NULL AND NOT has_admin_permission('manage_admins') AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.assigned_classes IS DISTINCT FROM OLD.assigned_classes
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.admin_code IS DISTINCT FROM OLD.admin_code
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can change admin roles or status';
+  END IF;
+
+  -- The password change flag is only cleared by change_admin_password or the service role
+  IF auth.uid() IS NOT NULL
+    AND coalesce(current_setting('app.admin_password_changed', true), '') <> 'on' THEN
+    NEW.must_change_password := OLD.must_change_password;
+    NEW.password_changed_at := OLD.password_changed_at;
+  END IF;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    NEW.deactivated_at := CASE WHEN NEW.is_active THEN NULL ELSE now() END;
+  END IF;
+
+  IF OLD.role = 'super_admin' AND OLD.is_active
+    AND (NEW.role <> 'super_admin' OR NOT NEW.is_active)
+    AND NOT EXISTS (
+      SELECT 1 FROM admin_users
+      WHERE role = 'super_admin' AND is_active AND id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'At least one active super admin is required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
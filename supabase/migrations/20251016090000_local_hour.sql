@@ -0,0 +1,85 @@
+/*
+  # Offer deadlines in India time
+
+  1. Changes
+    - The "Offer Received" notification and the expired offer error formatted `expires_at`
+      in the database's time zone, UTC, so a 5:00 PM deadline read as 11:30. Both now show
+      the time in Asia/Kolkata
+*/
+
+CREATE OR REPLACE FUNCTION notify_placement_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id uuid;
+  v_event placement_events%ROWTYPE;
+BEGIN
+  SELECT pa.student_id INTO v_student_id FROM placement_applications pa WHERE pa.id = NEW.application_id;
+  SELECT e.* INTO v_event FROM placement_events e
+  JOIN placement_applications pa ON pa.placement_event_id = e.id
+  WHERE pa.id = NEW.application_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Offer Received',
+      format('%s has offered you the %s role at %s LPA. Respond before %s.',
+        v_event.company_name, NEW.role, NEW.ctc_lpa, to_char(NEW.expires_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI')),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  ELSIF NEW.status = 'revoked' AND OLD.status IS DISTINCT FROM 'revoked' THEN
+    INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+    VALUES (
+      'Offer Revoked',
+      format('Your offer for the %s role at %s has been revoked.', NEW.role, v_event.company_name),
+      'placement', 'student', v_student_id, auth.uid(), true
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Students can't write offers directly, answering one goes through here
+CREATE OR REPLACE FUNCTION respond_to_offer(p_offer_id uuid, p_accept boolean, p_reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer placement_offers%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_offer FROM placement_offers o
+  JOIN placement_applications pa ON pa.id = o.application_id
+  WHERE o.id = p_offer_id AND pa.student_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF v_offer.id IS NULL THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer has already been %', v_offer.status;
+  END IF;
+
+  IF v_offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer expired on %', to_char(v_offer.expires_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI');
+  END IF;
+
+  IF NOT p_accept AND nullif(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to decline an offer';
+  END IF;
+
+  UPDATE placement_offers
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    decline_reason = CASE WHEN p_accept THEN NULL ELSE trim(p_reason) END,
+    responded_at = now()
+  WHERE id = v_offer.id;
+
+  RETURN CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END;
+END;
+$$;
@@ -0,0 +1,218 @@
+/*
+  # Interview times in India time, one booking check per student at a time
+
+  1. Changes
+    - Interview notifications and clash messages formatted slot times in the database's time
+      zone, UTC, so a 10:00 interview read as 04:30. They now show the time in Asia/Kolkata
+
+  2. Rules
+    - Booking a slot locked only that slot, so two bookings for the same student in
+      different slots at the same time could both pass the clash check. Bookings and slot
+      moves now also take a lock on the student until the transaction ends
+*/
+
+-- The interview a student already has that overlaps the given window, if any
+CREATE OR REPLACE FUNCTION find_interview_clash(
+  p_student_id uuid,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_ignore_application_id uuid DEFAULT NULL
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT format('%s interview at %s', e.company_name, to_char(s.starts_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'))
+  FROM interview_bookings b
+  JOIN interview_slots s ON s.id = b.slot_id
+  JOIN placement_events e ON e.id = s.event_id
+  WHERE b.student_id = p_student_id
+    AND b.application_id IS DISTINCT FROM p_ignore_application_id
+    AND tstzrange(s.starts_at, s.ends_at) && tstzrange(p_starts_at, p_ends_at)
+  ORDER BY s.starts_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION check_interview_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_application placement_applications%ROWTYPE;
+  v_clash text;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = NEW.slot_id FOR UPDATE;
+  SELECT * INTO v_application FROM placement_applications WHERE id = NEW.application_id;
+
+  IF v_application.placement_event_id IS DISTINCT FROM v_slot.event_id THEN
+    RAISE EXCEPTION 'The slot belongs to a different event';
+  END IF;
+
+  IF v_application.application_status <> 'shortlisted' THEN
+    RAISE EXCEPTION 'Only shortlisted applicants can be given an interview slot';
+  END IF;
+
+  NEW.student_id := v_application.student_id;
+
+  -- Bookings for the same student wait for each other, so two slots can't both pass the clash check
+  PERFORM pg_advisory_xact_lock(hashtext('interview_booking:' || NEW.student_id::text));
+
+  IF (
+    SELECT count(*) FROM interview_bookings
+    WHERE slot_id = NEW.slot_id AND id IS DISTINCT FROM NEW.id
+  ) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'This interview slot is full';
+  END IF;
+
+  v_clash := find_interview_clash(NEW.student_id, v_slot.starts_at, v_slot.ends_at, NEW.application_id);
+  IF v_clash IS NOT NULL THEN
+    RAISE EXCEPTION 'This slot clashes with the %', v_clash;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slot_id IS DISTINCT FROM OLD.slot_id THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_interview_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_company text;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = NEW.slot_id;
+  SELECT company_name INTO v_company FROM placement_events WHERE id = v_slot.event_id;
+
+  INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+  VALUES (
+    'Interview Scheduled',
+    format('Your %s interview is on %s%s%s.',
+      v_company,
+      to_char(v_slot.starts_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      CASE WHEN v_slot.location IS NOT NULL THEN ' at ' || v_slot.location ELSE '' END,
+      CASE WHEN v_slot.panel IS NOT NULL THEN ' with ' || v_slot.panel ELSE '' END),
+    'placement', 'student', NEW.student_id, auth.uid(), true
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_interview_slot_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking interview_bookings%ROWTYPE;
+  v_clash text;
+  v_booked integer;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the event removes its slots along with everything else
+    IF EXISTS (SELECT 1 FROM interview_bookings WHERE slot_id = OLD.id)
+      AND EXISTS (SELECT 1 FROM placement_events WHERE id = OLD.event_id) THEN
+      RAISE EXCEPTION 'Candidates are booked into this slot, move them to another slot first';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  SELECT count(*) INTO v_booked FROM interview_bookings WHERE slot_id = NEW.id;
+  IF NEW.capacity < v_booked THEN
+    RAISE EXCEPTION '% candidates are already booked into this slot', v_booked;
+  END IF;
+
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at OR NEW.ends_at IS DISTINCT FROM OLD.ends_at THEN
+    FOR v_booking IN SELECT * FROM interview_bookings WHERE slot_id = NEW.id LOOP
+      PERFORM pg_advisory_xact_lock(hashtext('interview_booking:' || v_booking.student_id::text));
+      v_clash := find_interview_clash(v_booking.student_id, NEW.starts_at, NEW.ends_at, v_booking.application_id);
+      IF v_clash IS NOT NULL THEN
+        RAISE EXCEPTION 'Moving this slot would clash with a booked candidate''s %', v_clash;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_interview_slot_moved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company text;
+BEGIN
+  IF NEW.starts_at IS NOT DISTINCT FROM OLD.starts_at AND NEW.location IS NOT DISTINCT FROM OLD.location THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT company_name INTO v_company FROM placement_events WHERE id = NEW.event_id;
+
+  INSERT INTO notifications (title, message, type, target_audience, student_id, created_by, is_active)
+  SELECT
+    'Interview Rescheduled',
+    format('Your %s interview is now on %s%s.',
+      v_company,
+      to_char(NEW.starts_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      CASE WHEN NEW.location IS NOT NULL THEN ' at ' || NEW.location ELSE '' END),
+    'placement', 'student', b.student_id, auth.uid(), true
+  FROM interview_bookings b
+  WHERE b.slot_id = NEW.id;
+
+  UPDATE interview_bookings SET reminder_sent_at = NULL WHERE slot_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_interview_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH due AS (
+    UPDATE interview_bookings b
+    SET reminder_sent_at = now()
+    FROM interview_slots s
+    WHERE s.id = b.slot_id
+      AND b.reminder_sent_at IS NULL
+      AND s.starts_at > now()
+      AND s.starts_at <= now() + interval '24 hours'
+    RETURNING b.student_id, s.event_id, s.starts_at, s.location, s.panel
+  )
+  INSERT INTO notifications (title, message, type, target_audience, student_id, is_active)
+  SELECT
+    'Interview Reminder',
+    format('Your %s interview is on %s%s%s.',
+      e.company_name,
+      to_char(due.starts_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY HH24:MI'),
+      CASE WHEN due.location IS NOT NULL THEN ' at ' || due.location ELSE '' END,
+      CASE WHEN due.panel IS NOT NULL THEN ' with ' || due.panel ELSE '' END),
+    'placement', 'student', due.student_id, true
+  FROM due
+  JOIN placement_events e ON e.id = due.event_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
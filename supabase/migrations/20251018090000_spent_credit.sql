@@ -0,0 +1,16 @@
+/*
+  # Students can't award themselves internship credits
+
+  1. Security
+    - "Students reset own internship approval" only checked that the updated row wasn't
+      approved, so a student could set `credits_awarded` on their own approval. The row must
+      now also be left without credits
+*/
+
+DROP POLICY IF EXISTS "Students reset own internship approval" ON student_internship_approvals;
+
+-- The student screen clears the approval when the offer letter is removed, but can't grant it
+CREATE POLICY "Students reset own internship approval" ON student_internship_approvals
+FOR UPDATE TO authenticated
+USING (student_id = auth.uid())
+WITH CHECK (student_id = auth.uid() AND NOT offer_letter_approved AND NOT credits_awarded);